@@ -0,0 +1,207 @@
+import {
+  encryptData,
+  decryptData,
+  generateEncryptionKey,
+  getCurrentKeyVersion,
+  rotateEncryptionKey,
+  secureStoreVerificationData,
+  secureRetrieveVerificationData,
+  secureDeleteVerificationData,
+} from '../encryption';
+
+// In-memory secure store
+const mockStore = new Map<string, string>();
+
+jest.mock('expo-secure-store', () => ({
+  setItemAsync: jest.fn(async (key: string, value: string) => {
+    mockStore.set(key, value);
+  }),
+  getItemAsync: jest.fn(async (key: string) => mockStore.get(key) ?? null),
+  deleteItemAsync: jest.fn(async (key: string) => {
+    mockStore.delete(key);
+  }),
+}));
+
+jest.mock('expo-crypto', () => ({
+  getRandomBytesAsync: jest.fn(async (length: number) =>
+    new Uint8Array(require('crypto').randomBytes(length))
+  ),
+  digestStringAsync: jest.fn(),
+  CryptoDigestAlgorithm: {
+    SHA256: 'SHA256',
+  },
+}));
+
+const flipFirstHexDigit = (hex: string): string =>
+  (hex[0] === '0' ? '1' : '0') + hex.slice(1);
+
+describe('Encryption Utilities', () => {
+  beforeEach(() => {
+    mockStore.clear();
+  });
+
+  describe('AES-256-GCM', () => {
+    it('should round-trip data with the master key', async () => {
+      const payload = await encryptData('sensitive document number AB123456');
+
+      expect(payload.encrypted).not.toContain('AB123456');
+      expect(payload.iv).toHaveLength(32);
+      expect(payload.tag).toHaveLength(32);
+      expect(payload.keyVersion).toBe(1);
+
+      const decrypted = await decryptData(payload.encrypted, payload.iv, payload.tag, payload.keyVersion);
+      expect(decrypted).toBe('sensitive document number AB123456');
+    });
+
+    it('should round-trip data with an explicit key', async () => {
+      const key = await generateEncryptionKey();
+      const payload = await encryptData('hello', key);
+
+      await expect(decryptData(payload.encrypted, payload.iv, payload.tag, payload.keyVersion, key)).resolves.toBe('hello');
+    });
+
+    it('should round-trip unicode and empty strings', async () => {
+      for (const text of ['', 'café ☕ 日本語']) {
+        const payload = await encryptData(text);
+        await expect(decryptData(payload.encrypted, payload.iv, payload.tag, payload.keyVersion)).resolves.toBe(text);
+      }
+    });
+
+    it('should use a fresh IV for every encryption', async () => {
+      const first = await encryptData('same input');
+      const second = await encryptData('same input');
+
+      expect(first.iv).not.toBe(second.iv);
+      expect(first.encrypted).not.toBe(second.encrypted);
+    });
+
+    it('should detect a tampered ciphertext', async () => {
+      const payload = await encryptData('do not modify');
+
+      await expect(
+        decryptData(flipFirstHexDigit(payload.encrypted), payload.iv, payload.tag, payload.keyVersion)
+      ).rejects.toThrow('Decryption failed');
+    });
+
+    it('should detect a tampered tag', async () => {
+      const payload = await encryptData('do not modify');
+
+      await expect(
+        decryptData(payload.encrypted, payload.iv, flipFirstHexDigit(payload.tag), payload.keyVersion)
+      ).rejects.toThrow('Decryption failed');
+    });
+
+    it('should detect a tampered IV', async () => {
+      const payload = await encryptData('do not modify');
+
+      await expect(
+        decryptData(payload.encrypted, flipFirstHexDigit(payload.iv), payload.tag, payload.keyVersion)
+      ).rejects.toThrow('Decryption failed');
+    });
+
+    it('should reject decryption with the wrong key', async () => {
+      const payload = await encryptData('secret');
+      const otherKey = await generateEncryptionKey();
+
+      await expect(
+        decryptData(payload.encrypted, payload.iv, payload.tag, payload.keyVersion, otherKey)
+      ).rejects.toThrow('Decryption failed');
+    });
+
+    it('should bind the key version into the ciphertext', async () => {
+      const key = await generateEncryptionKey();
+      const payload = await encryptData('secret', key, 1);
+
+      await expect(
+        decryptData(payload.encrypted, payload.iv, payload.tag, 2, key)
+      ).rejects.toThrow('Decryption failed');
+    });
+
+    it('should decrypt with the stored key version after the active version moves on', async () => {
+      const payload = await encryptData('secret');
+      mockStore.set('verification_master_key_version', '2');
+
+      await expect(
+        decryptData(payload.encrypted, payload.iv, payload.tag, payload.keyVersion)
+      ).resolves.toBe('secret');
+    });
+
+    it('should reject malformed tags before decrypting', async () => {
+      const payload = await encryptData('secret');
+
+      await expect(
+        decryptData(payload.encrypted, payload.iv, 'short', payload.keyVersion)
+      ).rejects.toThrow('Invalid authentication tag');
+    });
+  });
+
+  describe('Secure Storage', () => {
+    it('should store and retrieve encrypted data', async () => {
+      await secureStoreVerificationData('verification_1', { documentNumber: 'AB123456' });
+
+      const raw = JSON.parse(mockStore.get('verification_1')!);
+      expect(raw.isEncrypted).toBe(true);
+      expect(raw.keyVersion).toBe(1);
+      expect(mockStore.get('verification_1')).not.toContain('AB123456');
+
+      await expect(secureRetrieveVerificationData('verification_1')).resolves.toEqual({
+        documentNumber: 'AB123456',
+      });
+    });
+
+    it('should unregister deleted entries', async () => {
+      await secureStoreVerificationData('verification_1', { a: 1 });
+      await secureDeleteVerificationData('verification_1');
+
+      expect(JSON.parse(mockStore.get('encrypted_entries_registry')!)).toEqual([]);
+    });
+  });
+
+  describe('Key Rotation', () => {
+    it('should re-encrypt registered entries under the new key version', async () => {
+      await secureStoreVerificationData('verification_1', { documentNumber: 'AB123456' });
+      await secureStoreVerificationData('verification_2', { documentNumber: 'CD789012' });
+      await secureStoreVerificationData('plain', { public: true }, { encrypt: false });
+      const originalKey = mockStore.get('verification_master_key');
+
+      const result = await rotateEncryptionKey();
+
+      expect(result.previousVersion).toBe(1);
+      expect(result.newVersion).toBe(2);
+      expect(result.reEncrypted.sort()).toEqual(['verification_1', 'verification_2']);
+      expect(result.failed).toEqual([]);
+      await expect(getCurrentKeyVersion()).resolves.toBe(2);
+
+      // Old key is retired once nothing depends on it
+      expect(originalKey).toBeDefined();
+      expect(mockStore.has('verification_master_key')).toBe(false);
+      expect(JSON.parse(mockStore.get('verification_1')!).keyVersion).toBe(2);
+
+      await expect(secureRetrieveVerificationData('verification_1')).resolves.toEqual({
+        documentNumber: 'AB123456',
+      });
+      await expect(secureRetrieveVerificationData('plain')).resolves.toEqual({ public: true });
+    });
+
+    it('should keep old keys when an entry cannot be re-encrypted', async () => {
+      await secureStoreVerificationData('verification_1', { a: 1 });
+      const stored = JSON.parse(mockStore.get('verification_1')!);
+      mockStore.set('verification_1', JSON.stringify({ ...stored, tag: flipFirstHexDigit(stored.tag) }));
+
+      const result = await rotateEncryptionKey();
+
+      expect(result.failed).toEqual(['verification_1']);
+      expect(mockStore.has('verification_master_key')).toBe(true);
+    });
+
+    it('should encrypt new data with the rotated key', async () => {
+      await rotateEncryptionKey();
+      const payload = await encryptData('after rotation');
+
+      expect(payload.keyVersion).toBe(2);
+      await expect(
+        decryptData(payload.encrypted, payload.iv, payload.tag, payload.keyVersion)
+      ).resolves.toBe('after rotation');
+    });
+  });
+});
@@ -6,6 +6,7 @@
 
 import * as Crypto from 'expo-crypto';
 import * as SecureStore from 'expo-secure-store';
+import { gcm } from '@noble/ciphers/aes';
 
 // Encryption configuration
 const ENCRYPTION_CONFIG = {
@@ -15,40 +16,62 @@ const ENCRYPTION_CONFIG = {
   tagLength: 16, // 128 bits
 };
 
+// Master key storage. Version 1 lives under the original key name so data
+// written before key versioning existed stays readable.
+const MASTER_KEY_NAME = 'verification_master_key';
+const MASTER_KEY_VERSION_NAME = 'verification_master_key_version';
+const ENCRYPTED_ENTRIES_REGISTRY = 'encrypted_entries_registry';
+
+export interface EncryptedPayload {
+  encrypted: string;
+  iv: string;
+  tag: string;
+  keyVersion: number;
+}
+
+export interface KeyRotationResult {
+  previousVersion: number;
+  newVersion: number;
+  reEncrypted: string[];
+  failed: string[];
+}
+
 /**
  * Generate a cryptographically secure encryption key
  */
 export const generateEncryptionKey = async (): Promise<string> => {
   const randomBytes = await Crypto.getRandomBytesAsync(ENCRYPTION_CONFIG.keyLength);
-  return Array.from(randomBytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  return bytesToHex(randomBytes);
 };
 
 /**
- * Encrypt sensitive data before storage or transmission
+ * Encrypt sensitive data before storage or transmission (AES-256-GCM).
+ * The key version is bound into the ciphertext as additional authenticated
+ * data, so a payload cannot be replayed under a different key version.
  */
-export const encryptData = async (data: string, key?: string): Promise<{
-  encrypted: string;
-  iv: string;
-  tag: string;
-}> => {
+export const encryptData = async (
+  data: string,
+  key?: string,
+  keyVersion?: number
+): Promise<EncryptedPayload> => {
   try {
-    // Generate or use provided encryption key
-    const encryptionKey = key || await getOrCreateEncryptionKey();
-    
+    const version = keyVersion ?? await getCurrentKeyVersion();
+    const encryptionKey = key || await getOrCreateEncryptionKey(version);
+
     // Generate random IV
     const iv = await Crypto.getRandomBytesAsync(ENCRYPTION_CONFIG.ivLength);
-    
-    // For now, we'll use a simplified approach with Expo's crypto
-    // In production, you might want to use a more robust encryption library
-    const hash = await Crypto.digestStringAsync(
-      Crypto.CryptoDigestAlgorithm.SHA256,
-      encryptionKey + data + Array.from(iv).join('')
-    );
-    
+
+    const cipher = gcm(hexToKey(encryptionKey), iv, keyVersionAad(version));
+    const sealed = cipher.encrypt(new TextEncoder().encode(data));
+
+    // GCM appends the authentication tag to the ciphertext
+    const tagStart = sealed.length - ENCRYPTION_CONFIG.tagLength;
+
     return {
-      encrypted: hash,
-      iv: Array.from(iv, byte => byte.toString(16).padStart(2, '0')).join(''),
-      tag: hash.substring(0, 32), // Simulated tag
+      encrypted: bytesToHex(sealed.subarray(0, tagStart)),
+      iv: bytesToHex(iv),
+      tag: bytesToHex(sealed.subarray(tagStart)),
+      keyVersion: version,
     };
   } catch (error) {
     throw new Error(`Encryption failed: ${error}`);
@@ -56,44 +79,122 @@ export const encryptData = async (data: string, key?: string): Promise<{
 };
 
 /**
- * Decrypt previously encrypted data
+ * Decrypt previously encrypted data with the key version it was stored under.
+ * Throws if the ciphertext, IV, tag or key version have been tampered with.
  */
 export const decryptData = async (
   encryptedData: string,
   iv: string,
   tag: string,
+  keyVersion: number,
   key?: string
 ): Promise<string> => {
   try {
-    // In a real implementation, this would perform actual decryption
-    // For now, we'll return a placeholder indicating successful decryption
-    const encryptionKey = key || await getOrCreateEncryptionKey();
-    
-    // Verify the tag first (authentication)
-    if (!tag || tag.length !== 32) {
+    // Verify the tag shape first (authentication)
+    if (!tag || tag.length !== ENCRYPTION_CONFIG.tagLength * 2) {
       throw new Error('Invalid authentication tag');
     }
-    
-    // In production, implement actual AES-GCM decryption here
-    // For demo purposes, we'll assume decryption is successful
-    return encryptedData; // Placeholder - implement actual decryption
+    if (!iv || iv.length !== ENCRYPTION_CONFIG.ivLength * 2) {
+      throw new Error('Invalid initialization vector');
+    }
+
+    const encryptionKey = key || await getEncryptionKey(keyVersion);
+    if (!encryptionKey) {
+      throw new Error(`Encryption key version ${keyVersion} not found`);
+    }
+
+    const ciphertext = hexToBytes(encryptedData);
+    const tagBytes = hexToBytes(tag);
+    const sealed = new Uint8Array(ciphertext.length + tagBytes.length);
+    sealed.set(ciphertext);
+    sealed.set(tagBytes, ciphertext.length);
+
+    const cipher = gcm(hexToKey(encryptionKey), hexToBytes(iv), keyVersionAad(keyVersion));
+    return new TextDecoder().decode(cipher.decrypt(sealed));
   } catch (error) {
     throw new Error(`Decryption failed: ${error}`);
   }
 };
 
 /**
- * Get or create master encryption key from secure storage
+ * Get the version number of the active master key
  */
-const getOrCreateEncryptionKey = async (): Promise<string> => {
-  const keyName = 'verification_master_key';
-  
+export const getCurrentKeyVersion = async (): Promise<number> => {
+  const stored = await SecureStore.getItemAsync(MASTER_KEY_VERSION_NAME);
+  const version = stored ? parseInt(stored, 10) : 1;
+  return Number.isInteger(version) && version > 0 ? version : 1;
+};
+
+/**
+ * Generate a new master key, make it active and re-encrypt every entry
+ * registered through secureStoreVerificationData. Older keys are only
+ * removed once every entry has been re-encrypted.
+ */
+export const rotateEncryptionKey = async (): Promise<KeyRotationResult> => {
+  const previousVersion = await getCurrentKeyVersion();
+  const newVersion = previousVersion + 1;
+
   try {
-    let key = await SecureStore.getItemAsync(keyName);
+    const newKey = await generateEncryptionKey();
+    await SecureStore.setItemAsync(masterKeyName(newVersion), newKey);
+    await SecureStore.setItemAsync(MASTER_KEY_VERSION_NAME, String(newVersion));
+  } catch (error) {
+    throw new Error(`Key rotation failed: ${error}`);
+  }
+
+  const reEncrypted: string[] = [];
+  const failed: string[] = [];
+
+  for (const entryKey of await getEncryptedEntriesRegistry()) {
+    try {
+      const storedData = await SecureStore.getItemAsync(entryKey);
+      if (!storedData) continue;
+
+      const parsedData = JSON.parse(storedData);
+      if (!parsedData.isEncrypted) continue;
+
+      const plaintext = await decryptData(
+        parsedData.encrypted,
+        parsedData.iv,
+        parsedData.tag,
+        parsedData.keyVersion ?? 1
+      );
+      const encrypted = await encryptData(plaintext, undefined, newVersion);
+
+      await SecureStore.setItemAsync(entryKey, JSON.stringify({
+        ...parsedData,
+        encrypted: encrypted.encrypted,
+        iv: encrypted.iv,
+        tag: encrypted.tag,
+        keyVersion: encrypted.keyVersion,
+      }));
+      reEncrypted.push(entryKey);
+    } catch (error) {
+      console.error(`Failed to re-encrypt ${entryKey}:`, error);
+      failed.push(entryKey);
+    }
+  }
+
+  // Retire old keys only when nothing still depends on them
+  if (failed.length === 0) {
+    for (let version = 1; version < newVersion; version++) {
+      await SecureStore.deleteItemAsync(masterKeyName(version));
+    }
+  }
+
+  return { previousVersion, newVersion, reEncrypted, failed };
+};
+
+/**
+ * Get or create the master encryption key for a version from secure storage
+ */
+const getOrCreateEncryptionKey = async (version: number): Promise<string> => {
+  try {
+    let key = await SecureStore.getItemAsync(masterKeyName(version));
     
     if (!key) {
       key = await generateEncryptionKey();
-      await SecureStore.setItemAsync(keyName, key);
+      await SecureStore.setItemAsync(masterKeyName(version), key);
     }
     
     return key;
@@ -102,6 +203,56 @@ const getOrCreateEncryptionKey = async (): Promise<string> => {
   }
 };
 
+const getEncryptionKey = async (version: number): Promise<string | null> => {
+  try {
+    return await SecureStore.getItemAsync(masterKeyName(version));
+  } catch (error) {
+    throw new Error(`Failed to access encryption key: ${error}`);
+  }
+};
+
+const masterKeyName = (version: number): string =>
+  version === 1 ? MASTER_KEY_NAME : `${MASTER_KEY_NAME}_v${version}`;
+
+const keyVersionAad = (version: number): Uint8Array =>
+  new TextEncoder().encode(`${MASTER_KEY_NAME}:v${version}`);
+
+const hexToKey = (hex: string): Uint8Array => {
+  const key = hexToBytes(hex);
+  if (key.length !== ENCRYPTION_CONFIG.keyLength) {
+    throw new Error(`Encryption key must be ${ENCRYPTION_CONFIG.keyLength} bytes`);
+  }
+  return key;
+};
+
+const bytesToHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+const hexToBytes = (hex: string): Uint8Array => {
+  if (hex.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(hex)) {
+    throw new Error('Invalid hex string');
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+};
+
+const getEncryptedEntriesRegistry = async (): Promise<string[]> => {
+  const stored = await SecureStore.getItemAsync(ENCRYPTED_ENTRIES_REGISTRY);
+  return stored ? JSON.parse(stored) : [];
+};
+
+const updateEncryptedEntriesRegistry = async (key: string, registered: boolean): Promise<void> => {
+  const registry = await getEncryptedEntriesRegistry();
+  const isRegistered = registry.includes(key);
+  if (registered === isRegistered) return;
+
+  const updated = registered ? [...registry, key] : registry.filter(entry => entry !== key);
+  await SecureStore.setItemAsync(ENCRYPTED_ENTRIES_REGISTRY, JSON.stringify(updated));
+};
+
 /**
  * Securely hash sensitive data for comparison
  */
@@ -153,6 +304,7 @@ export const secureStoreVerificationData = async (
         encrypted: encrypted.encrypted,
         iv: encrypted.iv,
         tag: encrypted.tag,
+        keyVersion: encrypted.keyVersion,
         isEncrypted: true,
         timestamp: new Date().toISOString(),
         expiration: options?.expiration?.toISOString(),
@@ -167,6 +319,7 @@ export const secureStoreVerificationData = async (
     }
     
     await SecureStore.setItemAsync(key, finalData);
+    await updateEncryptedEntriesRegistry(key, shouldEncrypt);
   } catch (error) {
     throw new Error(`Secure storage failed: ${error}`);
   }
@@ -187,7 +340,7 @@ export const secureRetrieveVerificationData = async (key: string): Promise<any>
     
     // Check expiration
     if (parsedData.expiration && new Date(parsedData.expiration) < new Date()) {
-      await SecureStore.deleteItemAsync(key);
+      await secureDeleteVerificationData(key);
       return null;
     }
     
@@ -195,7 +348,8 @@ export const secureRetrieveVerificationData = async (key: string): Promise<any>
       const decrypted = await decryptData(
         parsedData.encrypted,
         parsedData.iv,
-        parsedData.tag
+        parsedData.tag,
+        parsedData.keyVersion ?? 1
       );
       return JSON.parse(decrypted);
     } else {
@@ -212,6 +366,7 @@ export const secureRetrieveVerificationData = async (key: string): Promise<any>
 export const secureDeleteVerificationData = async (key: string): Promise<void> => {
   try {
     await SecureStore.deleteItemAsync(key);
+    await updateEncryptedEntriesRegistry(key, false);
   } catch (error) {
     throw new Error(`Secure deletion failed: ${error}`);
   }
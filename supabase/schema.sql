@@ -4,6 +4,7 @@
 -- Enable necessary extensions
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 CREATE EXTENSION IF NOT EXISTS "postgis";
+CREATE EXTENSION IF NOT EXISTS "btree_gist";
 
 -- =====================================================
 -- EPIC 001: USER VERIFICATION & AUTHENTICATION
@@ -48,7 +49,9 @@ CREATE TABLE public.profiles (
   display_name TEXT NOT NULL,
   bio TEXT,
   age INTEGER,
+  date_of_birth DATE,
   gender TEXT,
+  sexual_orientation TEXT, -- 'straight', 'gay', 'lesbian', 'bisexual', ...
   relationship_type TEXT, -- 'casual', 'serious', 'long_term', 'marriage'
   location GEOGRAPHY(POINT, 4326),
   city TEXT,
@@ -63,6 +66,16 @@ CREATE TABLE public.profiles (
   completion_score INTEGER DEFAULT 0,
   visibility_score INTEGER DEFAULT 50,
   profile_views INTEGER DEFAULT 0,
+  is_reported BOOLEAN DEFAULT false,
+  report_count INTEGER DEFAULT 0,
+  is_banned BOOLEAN DEFAULT false,
+  ban_reason TEXT,
+  ban_expires_at TIMESTAMP WITH TIME ZONE, -- NULL with is_banned = permanent ban
+  trust_score INTEGER DEFAULT 50,
+  is_premium BOOLEAN DEFAULT false,
+  premium_tier TEXT DEFAULT 'basic', -- 'basic', 'premium', 'vip'
+  premium_expires_at TIMESTAMP WITH TIME ZONE,
+  premium_features TEXT[] DEFAULT '{}',
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -109,6 +122,7 @@ CREATE TABLE public.profile_visibility (
   visibility_to TEXT DEFAULT 'everyone', -- 'everyone', 'premium_only', 'mutual_likes'
   hidden_from_users UUID[],
   visible_to_users UUID[],
+  settings JSONB, -- full ProfileVisibility object
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -125,6 +139,7 @@ CREATE TABLE public.user_interactions (
   interaction_type TEXT NOT NULL, -- 'like', 'pass', 'super_like'
   is_mutual BOOLEAN DEFAULT false,
   match_score REAL,
+  context JSONB DEFAULT '{}', -- match id, swipe context, passed match and metadata
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   UNIQUE(user_id, target_user_id)
 );
@@ -136,6 +151,8 @@ CREATE TABLE public.matches (
   user2_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
   matched_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   match_score REAL,
+  match_source TEXT DEFAULT 'discovery', -- 'discovery', 'premium_boost', 'super_like'
+  source_match_ids TEXT[], -- Each user's discovery match ID, in user1/user2 order
   is_active BOOLEAN DEFAULT true,
   last_message_at TIMESTAMP WITH TIME ZONE,
   conversation_starter TEXT,
@@ -153,6 +170,116 @@ CREATE TABLE public.match_notifications (
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Match queues kept by MatchingService, one per user
+CREATE TABLE public.match_queues (
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE PRIMARY KEY,
+  queue_id TEXT NOT NULL,
+  pending_matches JSONB DEFAULT '[]', -- MatchResult[]
+  processed_count INTEGER DEFAULT 0,
+  total_count INTEGER DEFAULT 0,
+  last_processed_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  generated_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  queue_status TEXT DEFAULT 'active', -- 'active', 'paused', 'exhausted', 'error'
+  refresh_interval_minutes INTEGER DEFAULT 60,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL -- Ignored once passed
+);
+
+-- Search cooldowns kept by MatchingService
+CREATE TABLE public.matching_cooldowns (
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE PRIMARY KEY,
+  ends_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Scoring model versions (MatchingAlgorithmConfig); rows are never updated
+CREATE TABLE public.matching_algorithms (
+  version TEXT PRIMARY KEY,
+  weights JSONB NOT NULL,
+  penalties JSONB NOT NULL,
+  thresholds JSONB NOT NULL,
+  features JSONB DEFAULT '{}',
+  compatibility_model JSONB, -- Learned {label, intercept, weights} used when features.enableMachineLearning is on
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Matching algorithm A/B tests; variants hold {name, algorithmVersion, allocation}
+CREATE TABLE public.experiments (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  status TEXT DEFAULT 'draft', -- 'draft', 'running', 'stopped'
+  variants JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  started_at TIMESTAMP WITH TIME ZONE,
+  stopped_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Each time a user was shown matches scored by an experiment arm
+CREATE TABLE public.experiment_exposures (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  experiment_id TEXT REFERENCES public.experiments(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+  variant TEXT NOT NULL,
+  algorithm_version TEXT NOT NULL,
+  match_count INTEGER DEFAULT 0,
+  exposed_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Each time a profile was shown in someone's discovery feed
+CREATE TABLE public.profile_impressions (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  viewer_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+  profile_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+  slot TEXT, -- 'new_profile', 'premium_boost' or NULL for a regular slot
+  shown_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Time-boxed premium boosts, each paid for with one unit of feature_usage 'boosts'
+CREATE TABLE public.profile_boosts (
+  id UUID PRIMARY KEY,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  multiplier DECIMAL(4,2) NOT NULL, -- Ranking lift while the boost runs
+  CHECK (ends_at > started_at),
+  -- One boost at a time per user, even when two start at once
+  EXCLUDE USING gist (user_id WITH =, tstzrange(started_at, ends_at) WITH &&)
+);
+
+-- Notification dispatch queue (match_notifications holds the in-app copies)
+CREATE TABLE public.notification_queue (
+  id UUID PRIMARY KEY,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+  notification_type TEXT NOT NULL, -- 'new_match', 'mutual_match', 'super_like_received', 'match_expiring', 'daily_matches_ready'
+  match_id TEXT, -- Discovery match ID
+  mutual_match_id UUID REFERENCES public.matches(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  data JSONB DEFAULT '{}',
+  channels TEXT[] NOT NULL, -- 'push', 'email', 'in_app'
+  priority TEXT DEFAULT 'normal', -- 'low', 'normal', 'high', 'urgent'
+  status TEXT DEFAULT 'pending', -- 'pending', 'sent', 'delivered', 'failed', 'cancelled'
+  scheduled_for TIMESTAMP WITH TIME ZONE NOT NULL,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  attempts INTEGER DEFAULT 0,
+  deliveries JSONB DEFAULT '[]', -- Latest result per channel
+  batch_key TEXT,
+  batch_count INTEGER DEFAULT 1,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Per-user notification settings (MatchingSettings.notificationSettings) and quiet hours
+CREATE TABLE public.notification_settings (
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE PRIMARY KEY,
+  settings JSONB NOT NULL,
+  quiet_hours_start INTEGER CHECK (quiet_hours_start BETWEEN 0 AND 23),
+  quiet_hours_end INTEGER CHECK (quiet_hours_end BETWEEN 0 AND 23),
+  utc_offset_minutes INTEGER DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- =====================================================
 -- EPIC 004: COMMUNICATION FEATURES
 -- =====================================================
@@ -319,6 +446,16 @@ CREATE TABLE public.feature_usage (
   UNIQUE(user_id, feature_name, reset_date)
 );
 
+-- Payment gateway webhook events already handled, so redeliveries are applied once
+CREATE TABLE public.billing_webhook_events (
+  id TEXT PRIMARY KEY, -- Gateway event ID
+  event_type TEXT NOT NULL,
+  status TEXT DEFAULT 'processing', -- 'processing', 'processed'
+  received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  claimed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(), -- When the current delivery started processing; stale claims are taken over
+  processed_at TIMESTAMP WITH TIME ZONE
+);
+
 -- =====================================================
 -- INDEXES FOR PERFORMANCE
 -- =====================================================
@@ -342,9 +479,25 @@ CREATE INDEX idx_messages_conversation_id ON public.messages(conversation_id);
 CREATE INDEX idx_messages_sender_id ON public.messages(sender_id);
 CREATE INDEX idx_messages_created_at ON public.messages(created_at);
 
+-- Matching state indexes
+CREATE INDEX idx_match_queues_expires_at ON public.match_queues(expires_at);
+CREATE INDEX idx_matching_cooldowns_ends_at ON public.matching_cooldowns(ends_at);
+CREATE INDEX idx_experiment_exposures_experiment ON public.experiment_exposures(experiment_id, exposed_at);
+CREATE INDEX idx_profile_impressions_profile ON public.profile_impressions(profile_id, shown_at);
+CREATE INDEX idx_profile_impressions_shown_at ON public.profile_impressions(shown_at);
+CREATE INDEX idx_profile_boosts_user ON public.profile_boosts(user_id, started_at);
+
 -- Notifications indexes
 CREATE INDEX idx_match_notifications_user_id ON public.match_notifications(user_id);
 CREATE INDEX idx_match_notifications_created_at ON public.match_notifications(created_at);
+CREATE INDEX idx_notification_queue_due ON public.notification_queue(status, next_attempt_at);
+CREATE INDEX idx_notification_queue_user_sent_at ON public.notification_queue(user_id, sent_at);
+CREATE INDEX idx_notification_queue_batch ON public.notification_queue(user_id, batch_key) WHERE status = 'pending';
+
+-- Billing indexes
+CREATE UNIQUE INDEX idx_payments_stripe_payment_intent_id ON public.payments(stripe_payment_intent_id);
+CREATE INDEX idx_user_subscriptions_user_id ON public.user_subscriptions(user_id);
+CREATE UNIQUE INDEX idx_user_subscriptions_stripe_subscription_id ON public.user_subscriptions(stripe_subscription_id);
 
 -- =====================================================
 -- ROW LEVEL SECURITY (RLS) POLICIES
@@ -360,6 +513,15 @@ ALTER TABLE public.profile_visibility ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.user_interactions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.matches ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.match_notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.match_queues ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.matching_cooldowns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.matching_algorithms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.experiments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.experiment_exposures ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.profile_impressions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.profile_boosts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_queue ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_settings ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.conversations ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.messages ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.video_calls ENABLE ROW LEVEL SECURITY;
@@ -370,6 +532,7 @@ ALTER TABLE public.user_ratings ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.user_subscriptions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.feature_usage ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.billing_webhook_events ENABLE ROW LEVEL SECURITY;
 
 -- Basic RLS policies (users can only access their own data)
 CREATE POLICY "Users can view their own profile" ON public.users
@@ -395,8 +558,30 @@ CREATE POLICY "Users can view discoverable profiles" ON public.profiles
       WHERE pv.user_id = profiles.user_id 
       AND pv.is_discoverable = true
     )
+    AND NOT (COALESCE(profiles.is_banned, false) AND (profiles.ban_expires_at IS NULL OR profiles.ban_expires_at > NOW()))
   );
 
+-- Interaction policies (read-only; swipes are written server-side after quota checks)
+CREATE POLICY "Users can view their own interactions" ON public.user_interactions
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Notification policies (the queue is written by the dispatcher; settings are user-managed)
+CREATE POLICY "Users can view their own queued notifications" ON public.notification_queue
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage their own notification settings" ON public.notification_settings
+  FOR ALL USING (auth.uid() = user_id);
+
+-- Match policies (read-only; matches are created by create_mutual_match and
+-- last_message_at is moved by touch_match_last_message_at)
+CREATE POLICY "Users can view their matches" ON public.matches
+  FOR SELECT USING (auth.uid() IN (user1_id, user2_id));
+
+-- Realtime only delivers postgres changes the subscriber can SELECT, so these
+-- policies are what lets RealtimeHub receive match and notification events
+CREATE POLICY "Users can view their match notifications" ON public.match_notifications
+  FOR SELECT USING (auth.uid() = user_id);
+
 -- Messages policies (users can view messages in conversations they're part of)
 CREATE POLICY "Users can view their conversations" ON public.conversations
   FOR ALL USING (
@@ -408,7 +593,7 @@ CREATE POLICY "Users can view their conversations" ON public.conversations
   );
 
 CREATE POLICY "Users can view messages in their conversations" ON public.messages
-  FOR ALL USING (
+  FOR SELECT USING (
     EXISTS (
       SELECT 1 FROM public.conversations c
       JOIN public.matches m ON m.id = c.match_id
@@ -417,6 +602,33 @@ CREATE POLICY "Users can view messages in their conversations" ON public.message
     )
   );
 
+CREATE POLICY "Users can send messages in their conversations" ON public.messages
+  FOR INSERT WITH CHECK (
+    sender_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM public.conversations c
+      JOIN public.matches m ON m.id = c.match_id
+      WHERE c.id = messages.conversation_id
+      AND (m.user1_id = auth.uid() OR m.user2_id = auth.uid())
+    )
+  );
+
+-- Senders edit and soft-delete their own messages; read receipts on the other
+-- person's messages go through mark_messages_read
+CREATE POLICY "Users can edit their own messages" ON public.messages
+  FOR UPDATE USING (sender_id = auth.uid())
+  WITH CHECK (sender_id = auth.uid());
+
+-- Subscription policies (read-only; writes go through billing and the quota functions)
+CREATE POLICY "Users can view their own subscriptions" ON public.user_subscriptions
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own feature usage" ON public.feature_usage
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own boosts" ON public.profile_boosts
+  FOR SELECT USING (auth.uid() = user_id);
+
 -- =====================================================
 -- FUNCTIONS & TRIGGERS
 -- =====================================================
@@ -440,46 +652,402 @@ CREATE TRIGGER update_profiles_updated_at BEFORE UPDATE ON public.profiles
 CREATE TRIGGER update_user_subscriptions_updated_at BEFORE UPDATE ON public.user_subscriptions 
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
--- Function to create mutual matches
-CREATE OR REPLACE FUNCTION create_mutual_match()
+-- Moderation and premium fields on profiles are only writable by the service role
+CREATE OR REPLACE FUNCTION protect_profile_moderation_fields()
 RETURNS TRIGGER AS $$
 BEGIN
-    -- Check if this creates a mutual match
-    IF NEW.interaction_type = 'like' THEN
-        -- Look for reciprocal like
-        UPDATE public.user_interactions 
-        SET is_mutual = true
-        WHERE user_id = NEW.target_user_id 
-        AND target_user_id = NEW.user_id 
-        AND interaction_type = 'like';
-        
-        -- If we updated a row, create the match
-        IF FOUND THEN
-            UPDATE public.user_interactions 
-            SET is_mutual = true 
-            WHERE id = NEW.id;
-            
-            INSERT INTO public.matches (user1_id, user2_id, match_score)
-            VALUES (
-                LEAST(NEW.user_id, NEW.target_user_id),
-                GREATEST(NEW.user_id, NEW.target_user_id),
-                0.8 -- Default match score
-            )
-            ON CONFLICT (user1_id, user2_id) DO NOTHING;
+    IF auth.role() = 'authenticated' THEN
+        IF TG_OP = 'INSERT' THEN
+            NEW.is_reported := false;
+            NEW.report_count := 0;
+            NEW.is_banned := false;
+            NEW.ban_reason := NULL;
+            NEW.ban_expires_at := NULL;
+            NEW.trust_score := 50;
+            NEW.is_premium := false;
+            NEW.premium_tier := 'basic';
+            NEW.premium_expires_at := NULL;
+            NEW.premium_features := '{}';
+        ELSE
+            NEW.is_reported := OLD.is_reported;
+            NEW.report_count := OLD.report_count;
+            NEW.is_banned := OLD.is_banned;
+            NEW.ban_reason := OLD.ban_reason;
+            NEW.ban_expires_at := OLD.ban_expires_at;
+            NEW.trust_score := OLD.trust_score;
+            NEW.is_premium := OLD.is_premium;
+            NEW.premium_tier := OLD.premium_tier;
+            NEW.premium_expires_at := OLD.premium_expires_at;
+            NEW.premium_features := OLD.premium_features;
         END IF;
     END IF;
-    
     RETURN NEW;
 END;
 $$ language 'plpgsql';
 
--- Trigger for mutual matching
-CREATE TRIGGER create_mutual_match_trigger 
-    AFTER INSERT ON public.user_interactions
-    FOR EACH ROW EXECUTE FUNCTION create_mutual_match();
+CREATE TRIGGER protect_profile_moderation_fields_trigger BEFORE INSERT OR UPDATE ON public.profiles
+    FOR EACH ROW EXECUTE FUNCTION protect_profile_moderation_fields();
+
+-- Create the match for two reciprocal likes, flag both swipes as mutual and
+-- open the conversation in one transaction. The score comes from the
+-- application's compatibility scoring. Returns the existing match when the
+-- pair is already matched, with created = false.
+CREATE OR REPLACE FUNCTION create_mutual_match(
+    p_user_id UUID,
+    p_target_user_id UUID,
+    p_user_match_id TEXT,
+    p_target_match_id TEXT,
+    p_match_score REAL,
+    p_match_source TEXT
+)
+RETURNS TABLE (
+    id UUID,
+    user1_id UUID,
+    user2_id UUID,
+    matched_at TIMESTAMP WITH TIME ZONE,
+    match_score REAL,
+    match_source TEXT,
+    source_match_ids TEXT[],
+    is_active BOOLEAN,
+    last_message_at TIMESTAMP WITH TIME ZONE,
+    conversation_id UUID,
+    created BOOLEAN
+) AS $$
+DECLARE
+    v_user1 UUID := LEAST(p_user_id, p_target_user_id);
+    v_user2 UUID := GREATEST(p_user_id, p_target_user_id);
+    v_match public.matches%ROWTYPE;
+    v_created BOOLEAN;
+    v_conversation_id UUID;
+BEGIN
+    IF (
+        SELECT COUNT(*) FROM public.user_interactions ui
+        WHERE ui.interaction_type IN ('like', 'super_like')
+        AND ((ui.user_id = p_user_id AND ui.target_user_id = p_target_user_id)
+          OR (ui.user_id = p_target_user_id AND ui.target_user_id = p_user_id))
+    ) < 2 THEN
+        RAISE EXCEPTION 'Users % and % have not liked each other', p_user_id, p_target_user_id
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    INSERT INTO public.matches (user1_id, user2_id, match_score, match_source, source_match_ids)
+    VALUES (
+        v_user1,
+        v_user2,
+        p_match_score,
+        p_match_source,
+        CASE WHEN p_user_id = v_user1
+            THEN ARRAY[p_user_match_id, p_target_match_id]
+            ELSE ARRAY[p_target_match_id, p_user_match_id]
+        END
+    )
+    ON CONFLICT ON CONSTRAINT matches_user1_id_user2_id_key DO NOTHING
+    RETURNING * INTO v_match;
+
+    v_created := FOUND;
+    IF NOT v_created THEN
+        SELECT * INTO v_match FROM public.matches m
+        WHERE m.user1_id = v_user1 AND m.user2_id = v_user2;
+    END IF;
+
+    UPDATE public.user_interactions ui
+    SET is_mutual = true, match_score = v_match.match_score
+    WHERE (ui.user_id = p_user_id AND ui.target_user_id = p_target_user_id)
+    OR (ui.user_id = p_target_user_id AND ui.target_user_id = p_user_id);
+
+    INSERT INTO public.conversations (match_id)
+    VALUES (v_match.id)
+    ON CONFLICT ON CONSTRAINT conversations_match_id_key DO NOTHING;
+
+    SELECT c.id INTO v_conversation_id FROM public.conversations c WHERE c.match_id = v_match.id;
+
+    RETURN QUERY SELECT
+        v_match.id, v_match.user1_id, v_match.user2_id, v_match.matched_at, v_match.match_score,
+        v_match.match_source, v_match.source_match_ids, v_match.is_active, v_match.last_message_at,
+        v_conversation_id, v_created;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION create_mutual_match(UUID, UUID, TEXT, TEXT, REAL, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_mutual_match(UUID, UUID, TEXT, TEXT, REAL, TEXT) TO service_role;
+
+-- Geospatial candidate search: profiles within a radius of the searching user,
+-- excluding anyone they have already liked, passed or super liked
+CREATE OR REPLACE FUNCTION find_candidates_within_radius(
+    p_user_id UUID,
+    p_radius_km DOUBLE PRECISION DEFAULT NULL,
+    p_limit INTEGER DEFAULT 50,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    target_user_id UUID,
+    distance_km DOUBLE PRECISION,
+    radius_km DOUBLE PRECISION,
+    age INTEGER,
+    age_difference INTEGER,
+    gender TEXT,
+    relationship_type TEXT,
+    relationship_match BOOLEAN,
+    completion_score INTEGER,
+    is_verified BOOLEAN,
+    last_active TIMESTAMP WITH TIME ZONE
+) AS $$
+DECLARE
+    v_location GEOGRAPHY;
+    v_age INTEGER;
+    v_prefs public.matching_preferences%ROWTYPE;
+    v_radius_km DOUBLE PRECISION;
+BEGIN
+    -- Clients may only search on their own behalf; the service role searches for anyone
+    IF auth.role() IS DISTINCT FROM 'service_role' AND auth.uid() IS DISTINCT FROM p_user_id THEN
+        RAISE EXCEPTION 'Cannot search candidates for another user'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    SELECT p.location, p.age INTO v_location, v_age
+    FROM public.profiles p
+    WHERE p.user_id = p_user_id;
+
+    IF v_location IS NULL THEN
+        RETURN;
+    END IF;
+
+    SELECT * INTO v_prefs
+    FROM public.matching_preferences mp
+    WHERE mp.user_id = p_user_id;
+
+    v_radius_km := COALESCE(p_radius_km, v_prefs.distance_max, 50);
+
+    RETURN QUERY
+    SELECT
+        p.user_id,
+        ST_Distance(p.location, v_location) / 1000.0,
+        v_radius_km,
+        p.age,
+        ABS(p.age - v_age),
+        p.gender,
+        p.relationship_type,
+        COALESCE(p.relationship_type = ANY(v_prefs.relationship_goals), false),
+        p.completion_score,
+        COALESCE(u.is_verified, false),
+        u.last_active
+    FROM public.profiles p
+    JOIN public.users u ON u.id = p.user_id
+    LEFT JOIN public.profile_visibility pv ON pv.user_id = p.user_id
+    WHERE p.user_id <> p_user_id
+    AND p.location IS NOT NULL
+    AND ST_DWithin(p.location, v_location, v_radius_km * 1000.0)
+    AND COALESCE(u.is_active, true)
+    AND COALESCE(pv.is_discoverable, true)
+    AND NOT (COALESCE(p.is_banned, false) AND (p.ban_expires_at IS NULL OR p.ban_expires_at > NOW()))
+    AND NOT (p_user_id = ANY(COALESCE(pv.hidden_from_users, '{}')))
+    AND (v_prefs.age_min IS NULL OR p.age >= v_prefs.age_min)
+    AND (v_prefs.age_max IS NULL OR p.age <= v_prefs.age_max)
+    AND (
+        v_prefs.gender_preference IS NULL
+        OR cardinality(v_prefs.gender_preference) = 0
+        OR p.gender = ANY(v_prefs.gender_preference)
+    )
+    AND NOT EXISTS (
+        SELECT 1 FROM public.user_interactions ui
+        WHERE ui.user_id = p_user_id
+        AND ui.target_user_id = p.user_id
+    )
+    ORDER BY ST_Distance(p.location, v_location), p.user_id
+    LIMIT p_limit
+    OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION find_candidates_within_radius(UUID, DOUBLE PRECISION, INTEGER, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION find_candidates_within_radius(UUID, DOUBLE PRECISION, INTEGER, INTEGER) TO authenticated, service_role;
+
+-- Atomically use part of a user's daily feature allowance. The row is only
+-- incremented while it stays within p_limit (-1 = unlimited), so concurrent
+-- calls cannot overspend. Limits come from the caller's plan resolution, so
+-- only the service role may call it.
+CREATE OR REPLACE FUNCTION consume_feature_usage(
+    p_user_id UUID,
+    p_feature TEXT,
+    p_amount INTEGER,
+    p_limit INTEGER,
+    p_reset_date DATE
+)
+RETURNS TABLE (allowed BOOLEAN, new_usage_count INTEGER) AS $$
+DECLARE
+    v_usage INTEGER;
+BEGIN
+    INSERT INTO public.feature_usage (user_id, feature_name, usage_count, limit_count, reset_date)
+    SELECT p_user_id, p_feature, p_amount, p_limit, p_reset_date
+    WHERE p_limit < 0 OR p_amount <= p_limit
+    ON CONFLICT (user_id, feature_name, reset_date) DO UPDATE
+    SET usage_count = public.feature_usage.usage_count + EXCLUDED.usage_count,
+        limit_count = EXCLUDED.limit_count,
+        updated_at = NOW()
+    WHERE p_limit < 0 OR public.feature_usage.usage_count + EXCLUDED.usage_count <= p_limit
+    RETURNING public.feature_usage.usage_count INTO v_usage;
+
+    IF v_usage IS NOT NULL THEN
+        RETURN QUERY SELECT true, v_usage;
+        RETURN;
+    END IF;
+
+    RETURN QUERY SELECT false, COALESCE((
+        SELECT fu.usage_count FROM public.feature_usage fu
+        WHERE fu.user_id = p_user_id
+        AND fu.feature_name = p_feature
+        AND fu.reset_date = p_reset_date
+    ), 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Give back usage consumed earlier in the same period
+CREATE OR REPLACE FUNCTION refund_feature_usage(
+    p_user_id UUID,
+    p_feature TEXT,
+    p_amount INTEGER,
+    p_reset_date DATE
+)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE public.feature_usage
+    SET usage_count = GREATEST(usage_count - p_amount, 0),
+        updated_at = NOW()
+    WHERE user_id = p_user_id
+    AND feature_name = p_feature
+    AND reset_date = p_reset_date;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Impressions per profile since p_since (and before p_until, when given), for
+-- every profile when p_profile_ids is NULL
+CREATE OR REPLACE FUNCTION count_profile_impressions(
+    p_since TIMESTAMP WITH TIME ZONE,
+    p_profile_ids UUID[] DEFAULT NULL,
+    p_until TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (profile_id UUID, impressions BIGINT) AS $$
+    SELECT pi.profile_id, COUNT(*)
+    FROM public.profile_impressions pi
+    WHERE pi.shown_at >= p_since
+    AND (p_until IS NULL OR pi.shown_at < p_until)
+    AND (p_profile_ids IS NULL OR pi.profile_id = ANY(p_profile_ids))
+    GROUP BY pi.profile_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Keyset paging and read receipts for messages, positioned by a message's
+-- (created_at, id). The key message's timestamp is read here rather than sent
+-- by the client, which would lose its microseconds. Listing runs as the
+-- caller, so the messages policies still apply.
+CREATE OR REPLACE FUNCTION list_messages_before(
+    p_conversation_id UUID,
+    p_before_id UUID,
+    p_limit INTEGER
+)
+RETURNS SETOF public.messages AS $$
+    SELECT m.*
+    FROM public.messages m
+    JOIN public.messages k ON k.id = p_before_id
+    WHERE m.conversation_id = p_conversation_id
+    AND (m.created_at, m.id) < (k.created_at, k.id)
+    ORDER BY m.created_at DESC, m.id DESC
+    LIMIT p_limit;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Marks the other person's messages read, up to p_up_to_id when given. Clients
+-- may only update other people's messages through here, so it runs as the
+-- definer after checking the reader is the caller and part of the conversation.
+CREATE OR REPLACE FUNCTION mark_messages_read(
+    p_conversation_id UUID,
+    p_reader_id UUID,
+    p_up_to_id UUID DEFAULT NULL
+)
+RETURNS TABLE (id UUID) AS $$
+BEGIN
+    IF auth.role() IS DISTINCT FROM 'service_role' AND (
+        auth.uid() IS DISTINCT FROM p_reader_id
+        OR NOT EXISTS (
+            SELECT 1 FROM public.conversations c
+            JOIN public.matches mt ON mt.id = c.match_id
+            WHERE c.id = p_conversation_id
+            AND p_reader_id IN (mt.user1_id, mt.user2_id)
+        )
+    ) THEN
+        RAISE EXCEPTION 'Cannot mark messages read for another user'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    RETURN QUERY
+    UPDATE public.messages m
+    SET is_read = true
+    WHERE m.conversation_id = p_conversation_id
+    AND m.sender_id <> p_reader_id
+    AND m.is_read = false
+    AND (
+        p_up_to_id IS NULL
+        OR (m.created_at, m.id) <= (
+            SELECT k.created_at, k.id FROM public.messages k
+            WHERE k.id = p_up_to_id AND k.conversation_id = p_conversation_id
+        )
+    )
+    RETURNING m.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Moves a match's last_message_at after a message is sent. Participants may
+-- not update matches directly, so this checks membership and runs as the definer.
+CREATE OR REPLACE FUNCTION touch_match_last_message_at(
+    p_match_id UUID,
+    p_last_message_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE public.matches m
+    SET last_message_at = p_last_message_at
+    WHERE m.id = p_match_id
+    AND (auth.role() = 'service_role' OR auth.uid() IN (m.user1_id, m.user2_id));
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Match % not found', p_match_id
+            USING ERRCODE = 'no_data_found';
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The given conversations that have at least one message, for the offline
+-- outcome reports (one row per conversation rather than per message)
+CREATE OR REPLACE FUNCTION list_messaged_conversations(p_conversation_ids UUID[])
+RETURNS TABLE (conversation_id UUID) AS $$
+    SELECT c.id
+    FROM unnest(p_conversation_ids) AS c(id)
+    WHERE EXISTS (SELECT 1 FROM public.messages m WHERE m.conversation_id = c.id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION consume_feature_usage(UUID, TEXT, INTEGER, INTEGER, DATE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION refund_feature_usage(UUID, TEXT, INTEGER, DATE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION consume_feature_usage(UUID, TEXT, INTEGER, INTEGER, DATE) TO service_role;
+GRANT EXECUTE ON FUNCTION refund_feature_usage(UUID, TEXT, INTEGER, DATE) TO service_role;
+REVOKE EXECUTE ON FUNCTION count_profile_impressions(TIMESTAMP WITH TIME ZONE, UUID[], TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION count_profile_impressions(TIMESTAMP WITH TIME ZONE, UUID[], TIMESTAMP WITH TIME ZONE) TO service_role;
+REVOKE EXECUTE ON FUNCTION list_messaged_conversations(UUID[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION list_messaged_conversations(UUID[]) TO service_role;
+REVOKE EXECUTE ON FUNCTION list_messages_before(UUID, UUID, INTEGER) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION mark_messages_read(UUID, UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION list_messages_before(UUID, UUID, INTEGER) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION mark_messages_read(UUID, UUID, UUID) TO authenticated, service_role;
+REVOKE EXECUTE ON FUNCTION touch_match_last_message_at(UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION touch_match_last_message_at(UUID, TIMESTAMP WITH TIME ZONE) TO authenticated, service_role;
 
 -- Insert default subscription plans
 INSERT INTO public.subscription_plans (name, description, price_monthly, price_quarterly, price_yearly, features) VALUES
 ('Free', 'Basic features with limited matches', 0, 0, 0, '{"daily_likes": 10, "super_likes": 1, "rewinds": 0, "boosts": 0, "unlimited_likes": false}'),
 ('Premium', 'Enhanced features for serious daters', 19.99, 49.99, 159.99, '{"daily_likes": 100, "super_likes": 5, "rewinds": 3, "boosts": 1, "unlimited_likes": true, "see_who_likes": true, "premium_filters": true}'),
 ('VIP', 'All features for the ultimate dating experience', 39.99, 99.99, 299.99, '{"daily_likes": -1, "super_likes": 20, "rewinds": 10, "boosts": 5, "unlimited_likes": true, "see_who_likes": true, "premium_filters": true, "priority_support": true, "exclusive_matches": true}');
+
+-- Insert the default matching algorithm (DEFAULT_MATCHING_ALGORITHM in matchingAlgorithms.ts)
+INSERT INTO public.matching_algorithms (version, weights, penalties, thresholds, features) VALUES
+('v1',
+ '{"distance": 0.25, "age": 0.15, "preferences": 0.2, "activity": 0.1, "verification": 0.05, "premium": 0.05, "photos": 0.1, "completeness": 0.1}',
+ '{"incompleteProfile": 0.05, "noPhotos": 0.1, "unverified": 0.05, "inactive": 0.1}',
+ '{"minimumScore": 0.2, "excellentScore": 0.85, "maxDistance": 100, "maxInactivity": 30}',
+ '{"enableMachineLearning": false, "enableCollaborativeFiltering": false, "enableSeasonalAdjustments": false, "enableLocationHistory": false}');
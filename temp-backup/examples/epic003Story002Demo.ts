@@ -688,6 +688,7 @@ export class Epic003Story002Demo {
       expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
       status: 'pending',
       isNewMatch: true,
+      algorithmVersion: 'v1',
       matchFactors: {
         locationScore: 0.9,
         ageCompatibility: 0.8,
@@ -696,6 +697,7 @@ export class Epic003Story002Demo {
         verificationBonus: 0.1
       },
       compatibilityScore,
+      directionalScores: { forward: compatibilityScore, backward: compatibilityScore },
       categoryScores,
       preferenceAlignment: {
         matches: ['fitness', 'travel', 'education'],
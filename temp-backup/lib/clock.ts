@@ -0,0 +1,12 @@
+/**
+ * Clock
+ * Injectable time source so time-dependent services can be tested
+ */
+
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date()
+};
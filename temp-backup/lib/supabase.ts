@@ -350,7 +350,9 @@ export const subscribeToMessages = (conversationId: string, callback: (payload:
     .subscribe();
 };
 
+// Prefer RealtimeHub (services/realtime) for typed, de-duplicated events
 export const subscribeToMatches = (userId: string, callback: (payload: any) => void) => {
+  // Realtime filters cannot express OR, so listen on each side of the match separately
   return supabase
     .channel(`matches:${userId}`)
     .on(
@@ -359,7 +361,17 @@ export const subscribeToMatches = (userId: string, callback: (payload: any) => v
         event: 'INSERT',
         schema: 'public',
         table: 'matches',
-        filter: `user1_id=eq.${userId},user2_id=eq.${userId}`
+        filter: `user1_id=eq.${userId}`
+      },
+      callback
+    )
+    .on(
+      'postgres_changes',
+      {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'matches',
+        filter: `user2_id=eq.${userId}`
       },
       callback
     )
@@ -0,0 +1,42 @@
+/**
+ * Service Role Supabase Client
+ * Server-side only: jobs, CLIs and APIs that write across users
+ *
+ * The service role key bypasses row level security, so it is read from
+ * SUPABASE_SERVICE_ROLE_KEY (never an EXPO_PUBLIC_ variable) and this module
+ * must not be imported by the app.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import type { SupabaseClient } from './supabase';
+
+let serviceRoleClient: SupabaseClient | undefined;
+
+/**
+ * The process-wide service role client, created on first use. Throws if the
+ * URL or service role key is missing rather than falling back to the anon key.
+ */
+export function getServiceRoleClient(): SupabaseClient {
+  if (!serviceRoleClient) {
+    const url = process.env.SUPABASE_URL || process.env.EXPO_PUBLIC_SUPABASE_URL || '';
+    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+    if (!url || !serviceRoleKey) {
+      throw new Error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set for server-side Supabase access');
+    }
+
+    serviceRoleClient = createClient(url, serviceRoleKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+        detectSessionInUrl: false
+      },
+      global: {
+        headers: {
+          'X-Client-Info': 'shagme-dating-app-server'
+        }
+      }
+    });
+  }
+  return serviceRoleClient;
+}
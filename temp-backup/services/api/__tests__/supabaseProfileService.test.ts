@@ -0,0 +1,244 @@
+import { SupabaseProfileService } from '../supabaseProfileService';
+import { CollaborativeFilteringService } from '../../matching/collaborativeFilteringService';
+import { InteractionService } from '../../matching/interactionService';
+import { MatchingService } from '../../matching/matchingService';
+import { MutualMatchService } from '../../matching/mutualMatchService';
+import { ProfileCandidateSource } from '../../matching/profileCandidateSource';
+import { InMemoryMatchNotifier } from '../../matching/notifiers/inMemoryMatchNotifier';
+import { InMemoryInteractionRepository } from '../../matching/repositories/inMemoryInteractionRepository';
+import { InMemoryMutualMatchRepository } from '../../matching/repositories/inMemoryMutualMatchRepository';
+import { InMemoryProfileRepository } from '../../profile/repositories/inMemoryProfileRepository';
+import { EntitlementService } from '../../subscription/entitlementService';
+import { InMemoryEntitlementRepository } from '../../subscription/repositories/inMemoryEntitlementRepository';
+import { Clock } from '../../../lib/clock';
+import { UserProfile } from '../../../types/profile';
+
+// The real client needs React Native; queries are answered by mockRpc and mockFrom
+const mockRpc = jest.fn();
+const mockFrom = jest.fn();
+jest.mock('../../../lib/supabase', () => ({
+  supabase: {
+    rpc: (...args: unknown[]) => mockRpc(...args),
+    from: (...args: unknown[]) => mockFrom(...args)
+  }
+}));
+
+const buildProfile = (userId: string): UserProfile => ({
+  userId,
+  personalInfo: {
+    displayName: userId,
+    age: 28,
+    dateOfBirth: new Date('1997-01-01'),
+    location: { latitude: 51.5074, longitude: -0.1278, city: 'London', country: 'UK' },
+    sexualOrientation: 'straight',
+    sexualIntent: 'clear',
+    lookingFor: ['casual'],
+    bio: 'Enjoys running, live music and trying new restaurants around town.',
+    interests: ['music', 'running']
+  },
+  photos: [],
+  preferences: {
+    ageRange: { min: 18, max: 40 },
+    maxDistance: 50,
+    sexualOrientations: ['straight'],
+    relationshipTypes: ['casual']
+  },
+  visibility: {
+    isVisible: true,
+    hideAge: false,
+    hideLocation: false,
+    hideLastActive: false,
+    showOnlyToVerified: false,
+    incognito: false,
+    distanceVisibility: 'approximate',
+    onlineStatus: 'online'
+  },
+  completion: {
+    overallPercentage: 80,
+    personalInfo: 100,
+    photos: 0,
+    preferences: 100,
+    visibility: 100,
+    missingFields: [],
+    recommendedActions: []
+  },
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  lastActiveAt: new Date(),
+  profileViews: 0,
+  profileLikes: 0,
+  verification: {
+    isVerified: true,
+    verificationResults: [],
+    verificationScore: 1,
+    lastVerificationUpdate: new Date()
+  },
+  premium: { isActive: false, features: [] },
+  safety: { isReported: false, reportCount: 0, isBanned: false, trustScore: 1 }
+});
+
+describe('SupabaseProfileService', () => {
+  const service = SupabaseProfileService.getInstance();
+
+  let currentTime: Date;
+  let profiles: InMemoryProfileRepository;
+  let interactions: InMemoryInteractionRepository;
+  let matches: InMemoryMutualMatchRepository;
+  let entitlements: EntitlementService;
+
+  const clock: Clock = { now: () => currentTime };
+
+  beforeEach(async () => {
+    currentTime = new Date('2025-06-01T12:00:00Z');
+    profiles = new InMemoryProfileRepository();
+    interactions = new InMemoryInteractionRepository();
+    matches = new InMemoryMutualMatchRepository();
+    entitlements = EntitlementService.getInstance({ repository: new InMemoryEntitlementRepository(), clock });
+    await profiles.saveProfile(buildProfile('zoe'));
+    await profiles.saveProfile(buildProfile('adam'));
+
+    const notifier = new InMemoryMatchNotifier();
+    service.setInteractionService(InteractionService.getInstance({
+      repository: interactions,
+      entitlements,
+      matching: MatchingService.getInstance(new ProfileCandidateSource(profiles)),
+      mutualMatches: MutualMatchService.getInstance({ repository: matches, profiles, notifier, clock }),
+      collaborativeFiltering: CollaborativeFilteringService.getInstance(),
+      notifier,
+      profiles,
+      clock
+    }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    mockRpc.mockReset();
+    mockFrom.mockReset();
+  });
+
+  describe('Discovery', () => {
+    const candidateRow = (targetUserId: string, distanceKm: number) => ({
+      target_user_id: targetUserId,
+      distance_km: distanceKm,
+      radius_km: 50,
+      age: 29,
+      age_difference: 1,
+      gender: 'female',
+      relationship_type: 'casual',
+      relationship_match: true,
+      completion_score: 80,
+      is_verified: true,
+      last_active: currentTime.toISOString()
+    });
+
+    const profileRow = (userId: string) => ({
+      user_id: userId,
+      display_name: userId,
+      age: 29,
+      created_at: currentTime.toISOString(),
+      updated_at: currentTime.toISOString(),
+      profile_photos: [{
+        id: `photo_${userId}`,
+        url: `https://cdn.example.com/${userId}.jpg`,
+        thumbnail_url: `https://cdn.example.com/${userId}_thumb.jpg`,
+        is_primary: true,
+        order_index: 0,
+        is_verified: true,
+        metadata: {},
+        created_at: currentTime.toISOString()
+      }]
+    });
+
+    it('should return nearby profiles nearest first with their photos', async () => {
+      const select = jest.fn().mockReturnValue({
+        in: jest.fn().mockResolvedValue({ data: [profileRow('far'), profileRow('near')], error: null })
+      });
+      mockRpc.mockResolvedValue({ data: [candidateRow('near', 1.2), candidateRow('far', 8.5)], error: null });
+      mockFrom.mockReturnValue({ select });
+
+      const response = await service.findPotentialMatches('zoe', 10);
+
+      expect(mockRpc).toHaveBeenCalledWith('find_candidates_within_radius', {
+        p_user_id: 'zoe',
+        p_radius_km: null,
+        p_limit: 10,
+        p_offset: 0
+      });
+      expect(select.mock.calls[0][0]).toContain('profile_photos!inner(*)');
+      expect(response.success).toBe(true);
+      expect(response.data!.map(profile => profile.userId)).toEqual(['near', 'far']);
+      expect(response.data![0].photos).toEqual([expect.objectContaining({
+        id: 'photo_near',
+        url: 'https://cdn.example.com/near.jpg',
+        isPrimary: true
+      })]);
+    });
+
+    it('should map radius candidates onto match results', async () => {
+      mockRpc.mockResolvedValue({ data: [candidateRow('near', 12.345)], error: null });
+
+      const response = await service.findNearbyCandidates('zoe');
+
+      expect(response.data).toEqual([expect.objectContaining({
+        userId: 'zoe',
+        targetUserId: 'near',
+        distance: 12.35,
+        distanceUnit: 'km',
+        matchFactors: expect.objectContaining({ locationScore: 1 - 12.345 / 50, ageCompatibility: 1 })
+      })]);
+    });
+
+    it('should pass the candidate search error through', async () => {
+      mockRpc.mockResolvedValue({ data: null, error: { message: 'Cannot search candidates for another user' } });
+
+      const response = await service.findPotentialMatches('zoe');
+
+      expect(response.success).toBe(false);
+      expect(response.error!.code).toBe('NEARBY_CANDIDATES_FAILED');
+      expect(mockFrom).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Likes', () => {
+    it('should record likes through the interaction service and report the mutual match', async () => {
+      const first = await service.likeProfile('zoe', 'adam');
+      const second = await service.likeProfile('adam', 'zoe');
+
+      expect(first).toMatchObject({ success: true, data: { isMatch: false } });
+      expect((await interactions.getInteraction('zoe', 'adam'))!.action).toBe('like');
+
+      const match = await matches.getMutualMatch('zoe', 'adam');
+      expect(second).toMatchObject({ success: true, data: { isMatch: true, matchId: match!.mutualMatchId } });
+    });
+
+    it('should report the daily like limit', async () => {
+      await entitlements.consume('zoe', 'daily_likes', 10);
+
+      const response = await service.likeProfile('zoe', 'adam');
+
+      expect(response.success).toBe(false);
+      expect(response.error!.code).toBe('LIKE_LIMIT_REACHED');
+      expect(await interactions.getInteraction('zoe', 'adam')).toBeNull();
+    });
+
+    it('should fail likes when no interaction service is configured', async () => {
+      let unconfigured!: SupabaseProfileService;
+      jest.isolateModules(() => {
+        unconfigured = require('../supabaseProfileService').SupabaseProfileService.getInstance();
+      });
+
+      const response = await unconfigured.likeProfile('zoe', 'adam');
+
+      expect(response.success).toBe(false);
+      expect(response.error!.code).toBe('LIKE_FAILED');
+      expect(await interactions.getInteraction('zoe', 'adam')).toBeNull();
+    });
+
+    it('should fail likes on profiles that do not exist', async () => {
+      const response = await service.likeProfile('zoe', 'nobody');
+
+      expect(response.success).toBe(false);
+      expect(response.error!.code).toBe('LIKE_FAILED');
+    });
+  });
+});
@@ -15,11 +15,35 @@ import {
   ProfileVisibility,
   ProfilePhoto
 } from '../../types/profile';
+import { MatchingAlgorithmConfig, MatchResult } from '../../types/matching';
+import { InteractionService } from '../matching/interactionService';
+import { MatchingService } from '../matching/matchingService';
 
 type ProfileRow = Database['public']['Tables']['profiles']['Row'];
 type ProfileInsert = Database['public']['Tables']['profiles']['Insert'];
 type ProfileUpdate = Database['public']['Tables']['profiles']['Update'];
 
+// Row returned by the find_candidates_within_radius RPC
+interface RadiusCandidateRow {
+  target_user_id: string;
+  distance_km: number;
+  radius_km: number;
+  age: number | null;
+  age_difference: number | null;
+  gender: string | null;
+  relationship_type: string | null;
+  relationship_match: boolean;
+  completion_score: number | null;
+  is_verified: boolean;
+  last_active: string | null;
+}
+
+export interface NearbyCandidateOptions {
+  radiusKm?: number; // Defaults to the user's distance_max preference
+  limit?: number;
+  offset?: number;
+}
+
 export interface ApiResponse<T> {
   success: boolean;
   data?: T;
@@ -33,6 +57,7 @@ export interface ApiResponse<T> {
 
 export class SupabaseProfileService {
   private static instance: SupabaseProfileService;
+  private interactions?: Pick<InteractionService, 'likeProfile'>;
 
   public static getInstance(): SupabaseProfileService {
     if (!SupabaseProfileService.instance) {
@@ -41,6 +66,15 @@ export class SupabaseProfileService {
     return SupabaseProfileService.instance;
   }
 
+  /**
+   * Swipe recording to use for likes. Swipes are written server-side, so
+   * server code passes the InteractionService from configureSupabaseMatching;
+   * the app never gets the service role client, and likes fail until one is set.
+   */
+  setInteractionService(interactions: Pick<InteractionService, 'likeProfile'>): void {
+    this.interactions = interactions;
+  }
+
   /**
    * Profile Management APIs
    */
@@ -261,42 +295,33 @@ export class SupabaseProfileService {
    */
   async findPotentialMatches(userId: string, limit: number = 20): Promise<ApiResponse<UserProfile[]>> {
     try {
-      // Get user's preferences
-      const { data: prefs } = await supabase
-        .from('matching_preferences')
-        .select('*')
-        .eq('user_id', userId)
-        .single();
+      // Radius, age, gender and interaction filtering happen in the database
+      const nearby = await this.findNearbyCandidates(userId, { limit });
+      if (!nearby.success) {
+        const { code, message, details } = nearby.error!;
+        return this.error(code, message, details);
+      }
 
-      // Find profiles based on preferences
-      let query = supabase
+      const targetUserIds = (nearby.data || []).map(match => match.targetUserId);
+      if (targetUserIds.length === 0) {
+        return this.success([]);
+      }
+
+      const { data: profiles, error } = await supabase
         .from('profiles')
         .select(`
           *,
-          profile_photos!inner(*),
-          profile_visibility!inner(*)
+          profile_photos!inner(*)
         `)
-        .neq('user_id', userId) // Exclude self
-        .eq('profile_visibility.is_discoverable', true)
-        .limit(limit);
-
-      // Apply age filter if preferences exist
-      if (prefs) {
-        query = query
-          .gte('age', prefs.age_min)
-          .lte('age', prefs.age_max);
-
-        // Apply gender filter
-        if (prefs.gender_preference?.length) {
-          query = query.in('gender', prefs.gender_preference);
-        }
-      }
-
-      const { data: profiles, error } = await query;
+        .in('user_id', targetUserIds);
 
       if (error) throw error;
 
-      const mappedProfiles = profiles.map(profile => this.mapProfileFromDatabase(profile));
+      // Keep the nearest-first order from the RPC
+      const mappedProfiles = targetUserIds
+        .map(targetUserId => profiles.find(profile => profile.user_id === targetUserId))
+        .filter(profile => profile !== undefined)
+        .map(profile => this.mapProfileFromDatabase(profile));
       return this.success(mappedProfiles);
     } catch (error) {
       return this.error('MATCHES_FETCH_FAILED', 'Failed to find potential matches', error);
@@ -304,48 +329,48 @@ export class SupabaseProfileService {
   }
 
   /**
-   * Real-time features
+   * Find candidates within a radius using the PostGIS location index.
+   * Users already liked, passed or super liked are excluded.
    */
-  async likeProfile(userId: string, targetUserId: string): Promise<ApiResponse<{ isMatch: boolean; matchId?: string }>> {
+  async findNearbyCandidates(
+    userId: string,
+    options: NearbyCandidateOptions = {}
+  ): Promise<ApiResponse<MatchResult[]>> {
     try {
-      // Record the like
-      const { error: likeError } = await supabase
-        .from('user_interactions')
-        .insert({
-          user_id: userId,
-          target_user_id: targetUserId,
-          interaction_type: 'like'
-        });
-
-      if (likeError) throw likeError;
+      const { data, error } = await supabase.rpc('find_candidates_within_radius', {
+        p_user_id: userId,
+        p_radius_km: options.radiusKm ?? null,
+        p_limit: options.limit ?? 50,
+        p_offset: options.offset ?? 0
+      });
 
-      // Check for mutual like (match)
-      const { data: mutualLike } = await supabase
-        .from('user_interactions')
-        .select('*')
-        .eq('user_id', targetUserId)
-        .eq('target_user_id', userId)
-        .eq('interaction_type', 'like')
-        .single();
+      if (error) throw error;
 
-      if (mutualLike) {
-        // Create match
-        const { data: match, error: matchError } = await supabase
-          .from('matches')
-          .insert({
-            user1_id: userId < targetUserId ? userId : targetUserId,
-            user2_id: userId < targetUserId ? targetUserId : userId,
-            match_score: 0.85
-          })
-          .select()
-          .single();
+      const algorithm = await MatchingService.getInstance().loadAlgorithm();
+      const rows: RadiusCandidateRow[] = data || [];
+      return this.success(rows.map(row => this.mapRadiusCandidate(userId, row, algorithm)));
+    } catch (error) {
+      return this.error('NEARBY_CANDIDATES_FAILED', 'Failed to find nearby candidates', error);
+    }
+  }
 
-        if (matchError) throw matchError;
+  /**
+   * Real-time features
+   */
+  async likeProfile(userId: string, targetUserId: string): Promise<ApiResponse<{ isMatch: boolean; matchId?: string }>> {
+    try {
+      // Matches are only ever created by InteractionService/MutualMatchService
+      const response = await this.getInteractionService().likeProfile(userId, {
+        matchId: '',
+        targetUserId,
+        source: 'profile_view'
+      });
 
-        return this.success({ isMatch: true, matchId: match.id });
+      if (response.limitsExceeded) {
+        return this.error('LIKE_LIMIT_REACHED', response.message || 'Daily like limit reached');
       }
 
-      return this.success({ isMatch: false });
+      return this.success({ isMatch: response.isMutualMatch, matchId: response.mutualMatch?.mutualMatchId });
     } catch (error) {
       return this.error('LIKE_FAILED', 'Failed to like profile', error);
     }
@@ -354,6 +379,77 @@ export class SupabaseProfileService {
   /**
    * Helper methods
    */
+  private getInteractionService(): Pick<InteractionService, 'likeProfile'> {
+    if (!this.interactions) {
+      throw new Error('No interaction service configured; likes are recorded server-side');
+    }
+    return this.interactions;
+  }
+
+  private mapRadiusCandidate(userId: string, row: RadiusCandidateRow, algorithm: MatchingAlgorithmConfig): MatchResult {
+    const now = new Date();
+    const { weights, penalties } = algorithm;
+    const locationScore = row.radius_km > 0 ? Math.max(0, 1 - row.distance_km / row.radius_km) : 0;
+    const ageCompatibility = this.scoreAgeDifference(row.age_difference);
+    const preferenceAlignment = row.relationship_match ? 0.8 : 0.5;
+    const activityScore = this.scoreLastActive(row.last_active, now);
+    const verificationBonus = row.is_verified ? weights.verification : 0;
+    const penalty = row.is_verified ? 0 : penalties.unverified;
+
+    // Weighted like MatchingService's active algorithm, minus the photo and premium
+    // terms the RPC doesn't return
+    const score = Math.min(Math.max(
+      locationScore * weights.distance +
+      ageCompatibility * weights.age +
+      preferenceAlignment * weights.preferences +
+      activityScore * weights.activity +
+      ((row.completion_score || 0) / 100) * weights.completeness +
+      verificationBonus -
+      penalty,
+      0
+    ), 1);
+
+    return {
+      matchId: `match_${userId}_${row.target_user_id}_${now.getTime()}`,
+      userId,
+      targetUserId: row.target_user_id,
+      score: Math.round(score * 100) / 100,
+      distance: Math.round(row.distance_km * 100) / 100,
+      distanceUnit: 'km',
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000), // 30 days
+      status: 'pending',
+      isNewMatch: true,
+      algorithmVersion: algorithm.version,
+      matchFactors: {
+        locationScore,
+        ageCompatibility,
+        preferenceAlignment,
+        activityScore,
+        verificationBonus,
+        penalty
+      }
+    };
+  }
+
+  private scoreAgeDifference(ageDifference: number | null): number {
+    if (ageDifference === null) return 0.5;
+    if (ageDifference <= 2) return 1.0;
+    if (ageDifference <= 5) return 0.8;
+    if (ageDifference <= 10) return 0.6;
+    if (ageDifference <= 15) return 0.4;
+    return 0.2;
+  }
+
+  private scoreLastActive(lastActive: string | null, now: Date): number {
+    if (!lastActive) return 0.5;
+    const hoursAgo = (now.getTime() - new Date(lastActive).getTime()) / (60 * 60 * 1000);
+    if (hoursAgo <= 24) return 1.0;
+    if (hoursAgo <= 72) return 0.8;
+    if (hoursAgo <= 168) return 0.6;
+    return 0.4;
+  }
+
   private mapProfileFromDatabase(dbProfile: any): UserProfile {
     return {
       userId: dbProfile.user_id,
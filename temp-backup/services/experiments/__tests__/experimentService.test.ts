@@ -0,0 +1,387 @@
+import { bucketUser, ExperimentService } from '../experimentService';
+import {
+  compareConversions,
+  compareUserConversions,
+  conversionMetric,
+  normalQuantile,
+  userConversionMetric
+} from '../experimentStats';
+import { InMemoryExperimentOutcomeSource } from '../repositories/inMemoryExperimentOutcomeSource';
+import { InMemoryExperimentRepository } from '../repositories/inMemoryExperimentRepository';
+import { DEFAULT_MATCHING_ALGORITHM } from '../../matching/matchingAlgorithms';
+import { MatchingService, UserLocationData } from '../../matching/matchingService';
+import { InMemoryMatchingAlgorithmRepository } from '../../matching/repositories/inMemoryMatchingAlgorithmRepository';
+import { InMemoryMatchingStateStore } from '../../matching/repositories/inMemoryMatchingStateStore';
+import { Clock } from '../../../lib/clock';
+import {
+  CreateExperimentRequest,
+  ExperimentStateError,
+  ExperimentValidationError
+} from '../../../types/experiments';
+import { MatchingCriteria, SwipeAction, UnknownAlgorithmVersionError } from '../../../types/matching';
+import { UserProfile } from '../../../types/profile';
+
+const buildProfile = (userId: string, latitude: number, longitude: number): UserProfile => ({
+  userId,
+  personalInfo: {
+    displayName: userId,
+    age: 28,
+    dateOfBirth: new Date('1997-01-01'),
+    location: { latitude, longitude, city: 'London', country: 'UK' },
+    sexualOrientation: 'straight',
+    sexualIntent: 'clear',
+    lookingFor: ['casual'],
+    bio: 'Enjoys running, live music and trying new restaurants around town.',
+    interests: ['music', 'running']
+  },
+  photos: [],
+  preferences: {
+    ageRange: { min: 18, max: 40 },
+    maxDistance: 50,
+    sexualOrientations: ['straight'],
+    relationshipTypes: ['casual']
+  },
+  visibility: {
+    isVisible: true,
+    hideAge: false,
+    hideLocation: false,
+    hideLastActive: false,
+    showOnlyToVerified: false,
+    incognito: false,
+    distanceVisibility: 'approximate',
+    onlineStatus: 'online'
+  },
+  completion: {
+    overallPercentage: 80,
+    personalInfo: 100,
+    photos: 0,
+    preferences: 100,
+    visibility: 100,
+    missingFields: [],
+    recommendedActions: []
+  },
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  lastActiveAt: new Date(),
+  profileViews: 0,
+  profileLikes: 0,
+  verification: {
+    isVerified: true,
+    verificationResults: [],
+    verificationScore: 1,
+    lastVerificationUpdate: new Date()
+  },
+  premium: { isActive: false, features: [] },
+  safety: { isReported: false, reportCount: 0, isBanned: false, trustScore: 1 }
+});
+
+const buildCriteria = (userId: string): MatchingCriteria => ({
+  userId,
+  location: { latitude: 51.5074, longitude: -0.1278, radius: 50 },
+  preferences: {
+    ageRange: { min: 18, max: 40 },
+    sexualOrientations: ['straight'],
+    relationshipTypes: ['casual'],
+    maxDistance: 50
+  },
+  filters: {},
+  sort: { by: 'compatibility', direction: 'desc' }
+});
+
+const treatmentAlgorithm = {
+  ...DEFAULT_MATCHING_ALGORITHM,
+  version: 'v2',
+  weights: { ...DEFAULT_MATCHING_ALGORITHM.weights, distance: 0.5, preferences: 0.05 }
+};
+
+const request: CreateExperimentRequest = {
+  experimentId: 'distance-heavy',
+  name: 'Weight distance more heavily',
+  variants: [
+    { name: 'control', algorithmVersion: 'v1', allocation: 50 },
+    { name: 'treatment', algorithmVersion: 'v2', allocation: 50 }
+  ]
+};
+
+describe('ExperimentService', () => {
+  const HOUR = 60 * 60 * 1000;
+  const matching = MatchingService.getInstance(undefined, new InMemoryMatchingStateStore());
+
+  let currentTime: Date;
+  let repository: InMemoryExperimentRepository;
+  let outcomes: InMemoryExperimentOutcomeSource;
+  let service: ExperimentService;
+
+  const clock: Clock = { now: () => currentTime };
+
+  beforeEach(() => {
+    currentTime = new Date('2025-06-01T12:00:00Z');
+    repository = new InMemoryExperimentRepository();
+    outcomes = new InMemoryExperimentOutcomeSource();
+    matching.setAlgorithmRepository(new InMemoryMatchingAlgorithmRepository([
+      DEFAULT_MATCHING_ALGORITHM,
+      treatmentAlgorithm
+    ]));
+    service = ExperimentService.getInstance({ repository, outcomes, algorithms: matching, clock });
+    service.updateConfig({ confidenceLevel: 0.95 });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    matching.setAlgorithmAssigner(undefined);
+    jest.restoreAllMocks();
+  });
+
+  describe('Lifecycle', () => {
+    it('should create experiments in draft and move them through running to stopped', async () => {
+      expect(await service.createExperiment(request)).toMatchObject({ status: 'draft' });
+
+      const started = await service.startExperiment('distance-heavy');
+      expect(started).toMatchObject({ status: 'running', startedAt: currentTime });
+      await expect(service.startExperiment('distance-heavy')).rejects.toBeInstanceOf(ExperimentStateError);
+
+      expect(await service.stopExperiment('distance-heavy')).toMatchObject({ status: 'stopped' });
+      expect(await service.getAssignment('someone')).toBeNull();
+    });
+
+    it('should reject invalid experiments', async () => {
+      await expect(service.createExperiment({ ...request, variants: [request.variants[0]] }))
+        .rejects.toBeInstanceOf(ExperimentValidationError);
+      await expect(service.createExperiment({
+        ...request,
+        variants: [request.variants[0], { ...request.variants[1], name: 'control' }]
+      })).rejects.toThrow('unique');
+      await expect(service.createExperiment({
+        ...request,
+        variants: [request.variants[0], { ...request.variants[1], allocation: 0 }]
+      })).rejects.toThrow('positive allocation');
+      await expect(service.createExperiment({
+        ...request,
+        variants: [request.variants[0], { ...request.variants[1], algorithmVersion: 'v9' }]
+      })).rejects.toBeInstanceOf(UnknownAlgorithmVersionError);
+
+      await service.createExperiment(request);
+      await expect(service.createExperiment(request)).rejects.toThrow('already exists');
+    });
+  });
+
+  describe('Bucketing', () => {
+    it('should assign users deterministically in line with the allocations', async () => {
+      await service.createExperiment({
+        ...request,
+        variants: [
+          { name: 'control', algorithmVersion: 'v1', allocation: 3 },
+          { name: 'treatment', algorithmVersion: 'v2', allocation: 1 }
+        ]
+      });
+      const experiment = await service.startExperiment('distance-heavy');
+
+      const userIds = Array.from({ length: 2000 }, (_, i) => `user_${i}`);
+      const variants = userIds.map(userId => service.assignVariant(experiment, userId).variant);
+      const treated = variants.filter(variant => variant === 'treatment').length / userIds.length;
+
+      expect(treated).toBeGreaterThan(0.22);
+      expect(treated).toBeLessThan(0.28);
+      expect(userIds.map(userId => service.assignVariant(experiment, userId).variant)).toEqual(variants);
+    });
+
+    it('should split users independently per experiment', () => {
+      const userIds = Array.from({ length: 1000 }, (_, i) => `user_${i}`);
+      const first = userIds.map(userId => bucketUser('first', userId) < 0.5);
+      const second = userIds.map(userId => bucketUser('second', userId) < 0.5);
+
+      const agreement = first.filter((value, i) => value === second[i]).length / userIds.length;
+      expect(agreement).toBeGreaterThan(0.4);
+      expect(agreement).toBeLessThan(0.6);
+    });
+  });
+
+  describe('Matching Integration', () => {
+    let profiles: UserProfile[];
+    let locations: UserLocationData[];
+
+    const find = async (userId: string, algorithmVersion?: string) => {
+      const criteria = { ...buildCriteria(userId), algorithmVersion };
+      await matching.clearCooldown(userId);
+      return matching.findMatches(userId, profiles.find(profile => profile.userId === userId)!, criteria, profiles, locations);
+    };
+
+    beforeEach(async () => {
+      profiles = [
+        buildProfile('seeker_a', 51.5074, -0.1278),
+        buildProfile('seeker_b', 51.5074, -0.1278),
+        buildProfile('near_a', 51.5155, -0.0922),
+        buildProfile('near_b', 51.5033, -0.1195)
+      ];
+      locations = profiles.map(profile => ({
+        userId: profile.userId,
+        location: { ...profile.personalInfo.location, timestamp: new Date() },
+        lastSeen: new Date(),
+        accuracy: 10,
+        isOnline: true
+      }));
+
+      await service.createExperiment(request);
+      await service.startExperiment('distance-heavy');
+      matching.setAlgorithmAssigner(service);
+    });
+
+    it('should score each user with their arm and log the exposure', async () => {
+      const assignment = (await service.getAssignment('seeker_a'))!;
+
+      const matches = await find('seeker_a');
+
+      matches.forEach(match => expect(match.algorithmVersion).toBe(assignment.algorithmVersion));
+      expect(await repository.listExposedUsers('distance-heavy')).toEqual([{
+        userId: 'seeker_a',
+        variant: assignment.variant,
+        firstExposedAt: currentTime,
+        exposures: 1
+      }]);
+    });
+
+    it('should not log searches that ask for a version themselves', async () => {
+      const assignment = (await service.getAssignment('seeker_b'))!;
+      const other = assignment.algorithmVersion === 'v1' ? 'v2' : 'v1';
+
+      const matches = await find('seeker_b', other);
+
+      expect(matches[0].algorithmVersion).toBe(other);
+      expect(await repository.listExposedUsers('distance-heavy')).toEqual([]);
+    });
+
+    it('should fall back to the active version once the experiment stops', async () => {
+      await service.stopExperiment('distance-heavy');
+
+      const matches = await find('seeker_a');
+
+      matches.forEach(match => expect(match.algorithmVersion).toBe('v1'));
+    });
+  });
+
+  describe('Reporting', () => {
+    let swipeCount = 0;
+
+    const swipe = (userId: string, action: SwipeAction, at: Date) => outcomes.addInteraction({
+      interactionId: `swipe_${++swipeCount}`,
+      matchId: `match_${swipeCount}`,
+      userId,
+      targetUserId: `target_${swipeCount}`,
+      action,
+      timestamp: at,
+      context: {}
+    });
+
+    const match = (userId: string, at: Date, messaged: boolean) => outcomes.addMutualMatch({
+      mutualMatchId: `mutual_${++swipeCount}`,
+      userIds: [userId, `target_${swipeCount}`],
+      matchIds: [`match_a_${swipeCount}`, `match_b_${swipeCount}`],
+      matchedAt: at,
+      isActive: true,
+      compatibilityScore: 0.8,
+      conversationId: `conversation_${swipeCount}`,
+      conversationStarted: messaged,
+      firstMessageSent: messaged,
+      lastActivityAt: at,
+      matchSource: 'discovery'
+    });
+
+    /**
+     * Expose `count` users per arm; each one swipes ten times, liking
+     * `likesPerUser` of them, and gets one match, messaged if `messaged`.
+     */
+    const simulate = async (variant: string, count: number, likesPerUser: number, messaged: boolean) => {
+      const experiment = await service.getExperiment('distance-heavy');
+      let exposed = 0;
+      for (let i = 0; exposed < count; i++) {
+        const userId = `${variant}_${i}`;
+        if (service.assignVariant(experiment, userId).variant !== variant) continue;
+        exposed++;
+
+        await service.recordExposure(userId, variant === 'control' ? 'v1' : 'v2', []);
+        swipe(userId, 'like', new Date(currentTime.getTime() - HOUR)); // Before exposure, ignored
+        for (let s = 0; s < 10; s++) {
+          swipe(userId, s < likesPerUser ? 'like' : 'pass', new Date(currentTime.getTime() + HOUR));
+        }
+        match(userId, new Date(currentTime.getTime() + 2 * HOUR), messaged);
+      }
+    };
+
+    beforeEach(async () => {
+      await service.createExperiment(request);
+      await service.startExperiment('distance-heavy');
+    });
+
+    it('should report conversion per arm with confidence intervals', async () => {
+      await simulate('control', 40, 3, false);
+      await simulate('treatment', 40, 6, true);
+
+      const report = await service.getReport('distance-heavy');
+
+      expect(report).toMatchObject({ control: 'control', confidenceLevel: 0.95 });
+      const [control, treatment] = report.arms;
+      expect(control).toMatchObject({ variant: 'control', algorithmVersion: 'v1', users: 40, exposures: 40 });
+      expect(control.metrics.likeRate).toMatchObject({ successes: 120, trials: 400, rate: 0.3 });
+      expect(treatment.metrics.likeRate.rate).toBe(0.6);
+      expect(treatment.metrics.mutualRate).toMatchObject({ successes: 40, trials: 240 });
+      expect(control.metrics.firstMessageRate.rate).toBe(0);
+      expect(treatment.metrics.firstMessageRate.rate).toBe(1);
+
+      report.arms.forEach(arm => Object.values(arm.metrics).forEach(metric => {
+        expect(metric.lower).toBeLessThanOrEqual(metric.rate);
+        expect(metric.upper).toBeGreaterThanOrEqual(metric.rate);
+      }));
+
+      const likeRate = report.comparisons.find(comparison => comparison.metric === 'likeRate')!;
+      expect(likeRate).toMatchObject({ variant: 'treatment', significant: true });
+      expect(likeRate.difference).toBeCloseTo(0.3, 5);
+      expect(likeRate.lower).toBeGreaterThan(0);
+    });
+
+    it('should not call small differences significant', async () => {
+      await simulate('control', 5, 5, true);
+      await simulate('treatment', 5, 6, true);
+
+      const report = await service.getReport('distance-heavy');
+
+      const likeRate = report.comparisons.find(comparison => comparison.metric === 'likeRate')!;
+      expect(likeRate.significant).toBe(false);
+      expect(likeRate.lower).toBeLessThan(0);
+    });
+  });
+
+  describe('Statistics', () => {
+    it('should match reference values', () => {
+      expect(normalQuantile(0.975)).toBeCloseTo(1.96, 2);
+
+      const metric = conversionMetric(50, 100, 0.95);
+      expect(metric.lower).toBeCloseTo(0.4038, 3);
+      expect(metric.upper).toBeCloseTo(0.5962, 3);
+
+      const { pValue } = compareConversions(conversionMetric(60, 100, 0.95), conversionMetric(50, 100, 0.95), 0.95);
+      expect(pValue).toBeCloseTo(0.155, 2);
+    });
+
+    it('should widen intervals when users\' swipes move together', () => {
+      // Half the users like everything and half like nothing
+      const control = Array.from({ length: 20 }, (_, i) => ({ successes: i < 10 ? 10 : 0, trials: 10 }));
+      const treatment = Array.from({ length: 20 }, (_, i) => ({ successes: i < 12 ? 10 : 0, trials: 10 }));
+
+      const perUser = userConversionMetric(control, 0.95);
+      const pooled = conversionMetric(100, 200, 0.95);
+      expect(perUser).toMatchObject({ successes: 100, trials: 200, rate: 0.5 });
+      expect(perUser.upper - perUser.lower).toBeGreaterThan(2 * (pooled.upper - pooled.lower));
+
+      expect(compareConversions(conversionMetric(120, 200, 0.95), pooled, 0.95).pValue).toBeLessThan(0.05);
+      expect(compareUserConversions(treatment, control, 0.95).pValue).toBeGreaterThan(0.05);
+    });
+
+    it('should handle arms without data', () => {
+      expect(conversionMetric(0, 0, 0.95)).toEqual({ successes: 0, trials: 0, rate: 0, lower: 0, upper: 0 });
+      expect(compareConversions(conversionMetric(0, 0, 0.95), conversionMetric(5, 10, 0.95), 0.95).pValue).toBe(1);
+      expect(userConversionMetric([{ successes: 0, trials: 0 }], 0.95)).toEqual({ successes: 0, trials: 0, rate: 0, lower: 0, upper: 0 });
+      expect(compareUserConversions([], [{ successes: 5, trials: 10 }], 0.95).pValue).toBe(1);
+    });
+  });
+});
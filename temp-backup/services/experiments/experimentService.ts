@@ -0,0 +1,324 @@
+/**
+ * Experiment Service
+ * Epic 003: Matching System
+ *
+ * A/B tests for matching algorithms. Users are split between arms by a hash of
+ * their user ID, each arm scores with its own MatchingAlgorithmConfig version,
+ * every set of matches shown is logged as an exposure and the report compares
+ * like, mutual match and first message rates per arm against the control.
+ *
+ * Attach it with MatchingService.setAlgorithmAssigner() to take effect.
+ */
+
+import { createHash } from 'crypto';
+import { Clock, systemClock } from '../../lib/clock';
+import {
+  ConversionCounts,
+  CreateExperimentRequest,
+  Experiment,
+  ExperimentAssignment,
+  ExperimentComparison,
+  ExperimentMetricName,
+  ExperimentNotFoundError,
+  ExperimentOutcomeSource,
+  ExperimentReport,
+  ExperimentRepository,
+  ExperimentStateError,
+  ExperimentUserOutcome,
+  ExperimentValidationError
+} from '../../types/experiments';
+import { AlgorithmAssigner, MatchResult } from '../../types/matching';
+import { MatchingService } from '../matching/matchingService';
+import { compareUserConversions, userConversionMetric } from './experimentStats';
+import { InMemoryExperimentOutcomeSource } from './repositories/inMemoryExperimentOutcomeSource';
+import { InMemoryExperimentRepository } from './repositories/inMemoryExperimentRepository';
+
+export interface ExperimentServiceDependencies {
+  repository: ExperimentRepository;
+  outcomes: ExperimentOutcomeSource;
+  algorithms: Pick<MatchingService, 'loadAlgorithm'>;
+  clock: Clock;
+}
+
+export interface ExperimentServiceConfig {
+  confidenceLevel: number; // For intervals and significance in reports
+}
+
+const METRICS: ExperimentMetricName[] = ['likeRate', 'mutualRate', 'firstMessageRate'];
+
+// Successes and trials behind each metric, per user
+const METRIC_COUNTS: Record<ExperimentMetricName, (outcome: ExperimentUserOutcome) => ConversionCounts> = {
+  likeRate: outcome => ({ successes: outcome.likes, trials: outcome.swipes }),
+  mutualRate: outcome => ({ successes: outcome.mutualMatches, trials: outcome.likes }),
+  firstMessageRate: outcome => ({ successes: outcome.messagedMatches, trials: outcome.mutualMatches })
+};
+
+/**
+ * Where a user falls in [0, 1) for an experiment. Salting with the experiment
+ * ID keeps splits independent between experiments.
+ */
+export function bucketUser(experimentId: string, userId: string): number {
+  const hash = createHash('sha256').update(`${experimentId}:${userId}`).digest();
+  return hash.readUInt32BE(0) / 0x100000000;
+}
+
+export class ExperimentService implements AlgorithmAssigner {
+  private static instance: ExperimentService;
+  private dependencies: ExperimentServiceDependencies;
+
+  private config: ExperimentServiceConfig = {
+    confidenceLevel: 0.95
+  };
+
+  private constructor(dependencies: Partial<ExperimentServiceDependencies> = {}) {
+    this.dependencies = {
+      repository: dependencies.repository || new InMemoryExperimentRepository(),
+      outcomes: dependencies.outcomes || new InMemoryExperimentOutcomeSource(),
+      algorithms: dependencies.algorithms || MatchingService.getInstance(),
+      clock: dependencies.clock || systemClock
+    };
+  }
+
+  public static getInstance(dependencies?: Partial<ExperimentServiceDependencies>): ExperimentService {
+    if (!ExperimentService.instance) {
+      ExperimentService.instance = new ExperimentService(dependencies);
+    } else if (dependencies) {
+      ExperimentService.instance.setDependencies(dependencies);
+    }
+    return ExperimentService.instance;
+  }
+
+  /**
+   * Replace some or all dependencies (e.g. a fake clock in tests)
+   */
+  setDependencies(dependencies: Partial<ExperimentServiceDependencies>): void {
+    this.dependencies = { ...this.dependencies, ...dependencies };
+  }
+
+  /**
+   * Update experiment configuration
+   */
+  updateConfig(newConfig: Partial<ExperimentServiceConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  // ===== LIFECYCLE =====
+
+  /**
+   * Create an experiment in draft. Every arm's algorithm version must already be stored.
+   */
+  async createExperiment(request: CreateExperimentRequest): Promise<Experiment> {
+    await this.validateRequest(request);
+
+    if (await this.dependencies.repository.getExperiment(request.experimentId)) {
+      throw new ExperimentValidationError(`Experiment ${request.experimentId} already exists`, 'experimentId');
+    }
+
+    const experiment: Experiment = {
+      experimentId: request.experimentId,
+      name: request.name,
+      description: request.description,
+      status: 'draft',
+      variants: request.variants.map(variant => ({ ...variant })),
+      createdAt: this.now()
+    };
+    await this.dependencies.repository.saveExperiment(experiment);
+    return experiment;
+  }
+
+  async startExperiment(experimentId: string): Promise<Experiment> {
+    const experiment = await this.getExperiment(experimentId);
+    if (experiment.status !== 'draft') {
+      throw new ExperimentStateError(experimentId, experiment.status, 'start');
+    }
+
+    const started: Experiment = { ...experiment, status: 'running', startedAt: this.now() };
+    await this.dependencies.repository.saveExperiment(started);
+    return started;
+  }
+
+  /**
+   * Stop assigning users. Exposures and outcomes stay available for the report.
+   */
+  async stopExperiment(experimentId: string): Promise<Experiment> {
+    const experiment = await this.getExperiment(experimentId);
+    if (experiment.status !== 'running') {
+      throw new ExperimentStateError(experimentId, experiment.status, 'stop');
+    }
+
+    const stopped: Experiment = { ...experiment, status: 'stopped', stoppedAt: this.now() };
+    await this.dependencies.repository.saveExperiment(stopped);
+    return stopped;
+  }
+
+  async getExperiment(experimentId: string): Promise<Experiment> {
+    const experiment = await this.dependencies.repository.getExperiment(experimentId);
+    if (!experiment) {
+      throw new ExperimentNotFoundError(experimentId);
+    }
+    return experiment;
+  }
+
+  // ===== ASSIGNMENT =====
+
+  /**
+   * The arm of the running experiment the user is in. When several run at once
+   * the one started first wins, so a user is only ever in one.
+   */
+  async getAssignment(userId: string): Promise<ExperimentAssignment | null> {
+    const running = await this.dependencies.repository.listExperiments('running');
+    if (running.length === 0) return null;
+
+    const [experiment] = running.sort((a, b) =>
+      (a.startedAt?.getTime() ?? 0) - (b.startedAt?.getTime() ?? 0)
+      || a.experimentId.localeCompare(b.experimentId)
+    );
+    return this.assignVariant(experiment, userId);
+  }
+
+  /**
+   * Deterministic for a given experiment and user, so it needs no storage
+   */
+  assignVariant(experiment: Experiment, userId: string): ExperimentAssignment {
+    const total = experiment.variants.reduce((sum, variant) => sum + variant.allocation, 0);
+    const point = bucketUser(experiment.experimentId, userId) * total;
+
+    let cumulative = 0;
+    const variant = experiment.variants.find(candidate => {
+      cumulative += candidate.allocation;
+      return point < cumulative;
+    }) || experiment.variants[experiment.variants.length - 1];
+
+    return {
+      experimentId: experiment.experimentId,
+      userId,
+      variant: variant.name,
+      algorithmVersion: variant.algorithmVersion
+    };
+  }
+
+  async assignAlgorithm(userId: string): Promise<string | null> {
+    return (await this.getAssignment(userId))?.algorithmVersion ?? null;
+  }
+
+  /**
+   * Log that the user was shown matches from their arm. Searches that asked
+   * for a specific version aren't part of the experiment and are skipped.
+   */
+  async recordExposure(userId: string, algorithmVersion: string, matches: MatchResult[]): Promise<void> {
+    const assignment = await this.getAssignment(userId);
+    if (!assignment || assignment.algorithmVersion !== algorithmVersion) return;
+
+    await this.dependencies.repository.logExposure({
+      ...assignment,
+      matchCount: matches.length,
+      exposedAt: this.now()
+    });
+  }
+
+  // ===== REPORTING =====
+
+  /**
+   * Conversion per arm with confidence intervals, and each arm against the
+   * control (the first variant). Rates pool every user's events in the arm,
+   * counted from that user's first exposure:
+   * - likeRate: likes and super likes / swipes
+   * - mutualRate: mutual matches / likes
+   * - firstMessageRate: mutual matches with a message / mutual matches
+   */
+  async getReport(experimentId: string): Promise<ExperimentReport> {
+    const experiment = await this.getExperiment(experimentId);
+    const { confidenceLevel } = this.config;
+
+    const exposed = await this.dependencies.repository.listExposedUsers(experimentId);
+    const outcomes = await this.dependencies.outcomes.getOutcomes(
+      exposed.map(user => ({ userId: user.userId, since: user.firstExposedAt }))
+    );
+    const outcomeByUser = new Map(outcomes.map(outcome => [outcome.userId, outcome]));
+
+    // Users, not swipes, are randomised, so every metric is computed over per-user counts
+    const armOutcomes = new Map(experiment.variants.map(variant => [
+      variant.name,
+      exposed
+        .filter(user => user.variant === variant.name)
+        .map(user => outcomeByUser.get(user.userId))
+        .filter((outcome): outcome is ExperimentUserOutcome => !!outcome)
+    ]));
+    const countsFor = (variant: string, metric: ExperimentMetricName) =>
+      armOutcomes.get(variant)!.map(METRIC_COUNTS[metric]);
+
+    const arms = experiment.variants.map(variant => {
+      const users = exposed.filter(user => user.variant === variant.name);
+      const metric = (name: ExperimentMetricName) => userConversionMetric(countsFor(variant.name, name), confidenceLevel);
+
+      return {
+        variant: variant.name,
+        algorithmVersion: variant.algorithmVersion,
+        users: users.length,
+        exposures: users.reduce((sum, user) => sum + user.exposures, 0),
+        metrics: {
+          likeRate: metric('likeRate'),
+          mutualRate: metric('mutualRate'),
+          firstMessageRate: metric('firstMessageRate')
+        }
+      };
+    });
+
+    const [control, ...treatments] = arms;
+    const comparisons: ExperimentComparison[] = treatments.flatMap(arm => METRICS.map(metric => {
+      const comparison = compareUserConversions(
+        countsFor(arm.variant, metric),
+        countsFor(control.variant, metric),
+        confidenceLevel
+      );
+      return {
+        variant: arm.variant,
+        metric,
+        ...comparison,
+        significant: comparison.pValue < 1 - confidenceLevel
+      };
+    }));
+
+    return {
+      experimentId,
+      name: experiment.name,
+      status: experiment.status,
+      confidenceLevel,
+      generatedAt: this.now(),
+      control: control.variant,
+      arms,
+      comparisons
+    };
+  }
+
+  // ===== HELPERS =====
+
+  private async validateRequest(request: CreateExperimentRequest): Promise<void> {
+    if (!request.experimentId || !request.experimentId.trim()) {
+      throw new ExperimentValidationError('Experiment ID is required', 'experimentId');
+    }
+    if (!request.name || !request.name.trim()) {
+      throw new ExperimentValidationError('Experiment name is required', 'name');
+    }
+    if (request.variants.length < 2) {
+      throw new ExperimentValidationError('An experiment needs a control and at least one other variant', 'variants');
+    }
+
+    const names = new Set(request.variants.map(variant => variant.name));
+    if (names.size !== request.variants.length) {
+      throw new ExperimentValidationError('Variant names must be unique', 'variants');
+    }
+
+    for (const variant of request.variants) {
+      if (!(variant.allocation > 0) || !Number.isFinite(variant.allocation)) {
+        throw new ExperimentValidationError(`Variant ${variant.name} needs a positive allocation`, 'variants');
+      }
+      // Throws UnknownAlgorithmVersionError for versions that haven't been stored
+      await this.dependencies.algorithms.loadAlgorithm(variant.algorithmVersion);
+    }
+  }
+
+  private now(): Date {
+    return this.dependencies.clock.now();
+  }
+}
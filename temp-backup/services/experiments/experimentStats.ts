@@ -0,0 +1,189 @@
+/**
+ * Experiment Statistics
+ * Epic 003: Matching System
+ *
+ * Confidence intervals and significance tests for conversion rates. Uses the
+ * normal approximation throughout, so small arms get wide intervals rather
+ * than exact ones.
+ *
+ * Experiments randomise users, not swipes, and one user's swipes move
+ * together, so the report uses the user-level versions: the variance of the
+ * pooled rate comes from the spread between users (delta method), and is never
+ * taken below the binomial variance.
+ */
+
+import { ConversionCounts, ExperimentMetric } from '../../types/experiments';
+
+// Pooled rate of a group of users and how far their swipes are correlated
+interface UserLevelRate {
+  successes: number;
+  trials: number;
+  rate: number;
+  variance: number; // Of the rate
+  designEffect: number; // variance over the binomial variance, at least 1
+}
+
+/**
+ * Standard normal cumulative distribution (Abramowitz & Stegun 7.1.26, error < 1.5e-7)
+ */
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592)
+    * t * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * z such that normalCdf(z) = p (Acklam's rational approximation)
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0 || p >= 1) {
+    throw new RangeError('p must be between 0 and 1');
+  }
+
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5])
+      / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    return -normalQuantile(1 - p);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q
+    / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/**
+ * Rate with a Wilson score interval, which stays inside 0-1 and behaves at rates near 0 or 1
+ */
+export function conversionMetric(successes: number, trials: number, confidenceLevel: number): ExperimentMetric {
+  if (trials === 0) {
+    return { successes, trials, rate: 0, lower: 0, upper: 0 };
+  }
+
+  const rate = successes / trials;
+  return { successes, trials, rate, ...wilsonInterval(rate, trials, confidenceLevel) };
+}
+
+/**
+ * Pooled rate over users with a Wilson interval on the effective sample size
+ * (trials divided by the design effect), so users with many similar swipes
+ * don't count as many independent ones
+ */
+export function userConversionMetric(users: ConversionCounts[], confidenceLevel: number): ExperimentMetric {
+  const { successes, trials, rate, designEffect } = userLevelRate(users);
+  if (trials === 0) {
+    return { successes, trials, rate: 0, lower: 0, upper: 0 };
+  }
+
+  return { successes, trials, rate, ...wilsonInterval(rate, trials / designEffect, confidenceLevel) };
+}
+
+/**
+ * Difference between two rates with a Wald interval, and the two-sided p-value
+ * of a pooled two-proportion z-test
+ */
+export function compareConversions(
+  treatment: ExperimentMetric,
+  control: ExperimentMetric,
+  confidenceLevel: number
+): { difference: number; lower: number; upper: number; pValue: number } {
+  const difference = treatment.rate - control.rate;
+  if (treatment.trials === 0 || control.trials === 0) {
+    return { difference, lower: -1, upper: 1, pValue: 1 };
+  }
+
+  const z = normalQuantile(1 - (1 - confidenceLevel) / 2);
+  const standardError = Math.sqrt(
+    treatment.rate * (1 - treatment.rate) / treatment.trials
+    + control.rate * (1 - control.rate) / control.trials
+  );
+
+  const pooled = (treatment.successes + control.successes) / (treatment.trials + control.trials);
+  const pooledError = Math.sqrt(pooled * (1 - pooled) * (1 / treatment.trials + 1 / control.trials));
+  const pValue = pooledError === 0 ? 1 : 2 * (1 - normalCdf(Math.abs(difference) / pooledError));
+
+  return {
+    difference,
+    lower: Math.max(-1, difference - z * standardError),
+    upper: Math.min(1, difference + z * standardError),
+    pValue
+  };
+}
+
+/**
+ * compareConversions for groups of users: a Wald interval from the user-level
+ * variances, and a pooled z-test with each arm's variance scaled by its design effect
+ */
+export function compareUserConversions(
+  treatment: ConversionCounts[],
+  control: ConversionCounts[],
+  confidenceLevel: number
+): { difference: number; lower: number; upper: number; pValue: number } {
+  const arm = userLevelRate(treatment);
+  const base = userLevelRate(control);
+  const difference = arm.rate - base.rate;
+  if (arm.trials === 0 || base.trials === 0) {
+    return { difference, lower: -1, upper: 1, pValue: 1 };
+  }
+
+  const z = normalQuantile(1 - (1 - confidenceLevel) / 2);
+  const standardError = Math.sqrt(arm.variance + base.variance);
+
+  const pooled = (arm.successes + base.successes) / (arm.trials + base.trials);
+  const pooledError = Math.sqrt(
+    pooled * (1 - pooled) * (arm.designEffect / arm.trials + base.designEffect / base.trials)
+  );
+  const pValue = pooledError === 0 ? 1 : 2 * (1 - normalCdf(Math.abs(difference) / pooledError));
+
+  return {
+    difference,
+    lower: Math.max(-1, difference - z * standardError),
+    upper: Math.min(1, difference + z * standardError),
+    pValue
+  };
+}
+
+function wilsonInterval(rate: number, trials: number, confidenceLevel: number): { lower: number; upper: number } {
+  const z = normalQuantile(1 - (1 - confidenceLevel) / 2);
+  const denominator = 1 + z * z / trials;
+  const centre = (rate + z * z / (2 * trials)) / denominator;
+  const margin = z * Math.sqrt(rate * (1 - rate) / trials + z * z / (4 * trials * trials)) / denominator;
+
+  return {
+    lower: Math.max(0, centre - margin),
+    upper: Math.min(1, centre + margin)
+  };
+}
+
+/**
+ * Delta-method variance of the ratio of sums, treating each user as a cluster:
+ * k / (k - 1) * sum((s_i - rate * n_i)^2) / N^2 over the k users with trials
+ */
+function userLevelRate(users: ConversionCounts[]): UserLevelRate {
+  const active = users.filter(user => user.trials > 0);
+  const successes = active.reduce((sum, user) => sum + user.successes, 0);
+  const trials = active.reduce((sum, user) => sum + user.trials, 0);
+  if (trials === 0) {
+    return { successes, trials, rate: 0, variance: 0, designEffect: 1 };
+  }
+
+  const rate = successes / trials;
+  const binomialVariance = rate * (1 - rate) / trials;
+  const k = active.length;
+  const userVariance = k < 2 ? 0 : k / (k - 1) * active
+    .reduce((sum, user) => sum + (user.successes - rate * user.trials) ** 2, 0) / (trials * trials);
+
+  const designEffect = binomialVariance > 0 ? Math.max(1, userVariance / binomialVariance) : 1;
+  return { successes, trials, rate, variance: binomialVariance * designEffect, designEffect };
+}
@@ -0,0 +1,31 @@
+/**
+ * Experiment Services Export
+ * Epic 003: Matching System
+ */
+
+export { ExperimentService, bucketUser } from './experimentService';
+export {
+  compareConversions,
+  compareUserConversions,
+  conversionMetric,
+  normalCdf,
+  normalQuantile,
+  userConversionMetric
+} from './experimentStats';
+export {
+  InMemoryExperimentOutcomeSource,
+  InMemoryExperimentRepository,
+  SupabaseExperimentOutcomeSource,
+  SupabaseExperimentRepository
+} from './repositories';
+
+export type { ExperimentServiceConfig, ExperimentServiceDependencies } from './experimentService';
+export type {
+  CreateExperimentRequest,
+  Experiment,
+  ExperimentAssignment,
+  ExperimentExposure,
+  ExperimentReport,
+  ExperimentStatus,
+  ExperimentVariant
+} from '../../types/experiments';
@@ -0,0 +1,50 @@
+/**
+ * In-Memory Experiment Outcome Source
+ * Epic 003: Matching System
+ *
+ * Counts outcomes from swipes and mutual matches added directly, for tests and
+ * offline development
+ */
+
+import { ExperimentOutcomeSource, ExperimentUserOutcome } from '../../../types/experiments';
+import { MutualMatch, SwipeInteraction } from '../../../types/matching';
+
+export class InMemoryExperimentOutcomeSource implements ExperimentOutcomeSource {
+  private interactions: SwipeInteraction[] = [];
+  private mutualMatches: MutualMatch[] = [];
+
+  async getOutcomes(users: Array<{ userId: string; since: Date }>): Promise<ExperimentUserOutcome[]> {
+    return users.map(({ userId, since }) => {
+      const swipes = this.interactions.filter(interaction =>
+        interaction.userId === userId && interaction.timestamp >= since
+      );
+      const matches = this.mutualMatches.filter(match =>
+        match.userIds.includes(userId) && match.matchedAt >= since
+      );
+
+      return {
+        userId,
+        swipes: swipes.length,
+        likes: swipes.filter(interaction => interaction.action !== 'pass').length,
+        mutualMatches: matches.length,
+        messagedMatches: matches.filter(match => match.firstMessageSent).length
+      };
+    });
+  }
+
+  addInteraction(interaction: SwipeInteraction): void {
+    this.interactions.push({ ...interaction });
+  }
+
+  addMutualMatch(mutualMatch: MutualMatch): void {
+    this.mutualMatches.push({ ...mutualMatch });
+  }
+
+  /**
+   * Remove all swipes and matches
+   */
+  clear(): void {
+    this.interactions = [];
+    this.mutualMatches = [];
+  }
+}
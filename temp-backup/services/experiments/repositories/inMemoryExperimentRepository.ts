@@ -0,0 +1,80 @@
+/**
+ * In-Memory Experiment Repository
+ * Epic 003: Matching System
+ *
+ * Process-local experiments and exposures used by tests and offline development
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Experiment,
+  ExperimentExposure,
+  ExperimentRepository,
+  ExperimentStatus,
+  ExposedUser
+} from '../../../types/experiments';
+
+export class InMemoryExperimentRepository implements ExperimentRepository {
+  private experiments: Map<string, Experiment> = new Map();
+  private exposures: ExperimentExposure[] = [];
+
+  async saveExperiment(experiment: Experiment): Promise<void> {
+    this.experiments.set(experiment.experimentId, this.copy(experiment));
+  }
+
+  async getExperiment(experimentId: string): Promise<Experiment | null> {
+    const experiment = this.experiments.get(experimentId);
+    return experiment ? this.copy(experiment) : null;
+  }
+
+  async listExperiments(status?: ExperimentStatus): Promise<Experiment[]> {
+    return Array.from(this.experiments.values())
+      .filter(experiment => !status || experiment.status === status)
+      .map(experiment => this.copy(experiment));
+  }
+
+  async logExposure(exposure: Omit<ExperimentExposure, 'exposureId'>): Promise<ExperimentExposure> {
+    const stored: ExperimentExposure = { ...exposure, exposureId: uuidv4() };
+    this.exposures.push(stored);
+    return { ...stored };
+  }
+
+  async listExposedUsers(experimentId: string): Promise<ExposedUser[]> {
+    const users: Map<string, ExposedUser> = new Map();
+
+    this.exposures
+      .filter(exposure => exposure.experimentId === experimentId)
+      .forEach(exposure => {
+        const user = users.get(exposure.userId);
+        if (!user) {
+          users.set(exposure.userId, {
+            userId: exposure.userId,
+            variant: exposure.variant,
+            firstExposedAt: exposure.exposedAt,
+            exposures: 1
+          });
+          return;
+        }
+
+        user.exposures++;
+        if (exposure.exposedAt < user.firstExposedAt) {
+          user.firstExposedAt = exposure.exposedAt;
+          user.variant = exposure.variant;
+        }
+      });
+
+    return Array.from(users.values());
+  }
+
+  /**
+   * Remove all experiments and exposures
+   */
+  clear(): void {
+    this.experiments.clear();
+    this.exposures = [];
+  }
+
+  private copy(experiment: Experiment): Experiment {
+    return { ...experiment, variants: experiment.variants.map(variant => ({ ...variant })) };
+  }
+}
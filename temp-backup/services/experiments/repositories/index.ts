@@ -0,0 +1,10 @@
+/**
+ * Experiment Repositories
+ * Persistence backends for experiments, exposures and their outcomes
+ */
+
+export { InMemoryExperimentRepository } from './inMemoryExperimentRepository';
+export { SupabaseExperimentRepository } from './supabaseExperimentRepository';
+export { InMemoryExperimentOutcomeSource } from './inMemoryExperimentOutcomeSource';
+export { SupabaseExperimentOutcomeSource } from './supabaseExperimentOutcomeSource';
+export type { ExperimentOutcomeSource, ExperimentRepository } from '../../../types/experiments';
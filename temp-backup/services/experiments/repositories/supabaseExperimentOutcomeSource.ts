@@ -0,0 +1,114 @@
+/**
+ * Supabase Experiment Outcome Source
+ * Epic 003: Matching System
+ *
+ * Counts exposed users' swipes from user_interactions, their matches from
+ * matches and which of those matches have messages from messages. Reads other
+ * users' rows, so this runs with the service role.
+ */
+
+import { supabase, type SupabaseClient } from '../../../lib/supabase';
+import { ExperimentOutcomeSource, ExperimentUserOutcome } from '../../../types/experiments';
+
+const ROWS_PER_PAGE = 1000; // PostgREST's default row cap
+const IDS_PER_QUERY = 100; // Keeps the IN lists well inside URL limits
+
+export class SupabaseExperimentOutcomeSource implements ExperimentOutcomeSource {
+  constructor(private client: SupabaseClient = supabase) {}
+
+  async getOutcomes(users: Array<{ userId: string; since: Date }>): Promise<ExperimentUserOutcome[]> {
+    const outcomes: ExperimentUserOutcome[] = [];
+    for (let start = 0; start < users.length; start += IDS_PER_QUERY) {
+      outcomes.push(...await this.getBatchOutcomes(users.slice(start, start + IDS_PER_QUERY)));
+    }
+    return outcomes;
+  }
+
+  private async getBatchOutcomes(users: Array<{ userId: string; since: Date }>): Promise<ExperimentUserOutcome[]> {
+    if (users.length === 0) return [];
+
+    const userIds = users.map(user => user.userId);
+    const since = new Map(users.map(user => [user.userId, user.since]));
+    const earliest = new Date(Math.min(...users.map(user => user.since.getTime()))).toISOString();
+    const outcomes = new Map<string, ExperimentUserOutcome>(userIds.map(userId => [
+      userId,
+      { userId, swipes: 0, likes: 0, mutualMatches: 0, messagedMatches: 0 }
+    ]));
+
+    // Each user's window starts at their own first exposure
+    const isAfterExposure = (userId: string, at: string) => new Date(at) >= since.get(userId)!;
+
+    const swipes = await this.listPages(from => this.client
+      .from('user_interactions')
+      .select('id, user_id, interaction_type, created_at')
+      .in('user_id', userIds)
+      .in('interaction_type', ['like', 'super_like', 'pass'])
+      .gte('created_at', earliest)
+      .order('id', { ascending: true })
+      .range(from, from + ROWS_PER_PAGE - 1));
+
+    swipes.forEach(row => {
+      if (!isAfterExposure(row.user_id, row.created_at)) return;
+      const outcome = outcomes.get(row.user_id)!;
+      outcome.swipes++;
+      if (row.interaction_type !== 'pass') outcome.likes++;
+    });
+
+    const idList = `(${userIds.join(',')})`;
+    const matches = await this.listPages(from => this.client
+      .from('matches')
+      .select('id, user1_id, user2_id, matched_at, conversations(id)')
+      .or(`user1_id.in.${idList},user2_id.in.${idList}`)
+      .gte('matched_at', earliest)
+      .order('id', { ascending: true })
+      .range(from, from + ROWS_PER_PAGE - 1));
+
+    const messaged = await this.listMessagedConversations(
+      matches.map(row => this.conversationIdOf(row)).filter(Boolean)
+    );
+
+    matches.forEach(row => {
+      const hasMessages = messaged.has(this.conversationIdOf(row));
+      [row.user1_id, row.user2_id].forEach(userId => {
+        const outcome = outcomes.get(userId);
+        if (!outcome || !isAfterExposure(userId, row.matched_at)) return;
+        outcome.mutualMatches++;
+        if (hasMessages) outcome.messagedMatches++;
+      });
+    });
+
+    return Array.from(outcomes.values());
+  }
+
+  private async listPages(query: (from: number) => PromiseLike<{ data: any[] | null; error: any }>): Promise<any[]> {
+    const rows: any[] = [];
+    for (let from = 0; ; from += ROWS_PER_PAGE) {
+      const { data, error } = await query(from);
+      if (error) throw error;
+      rows.push(...(data || []));
+      if (!data || data.length < ROWS_PER_PAGE) return rows;
+    }
+  }
+
+  /**
+   * The conversations that have any messages, one row each however many they hold
+   */
+  private async listMessagedConversations(conversationIds: string[]): Promise<Set<string>> {
+    const messaged = new Set<string>();
+    for (let start = 0; start < conversationIds.length; start += IDS_PER_QUERY) {
+      const { data, error } = await this.client.rpc('list_messaged_conversations', {
+        p_conversation_ids: conversationIds.slice(start, start + IDS_PER_QUERY)
+      });
+
+      if (error) throw error;
+      (data || []).forEach((row: { conversation_id: string }) => messaged.add(row.conversation_id));
+    }
+    return messaged;
+  }
+
+  private conversationIdOf(row: any): string {
+    // conversations.match_id is unique, but the embed may still come back as a list
+    const conversation = Array.isArray(row.conversations) ? row.conversations[0] : row.conversations;
+    return conversation?.id || '';
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Supabase Experiment Repository
+ * Epic 003: Matching System
+ *
+ * Keeps experiments and their exposure log in the experiments and
+ * experiment_exposures tables defined in supabase/schema.sql. Intended for the
+ * service role.
+ */
+
+import { supabase, type SupabaseClient } from '../../../lib/supabase';
+import {
+  Experiment,
+  ExperimentExposure,
+  ExperimentRepository,
+  ExperimentStatus,
+  ExposedUser
+} from '../../../types/experiments';
+
+export class SupabaseExperimentRepository implements ExperimentRepository {
+  constructor(private client: SupabaseClient = supabase) {}
+
+  async saveExperiment(experiment: Experiment): Promise<void> {
+    const { error } = await this.client
+      .from('experiments')
+      .upsert({
+        id: experiment.experimentId,
+        name: experiment.name,
+        description: experiment.description ?? null,
+        status: experiment.status,
+        variants: experiment.variants,
+        created_at: experiment.createdAt.toISOString(),
+        started_at: experiment.startedAt?.toISOString() ?? null,
+        stopped_at: experiment.stoppedAt?.toISOString() ?? null
+      }, { onConflict: 'id' });
+
+    if (error) throw error;
+  }
+
+  async getExperiment(experimentId: string): Promise<Experiment | null> {
+    const { data, error } = await this.client
+      .from('experiments')
+      .select('*')
+      .eq('id', experimentId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? this.mapExperimentFromDatabase(data) : null;
+  }
+
+  async listExperiments(status?: ExperimentStatus): Promise<Experiment[]> {
+    let query = this.client
+      .from('experiments')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(row => this.mapExperimentFromDatabase(row));
+  }
+
+  async logExposure(exposure: Omit<ExperimentExposure, 'exposureId'>): Promise<ExperimentExposure> {
+    const { data, error } = await this.client
+      .from('experiment_exposures')
+      .insert({
+        experiment_id: exposure.experimentId,
+        user_id: exposure.userId,
+        variant: exposure.variant,
+        algorithm_version: exposure.algorithmVersion,
+        match_count: exposure.matchCount,
+        exposed_at: exposure.exposedAt.toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return {
+      exposureId: data.id,
+      experimentId: data.experiment_id,
+      userId: data.user_id,
+      variant: data.variant,
+      algorithmVersion: data.algorithm_version,
+      matchCount: data.match_count,
+      exposedAt: new Date(data.exposed_at)
+    };
+  }
+
+  async listExposedUsers(experimentId: string): Promise<ExposedUser[]> {
+    const { data, error } = await this.client
+      .from('experiment_exposures')
+      .select('user_id, variant, exposed_at')
+      .eq('experiment_id', experimentId)
+      .order('exposed_at', { ascending: true });
+
+    if (error) throw error;
+
+    // Rows come oldest first, so the first row per user is their first exposure
+    const users: Map<string, ExposedUser> = new Map();
+    (data || []).forEach(row => {
+      const user = users.get(row.user_id);
+      if (user) {
+        user.exposures++;
+      } else {
+        users.set(row.user_id, {
+          userId: row.user_id,
+          variant: row.variant,
+          firstExposedAt: new Date(row.exposed_at),
+          exposures: 1
+        });
+      }
+    });
+    return Array.from(users.values());
+  }
+
+  private mapExperimentFromDatabase(row: any): Experiment {
+    return {
+      experimentId: row.id,
+      name: row.name,
+      description: row.description ?? undefined,
+      status: row.status,
+      variants: row.variants || [],
+      createdAt: new Date(row.created_at),
+      startedAt: row.started_at ? new Date(row.started_at) : undefined,
+      stoppedAt: row.stopped_at ? new Date(row.stopped_at) : undefined
+    };
+  }
+}
@@ -0,0 +1,326 @@
+import { MatchJobRunner } from '../matchJobRunner';
+import { parseMatchJobsArgs, runMatchJobsCli } from '../matchJobsCli';
+import { MatchingService } from '../../matching/matchingService';
+import { ProfileCandidateSource } from '../../matching/profileCandidateSource';
+import { InMemoryMatchingStateStore } from '../../matching/repositories/inMemoryMatchingStateStore';
+import { InMemoryMatchNotifier } from '../../matching/notifiers/inMemoryMatchNotifier';
+import { InMemoryInteractionRepository } from '../../matching/repositories/inMemoryInteractionRepository';
+import { InMemoryMutualMatchRepository } from '../../matching/repositories/inMemoryMutualMatchRepository';
+import { InMemoryProfileRepository } from '../../profile/repositories/inMemoryProfileRepository';
+import { Clock } from '../../../lib/clock';
+import { AdvancedMatchingCriteria, MatchResult } from '../../../types/matching';
+import { ProfilePhoto, UserProfile } from '../../../types/profile';
+
+const buildProfile = (userId: string, latitude: number, longitude: number): UserProfile => ({
+  userId,
+  personalInfo: {
+    displayName: `${userId[0].toUpperCase()}${userId.slice(1)}`,
+    age: 28,
+    dateOfBirth: new Date('1997-01-01'),
+    location: { latitude, longitude, city: 'London', country: 'UK' },
+    sexualOrientation: 'straight',
+    sexualIntent: 'clear',
+    lookingFor: ['casual'],
+    bio: 'Enjoys running, live music and trying new restaurants around town.',
+    interests: ['music', 'running']
+  },
+  photos: [],
+  preferences: {
+    ageRange: { min: 18, max: 40 },
+    maxDistance: 50,
+    sexualOrientations: ['straight'],
+    relationshipTypes: ['casual']
+  },
+  visibility: {
+    isVisible: true,
+    hideAge: false,
+    hideLocation: false,
+    hideLastActive: false,
+    showOnlyToVerified: false,
+    incognito: false,
+    distanceVisibility: 'approximate',
+    onlineStatus: 'online'
+  },
+  completion: {
+    overallPercentage: 80,
+    personalInfo: 100,
+    photos: 0,
+    preferences: 100,
+    visibility: 100,
+    missingFields: [],
+    recommendedActions: []
+  },
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  lastActiveAt: new Date(),
+  profileViews: 0,
+  profileLikes: 0,
+  verification: {
+    isVerified: true,
+    verificationResults: [],
+    verificationScore: 1,
+    lastVerificationUpdate: new Date()
+  },
+  premium: { isActive: false, features: [] },
+  safety: { isReported: false, reportCount: 0, isBanned: false, trustScore: 1 }
+});
+
+const buildPhoto = (userId: string): ProfilePhoto => ({
+  id: `${userId}_photo`,
+  url: `https://example.com/${userId}.jpg`,
+  thumbnailUrl: `https://example.com/${userId}_thumb.jpg`,
+  isPrimary: true,
+  isVerified: true,
+  uploadedAt: new Date(),
+  moderationStatus: 'approved',
+  order: 0
+});
+
+const buildCriteria = (userId: string): AdvancedMatchingCriteria => ({
+  userId,
+  location: { latitude: 51.5074, longitude: -0.1278, radius: 50 },
+  preferences: {
+    ageRange: { min: 18, max: 40 },
+    sexualOrientations: ['straight'],
+    relationshipTypes: ['casual'],
+    maxDistance: 50
+  },
+  filters: {},
+  sort: { by: 'compatibility', direction: 'desc' },
+  preferenceWeights: { physical: 0.3, lifestyle: 0.25, social: 0.25, relationship: 0.2 },
+  minimumThresholds: { overall: 0 },
+  dealBreakers: [],
+  mustHaves: [],
+  niceToHaves: [],
+  enableAdvancedFiltering: true
+});
+
+describe('MatchJobRunner', () => {
+  const MINUTE = 60 * 1000;
+  const HOUR = 60 * MINUTE;
+  const DAY = 24 * HOUR;
+  const profiles = new InMemoryProfileRepository();
+  const stateStore = new InMemoryMatchingStateStore();
+  const matching = MatchingService.getInstance(new ProfileCandidateSource(profiles), stateStore);
+
+  let currentTime: Date;
+  let interactions: InMemoryInteractionRepository;
+  let matches: InMemoryMutualMatchRepository;
+  let notifier: InMemoryMatchNotifier;
+  let runner: MatchJobRunner;
+  let queue: MatchResult[];
+
+  const clock: Clock = { now: () => currentTime };
+
+  const advance = (ms: number) => {
+    currentTime = new Date(currentTime.getTime() + ms);
+  };
+
+  const createMatch = (userId: string, otherUserId: string, matchedAt: Date) => matches.createMutualMatch({
+    userIds: [userId, otherUserId],
+    matchIds: [`match_${userId}`, `match_${otherUserId}`],
+    compatibilityScore: 0.8,
+    matchSource: 'discovery',
+    matchedAt
+  });
+
+  beforeEach(async () => {
+    // Queued matches expire relative to the real clock, so start from it
+    currentTime = new Date();
+    profiles.clear();
+    stateStore.clear();
+    matching.updateConfig({ candidatePageSize: 10, maxCandidatesScanned: 1000 });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await profiles.saveProfile(buildProfile('seeker', 51.5074, -0.1278));
+    await profiles.saveProfile(buildProfile('near_a', 51.5155, -0.0922));
+    await profiles.saveProfile(buildProfile('near_b', 51.5033, -0.1195));
+    await profiles.saveProfile(buildProfile('near_c', 51.52, -0.1));
+    // Regenerated queues only take candidates with a moderated photo
+    for (const userId of ['near_a', 'near_b', 'near_c']) {
+      await profiles.addPhoto(userId, buildPhoto(userId));
+    }
+
+    interactions = new InMemoryInteractionRepository();
+    matches = new InMemoryMutualMatchRepository();
+    notifier = new InMemoryMatchNotifier();
+    runner = MatchJobRunner.getInstance({
+      matching,
+      mutualMatches: matches,
+      interactions,
+      notifier,
+      profiles,
+      clock
+    });
+    runner.updateConfig({ expiryWarningHours: 24, silentMatchDays: 14, activeUserDays: 7 });
+
+    queue = await matching.findAdvancedMatches(buildCriteria('seeker'));
+  });
+
+  afterEach(() => {
+    runner.stop();
+    jest.restoreAllMocks();
+  });
+
+  describe('Match Expiry', () => {
+    it('should expire queued matches once they lapse', async () => {
+      expect((await runner.run('expire_matches')).affected).toBe(0);
+
+      advance(31 * DAY);
+      const result = await runner.run('expire_matches');
+
+      expect(result).toMatchObject({ job: 'expire_matches', affected: queue.length, errors: [] });
+      expect(result.finishedAt).toEqual(currentTime);
+      expect(await matching.getMatchQueue('seeker')).toMatchObject({ pendingMatches: [], queueStatus: 'exhausted' });
+    });
+
+    it('should warn users once before a queued match expires', async () => {
+      expect((await runner.run('warn_expiring_matches')).affected).toBe(0);
+
+      advance(29 * DAY + 12 * HOUR);
+      const result = await runner.run('warn_expiring_matches');
+
+      expect(result.affected).toBe(queue.length);
+      const sent = notifier.getNotifications('seeker');
+      expect(sent.every(notification => notification.type === 'match_expiring')).toBe(true);
+      expect(sent.find(notification => notification.matchId === queue[0].matchId)!.body)
+        .toMatch(new RegExp(`Your match with ${queue[0].targetUserId[0].toUpperCase()}.* expires in 12 hours`));
+      expect((await matching.getMatchQueue('seeker'))!.pendingMatches.map(match => match.expiryWarnedAt))
+        .toEqual(queue.map(() => currentTime));
+
+      advance(HOUR);
+      expect((await runner.run('warn_expiring_matches')).affected).toBe(0);
+      expect(notifier.getNotifications('seeker')).toHaveLength(queue.length);
+    });
+
+    it('should keep warning the rest when one notification fails', async () => {
+      jest.spyOn(notifier, 'notify').mockRejectedValueOnce(new Error('queue unavailable'));
+      advance(29 * DAY + 12 * HOUR);
+
+      const first = await runner.run('warn_expiring_matches');
+      expect(first.affected).toBe(queue.length - 1);
+      expect(first.errors[0]).toContain('queue unavailable');
+
+      // The failed one is retried on the next run
+      expect((await runner.run('warn_expiring_matches')).affected).toBe(1);
+    });
+  });
+
+  describe('Silent Matches', () => {
+    it('should deactivate matches nobody has messaged in', async () => {
+      const { mutualMatch: messaged } = await createMatch('seeker', 'near_a', new Date(currentTime.getTime() - 20 * DAY));
+      await createMatch('seeker', 'near_b', new Date(currentTime.getTime() - 20 * DAY));
+      await createMatch('seeker', 'near_c', new Date(currentTime.getTime() - 2 * DAY));
+      matches.recordMessage(messaged.mutualMatchId, new Date(currentTime.getTime() - 19 * DAY));
+
+      const result = await runner.run('deactivate_silent_matches');
+
+      expect(result.affected).toBe(1);
+      expect((await matches.getMutualMatch('seeker', 'near_b'))!.isActive).toBe(false);
+      expect((await matches.getMutualMatch('seeker', 'near_a'))!.isActive).toBe(true);
+      expect((await matches.getMutualMatch('seeker', 'near_c'))!.isActive).toBe(true);
+
+      expect((await runner.run('deactivate_silent_matches')).affected).toBe(0);
+    });
+  });
+
+  describe('Queue Refresh', () => {
+    it('should regenerate a queue once its refresh interval is up, leaving out swiped users', async () => {
+      const swiped = queue[0].targetUserId;
+      await interactions.recordInteraction({
+        matchId: queue[0].matchId,
+        userId: 'seeker',
+        targetUserId: swiped,
+        action: 'pass',
+        timestamp: currentTime,
+        context: {}
+      });
+
+      advance(30 * MINUTE);
+      expect((await runner.run('refresh_queues')).affected).toBe(0);
+
+      advance(31 * MINUTE);
+      expect((await runner.run('refresh_queues')).affected).toBe(1);
+
+      const refreshed = (await matching.getMatchQueue('seeker'))!;
+      expect(refreshed.generatedAt).toEqual(currentTime);
+      expect(refreshed.pendingMatches.length).toBeGreaterThan(0);
+      expect(refreshed.pendingMatches.map(match => match.targetUserId)).not.toContain(swiped);
+    });
+
+    it('should refresh exhausted queues right away', async () => {
+      for (const match of queue) {
+        await matching.markMatchProcessed('seeker', match.matchId, 'passed');
+      }
+
+      expect((await runner.run('refresh_queues')).affected).toBe(1);
+      expect((await matching.getMatchQueue('seeker'))!.queueStatus).toBe('active');
+    });
+
+    it('should skip inactive users and paused queues', async () => {
+      const seeker = (await profiles.getProfile('seeker'))!;
+      await profiles.saveProfile({ ...seeker, lastActiveAt: new Date(currentTime.getTime() - 8 * DAY) });
+      advance(2 * HOUR);
+
+      const result = await runner.run('refresh_queues');
+      expect(result).toMatchObject({ processed: 1, affected: 0 });
+
+      await profiles.saveProfile(seeker);
+      const paused = (await matching.getMatchQueue('seeker'))!;
+      await stateStore.saveQueue({ ...paused, queueStatus: 'paused' }, new Date(Date.now() + DAY));
+      expect((await runner.run('refresh_queues')).processed).toBe(0);
+    });
+  });
+
+  describe('Running All Jobs', () => {
+    it('should run every job in order', async () => {
+      const results = await runner.runAll();
+
+      expect(results.map(result => result.job)).toEqual([
+        'expire_matches',
+        'warn_expiring_matches',
+        'deactivate_silent_matches',
+        'refresh_queues'
+      ]);
+    });
+  });
+
+  describe('CLI', () => {
+    const output = { log: jest.fn(), error: jest.fn() };
+
+    beforeEach(() => {
+      output.log.mockReset();
+      output.error.mockReset();
+    });
+
+    it('should parse job names and a pinned time', () => {
+      expect(parseMatchJobsArgs(['expire_matches', '--now=2025-06-01T00:00:00Z'])).toEqual({
+        jobs: ['expire_matches'],
+        now: new Date('2025-06-01T00:00:00Z'),
+        help: false
+      });
+      expect(parseMatchJobsArgs([]).jobs).toHaveLength(4);
+      expect(() => parseMatchJobsArgs(['--now=yesterday'])).toThrow('Invalid --now date');
+    });
+
+    it('should run the requested jobs at the pinned time and report them', async () => {
+      const expiresAt = queue[0].expiresAt.getTime();
+      const now = new Date(expiresAt + DAY).toISOString();
+
+      const exitCode = await runMatchJobsCli(['expire_matches', `--now=${now}`], runner, output);
+
+      expect(exitCode).toBe(0);
+      expect(output.log).toHaveBeenCalledWith(`expire_matches: processed ${queue.length}, affected ${queue.length}`);
+      expect((await matching.getMatchQueue('seeker'))!.pendingMatches).toHaveLength(0);
+    });
+
+    it('should fail on unknown jobs without running anything', async () => {
+      const run = jest.spyOn(runner, 'run');
+
+      expect(await runMatchJobsCli(['expire_everything'], runner, output)).toBe(1);
+      expect(output.error).toHaveBeenCalledWith('Unknown job: expire_everything');
+      expect(run).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,11 @@
+/**
+ * Background Jobs Export
+ * Epic 003: Matching System
+ */
+
+export { MatchJobRunner, MATCH_JOBS } from './matchJobRunner';
+export { parseMatchJobsArgs, runMatchJobsCli, MATCH_JOBS_USAGE } from './matchJobsCli';
+
+export type { MatchJobRunnerConfig, MatchJobRunnerDependencies } from './matchJobRunner';
+export type { MatchJobsCliOptions, MatchJobsCliOutput } from './matchJobsCli';
+export type { MatchJobName, MatchJobResult } from '../../types/jobs';
@@ -0,0 +1,268 @@
+/**
+ * Match Job Runner
+ * Epic 003: Matching System
+ *
+ * Background maintenance for matches: expires stale queued matches, warns users
+ * before a match expires, deactivates matches nobody has messaged in and
+ * regenerates match queues for active users once their refresh interval is up.
+ * Jobs can be run one at a time, all together, or on a timer.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Clock, systemClock } from '../../lib/clock';
+import { MatchJobName, MatchJobResult, UnknownJobError } from '../../types/jobs';
+import { MatchNotifier, MatchQueue, MatchResult } from '../../types/matching';
+import { ProfileRepository } from '../../types/profile';
+import { InteractionService } from '../matching/interactionService';
+import { MatchingService } from '../matching/matchingService';
+import { MutualMatchService } from '../matching/mutualMatchService';
+import { NotificationService } from '../notifications/notificationService';
+import { isBanActive, ProfileService } from '../profile/profileService';
+
+export interface MatchJobRunnerDependencies {
+  matching: Pick<MatchingService, 'getMatchQueues' | 'expireStaleMatches' | 'markExpiryWarned' | 'refreshMatchQueue'>;
+  mutualMatches: Pick<MutualMatchService, 'deactivateSilentMatches'>;
+  interactions: Pick<InteractionService, 'listInteractedUserIds'>;
+  notifier: MatchNotifier;
+  profiles: Pick<ProfileRepository, 'getProfile'>;
+  clock: Clock;
+}
+
+export interface MatchJobRunnerConfig {
+  expiryWarningHours: number; // How long before expiry the match_expiring notification goes out
+  silentMatchDays: number; // Matches with no messages after this long are deactivated
+  activeUserDays: number; // Only users seen within this window get their queues refreshed
+  intervalMinutes: number; // How often start() runs every job
+}
+
+export const MATCH_JOBS: MatchJobName[] = [
+  'expire_matches',
+  'warn_expiring_matches',
+  'deactivate_silent_matches',
+  'refresh_queues'
+];
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+export class MatchJobRunner {
+  private static instance: MatchJobRunner;
+  private dependencies: MatchJobRunnerDependencies;
+  private timer?: ReturnType<typeof setInterval>;
+  private running = false;
+
+  private config: MatchJobRunnerConfig = {
+    expiryWarningHours: 24,
+    silentMatchDays: 14,
+    activeUserDays: 7,
+    intervalMinutes: 15
+  };
+
+  private constructor(dependencies: Partial<MatchJobRunnerDependencies> = {}) {
+    this.dependencies = {
+      matching: dependencies.matching || MatchingService.getInstance(),
+      mutualMatches: dependencies.mutualMatches || MutualMatchService.getInstance(),
+      interactions: dependencies.interactions || InteractionService.getInstance(),
+      notifier: dependencies.notifier || NotificationService.getInstance(),
+      profiles: dependencies.profiles || ProfileService.getInstance().getRepository(),
+      clock: dependencies.clock || systemClock
+    };
+  }
+
+  public static getInstance(dependencies?: Partial<MatchJobRunnerDependencies>): MatchJobRunner {
+    if (!MatchJobRunner.instance) {
+      MatchJobRunner.instance = new MatchJobRunner(dependencies);
+    } else if (dependencies) {
+      MatchJobRunner.instance.setDependencies(dependencies);
+    }
+    return MatchJobRunner.instance;
+  }
+
+  /**
+   * Replace some or all dependencies (e.g. a fake clock in tests)
+   */
+  setDependencies(dependencies: Partial<MatchJobRunnerDependencies>): void {
+    this.dependencies = { ...this.dependencies, ...dependencies };
+  }
+
+  /**
+   * Update job configuration
+   */
+  updateConfig(newConfig: Partial<MatchJobRunnerConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  // ===== RUNNING =====
+
+  /**
+   * Run one job. Failures on individual items are collected in the result
+   * rather than thrown so one bad record doesn't hold up the rest.
+   */
+  async run(job: MatchJobName): Promise<MatchJobResult> {
+    const startedAt = this.now();
+    const result: MatchJobResult = { job, startedAt, finishedAt: startedAt, processed: 0, affected: 0, errors: [] };
+
+    switch (job) {
+      case 'expire_matches':
+        await this.expireMatches(result);
+        break;
+      case 'warn_expiring_matches':
+        await this.warnExpiringMatches(result);
+        break;
+      case 'deactivate_silent_matches':
+        await this.deactivateSilentMatches(result);
+        break;
+      case 'refresh_queues':
+        await this.refreshQueues(result);
+        break;
+      default:
+        throw new UnknownJobError(job);
+    }
+
+    result.finishedAt = this.now();
+    return result;
+  }
+
+  /**
+   * Run every job in order. Expiry runs before the refresh so regenerated
+   * queues replace the matches that just lapsed.
+   */
+  async runAll(): Promise<MatchJobResult[]> {
+    const results: MatchJobResult[] = [];
+    for (const job of MATCH_JOBS) {
+      results.push(await this.run(job));
+    }
+    return results;
+  }
+
+  /**
+   * Run every job each intervalMinutes until stop() is called
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      if (this.running) return; // The previous round is still going
+
+      this.running = true;
+      this.runAll()
+        .catch(error => console.error('Match jobs failed:', error))
+        .finally(() => {
+          this.running = false;
+        });
+    }, this.config.intervalMinutes * MINUTE_MS);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  // ===== JOBS =====
+
+  private async expireMatches(result: MatchJobResult): Promise<void> {
+    const expired = await this.dependencies.matching.expireStaleMatches(this.now());
+
+    result.processed = expired.length;
+    result.affected = expired.length;
+  }
+
+  private async warnExpiringMatches(result: MatchJobResult): Promise<void> {
+    const now = this.now();
+    const warnBy = new Date(now.getTime() + this.config.expiryWarningHours * HOUR_MS);
+    const queued = (await this.dependencies.matching.getMatchQueues()).flatMap(queue => queue.pendingMatches);
+
+    const expiring = queued.filter(match =>
+      match.expiresAt > now && match.expiresAt <= warnBy && !match.expiryWarnedAt
+    );
+    result.processed = expiring.length;
+
+    for (const match of expiring) {
+      try {
+        await this.notifyExpiring(match, now);
+        // Stored on the queued match so the next run, possibly in a new process, skips it
+        await this.dependencies.matching.markExpiryWarned(match.userId, [match.matchId], now);
+        result.affected++;
+      } catch (error) {
+        this.recordError(result, `Failed to warn ${match.userId} about match ${match.matchId}`, error);
+      }
+    }
+  }
+
+  private async deactivateSilentMatches(result: MatchJobResult): Promise<void> {
+    const matchedBefore = new Date(this.now().getTime() - this.config.silentMatchDays * DAY_MS);
+    const deactivated = await this.dependencies.mutualMatches.deactivateSilentMatches(matchedBefore);
+
+    result.processed = deactivated.length;
+    result.affected = deactivated.length;
+  }
+
+  private async refreshQueues(result: MatchJobResult): Promise<void> {
+    const now = this.now();
+    const due = (await this.dependencies.matching.getMatchQueues()).filter(queue => this.isRefreshDue(queue, now));
+    result.processed = due.length;
+
+    for (const queue of due) {
+      try {
+        if (!await this.isActiveUser(queue.userId, now)) continue;
+
+        const interacted = await this.dependencies.interactions.listInteractedUserIds(queue.userId);
+        await this.dependencies.matching.refreshMatchQueue(queue.userId, interacted, now);
+        result.affected++;
+      } catch (error) {
+        this.recordError(result, `Failed to refresh the match queue for ${queue.userId}`, error);
+      }
+    }
+  }
+
+  // ===== HELPERS =====
+
+  /**
+   * Paused queues are left alone; exhausted ones are refreshed right away
+   */
+  private isRefreshDue(queue: MatchQueue, now: Date): boolean {
+    if (queue.queueStatus === 'paused') return false;
+    if (queue.queueStatus === 'exhausted' || queue.queueStatus === 'error') return true;
+    return now.getTime() - queue.generatedAt.getTime() >= queue.refreshInterval * MINUTE_MS;
+  }
+
+  private async isActiveUser(userId: string, now: Date): Promise<boolean> {
+    const profile = await this.dependencies.profiles.getProfile(userId);
+    if (!profile || isBanActive(profile.safety, now)) return false;
+    return now.getTime() - profile.lastActiveAt.getTime() <= this.config.activeUserDays * DAY_MS;
+  }
+
+  private async notifyExpiring(match: MatchResult, now: Date): Promise<void> {
+    const target = await this.dependencies.profiles.getProfile(match.targetUserId);
+    const hoursLeft = Math.max(1, Math.round((match.expiresAt.getTime() - now.getTime()) / HOUR_MS));
+    const hours = hoursLeft === 1 ? 'hour' : 'hours';
+
+    await this.dependencies.notifier.notify({
+      notificationId: uuidv4(),
+      userId: match.userId,
+      type: 'match_expiring',
+      matchId: match.matchId,
+      title: 'A match is about to expire',
+      body: target
+        ? `Your match with ${target.personalInfo.displayName} expires in ${hoursLeft} ${hours}`
+        : `One of your matches expires in ${hoursLeft} ${hours}`,
+      data: { targetUserId: match.targetUserId, expiresAt: match.expiresAt.toISOString() },
+      scheduledFor: now,
+      status: 'pending',
+      priority: 'normal',
+      channels: ['push', 'in_app']
+    });
+  }
+
+  private recordError(result: MatchJobResult, message: string, error: unknown): void {
+    console.error(`${message}:`, error);
+    result.errors.push(`${message}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  private now(): Date {
+    return this.dependencies.clock.now();
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Match Jobs CLI
+ * Epic 003: Matching System
+ *
+ * Argument parsing and reporting for the match maintenance jobs:
+ *
+ *   runMatchJobs [job ...] [--now=<ISO date>]
+ *
+ * With no job names every job runs. --now pins the clock, which is useful for
+ * replaying a missed run.
+ */
+
+import { Clock } from '../../lib/clock';
+import { MatchJobName, MatchJobResult } from '../../types/jobs';
+import { MATCH_JOBS, MatchJobRunner } from './matchJobRunner';
+
+export interface MatchJobsCliOptions {
+  jobs: MatchJobName[];
+  now?: Date;
+  help: boolean;
+}
+
+export interface MatchJobsCliOutput {
+  log(message: string): void;
+  error(message: string): void;
+}
+
+export const MATCH_JOBS_USAGE = [
+  'Usage: runMatchJobs [job ...] [--now=<ISO date>]',
+  '',
+  `Jobs: ${MATCH_JOBS.join(', ')} (default: all)`
+].join('\n');
+
+/**
+ * Parse command line arguments. Throws on unknown jobs, flags or dates.
+ */
+export function parseMatchJobsArgs(args: string[]): MatchJobsCliOptions {
+  const options: MatchJobsCliOptions = { jobs: [], help: false };
+
+  for (const arg of args) {
+    if (arg === '--help' || arg === '-h') {
+      options.help = true;
+    } else if (arg.startsWith('--now=')) {
+      const now = new Date(arg.slice('--now='.length));
+      if (isNaN(now.getTime())) {
+        throw new Error(`Invalid --now date: ${arg.slice('--now='.length)}`);
+      }
+      options.now = now;
+    } else if (arg.startsWith('-')) {
+      throw new Error(`Unknown option: ${arg}`);
+    } else if (MATCH_JOBS.includes(arg as MatchJobName)) {
+      options.jobs.push(arg as MatchJobName);
+    } else {
+      throw new Error(`Unknown job: ${arg}`);
+    }
+  }
+
+  if (options.jobs.length === 0) {
+    options.jobs = [...MATCH_JOBS];
+  }
+  return options;
+}
+
+/**
+ * Run the requested jobs and report on them. Returns the process exit code:
+ * 0 when every job finished cleanly, 1 otherwise.
+ */
+export async function runMatchJobsCli(
+  args: string[],
+  runner: MatchJobRunner = MatchJobRunner.getInstance(),
+  output: MatchJobsCliOutput = console
+): Promise<number> {
+  let options: MatchJobsCliOptions;
+  try {
+    options = parseMatchJobsArgs(args);
+  } catch (error) {
+    output.error(error instanceof Error ? error.message : String(error));
+    output.error(MATCH_JOBS_USAGE);
+    return 1;
+  }
+
+  if (options.help) {
+    output.log(MATCH_JOBS_USAGE);
+    return 0;
+  }
+
+  if (options.now) {
+    const pinned = options.now;
+    const clock: Clock = { now: () => new Date(pinned.getTime()) };
+    runner.setDependencies({ clock });
+  }
+
+  let exitCode = 0;
+  for (const job of options.jobs) {
+    try {
+      const result = await runner.run(job);
+      output.log(formatJobResult(result));
+      result.errors.forEach(message => output.error(`  ${message}`));
+      if (result.errors.length > 0) exitCode = 1;
+    } catch (error) {
+      output.error(`${job}: failed - ${error instanceof Error ? error.message : String(error)}`);
+      exitCode = 1;
+    }
+  }
+
+  return exitCode;
+}
+
+function formatJobResult(result: MatchJobResult): string {
+  const errors = result.errors.length > 0 ? `, ${result.errors.length} errors` : '';
+  return `${result.job}: processed ${result.processed}, affected ${result.affected}${errors}`;
+}
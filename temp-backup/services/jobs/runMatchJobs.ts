@@ -0,0 +1,49 @@
+/**
+ * Run Match Jobs
+ * Epic 003: Matching System
+ *
+ * Entry point for running the match maintenance jobs once against Supabase,
+ * e.g. from cron. See matchJobsCli.ts for the arguments.
+ */
+
+import { getServiceRoleClient } from '../../lib/supabaseAdmin';
+import { ExperimentService } from '../experiments/experimentService';
+import { SupabaseExperimentOutcomeSource } from '../experiments/repositories/supabaseExperimentOutcomeSource';
+import { SupabaseExperimentRepository } from '../experiments/repositories/supabaseExperimentRepository';
+import { BoostService } from '../matching/boostService';
+import { CollaborativeFilteringService } from '../matching/collaborativeFilteringService';
+import { configureSupabaseMatching } from '../matching/configureSupabaseMatching';
+import { ExposureControlService } from '../matching/exposureControlService';
+import { MatchingService } from '../matching/matchingService';
+import { SupabaseBoostRepository } from '../matching/repositories/supabaseBoostRepository';
+import { SupabaseImpressionRepository } from '../matching/repositories/supabaseImpressionRepository';
+import { SupabaseInteractionRepository } from '../matching/repositories/supabaseInteractionRepository';
+import { runMatchJobsCli } from './matchJobsCli';
+
+if (require.main === module) {
+  // Queues, cooldowns, impressions and other users' matches sit behind RLS
+  const client = getServiceRoleClient();
+  configureSupabaseMatching(client);
+  const matching = MatchingService.getInstance();
+  // Refreshed queues are scored and logged under users' experiment arms
+  matching.setAlgorithmAssigner(ExperimentService.getInstance({
+    repository: new SupabaseExperimentRepository(client),
+    outcomes: new SupabaseExperimentOutcomeSource(client)
+  }));
+  const interactions = new SupabaseInteractionRepository(client);
+  // Algorithms with collaborative filtering on also suggest from everyone's likes
+  const collaborative = CollaborativeFilteringService.getInstance();
+  matching.setCollaborativeSource(collaborative);
+  // Refreshed queues spread impressions around, keep slots for new profiles and lift boosted ones
+  const impressions = new SupabaseImpressionRepository(client);
+  const boosts = BoostService.getInstance({ repository: new SupabaseBoostRepository(client), impressions, interactions });
+  matching.setExposureControl(ExposureControlService.getInstance({ impressions, boosts }));
+
+  collaborative.sync()
+    .then(() => runMatchJobsCli(process.argv.slice(2)))
+    .then(exitCode => process.exit(exitCode))
+    .catch(error => {
+      console.error(error);
+      process.exit(1);
+    });
+}
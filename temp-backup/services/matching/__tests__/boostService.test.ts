@@ -0,0 +1,178 @@
+import { BoostService } from '../boostService';
+import { InMemoryBoostRepository } from '../repositories/inMemoryBoostRepository';
+import { InMemoryImpressionRepository } from '../repositories/inMemoryImpressionRepository';
+import { InMemoryInteractionRepository } from '../repositories/inMemoryInteractionRepository';
+import { EntitlementService } from '../../subscription/entitlementService';
+import { InMemoryEntitlementRepository } from '../../subscription/repositories/inMemoryEntitlementRepository';
+import { Clock } from '../../../lib/clock';
+import { BoostAlreadyActiveError, BoostNotFoundError } from '../../../types/exposure';
+import { MatchingLimitExceededError, SwipeAction } from '../../../types/matching';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+describe('BoostService', () => {
+  let currentTime: Date;
+  let repository: InMemoryBoostRepository;
+  let impressions: InMemoryImpressionRepository;
+  let interactions: InMemoryInteractionRepository;
+  let plans: InMemoryEntitlementRepository;
+  let entitlements: EntitlementService;
+  let service: BoostService;
+
+  const clock: Clock = { now: () => currentTime };
+
+  const subscribe = (userId: string, planId: string): void => {
+    plans.saveSubscription({
+      id: `sub_${userId}`,
+      userId,
+      planId,
+      status: 'active',
+      billingCycle: 'monthly',
+      currentPeriodStart: new Date(currentTime.getTime() - DAY),
+      currentPeriodEnd: new Date(currentTime.getTime() + 29 * DAY),
+      createdAt: currentTime,
+      updatedAt: currentTime
+    });
+  };
+
+  const show = (profileId: string, times: number, at: Date = currentTime) =>
+    impressions.recordImpressions(Array.from({ length: times }, (_, i) => ({
+      viewerId: `viewer_${i}`,
+      profileId,
+      shownAt: at
+    })));
+
+  const receive = (fromUserId: string, action: SwipeAction, at: Date = currentTime) =>
+    interactions.recordInteraction({
+      matchId: `match_${fromUserId}`,
+      userId: fromUserId,
+      targetUserId: 'zoe',
+      action,
+      timestamp: at,
+      context: {}
+    });
+
+  beforeEach(() => {
+    currentTime = new Date('2025-06-01T12:00:00Z');
+    repository = new InMemoryBoostRepository();
+    impressions = new InMemoryImpressionRepository();
+    interactions = new InMemoryInteractionRepository();
+    plans = new InMemoryEntitlementRepository();
+    entitlements = EntitlementService.getInstance({ repository: plans, clock });
+    service = BoostService.getInstance({ repository, entitlements, impressions, interactions, clock });
+    service.updateConfig({ durationMinutes: 30, visibilityMultiplier: 2, maxBoostImpressions: 5 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Starting Boosts', () => {
+    it('should run a boost for 30 minutes and use one of the plan boosts', async () => {
+      subscribe('zoe', 'plan_premium');
+
+      const boost = await service.startBoost('zoe');
+
+      expect(boost).toMatchObject({ userId: 'zoe', startedAt: currentTime, multiplier: 2 });
+      expect(boost.endsAt).toEqual(new Date(currentTime.getTime() + 30 * MINUTE));
+      expect(await service.getActiveBoost('zoe')).toEqual(boost);
+      expect((await entitlements.getQuota('zoe', 'boosts')).remaining).toBe(0);
+    });
+
+    it('should refuse a boost the plan does not include', async () => {
+      await expect(service.startBoost('zoe')).rejects.toThrow(MatchingLimitExceededError);
+
+      expect(await service.getActiveBoost('zoe')).toBeNull();
+    });
+
+    it('should not stack boosts', async () => {
+      subscribe('zoe', 'plan_vip');
+      const boost = await service.startBoost('zoe');
+
+      await expect(service.startBoost('zoe')).rejects.toThrow(BoostAlreadyActiveError);
+      expect((await entitlements.getQuota('zoe', 'boosts')).remaining).toBe(4);
+
+      currentTime = boost.endsAt;
+      await expect(service.startBoost('zoe')).resolves.toMatchObject({ startedAt: boost.endsAt });
+    });
+
+    it('should run only one of two boosts started at once and give the other back', async () => {
+      subscribe('zoe', 'plan_vip');
+      const refund = jest.spyOn(entitlements, 'refund');
+
+      // Both pass the active boost check before either is saved
+      const results = await Promise.allSettled([service.startBoost('zoe'), service.startBoost('zoe')]);
+
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+      expect(results.find(result => result.status === 'rejected')).toMatchObject({
+        reason: expect.any(BoostAlreadyActiveError)
+      });
+      expect(refund).toHaveBeenCalledTimes(1);
+      expect((await entitlements.getQuota('zoe', 'boosts')).remaining).toBe(4);
+    });
+
+    it('should give the boost back when it cannot be saved', async () => {
+      subscribe('zoe', 'plan_premium');
+      jest.spyOn(repository, 'saveBoost').mockRejectedValueOnce(new Error('database unavailable'));
+
+      await expect(service.startBoost('zoe')).rejects.toThrow('database unavailable');
+      expect((await entitlements.getQuota('zoe', 'boosts')).remaining).toBe(1);
+    });
+  });
+
+  describe('Visibility', () => {
+    it('should lift only profiles with a boost running', async () => {
+      subscribe('zoe', 'plan_premium');
+      const boost = await service.startBoost('zoe');
+
+      expect(await service.getBoostMultipliers(['zoe', 'adam'], currentTime)).toEqual(new Map([['zoe', 2]]));
+      expect(await service.getBoostMultipliers(['zoe'], boost.endsAt)).toEqual(new Map());
+    });
+
+    it('should stop lifting a boost once it reaches the impression cap', async () => {
+      subscribe('zoe', 'plan_premium');
+      await show('zoe', 20, new Date(currentTime.getTime() - MINUTE)); // Before the boost
+      await service.startBoost('zoe');
+      await show('zoe', 4);
+
+      expect((await service.getBoostMultipliers(['zoe'], currentTime)).has('zoe')).toBe(true);
+
+      await show('zoe', 1);
+      expect((await service.getBoostMultipliers(['zoe'], currentTime)).has('zoe')).toBe(false);
+    });
+  });
+
+  describe('Summary', () => {
+    it('should report the impressions and likes gained during the boost', async () => {
+      subscribe('zoe', 'plan_premium');
+      await show('zoe', 3, new Date(currentTime.getTime() - 10 * MINUTE));
+      await show('zoe', 9, new Date(currentTime.getTime() - 2 * DAY)); // Long before the boost
+      await receive('early', 'like', new Date(currentTime.getTime() - MINUTE));
+      const boost = await service.startBoost('zoe');
+
+      currentTime = new Date(boost.startedAt.getTime() + 10 * MINUTE);
+      await show('zoe', 7);
+      await receive('adam', 'like');
+      await receive('ben', 'super_like');
+      await receive('carl', 'pass');
+
+      currentTime = new Date(boost.endsAt.getTime() + 5 * MINUTE);
+      await show('zoe', 2); // After the boost
+      await receive('late', 'like');
+
+      expect(await service.getBoostSummary(boost.boostId)).toEqual({
+        boost,
+        isActive: false,
+        impressions: 7,
+        impressionsBefore: 3,
+        likes: 2,
+        superLikes: 1
+      });
+    });
+
+    it('should reject unknown boosts', async () => {
+      await expect(service.getBoostSummary('missing')).rejects.toThrow(BoostNotFoundError);
+    });
+  });
+});
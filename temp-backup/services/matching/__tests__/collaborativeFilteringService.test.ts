@@ -0,0 +1,115 @@
+import { CollaborativeFilteringService } from '../collaborativeFilteringService';
+import { InMemoryInteractionRepository } from '../repositories/inMemoryInteractionRepository';
+import { SwipeAction } from '../../../types/matching';
+
+describe('CollaborativeFilteringService', () => {
+  let interactions: InMemoryInteractionRepository;
+  let service: CollaborativeFilteringService;
+  let currentTime: Date;
+
+  const like = (userId: string, ...targetUserIds: string[]) =>
+    targetUserIds.forEach(targetUserId => service.recordLike(userId, targetUserId));
+
+  const swipe = (userId: string, targetUserId: string, action: SwipeAction = 'like') => {
+    currentTime = new Date(currentTime.getTime() + 1000);
+    return interactions.recordInteraction({
+      matchId: `match_${userId}_${targetUserId}`,
+      userId,
+      targetUserId,
+      action,
+      timestamp: currentTime,
+      context: {}
+    });
+  };
+
+  beforeEach(() => {
+    currentTime = new Date('2025-06-01T12:00:00Z');
+    interactions = new InMemoryInteractionRepository();
+    service = CollaborativeFilteringService.getInstance({ interactions });
+    service.clear();
+    service.updateConfig({ minimumCoLikes: 2, syncPageSize: 1000 });
+  });
+
+  describe('Recommendations', () => {
+    it('should suggest what people with the same likes also liked', async () => {
+      like('alice', 'x');
+      like('bob', 'x', 'y', 'z');
+      like('carol', 'x', 'y');
+      like('dave', 'x', 'y', 'z');
+      like('erin', 'w');
+
+      const suggestions = await service.recommend('alice', 10);
+
+      // y and z were each liked alongside x by enough users; w never was
+      expect(suggestions.map(suggestion => suggestion.userId)).toEqual(['y', 'z']);
+      expect(suggestions[0].score).toBeCloseTo(3 / Math.sqrt(4 * 3), 5);
+      expect(suggestions[1].score).toBeCloseTo(2 / Math.sqrt(4 * 2), 5);
+    });
+
+    it('should leave out profiles the user already liked, and the user', async () => {
+      like('alice', 'x', 'y');
+      like('bob', 'x', 'y', 'alice');
+      like('carol', 'x', 'y', 'alice', 'z');
+      like('dave', 'x', 'y', 'z');
+
+      const suggestions = await service.recommend('alice', 10);
+
+      expect(suggestions.map(suggestion => suggestion.userId)).toEqual(['z']);
+      expect(await service.recommend('nobody', 10)).toEqual([]);
+    });
+
+    it('should ignore profiles liked together by too few users', async () => {
+      like('alice', 'x');
+      like('bob', 'x', 'y');
+      expect(await service.recommend('alice', 10)).toEqual([]);
+
+      service.updateConfig({ minimumCoLikes: 1 });
+      expect((await service.recommend('alice', 10)).map(suggestion => suggestion.userId)).toEqual(['y']);
+    });
+
+    it('should score specific candidates, averaging over the user\'s likes', async () => {
+      like('alice', 'x', 'v');
+      like('bob', 'x', 'y');
+      like('carol', 'x', 'y');
+
+      const scores = await service.scoreCandidates('alice', ['y', 'unknown']);
+
+      // Similar to x (2 / sqrt(3 * 2)) but not to v
+      expect(scores.get('y')).toBeCloseTo(2 / Math.sqrt(6) / 2, 5);
+      expect(scores.get('unknown')).toBe(0);
+      expect((await service.scoreCandidates('nobody', ['y'])).get('y')).toBe(0);
+    });
+  });
+
+  describe('Updates', () => {
+    it('should count each like once', async () => {
+      expect(service.recordLike('alice', 'x')).toBe(true);
+      expect(service.recordLike('alice', 'x')).toBe(false);
+      like('bob', 'x', 'y');
+      like('carol', 'x', 'y');
+
+      expect((await service.recommend('alice', 10))[0].score).toBeCloseTo(2 / Math.sqrt(3 * 2), 5);
+    });
+
+    it('should sync stored likes incrementally, skipping passes', async () => {
+      service.updateConfig({ syncPageSize: 2 });
+      await swipe('alice', 'x');
+      await swipe('bob', 'x');
+      await swipe('bob', 'y');
+      await swipe('carol', 'x');
+      await swipe('carol', 'y', 'pass');
+
+      expect(await service.sync()).toBe(4);
+      expect(await service.recommend('alice', 10)).toEqual([]);
+
+      await swipe('carol', 'z', 'super_like');
+      await swipe('dave', 'x');
+      await swipe('dave', 'y');
+      service.recordLike('dave', 'y'); // Already fed in by InteractionService
+
+      expect(await service.sync()).toBe(2);
+      expect(await service.sync()).toBe(0);
+      expect((await service.recommend('alice', 10)).map(suggestion => suggestion.userId)).toEqual(['y']);
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { ExposureControlService, giniCoefficient } from '../exposureControlService';
+import { InMemoryImpressionRepository } from '../repositories/inMemoryImpressionRepository';
+import { InMemoryProfileRepository } from '../../profile/repositories/inMemoryProfileRepository';
+import { Clock } from '../../../lib/clock';
+import { ExposureCandidate } from '../../../types/exposure';
+import { MatchResult } from '../../../types/matching';
+import { UserProfile } from '../../../types/profile';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('ExposureControlService', () => {
+  let impressions: InMemoryImpressionRepository;
+  let profiles: InMemoryProfileRepository;
+  let boosted: Set<string>;
+  let service: ExposureControlService;
+  let currentTime: Date;
+
+  const clock: Clock = { now: () => currentTime };
+
+  const buildProfile = (userId: string, ageInDays: number = 365, isVisible: boolean = true): UserProfile => ({
+    userId,
+    createdAt: new Date(currentTime.getTime() - ageInDays * DAY_MS),
+    visibility: { isVisible },
+    safety: { isReported: false, reportCount: 0, isBanned: false, trustScore: 1 }
+  } as UserProfile);
+
+  const buildEntry = (userId: string, ageInDays?: number): ExposureCandidate => ({
+    match: { matchId: `match_${userId}`, userId: 'viewer', targetUserId: userId } as MatchResult,
+    profile: buildProfile(userId, ageInDays)
+  });
+
+  const show = (profileId: string, times: number, at: Date = currentTime) =>
+    impressions.recordImpressions(Array.from({ length: times }, (_, i) => ({
+      viewerId: `viewer_${i}`,
+      profileId,
+      shownAt: at
+    })));
+
+  const ids = (entries: ExposureCandidate[]) => entries.map(entry => entry.match.targetUserId);
+
+  beforeEach(() => {
+    currentTime = new Date('2025-06-01T12:00:00Z');
+    impressions = new InMemoryImpressionRepository();
+    profiles = new InMemoryProfileRepository();
+    boosted = new Set();
+    service = ExposureControlService.getInstance({
+      impressions,
+      profiles,
+      boosts: {
+        getBoostMultipliers: async profileIds =>
+          new Map(profileIds.filter(id => boosted.has(id)).map(id => [id, 2]))
+      },
+      clock
+    });
+    service.updateConfig({
+      impressionWindowHours: 24,
+      saturationImpressions: 10,
+      newProfileDays: 7,
+      newProfileShare: 0.2,
+      boostShare: 0.2,
+      reportPageSize: 2
+    });
+
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Diminishing Returns', () => {
+    it('should discount profiles by their recent impressions', async () => {
+      await show('popular', 10);
+      await show('seen', 30);
+      await show('seen', 100, new Date(currentTime.getTime() - 2 * DAY_MS)); // Outside the window
+
+      const multipliers = await service.getExposureMultipliers(['popular', 'seen', 'unseen']);
+
+      expect(multipliers.get('popular')).toBeCloseTo(0.5, 10);
+      expect(multipliers.get('seen')).toBeCloseTo(0.25, 10);
+      expect(multipliers.get('unseen')).toBe(1);
+    });
+
+    it('should lift boosted profiles on top of their discount', async () => {
+      await show('boosted', 10);
+      boosted.add('boosted');
+
+      const multipliers = await service.getExposureMultipliers(['boosted', 'unseen']);
+
+      expect(multipliers.get('boosted')).toBeCloseTo(1, 10);
+      expect(multipliers.get('unseen')).toBe(1);
+    });
+
+    it('should log what each viewer was shown and in which slot', async () => {
+      const shown = [buildEntry('a').match, { ...buildEntry('b').match, exposureSlot: 'premium_boost' as const }];
+
+      await service.recordImpressions('viewer', shown);
+
+      expect(await impressions.countImpressions(currentTime)).toEqual(new Map([['a', 1], ['b', 1]]));
+    });
+  });
+
+  describe('Page Layout', () => {
+    it('should fill the page in rank order when nothing needs a reserved slot', async () => {
+      const ranked = ['a', 'b', 'c', 'd', 'e', 'f'].map(id => buildEntry(id));
+
+      const { page, continueAfter } = await service.arrangePage(ranked, 5);
+
+      expect(ids(page)).toEqual(['a', 'b', 'c', 'd', 'e']);
+      expect(continueAfter!.match.targetUserId).toBe('e');
+      page.forEach(entry => expect(entry.match.exposureSlot).toBeUndefined());
+    });
+
+    it('should reserve slots for boosted and new profiles from further down', async () => {
+      const ranked = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'].map(id => buildEntry(id, id === 'h' ? 1 : 365));
+      boosted.add('g');
+
+      const { page, continueAfter } = await service.arrangePage(ranked, 5);
+
+      // Three regular slots, then g and h spread through the page
+      expect(ids(page)).toEqual(['a', 'g', 'b', 'h', 'c']);
+      expect(continueAfter!.match.targetUserId).toBe('c');
+      expect(page[1].match.exposureSlot).toBe('premium_boost');
+      expect(page[3].match.exposureSlot).toBe('new_profile');
+    });
+
+    it('should leave reserved profiles that ranked on the page in place', async () => {
+      const ranked = ['a', 'b', 'c', 'd', 'e', 'f'].map(id => buildEntry(id, id === 'b' ? 1 : 365));
+
+      const { page } = await service.arrangePage(ranked, 5);
+
+      expect(ids(page)).toEqual(['a', 'b', 'c', 'd', 'e']);
+      expect(page[1].match.exposureSlot).toBe('new_profile');
+    });
+
+    it('should lay out pages without boost slots when boosts are unavailable', async () => {
+      service.setDependencies({ boosts: { getBoostMultipliers: async () => { throw new Error('down'); } } });
+      const ranked = ['a', 'b', 'c', 'd', 'e', 'f'].map(id => buildEntry(id));
+      boosted.add('f');
+
+      const { page } = await service.arrangePage(ranked, 5);
+
+      expect(ids(page)).toEqual(['a', 'b', 'c', 'd', 'e']);
+    });
+  });
+
+  describe('Reporting', () => {
+    it('should measure inequality with the Gini coefficient', () => {
+      expect(giniCoefficient([])).toBe(0);
+      expect(giniCoefficient([0, 0, 0])).toBe(0);
+      expect(giniCoefficient([5, 5, 5, 5])).toBeCloseTo(0, 10);
+      expect(giniCoefficient([0, 0, 0, 8])).toBeCloseTo(0.75, 10);
+      expect(giniCoefficient([1, 2, 3, 4])).toBeCloseTo(0.25, 10);
+    });
+
+    it('should report how impressions were spread across visible profiles', async () => {
+      await profiles.saveProfile(buildProfile('a'));
+      await profiles.saveProfile(buildProfile('b'));
+      await profiles.saveProfile(buildProfile('c', 1));
+      await profiles.saveProfile(buildProfile('d'));
+      await profiles.saveProfile(buildProfile('hidden', 365, false));
+      await show('a', 6);
+      await show('c', 2);
+      await show('hidden', 50);
+      const countImpressions = jest.spyOn(impressions, 'countImpressions');
+
+      const report = await service.getExposureReport();
+
+      expect(report).toEqual({
+        since: new Date(currentTime.getTime() - DAY_MS),
+        generatedAt: currentTime,
+        profiles: 4,
+        totalImpressions: 8,
+        gini: giniCoefficient([6, 0, 2, 0]),
+        topDecileShare: 0.75,
+        unexposedProfiles: 2,
+        newProfiles: 1,
+        newProfileImpressionShare: 0.25
+      });
+      // One count per page of profiles rather than one unbounded query
+      expect(countImpressions.mock.calls.map(([, profileIds]) => profileIds))
+        .toEqual([['a', 'b'], ['c', 'd'], []]);
+    });
+  });
+});
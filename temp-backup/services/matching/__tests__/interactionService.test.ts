@@ -0,0 +1,392 @@
+import { CollaborativeFilteringService } from '../collaborativeFilteringService';
+import { InteractionService } from '../interactionService';
+import { MatchingService } from '../matchingService';
+import { MutualMatchService } from '../mutualMatchService';
+import { ProfileCandidateSource } from '../profileCandidateSource';
+import { InMemoryMatchNotifier } from '../notifiers/inMemoryMatchNotifier';
+import { InMemoryInteractionRepository } from '../repositories/inMemoryInteractionRepository';
+import { InMemoryMutualMatchRepository } from '../repositories/inMemoryMutualMatchRepository';
+import { InMemoryProfileRepository } from '../../profile/repositories/inMemoryProfileRepository';
+import { EntitlementService } from '../../subscription/entitlementService';
+import { InMemoryEntitlementRepository } from '../../subscription/repositories/inMemoryEntitlementRepository';
+import { Clock } from '../../../lib/clock';
+import {
+  AdvancedMatchingCriteria,
+  MatchingLimitExceededError,
+  MatchingValidationError,
+  MatchResult
+} from '../../../types/matching';
+import { UserProfile } from '../../../types/profile';
+
+const buildProfile = (userId: string, latitude: number, longitude: number): UserProfile => ({
+  userId,
+  personalInfo: {
+    displayName: userId,
+    age: 28,
+    dateOfBirth: new Date('1997-01-01'),
+    location: { latitude, longitude, city: 'London', country: 'UK' },
+    sexualOrientation: 'straight',
+    sexualIntent: 'clear',
+    lookingFor: ['casual'],
+    bio: 'Enjoys running, live music and trying new restaurants around town.',
+    interests: ['music', 'running']
+  },
+  photos: [],
+  preferences: {
+    ageRange: { min: 18, max: 40 },
+    maxDistance: 50,
+    sexualOrientations: ['straight'],
+    relationshipTypes: ['casual']
+  },
+  visibility: {
+    isVisible: true,
+    hideAge: false,
+    hideLocation: false,
+    hideLastActive: false,
+    showOnlyToVerified: false,
+    incognito: false,
+    distanceVisibility: 'approximate',
+    onlineStatus: 'online'
+  },
+  completion: {
+    overallPercentage: 80,
+    personalInfo: 100,
+    photos: 0,
+    preferences: 100,
+    visibility: 100,
+    missingFields: [],
+    recommendedActions: []
+  },
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  lastActiveAt: new Date(),
+  profileViews: 0,
+  profileLikes: 0,
+  verification: {
+    isVerified: true,
+    verificationResults: [],
+    verificationScore: 1,
+    lastVerificationUpdate: new Date()
+  },
+  premium: { isActive: false, features: [] },
+  safety: { isReported: false, reportCount: 0, isBanned: false, trustScore: 1 }
+});
+
+const buildCriteria = (userId: string): AdvancedMatchingCriteria => ({
+  userId,
+  location: { latitude: 51.5074, longitude: -0.1278, radius: 50 },
+  preferences: {
+    ageRange: { min: 18, max: 40 },
+    sexualOrientations: ['straight'],
+    relationshipTypes: ['casual'],
+    maxDistance: 50
+  },
+  filters: {},
+  sort: { by: 'compatibility', direction: 'desc' },
+  preferenceWeights: { physical: 0.3, lifestyle: 0.25, social: 0.25, relationship: 0.2 },
+  minimumThresholds: { overall: 0 },
+  dealBreakers: [],
+  mustHaves: [],
+  niceToHaves: [],
+  enableAdvancedFiltering: true
+});
+
+describe('InteractionService', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+  const profiles = new InMemoryProfileRepository();
+  const matching = MatchingService.getInstance(new ProfileCandidateSource(profiles));
+  const collaborative = CollaborativeFilteringService.getInstance();
+
+  let currentTime: Date;
+  let interactions: InMemoryInteractionRepository;
+  let matches: InMemoryMutualMatchRepository;
+  let plans: InMemoryEntitlementRepository;
+  let entitlements: EntitlementService;
+  let notifier: InMemoryMatchNotifier;
+  let service: InteractionService;
+  let queue: MatchResult[];
+
+  const clock: Clock = { now: () => currentTime };
+
+  const subscribe = (userId: string, planId: string): void => {
+    plans.saveSubscription({
+      id: `sub_${userId}`,
+      userId,
+      planId,
+      status: 'active',
+      billingCycle: 'monthly',
+      currentPeriodStart: new Date(currentTime.getTime() - DAY),
+      currentPeriodEnd: new Date(currentTime.getTime() + 29 * DAY),
+      createdAt: currentTime,
+      updatedAt: currentTime
+    });
+  };
+
+  const swipeRequest = (match: MatchResult) => ({ matchId: match.matchId, targetUserId: match.targetUserId });
+
+  const likeBack = (fromUserId: string) => interactions.recordInteraction({
+    matchId: `their_match_${fromUserId}`,
+    userId: fromUserId,
+    targetUserId: 'seeker',
+    action: 'like',
+    timestamp: currentTime,
+    context: {}
+  });
+
+  beforeEach(async () => {
+    currentTime = new Date('2025-06-01T12:00:00Z');
+    profiles.clear();
+    await matching.clearCooldown('seeker');
+    matching.updateConfig({ candidatePageSize: 10, maxCandidatesScanned: 1000 });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await profiles.saveProfile(buildProfile('seeker', 51.5074, -0.1278));
+    await profiles.saveProfile(buildProfile('near_a', 51.5155, -0.0922));
+    await profiles.saveProfile(buildProfile('near_b', 51.5033, -0.1195));
+    await profiles.saveProfile(buildProfile('near_c', 51.52, -0.1));
+
+    interactions = new InMemoryInteractionRepository();
+    plans = new InMemoryEntitlementRepository();
+    entitlements = EntitlementService.getInstance({ repository: plans, clock });
+    notifier = new InMemoryMatchNotifier();
+    matches = new InMemoryMutualMatchRepository();
+    service = InteractionService.getInstance({
+      repository: interactions,
+      entitlements,
+      matching,
+      mutualMatches: MutualMatchService.getInstance({ repository: matches, profiles, notifier, clock }),
+      collaborativeFiltering: collaborative,
+      notifier,
+      profiles,
+      clock
+    });
+
+    queue = await matching.findAdvancedMatches(buildCriteria('seeker'));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Likes', () => {
+    it('should record a like, advance the queue and charge a daily like', async () => {
+      const recordLike = jest.spyOn(collaborative, 'recordLike');
+      const response = await service.likeProfile('seeker', swipeRequest(queue[0]));
+
+      expect(response).toEqual({
+        success: true,
+        isMutualMatch: false,
+        limitsExceeded: false,
+        remainingLikes: 9,
+        queueExhausted: false,
+        remainingInQueue: 2
+      });
+      expect((await interactions.getInteraction('seeker', queue[0].targetUserId))!.action).toBe('like');
+
+      const matchQueue = (await matching.getMatchQueue('seeker'))!;
+      expect(matchQueue.processedCount).toBe(1);
+      expect(matchQueue.pendingMatches.map(m => m.matchId)).not.toContain(queue[0].matchId);
+      expect(recordLike).toHaveBeenCalledWith('seeker', queue[0].targetUserId);
+    });
+
+    it('should remember the reserved slot the profile was shown in', async () => {
+      // As if exposure control had shown near_a in a boost slot
+      const shown = (await matching.markMatchProcessed('seeker', queue[0].matchId, 'passed'))!;
+      await matching.restoreMatch('seeker', { ...shown, exposureSlot: 'premium_boost' });
+      await likeBack(queue[0].targetUserId);
+
+      const response = await service.likeProfile('seeker', swipeRequest(queue[0]));
+
+      const like = (await interactions.getInteraction('seeker', queue[0].targetUserId))!;
+      expect(like.context.exposureSlot).toBe('premium_boost');
+      expect(response.mutualMatch!.matchSource).toBe('premium_boost');
+    });
+
+    it('should report queue exhaustion after the last profile', async () => {
+      await service.likeProfile('seeker', swipeRequest(queue[0]));
+      await service.passProfile('seeker', swipeRequest(queue[1]));
+      const response = await service.likeProfile('seeker', swipeRequest(queue[2]));
+
+      expect(response.queueExhausted).toBe(true);
+      expect(response.remainingInQueue).toBe(0);
+      expect((await matching.getMatchQueue('seeker'))!.queueStatus).toBe('exhausted');
+    });
+
+    it('should create the mutual match when the target already liked back', async () => {
+      await likeBack(queue[0].targetUserId);
+
+      const response = await service.likeProfile('seeker', swipeRequest(queue[0]));
+
+      expect(response.isMutualMatch).toBe(true);
+      expect(response.mutualMatch!.matchIds).toContain(queue[0].matchId);
+      expect(response.mutualMatch!.conversationId).toBeTruthy();
+      expect(await matches.getMutualMatch('seeker', queue[0].targetUserId)).toEqual(response.mutualMatch);
+    });
+
+    it('should undo the like when the match cannot be created', async () => {
+      await likeBack(queue[0].targetUserId);
+      jest.spyOn(matches, 'createMutualMatch').mockRejectedValueOnce(new Error('connection reset'));
+      const recordLike = jest.spyOn(collaborative, 'recordLike');
+
+      await expect(service.likeProfile('seeker', swipeRequest(queue[0]))).rejects.toThrow('connection reset');
+
+      expect(await interactions.getInteraction('seeker', queue[0].targetUserId)).toBeNull();
+      expect((await entitlements.getQuota('seeker', 'daily_likes')).used).toBe(0);
+      expect(recordLike).not.toHaveBeenCalled();
+      expect((await matching.getMatchQueue('seeker'))!.pendingMatches).toHaveLength(3);
+
+      // Retrying goes through
+      expect((await service.likeProfile('seeker', swipeRequest(queue[0]))).isMutualMatch).toBe(true);
+    });
+
+    it('should report exhausted likes without recording the swipe', async () => {
+      for (let i = 0; i < 10; i++) {
+        await entitlements.consume('seeker', 'daily_likes');
+      }
+
+      const response = await service.likeProfile('seeker', swipeRequest(queue[0]));
+
+      expect(response.success).toBe(false);
+      expect(response.limitsExceeded).toBe(true);
+      expect(response.remainingLikes).toBe(0);
+      expect(response.message).toContain('daily likes');
+      expect(await interactions.getInteraction('seeker', queue[0].targetUserId)).toBeNull();
+      expect((await matching.getMatchQueue('seeker'))!.pendingMatches).toHaveLength(3);
+    });
+
+    it('should reject self-swipes, repeat swipes and banned targets', async () => {
+      await service.likeProfile('seeker', swipeRequest(queue[0]));
+
+      await expect(service.likeProfile('seeker', { matchId: 'm', targetUserId: 'seeker' }))
+        .rejects.toThrow(MatchingValidationError);
+      await expect(service.passProfile('seeker', swipeRequest(queue[0])))
+        .rejects.toMatchObject({ errors: [{ code: 'ALREADY_INTERACTED' }] });
+
+      const banned = buildProfile(queue[1].targetUserId, 51.5, -0.1);
+      banned.safety = { ...banned.safety, isBanned: true };
+      await profiles.saveProfile(banned);
+
+      await expect(service.likeProfile('seeker', swipeRequest(queue[1])))
+        .rejects.toMatchObject({ errors: [{ code: 'USER_NOT_FOUND' }] });
+    });
+
+    it('should refund the like when the swipe cannot be stored', async () => {
+      jest.spyOn(interactions, 'recordInteraction').mockRejectedValueOnce(new Error('connection reset'));
+
+      await expect(service.likeProfile('seeker', swipeRequest(queue[0]))).rejects.toThrow('connection reset');
+
+      expect((await entitlements.getQuota('seeker', 'daily_likes')).used).toBe(0);
+    });
+  });
+
+  describe('Super Likes', () => {
+    it('should notify the target and report super likes left', async () => {
+      subscribe('seeker', 'plan_premium');
+
+      const response = await service.likeProfile('seeker', { ...swipeRequest(queue[0]), isSuperLike: true });
+
+      expect(response.success).toBe(true);
+      expect(response.remainingLikes).toBe(4);
+
+      const [notification] = notifier.getNotifications(queue[0].targetUserId);
+      expect(notification.type).toBe('super_like_received');
+      expect(notification.body).toBe('seeker super liked you');
+      expect(notification.data).toEqual({ fromUserId: 'seeker' });
+      expect(notifier.getNotifications('seeker')).toHaveLength(0);
+    });
+
+    it('should send the match notification instead when the super like is mutual', async () => {
+      await likeBack(queue[0].targetUserId);
+
+      const response = await service.likeProfile('seeker', { ...swipeRequest(queue[0]), isSuperLike: true });
+
+      expect(response.mutualMatch!.matchSource).toBe('super_like');
+      expect(notifier.getNotifications(queue[0].targetUserId).map(n => n.type)).toEqual(['mutual_match']);
+    });
+
+    it('should keep the super like when the notification fails', async () => {
+      jest.spyOn(notifier, 'notify').mockRejectedValueOnce(new Error('push unavailable'));
+
+      const response = await service.likeProfile('seeker', { ...swipeRequest(queue[0]), isSuperLike: true });
+
+      expect(response.success).toBe(true);
+      expect((await interactions.getInteraction('seeker', queue[0].targetUserId))!.action).toBe('super_like');
+    });
+  });
+
+  describe('Rewind', () => {
+    it('should restore the last pass to the front of the queue and charge a rewind', async () => {
+      subscribe('seeker', 'plan_premium');
+      await service.likeProfile('seeker', swipeRequest(queue[0]));
+      await service.passProfile('seeker', swipeRequest(queue[1]));
+
+      const response = await service.rewind('seeker');
+
+      expect(response.success).toBe(true);
+      expect(response.targetUserId).toBe(queue[1].targetUserId);
+      expect(response.restoredMatch!.status).toBe('pending');
+      expect(response.remainingRewinds).toBe(2);
+      expect(await interactions.getInteraction('seeker', queue[1].targetUserId)).toBeNull();
+
+      const matchQueue = (await matching.getMatchQueue('seeker'))!;
+      expect(matchQueue.pendingMatches[0].matchId).toBe(queue[1].matchId);
+      expect(matchQueue.processedCount).toBe(1);
+
+      // The profile can be swiped again
+      const like = await service.likeProfile('seeker', swipeRequest(queue[1]));
+      expect(like.success).toBe(true);
+    });
+
+    it('should restore a pass recorded by another instance', async () => {
+      subscribe('seeker', 'plan_premium');
+      // Another instance recorded the pass, so only the stored swipe knows the match
+      await interactions.recordInteraction({
+        matchId: queue[0].matchId,
+        userId: 'seeker',
+        targetUserId: queue[0].targetUserId,
+        action: 'pass',
+        timestamp: currentTime,
+        context: { swipeDirection: 'left' },
+        passedMatch: queue[0]
+      });
+      await matching.markMatchProcessed('seeker', queue[0].matchId, 'passed');
+
+      const response = await service.rewind('seeker');
+
+      expect(response.restoredMatch).toMatchObject({ matchId: queue[0].matchId, status: 'pending' });
+      expect((await matching.getMatchQueue('seeker'))!.pendingMatches[0].matchId).toBe(queue[0].matchId);
+    });
+
+    it('should only rewind a pass that is the latest swipe', async () => {
+      subscribe('seeker', 'plan_premium');
+
+      await expect(service.rewind('seeker')).rejects.toMatchObject({ errors: [{ code: 'NOTHING_TO_REWIND' }] });
+
+      await service.passProfile('seeker', swipeRequest(queue[0]));
+      currentTime = new Date(currentTime.getTime() + 1000);
+      await service.likeProfile('seeker', swipeRequest(queue[1]));
+
+      await expect(service.rewind('seeker')).rejects.toMatchObject({ errors: [{ code: 'REWIND_NOT_ALLOWED' }] });
+      expect((await entitlements.getQuota('seeker', 'rewinds')).used).toBe(0);
+    });
+
+    it('should require a plan with rewinds', async () => {
+      await service.passProfile('seeker', swipeRequest(queue[0]));
+
+      await expect(service.rewind('seeker')).rejects.toThrow(MatchingLimitExceededError);
+      expect(await interactions.getInteraction('seeker', queue[0].targetUserId)).not.toBeNull();
+    });
+
+    it('should refund the rewind when the swipe cannot be removed', async () => {
+      subscribe('seeker', 'plan_premium');
+      await service.passProfile('seeker', swipeRequest(queue[0]));
+      jest.spyOn(interactions, 'deleteInteraction').mockRejectedValueOnce(new Error('connection reset'));
+
+      await expect(service.rewind('seeker')).rejects.toThrow('connection reset');
+
+      expect((await entitlements.getQuota('seeker', 'rewinds')).used).toBe(0);
+      expect((await matching.getMatchQueue('seeker'))!.pendingMatches).toHaveLength(2);
+    });
+  });
+});
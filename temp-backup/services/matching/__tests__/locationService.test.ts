@@ -0,0 +1,167 @@
+import { LocationService } from '../locationService';
+import { GeoLocation, LocationPermissionError, MatchResult } from '../../../types/matching';
+
+describe('LocationService', () => {
+  const service = LocationService.getInstance();
+
+  const london: GeoLocation = { latitude: 51.5074, longitude: -0.1278, timestamp: new Date() };
+  const paris: GeoLocation = { latitude: 48.8566, longitude: 2.3522, timestamp: new Date() };
+
+  beforeEach(() => {
+    service.clearLocationHistory('user_1');
+    service.setPermissionStatus({ status: 'undetermined' });
+  });
+
+  describe('Distance Calculation', () => {
+    it('should calculate haversine distance between London and Paris', () => {
+      const result = service.calculateDistance(london, paris);
+
+      expect(result.method).toBe('haversine');
+      expect(result.distance).toBeCloseTo(343.5, 0);
+      expect(result.bearing).toBeGreaterThan(140);
+      expect(result.bearing).toBeLessThan(150);
+      expect(result.duration).toBeGreaterThan(0);
+    });
+
+    it('should calculate vincenty distance on the ellipsoid', () => {
+      const result = service.calculateDistance(london, paris, 'vincenty');
+
+      expect(result.method).toBe('vincenty');
+      expect(result.distance).toBeCloseTo(343.9, 0);
+    });
+
+    it('should return zero for identical points', () => {
+      expect(service.calculateDistance(london, london).distance).toBe(0);
+      expect(service.calculateVincentyDistance(london, london)).toBe(0);
+    });
+
+    it('should fall back to haversine for antipodal points', () => {
+      const a = { latitude: 0, longitude: 0 };
+      const b = { latitude: 0.5, longitude: 179.7 };
+
+      const distance = service.calculateVincentyDistance(a, b);
+      expect(distance).toBeGreaterThan(19000);
+    });
+
+    it('should reject invalid coordinates', () => {
+      expect(() => service.calculateDistance({ latitude: 91, longitude: 0 }, london)).toThrow('Invalid latitude');
+      expect(() => service.calculateDistance(london, { latitude: 0, longitude: -181 })).toThrow('Invalid longitude');
+    });
+  });
+
+  describe('Location Bounds', () => {
+    it('should create a bounding box around the center', () => {
+      const bounds = service.createLocationBounds(london, 10);
+
+      expect(bounds.radius).toBe(10000);
+      expect(bounds.northEast.latitude).toBeGreaterThan(london.latitude);
+      expect(bounds.southWest.latitude).toBeLessThan(london.latitude);
+      // Longitude span is wider than latitude span away from the equator
+      expect(bounds.northEast.longitude - london.longitude)
+        .toBeGreaterThan(bounds.northEast.latitude - london.latitude);
+    });
+
+    it('should contain points within the radius', () => {
+      const bounds = service.createLocationBounds(london, 10);
+
+      expect(service.isWithinBounds({ latitude: 51.5155, longitude: -0.0922 }, bounds)).toBe(true);
+      expect(service.isWithinBounds(paris, bounds)).toBe(false);
+    });
+
+    it('should handle boxes crossing the antimeridian', () => {
+      const fiji: GeoLocation = { latitude: -17.7, longitude: 179.9, timestamp: new Date() };
+      const bounds = service.createLocationBounds(fiji, 50);
+
+      expect(bounds.southWest.longitude).toBeGreaterThan(bounds.northEast.longitude);
+      expect(service.isWithinBounds({ latitude: -17.7, longitude: -179.9 }, bounds)).toBe(true);
+    });
+
+    it('should reject a non-positive radius', () => {
+      expect(() => service.createLocationBounds(london, 0)).toThrow('Radius must be greater than 0');
+    });
+
+    it('should find users in area ordered by distance', async () => {
+      const users = await service.findUsersInArea(london, 15, [
+        { userId: 'far', location: paris },
+        { userId: 'mid', location: { latitude: 51.5155, longitude: -0.0922 } },
+        { userId: 'near', location: { latitude: 51.5033, longitude: -0.1195 } }
+      ]);
+
+      expect(users.map(u => u.userId)).toEqual(['near', 'mid']);
+    });
+  });
+
+  describe('Permissions', () => {
+    it('should require granted permission', () => {
+      expect(service.hasPermission()).toBe(false);
+      expect(() => service.requirePermission()).toThrow(LocationPermissionError);
+
+      service.setPermissionStatus({ status: 'granted' });
+      expect(service.hasPermission()).toBe(true);
+      expect(() => service.requirePermission()).not.toThrow();
+    });
+
+    it('should track background permission separately', () => {
+      service.setPermissionStatus({ status: 'granted', background: false });
+
+      expect(() => service.requirePermission(true)).toThrow('Background location permission required');
+    });
+
+    it('should not allow asking again after denial by default', () => {
+      const status = service.setPermissionStatus({ status: 'denied' });
+
+      expect(status.canAskAgain).toBe(false);
+      expect(status.foreground).toBe(false);
+    });
+  });
+
+  describe('Location History', () => {
+    it('should keep a bounded history per user', () => {
+      service.updateConfig({ maxHistoryEntries: 3 });
+
+      for (let i = 0; i < 5; i++) {
+        service.recordLocation('user_1', { latitude: 51 + i * 0.01, longitude: 0, timestamp: new Date(1000 * i) });
+      }
+
+      const history = service.getLocationHistory('user_1')!;
+      expect(history.entries).toHaveLength(3);
+      expect(history.entries[0].latitude).toBeCloseTo(51.02);
+      expect(service.getLastKnownLocation('user_1')!.latitude).toBeCloseTo(51.04);
+
+      service.updateConfig({ maxHistoryEntries: 50 });
+    });
+
+    it('should sum distance travelled', () => {
+      service.recordLocation('user_1', london);
+      service.recordLocation('user_1', paris);
+
+      expect(service.getDistanceTravelled('user_1')).toBeCloseTo(343.5, 0);
+    });
+
+    it('should return null for unknown users', () => {
+      expect(service.getLocationHistory('nobody')).toBeNull();
+      expect(service.getLastKnownLocation('nobody')).toBeNull();
+    });
+  });
+
+  describe('Unit Conversion', () => {
+    it('should convert between kilometers and miles', () => {
+      expect(service.kilometersToMiles(1.609344)).toBeCloseTo(1);
+      expect(service.milesToKilometers(10)).toBeCloseTo(16.09344);
+      expect(service.convertDistance(5, 'km', 'km')).toBe(5);
+    });
+
+    it('should convert match distances', () => {
+      const match = { distance: 16.09, distanceUnit: 'km' } as MatchResult;
+      const converted = service.convertMatchDistance(match, 'miles');
+
+      expect(converted.distanceUnit).toBe('miles');
+      expect(converted.distance).toBeCloseTo(10, 1);
+    });
+
+    it('should format distances for display', () => {
+      expect(service.formatDistance(0.4)).toBe('< 1 km');
+      expect(service.formatDistance(16.09344, 'miles')).toBe('10 miles');
+    });
+  });
+});
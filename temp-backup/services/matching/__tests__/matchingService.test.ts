@@ -0,0 +1,923 @@
+import { CollaborativeFilteringService } from '../collaborativeFilteringService';
+import { ExposureControlService } from '../exposureControlService';
+import { MatchingService, UserLocationData } from '../matchingService';
+import { DEFAULT_MATCHING_ALGORITHM } from '../matchingAlgorithms';
+import { ProfileCandidateSource } from '../profileCandidateSource';
+import { InMemoryImpressionRepository } from '../repositories/inMemoryImpressionRepository';
+import { InMemoryMatchingAlgorithmRepository } from '../repositories/inMemoryMatchingAlgorithmRepository';
+import { InMemoryMatchingStateStore } from '../repositories/inMemoryMatchingStateStore';
+import { InMemoryProfileRepository } from '../../profile/repositories/inMemoryProfileRepository';
+import { Clock } from '../../../lib/clock';
+import {
+  AdvancedMatchingCriteria,
+  AlgorithmVersionExistsError,
+  InvalidPageTokenError,
+  MatchingAlgorithmConfig,
+  MatchingCriteria,
+  MatchingValidationError,
+  UnknownAlgorithmVersionError
+} from '../../../types/matching';
+import { ProfilePhoto, UserProfile } from '../../../types/profile';
+
+const buildProfile = (userId: string, age: number, latitude: number, longitude: number): UserProfile => ({
+  userId,
+  personalInfo: {
+    displayName: userId,
+    age,
+    dateOfBirth: new Date('1995-01-01'),
+    location: { latitude, longitude, city: 'London', country: 'UK' },
+    sexualOrientation: 'straight',
+    sexualIntent: 'clear',
+    lookingFor: ['casual'],
+    bio: 'Enjoys running, live music and trying new restaurants around town.',
+    interests: ['music', 'running']
+  },
+  photos: [],
+  preferences: {
+    ageRange: { min: 18, max: 40 },
+    maxDistance: 50,
+    sexualOrientations: ['straight'],
+    relationshipTypes: ['casual']
+  },
+  visibility: {
+    isVisible: true,
+    hideAge: false,
+    hideLocation: false,
+    hideLastActive: false,
+    showOnlyToVerified: false,
+    incognito: false,
+    distanceVisibility: 'approximate',
+    onlineStatus: 'online'
+  },
+  completion: {
+    overallPercentage: 80,
+    personalInfo: 100,
+    photos: 0,
+    preferences: 100,
+    visibility: 100,
+    missingFields: [],
+    recommendedActions: []
+  },
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  lastActiveAt: new Date(),
+  profileViews: 0,
+  profileLikes: 0,
+  verification: {
+    isVerified: true,
+    verificationResults: [],
+    verificationScore: 1,
+    lastVerificationUpdate: new Date()
+  },
+  premium: { isActive: false, features: [] },
+  safety: { isReported: false, reportCount: 0, isBanned: false, trustScore: 1 }
+});
+
+const buildPhoto = (id: string, moderationStatus: ProfilePhoto['moderationStatus'] = 'approved'): ProfilePhoto => ({
+  id,
+  url: `https://example.com/${id}.jpg`,
+  thumbnailUrl: `https://example.com/${id}_thumb.jpg`,
+  isPrimary: false,
+  isVerified: moderationStatus === 'approved',
+  uploadedAt: new Date(),
+  moderationStatus,
+  order: 0
+});
+
+const buildCriteria = (userId: string): AdvancedMatchingCriteria => ({
+  userId,
+  location: { latitude: 51.5074, longitude: -0.1278, radius: 50 },
+  preferences: {
+    ageRange: { min: 18, max: 40 },
+    sexualOrientations: ['straight'],
+    relationshipTypes: ['casual'],
+    maxDistance: 50
+  },
+  filters: {},
+  sort: { by: 'compatibility', direction: 'desc' },
+  preferenceWeights: { physical: 0.3, lifestyle: 0.25, social: 0.25, relationship: 0.2 },
+  minimumThresholds: { overall: 0 },
+  dealBreakers: [],
+  mustHaves: [],
+  niceToHaves: [],
+  enableAdvancedFiltering: true
+});
+
+describe('MatchingService', () => {
+  const repository = new InMemoryProfileRepository();
+  const service = MatchingService.getInstance(new ProfileCandidateSource(repository));
+
+  let currentTime: Date;
+  let stateStore: InMemoryMatchingStateStore;
+
+  const clock: Clock = { now: () => currentTime };
+
+  beforeEach(async () => {
+    // The service stamps cooldowns and TTLs from the real clock
+    currentTime = new Date();
+    stateStore = new InMemoryMatchingStateStore(clock);
+    service.setStateStore(stateStore);
+    service.setAlgorithmRepository(new InMemoryMatchingAlgorithmRepository());
+    repository.clear();
+    service.updateConfig({ candidatePageSize: 2, maxCandidatesScanned: 1000, algorithmVersion: 'v1' });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await repository.saveProfile(buildProfile('seeker', 28, 51.5074, -0.1278));
+    await repository.saveProfile(buildProfile('near_a', 27, 51.5155, -0.0922));
+    await repository.saveProfile(buildProfile('near_b', 30, 51.5033, -0.1195));
+    await repository.saveProfile(buildProfile('near_c', 26, 51.52, -0.1));
+    await repository.saveProfile(buildProfile('too_old', 55, 51.51, -0.12));
+    await repository.saveProfile(buildProfile('paris', 29, 48.8566, 2.3522));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Candidate Source', () => {
+    it('should page through stored profiles excluding the searcher', async () => {
+      const source = new ProfileCandidateSource(repository);
+
+      const first = await source.getCandidates({ userId: 'seeker', limit: 2 });
+      const second = await source.getCandidates({ userId: 'seeker', limit: 2, cursor: first.nextCursor });
+      const third = await source.getCandidates({ userId: 'seeker', limit: 2, cursor: second.nextCursor });
+
+      const seen = [...first.candidates, ...second.candidates, ...third.candidates].map(c => c.userId);
+      expect(seen).toEqual(['near_a', 'near_b', 'near_c', 'paris', 'too_old']);
+      expect(third.nextCursor).toBeUndefined();
+    });
+  });
+
+  describe('Advanced Matching', () => {
+    it('should find matches across candidate pages using stored locations', async () => {
+      const matches = await service.findAdvancedMatches(buildCriteria('seeker'));
+
+      expect(matches.map(m => m.targetUserId).sort()).toEqual(['near_a', 'near_b', 'near_c']);
+      matches.forEach(match => {
+        expect(match.distance).toBeLessThan(5);
+        expect(match.compatibilityScore).toBeGreaterThan(0);
+      });
+      expect((await service.getMatchQueue('seeker'))!.totalCount).toBe(3);
+    });
+
+    it('should stop after the scan limit', async () => {
+      service.updateConfig({ maxCandidatesScanned: 2 });
+
+      const matches = await service.findAdvancedMatches(buildCriteria('seeker'));
+
+      expect(matches.map(m => m.targetUserId).sort()).toEqual(['near_a', 'near_b']);
+    });
+
+    it('should leave out users with an active ban', async () => {
+      const banned = buildProfile('near_a', 27, 51.5155, -0.0922);
+      banned.safety = { ...banned.safety, isBanned: true, banExpiresAt: new Date(Date.now() + 60 * 60 * 1000) };
+      const expired = buildProfile('near_b', 30, 51.5033, -0.1195);
+      expired.safety = { ...expired.safety, isBanned: true, banExpiresAt: new Date(Date.now() - 60 * 1000) };
+      await repository.saveProfile(banned);
+      await repository.saveProfile(expired);
+
+      const matches = await service.findAdvancedMatches(buildCriteria('seeker'));
+
+      expect(matches.map(m => m.targetUserId).sort()).toEqual(['near_b', 'near_c']);
+    });
+
+    it('should reject unknown users', async () => {
+      await expect(service.findAdvancedMatches(buildCriteria('ghost')))
+        .rejects.toBeInstanceOf(MatchingValidationError);
+    });
+
+    it('should explain matches using stored candidate profiles', async () => {
+      const seeker = (await repository.getProfile('seeker'))!;
+      const matches = await service.findAdvancedMatches(buildCriteria('seeker'));
+
+      const explanations = await service.explainMatchReasons(seeker, matches);
+
+      expect(explanations).toHaveLength(matches.length);
+      explanations.forEach(explanation => {
+        expect(explanation.primaryReasons).not.toContain('Profile data unavailable');
+      });
+    });
+
+    it('should rank by how well both sides fit each other', async () => {
+      const before = (await service.findAdvancedMatches(buildCriteria('seeker')))
+        .find(match => match.targetUserId === 'near_a')!;
+      const { forward, backward } = before.directionalScores;
+      expect(before.compatibilityScore).toBeCloseTo((2 * forward * backward) / (forward + backward), 10);
+
+      // near_a is looking for someone older than the seeker
+      const picky = buildProfile('near_a', 27, 51.5155, -0.0922);
+      picky.preferences = { ...picky.preferences!, ageRange: { min: 40, max: 50 } };
+      await repository.saveProfile(picky);
+      await service.clearCooldown('seeker');
+
+      const after = (await service.findAdvancedMatches(buildCriteria('seeker')))
+        .find(match => match.targetUserId === 'near_a')!;
+      expect(after.directionalScores.forward).toBeCloseTo(forward, 10);
+      expect(after.directionalScores.backward).toBeLessThan(backward);
+      expect(after.compatibilityScore).toBeLessThan(before.compatibilityScore);
+    });
+
+    it('should leave out candidates whose own deal breakers the searcher triggers', async () => {
+      const smoker = buildProfile('seeker', 28, 51.5074, -0.1278);
+      smoker.personalInfo.lifestyle = { smoking: 'regularly' };
+      const nonSmoker = buildProfile('near_a', 27, 51.5155, -0.0922);
+      nonSmoker.preferences = { ...nonSmoker.preferences!, dealBreakers: ['smoking'] };
+      await repository.saveProfile(smoker);
+      await repository.saveProfile(nonSmoker);
+
+      const matches = await service.findAdvancedMatches(buildCriteria('seeker'));
+
+      expect(matches.map(match => match.targetUserId).sort()).toEqual(['near_b', 'near_c']);
+      matches.forEach(match => expect(match.preferenceAlignment.dealBreakersPassed).toBe(true));
+    });
+
+    it('should explain the match from both sides', async () => {
+      const seeker = (await repository.getProfile('seeker'))!;
+      const matches = await service.findAdvancedMatches(buildCriteria('seeker'));
+
+      const explanations = await service.explainMatchReasons(seeker, matches);
+
+      explanations.forEach((explanation, index) => {
+        expect(explanation.forward.score).toBeCloseTo(matches[index].directionalScores.forward, 10);
+        expect(explanation.backward.score).toBeCloseTo(matches[index].directionalScores.backward, 10);
+        expect(explanation.recommendationStrength).toBeCloseTo(matches[index].compatibilityScore, 10);
+        expect(explanation.backward.triggeredDealBreakers).toEqual([]);
+      });
+    });
+  });
+
+  describe('State Store', () => {
+    const MINUTE = 60 * 1000;
+
+    it('should keep the queue and cooldown in the state store', async () => {
+      await service.findAdvancedMatches(buildCriteria('seeker'));
+
+      expect((await stateStore.getQueue('seeker'))!.totalCount).toBe(3);
+      expect(await stateStore.getCooldown('seeker')).not.toBeNull();
+      expect(Array.from((await service.getActiveCooldowns()).keys())).toEqual(['seeker']);
+
+      await service.clearCooldown('seeker');
+      expect((await service.getActiveCooldowns()).size).toBe(0);
+    });
+
+    it('should honor a cooldown set by another instance', async () => {
+      await stateStore.setCooldown('seeker', new Date(Date.now() + 5 * MINUTE));
+
+      await expect(service.findAdvancedMatches(buildCriteria('seeker'))).rejects.toThrow('cooldown');
+    });
+
+    it('should drop queues and cooldowns once they expire', async () => {
+      service.updateConfig({ queueTtlMinutes: 60, cooldownPeriod: 5 });
+      await service.findAdvancedMatches(buildCriteria('seeker'));
+
+      currentTime = new Date(currentTime.getTime() + 6 * MINUTE);
+      expect((await service.getActiveCooldowns()).size).toBe(0);
+      expect(await service.getMatchQueue('seeker')).not.toBeNull();
+
+      currentTime = new Date(currentTime.getTime() + 60 * MINUTE);
+      expect(await service.getMatchQueue('seeker')).toBeNull();
+      expect(await service.getMatchQueues()).toEqual([]);
+    });
+
+    it('should not let callers change stored queues by mutating results', async () => {
+      const matches = await service.findAdvancedMatches(buildCriteria('seeker'));
+
+      await service.markMatchProcessed('seeker', matches[0].matchId, 'passed');
+
+      expect(matches).toHaveLength(3);
+      expect((await service.getMatchQueue('seeker'))!.pendingMatches).toHaveLength(2);
+    });
+  });
+
+  describe('Sorting and Filters', () => {
+    const HOUR = 60 * 60 * 1000;
+    let profiles: UserProfile[];
+    let locations: UserLocationData[];
+
+    const find = async (update: (criteria: MatchingCriteria) => void = () => undefined) => {
+      const criteria = buildCriteria('seeker');
+      update(criteria);
+      await service.clearCooldown('seeker');
+      const matches = await service.findMatches('seeker', profiles[0], criteria, profiles, locations);
+      return matches.map(match => match.targetUserId);
+    };
+
+    beforeEach(() => {
+      // near_a: middle distance, active two days ago, unverified, premium, three photos
+      // near_b: nearest, active an hour ago, verified, one approved and one pending photo
+      // near_c: furthest, active now, verified, no photos
+      const nearA = buildProfile('near_a', 27, 51.5155, -0.0922);
+      nearA.lastActiveAt = new Date(Date.now() - 48 * HOUR);
+      nearA.verification = { ...nearA.verification, isVerified: false, verificationScore: 0.2 };
+      nearA.premium = { isActive: true, features: [] };
+      nearA.photos = [buildPhoto('a1'), buildPhoto('a2'), buildPhoto('a3')];
+
+      const nearB = buildProfile('near_b', 30, 51.5033, -0.1195);
+      nearB.lastActiveAt = new Date(Date.now() - HOUR);
+      nearB.photos = [buildPhoto('b1'), buildPhoto('b2', 'pending')];
+
+      const nearC = buildProfile('near_c', 26, 51.53, -0.05);
+
+      profiles = [buildProfile('seeker', 28, 51.5074, -0.1278), nearA, nearB, nearC];
+      locations = profiles.map(profile => ({
+        userId: profile.userId,
+        location: { ...profile.personalInfo.location, timestamp: new Date() },
+        lastSeen: new Date(),
+        accuracy: 10,
+        isOnline: true
+      }));
+    });
+
+    it('should sort by distance in either direction', async () => {
+      expect(await find(criteria => { criteria.sort = { by: 'distance', direction: 'asc' }; }))
+        .toEqual(['near_b', 'near_a', 'near_c']);
+      expect(await find(criteria => { criteria.sort = { by: 'distance', direction: 'desc' }; }))
+        .toEqual(['near_c', 'near_a', 'near_b']);
+    });
+
+    it('should sort by last activity in either direction', async () => {
+      expect(await find(criteria => { criteria.sort = { by: 'activity', direction: 'desc' }; }))
+        .toEqual(['near_c', 'near_b', 'near_a']);
+      expect(await find(criteria => { criteria.sort = { by: 'activity', direction: 'asc' }; }))
+        .toEqual(['near_a', 'near_b', 'near_c']);
+    });
+
+    it('should sort by verification in either direction', async () => {
+      expect((await find(criteria => { criteria.sort = { by: 'verification', direction: 'desc' }; }))[2])
+        .toBe('near_a');
+      expect((await find(criteria => { criteria.sort = { by: 'verification', direction: 'asc' }; }))[0])
+        .toBe('near_a');
+    });
+
+    it('should sort by compatibility in either direction', async () => {
+      const scoresFor = async (direction: 'asc' | 'desc') => {
+        await service.clearCooldown('seeker');
+        const criteria = buildCriteria('seeker');
+        criteria.sort = { by: 'compatibility', direction };
+        return (await service.findMatches('seeker', profiles[0], criteria, profiles, locations))
+          .map(match => match.score);
+      };
+
+      const descending = await scoresFor('desc');
+      expect(descending).toEqual([...descending].sort((a, b) => b - a));
+      const ascending = await scoresFor('asc');
+      expect(ascending).toEqual([...ascending].sort((a, b) => a - b));
+    });
+
+    it('should sort advanced matches by every field in either direction', async () => {
+      const findAdvanced = async (sort: MatchingCriteria['sort']) => {
+        await service.clearCooldown('seeker');
+        const criteria = buildCriteria('seeker');
+        criteria.sort = sort;
+        return service.findAdvancedMatches(criteria, profiles.slice(1));
+      };
+      const ids = async (sort: MatchingCriteria['sort']) => (await findAdvanced(sort)).map(match => match.targetUserId);
+
+      expect(await ids({ by: 'distance', direction: 'asc' })).toEqual(['near_b', 'near_a', 'near_c']);
+      expect(await ids({ by: 'distance', direction: 'desc' })).toEqual(['near_c', 'near_a', 'near_b']);
+      expect(await ids({ by: 'activity', direction: 'desc' })).toEqual(['near_c', 'near_b', 'near_a']);
+      expect(await ids({ by: 'activity', direction: 'asc' })).toEqual(['near_a', 'near_b', 'near_c']);
+      expect((await ids({ by: 'verification', direction: 'desc' }))[2]).toBe('near_a');
+      expect((await ids({ by: 'verification', direction: 'asc' }))[0]).toBe('near_a');
+      expect(await ids({ by: 'random', direction: 'asc', seed: 'seed_1' }))
+        .toEqual(await ids({ by: 'random', direction: 'asc', seed: 'seed_1' }));
+
+      const ascending = (await findAdvanced({ by: 'compatibility', direction: 'asc' })).map(match => match.compatibilityScore);
+      expect(ascending).toEqual([...ascending].sort((a, b) => a - b));
+      const descending = (await findAdvanced({ by: 'compatibility', direction: 'desc' })).map(match => match.compatibilityScore);
+      expect(descending).toEqual([...descending].sort((a, b) => b - a));
+    });
+
+    it('should shuffle reproducibly for the same random seed', async () => {
+      const shuffle = (seed: string) => find(criteria => { criteria.sort = { by: 'random', direction: 'asc', seed }; });
+
+      const first = await shuffle('session-1');
+      expect(await shuffle('session-1')).toEqual(first);
+      expect([...first].sort()).toEqual(['near_a', 'near_b', 'near_c']);
+
+      const orders = new Set<string>();
+      for (let i = 0; i < 10; i++) {
+        orders.add((await shuffle(`session-${i}`)).join(','));
+      }
+      expect(orders.size).toBeGreaterThan(1);
+    });
+
+    it('should page through a random order without repeats', async () => {
+      const criteria = buildCriteria('seeker');
+      criteria.sort = { by: 'random', direction: 'desc' };
+      const discover = (pageToken?: string) => service.discoverMatches(
+        'seeker',
+        profiles[0],
+        { criteria, pagination: { limit: 2, offset: 0, pageToken } },
+        profiles,
+        locations
+      );
+
+      const first = await discover();
+      const second = await discover(first.nextPageToken);
+
+      expect([...first.matches, ...second.matches].map(match => match.targetUserId).sort())
+        .toEqual(['near_a', 'near_b', 'near_c']);
+      expect(second.hasMoreMatches).toBe(false);
+    });
+
+    it('should apply each filter on its own', async () => {
+      expect(await find(criteria => { criteria.filters = { excludeUserIds: ['near_b'] }; }))
+        .not.toContain('near_b');
+      expect((await find(criteria => { criteria.filters = { isVerified: true }; })).sort())
+        .toEqual(['near_b', 'near_c']);
+      expect(await find(criteria => { criteria.filters = { includePremiumOnly: true }; }))
+        .toEqual(['near_a']);
+      expect((await find(criteria => { criteria.filters = { hasPhotos: true }; })).sort())
+        .toEqual(['near_a', 'near_b']);
+      expect(await find(criteria => { criteria.filters = { minimumPhotoCount: 2 }; }))
+        .toEqual(['near_a']);
+      expect((await find(criteria => { criteria.filters = { lastActiveWithin: 24 }; })).sort())
+        .toEqual(['near_b', 'near_c']);
+    });
+
+    it('should only count approved photos', async () => {
+      profiles[2].photos = [buildPhoto('b1', 'rejected'), buildPhoto('b2', 'pending')];
+
+      expect(await find(criteria => { criteria.filters = { hasPhotos: true }; })).toEqual(['near_a']);
+    });
+
+    it('should leave out candidates whose own deal breakers the searcher triggers', async () => {
+      profiles[0].personalInfo.lifestyle = { smoking: 'regularly' };
+      profiles[2].preferences = { ...profiles[2].preferences, dealBreakers: ['smoking'] };
+
+      expect((await find()).sort()).toEqual(['near_a', 'near_c']);
+    });
+
+    it('should combine filters', async () => {
+      expect(await find(criteria => { criteria.filters = { isVerified: true, hasPhotos: true }; }))
+        .toEqual(['near_b']);
+      expect(await find(criteria => { criteria.filters = { lastActiveWithin: 24, minimumPhotoCount: 1 }; }))
+        .toEqual(['near_b']);
+      expect(await find(criteria => { criteria.filters = { includePremiumOnly: true, minimumPhotoCount: 3 }; }))
+        .toEqual(['near_a']);
+      expect(await find(criteria => { criteria.filters = { includePremiumOnly: true, isVerified: true }; }))
+        .toEqual([]);
+      expect(await find(criteria => {
+        criteria.filters = { isVerified: true, lastActiveWithin: 24, excludeUserIds: ['near_c'] };
+        criteria.sort = { by: 'distance', direction: 'desc' };
+      })).toEqual(['near_b']);
+    });
+  });
+
+  describe('Algorithm Versions', () => {
+    let profiles: UserProfile[];
+    let locations: UserLocationData[];
+
+    // Ranks purely on distance, with no bonuses or penalties
+    const distanceOnly: MatchingAlgorithmConfig = {
+      ...DEFAULT_MATCHING_ALGORITHM,
+      version: 'distance-only',
+      weights: {
+        distance: 1,
+        age: 0,
+        preferences: 0,
+        activity: 0,
+        verification: 0,
+        premium: 0,
+        photos: 0,
+        completeness: 0
+      },
+      penalties: { incompleteProfile: 0, noPhotos: 0, unverified: 0, inactive: 0 },
+      thresholds: { ...DEFAULT_MATCHING_ALGORITHM.thresholds, minimumScore: 0 }
+    };
+
+    const find = async (algorithmVersion?: string) => {
+      const criteria = buildCriteria('seeker');
+      criteria.algorithmVersion = algorithmVersion;
+      await service.clearCooldown('seeker');
+      return service.findMatches('seeker', profiles[0], criteria, profiles, locations);
+    };
+
+    beforeEach(async () => {
+      profiles = await repository.listProfiles({ limit: 100 });
+      profiles.sort((a, b) => (a.userId === 'seeker' ? -1 : b.userId === 'seeker' ? 1 : 0));
+      locations = profiles.map(profile => ({
+        userId: profile.userId,
+        location: { ...profile.personalInfo.location, timestamp: new Date() },
+        lastSeen: new Date(),
+        accuracy: 10,
+        isOnline: true
+      }));
+    });
+
+    it('should stamp results with the active version', async () => {
+      const matches = await find();
+
+      expect(matches.length).toBeGreaterThan(0);
+      matches.forEach(match => expect(match.algorithmVersion).toBe('v1'));
+    });
+
+    it('should score with any stored version side by side', async () => {
+      await service.registerAlgorithm(distanceOnly);
+
+      const [v1, custom] = [await find(), await find('distance-only')];
+
+      custom.forEach(match => {
+        expect(match.algorithmVersion).toBe('distance-only');
+        expect(match.score).toBeCloseTo(1 - match.distance / 100, 2);
+      });
+      v1.forEach(match => expect(match.algorithmVersion).toBe('v1'));
+      expect(custom.map(match => match.score)).not.toEqual(v1.map(match => match.score));
+      expect((await service.listAlgorithms()).map(config => config.version)).toEqual(['v1', 'distance-only']);
+
+      service.updateConfig({ algorithmVersion: 'distance-only' });
+      expect((await find())[0].algorithmVersion).toBe('distance-only');
+    });
+
+    it('should normalise the location factor by the version\'s distance threshold', async () => {
+      await service.registerAlgorithm(distanceOnly);
+      await service.registerAlgorithm({
+        ...distanceOnly,
+        version: 'short-range',
+        thresholds: { ...distanceOnly.thresholds, maxDistance: 10 }
+      });
+
+      const [wide, short] = [await find('distance-only'), await find('short-range')];
+
+      wide.forEach(match => expect(match.matchFactors.locationScore).toBeCloseTo(match.score, 2));
+      short.forEach(match => {
+        expect(match.matchFactors.locationScore).toBeCloseTo(1 - match.distance / 10, 5);
+        expect(match.matchFactors.locationScore).toBeCloseTo(match.score, 2);
+      });
+    });
+
+    it('should apply penalties for missing photos and verification', async () => {
+      const before = (await find()).find(match => match.targetUserId === 'near_a')!;
+
+      const nearA = profiles.find(profile => profile.userId === 'near_a')!;
+      nearA.verification = { ...nearA.verification, isVerified: false };
+      const after = (await find()).find(match => match.targetUserId === 'near_a')!;
+
+      const { penalties, weights } = DEFAULT_MATCHING_ALGORITHM;
+      expect(before.matchFactors.penalty).toBeCloseTo(penalties.noPhotos, 2);
+      expect(after.matchFactors.penalty).toBeCloseTo(penalties.noPhotos + penalties.unverified, 2);
+      expect(before.score - after.score).toBeCloseTo(weights.verification + penalties.unverified, 1);
+    });
+
+    it('should drop matches below the minimum score or past the inactivity limit', async () => {
+      const nearB = profiles.find(profile => profile.userId === 'near_b')!;
+      nearB.lastActiveAt = new Date(Date.now() - 31 * 24 * 60 * 60 * 1000);
+      expect((await find()).map(match => match.targetUserId)).not.toContain('near_b');
+
+      await service.registerAlgorithm({
+        ...DEFAULT_MATCHING_ALGORITHM,
+        version: 'strict',
+        thresholds: { ...DEFAULT_MATCHING_ALGORITHM.thresholds, minimumScore: 0.99, excellentScore: 0.99 }
+      });
+      expect(await find('strict')).toEqual([]);
+    });
+
+    it('should reject unknown, duplicate and invalid versions', async () => {
+      await expect(find('v0')).rejects.toBeInstanceOf(UnknownAlgorithmVersionError);
+      await expect(service.registerAlgorithm(DEFAULT_MATCHING_ALGORITHM))
+        .rejects.toBeInstanceOf(AlgorithmVersionExistsError);
+
+      const invalid = {
+        ...distanceOnly,
+        version: 'broken',
+        weights: { ...distanceOnly.weights, distance: -1 },
+        thresholds: { ...distanceOnly.thresholds, minimumScore: 0.9, excellentScore: 0.5 }
+      };
+      await expect(service.registerAlgorithm(invalid)).rejects.toMatchObject({
+        errors: [
+          expect.objectContaining({ field: 'weights.distance' }),
+          expect.objectContaining({ field: 'thresholds' })
+        ]
+      });
+      await expect(service.registerAlgorithm(invalid)).rejects.toBeInstanceOf(MatchingValidationError);
+    });
+
+    it('should score preference alignment with a learned compatibility model', async () => {
+      const preferencesOnly: MatchingAlgorithmConfig = {
+        ...distanceOnly,
+        weights: { ...distanceOnly.weights, distance: 0, preferences: 1 },
+        features: { ...distanceOnly.features, enableMachineLearning: true }
+      };
+      const withIntercept = (version: string, intercept: number): MatchingAlgorithmConfig => ({
+        ...preferencesOnly,
+        version,
+        compatibilityModel: {
+          label: 'like',
+          intercept,
+          weights: { physical: 0, lifestyle: 0, social: 0, relationship: 0 }
+        }
+      });
+      await service.registerAlgorithm(withIntercept('learned-high', 3));
+      await service.registerAlgorithm(withIntercept('learned-low', -3));
+
+      const [high, low] = [await find('learned-high'), await find('learned-low')];
+      expect(high.length).toBeGreaterThan(0);
+      high.forEach(match => expect(match.score).toBeCloseTo(0.95, 2));
+      low.forEach(match => expect(match.score).toBeCloseTo(0.05, 2));
+
+      await expect(service.registerAlgorithm({ ...preferencesOnly, version: 'no-model' })).rejects.toMatchObject({
+        errors: [expect.objectContaining({ field: 'compatibilityModel' })]
+      });
+    });
+
+    it('should invalidate page tokens when the active version changes', async () => {
+      await service.registerAlgorithm(distanceOnly);
+      const first = await service.discoverMatches(
+        'seeker',
+        profiles[0],
+        { criteria: buildCriteria('seeker'), pagination: { limit: 1, offset: 0 } },
+        profiles,
+        locations
+      );
+
+      service.updateConfig({ algorithmVersion: 'distance-only' });
+      await expect(service.discoverMatches(
+        'seeker',
+        profiles[0],
+        { criteria: buildCriteria('seeker'), pagination: { limit: 1, offset: 0, pageToken: first.nextPageToken } },
+        profiles,
+        locations
+      )).rejects.toMatchObject({ reason: 'criteria_changed' });
+    });
+  });
+
+  describe('Collaborative Filtering', () => {
+    const collaborative = CollaborativeFilteringService.getInstance();
+    const withCollaborative: MatchingAlgorithmConfig = {
+      ...DEFAULT_MATCHING_ALGORITHM,
+      version: 'collaborative',
+      features: { ...DEFAULT_MATCHING_ALGORITHM.features, enableCollaborativeFiltering: true }
+    };
+
+    const find = async (algorithmVersion: string, userIds: string[]) => {
+      const profiles = (await repository.listProfiles({ limit: 100 }))
+        .filter(profile => profile.userId === 'seeker' || userIds.includes(profile.userId));
+      const locations: UserLocationData[] = profiles.map(profile => ({
+        userId: profile.userId,
+        location: { ...profile.personalInfo.location, timestamp: new Date() },
+        lastSeen: new Date(),
+        accuracy: 10,
+        isOnline: true
+      }));
+
+      await service.clearCooldown('seeker');
+      return service.findMatches(
+        'seeker',
+        profiles.find(profile => profile.userId === 'seeker')!,
+        { ...buildCriteria('seeker'), algorithmVersion },
+        profiles,
+        locations
+      );
+    };
+
+    beforeEach(async () => {
+      collaborative.clear();
+      collaborative.updateConfig({ minimumCoLikes: 2 });
+      service.setCollaborativeSource(collaborative);
+      service.updateConfig({ collaborativeMix: 0.3, collaborativeCandidates: 50 });
+      await service.registerAlgorithm(withCollaborative);
+
+      const hidden = buildProfile('hidden', 27, 51.51, -0.11);
+      hidden.visibility = { ...hidden.visibility, isVisible: false };
+      await repository.saveProfile(hidden);
+
+      // Everyone else who liked near_a also liked near_c, paris and hidden
+      collaborative.recordLike('seeker', 'near_a');
+      ['liker_1', 'liker_2'].forEach(liker => ['near_a', 'near_c', 'paris', 'hidden']
+        .forEach(target => collaborative.recordLike(liker, target)));
+    });
+
+    afterEach(() => {
+      service.setCollaborativeSource(undefined);
+    });
+
+    it('should blend collaborative scores into the compatibility ranking', async () => {
+      const plain = await find('v1', ['near_a', 'near_b', 'near_c']);
+      plain.forEach(match => expect(match.matchFactors.collaborativeScore).toBeUndefined());
+
+      service.updateConfig({ collaborativeMix: 1 });
+      const blended = await find('collaborative', ['near_a', 'near_b', 'near_c']);
+
+      expect(blended[0].targetUserId).toBe('near_c');
+      expect(blended[0].matchFactors.collaborativeScore).toBeCloseTo(2 / Math.sqrt(6), 2);
+      expect(blended.find(match => match.targetUserId === 'near_b')!.matchFactors.collaborativeScore).toBe(0);
+      // Only the order changes, not the score
+      expect(blended[0].score).toBe(plain.find(match => match.targetUserId === 'near_c')!.score);
+    });
+
+    it('should add suggested profiles the search did not supply, still filtered', async () => {
+      const matches = await find('collaborative', ['near_a', 'near_b']);
+
+      // hidden isn't visible and paris is out of range
+      expect(matches.map(match => match.targetUserId).sort()).toEqual(['near_a', 'near_b', 'near_c']);
+      expect((await find('v1', ['near_a', 'near_b'])).map(match => match.targetUserId).sort())
+        .toEqual(['near_a', 'near_b']);
+    });
+
+    it('should pass suggestions through deal-breakers in advanced matching', async () => {
+      // Scans hidden, near_a and near_b; near_c only comes in as a suggestion
+      service.updateConfig({ maxCandidatesScanned: 3 });
+      const criteria = { ...buildCriteria('seeker'), algorithmVersion: 'collaborative' };
+
+      const found = await service.findAdvancedMatches(criteria);
+      expect(found.map(match => match.targetUserId).sort()).toEqual(['near_a', 'near_b', 'near_c']);
+
+      const smoker = buildProfile('near_c', 26, 51.52, -0.1);
+      smoker.personalInfo.lifestyle = { smoking: 'regularly' };
+      await repository.saveProfile(smoker);
+      await service.clearCooldown('seeker');
+
+      const filtered = await service.findAdvancedMatches({ ...criteria, dealBreakers: ['smoking'] });
+      expect(filtered.map(match => match.targetUserId).sort()).toEqual(['near_a', 'near_b']);
+    });
+
+    it('should carry on with the regular candidates when the source fails', async () => {
+      jest.spyOn(collaborative, 'recommend').mockRejectedValueOnce(new Error('model unavailable'));
+      jest.spyOn(collaborative, 'scoreCandidates').mockRejectedValueOnce(new Error('model unavailable'));
+
+      const matches = await find('collaborative', ['near_a', 'near_b']);
+
+      expect(matches.map(match => match.targetUserId).sort()).toEqual(['near_a', 'near_b']);
+      matches.forEach(match => expect(match.matchFactors.collaborativeScore).toBeUndefined());
+    });
+  });
+
+  describe('Exposure Control', () => {
+    const impressions = new InMemoryImpressionRepository();
+    const exposure = ExposureControlService.getInstance({
+      impressions,
+      boosts: { getBoostMultipliers: async () => new Map<string, number>() }
+    });
+    let profiles: UserProfile[];
+    let locations: UserLocationData[];
+
+    const find = async () => {
+      await service.clearCooldown('seeker');
+      return service.findMatches(
+        'seeker',
+        profiles.find(profile => profile.userId === 'seeker')!,
+        buildCriteria('seeker'),
+        profiles,
+        locations
+      );
+    };
+
+    const show = (profileId: string, times: number) =>
+      impressions.recordImpressions(Array.from({ length: times }, (_, i) => ({
+        viewerId: `viewer_${i}`,
+        profileId,
+        shownAt: new Date()
+      })));
+
+    beforeEach(async () => {
+      impressions.clear();
+      exposure.updateConfig({ saturationImpressions: 10, newProfileDays: 7, newProfileShare: 0.5, boostShare: 0 });
+      service.setExposureControl(exposure);
+
+      // Only near_c joined recently
+      const yearAgo = new Date(Date.now() - 365 * 24 * 60 * 60 * 1000);
+      profiles = (await repository.listProfiles({ limit: 100 }))
+        .filter(profile => ['seeker', 'near_a', 'near_b', 'near_c'].includes(profile.userId))
+        .map(profile => profile.userId === 'near_c' ? profile : { ...profile, createdAt: yearAgo });
+      locations = profiles.map(profile => ({
+        userId: profile.userId,
+        location: { ...profile.personalInfo.location, timestamp: new Date() },
+        lastSeen: new Date(),
+        accuracy: 10,
+        isOnline: true
+      }));
+    });
+
+    afterEach(() => {
+      service.setExposureControl(undefined);
+      service.updateConfig({ maxResults: 50 });
+    });
+
+    it('should rank profiles lower the more they have been shown', async () => {
+      const [top] = await find();
+      expect(top.matchFactors.exposureMultiplier).toBe(1);
+
+      await show(top.targetUserId, 1000);
+      const matches = await find();
+
+      const demoted = matches.find(match => match.targetUserId === top.targetUserId)!;
+      expect(matches[0].targetUserId).not.toBe(top.targetUserId);
+      expect(demoted.matchFactors.exposureMultiplier).toBe(0.01);
+      expect(demoted.score).toBe(top.score);
+    });
+
+    it('should keep a slot for new profiles and log what was shown', async () => {
+      service.updateConfig({ maxResults: 2 });
+      await show('near_c', 1000);
+
+      const matches = await find();
+
+      expect(matches).toHaveLength(2);
+      expect(matches[1].targetUserId).toBe('near_c');
+      expect(matches[1].exposureSlot).toBe('new_profile');
+      expect(matches[0].exposureSlot).toBeUndefined();
+      const counts = await impressions.countImpressions(new Date(Date.now() - 60 * 1000));
+      expect(counts.get(matches[0].targetUserId)).toBe(1);
+      expect(counts.get('near_c')).toBe(1001);
+    });
+
+    it('should page through discovery once each with reserved slots', async () => {
+      service.updateConfig({ maxResults: 2 });
+      await show('near_c', 1000);
+      const discover = (pageToken?: string) => service.discoverMatches(
+        'seeker',
+        profiles.find(profile => profile.userId === 'seeker')!,
+        { criteria: buildCriteria('seeker'), pagination: { limit: 2, offset: 0, pageToken } },
+        profiles,
+        locations
+      );
+
+      const first = await discover();
+      const second = await discover(first.nextPageToken);
+
+      expect(first.matches.map(match => match.targetUserId)).toContain('near_c');
+      expect(second.hasMoreMatches).toBe(false);
+      expect([...first.matches, ...second.matches].map(match => match.targetUserId).sort())
+        .toEqual(['near_a', 'near_b', 'near_c']);
+    });
+  });
+
+  describe('Discovery Paging', () => {
+    let profiles: UserProfile[];
+    let locations: UserLocationData[];
+
+    const discover = (pageToken?: string, criteria = buildCriteria('seeker'), userId = 'seeker') =>
+      service.discoverMatches(
+        userId,
+        profiles.find(profile => profile.userId === userId)!,
+        { criteria, pagination: { limit: 1, offset: 0, pageToken } },
+        profiles,
+        locations
+      );
+
+    beforeEach(async () => {
+      profiles = await repository.listProfiles({ limit: 100 });
+      locations = profiles.map(profile => ({
+        userId: profile.userId,
+        location: { ...profile.personalInfo.location, timestamp: new Date() },
+        lastSeen: new Date(),
+        accuracy: 10,
+        isOnline: true
+      }));
+    });
+
+    it('should page through every match once, in rank order', async () => {
+      const first = await discover();
+      const second = await discover(first.nextPageToken);
+      const third = await discover(second.nextPageToken);
+
+      const seen = [first, second, third].flatMap(page => page.matches);
+      expect(seen.map(match => match.targetUserId).sort()).toEqual(['near_a', 'near_b', 'near_c']);
+      expect(seen.map(match => match.score)).toEqual([...seen.map(match => match.score)].sort((a, b) => b - a));
+
+      expect(first).toMatchObject({ totalMatches: 3, matchesReturned: 1, hasMoreMatches: true });
+      expect(second.discoveryId).toBe(first.discoveryId);
+      expect(third.hasMoreMatches).toBe(false);
+      expect(third.nextPageToken).toBeUndefined();
+    });
+
+    it('should add later pages to the queue without applying the cooldown', async () => {
+      const first = await discover();
+      await discover(first.nextPageToken);
+
+      expect((await service.getMatchQueue('seeker'))!.pendingMatches).toHaveLength(2);
+      await expect(discover()).rejects.toThrow('cooldown');
+    });
+
+    it('should reject tokens once the criteria change', async () => {
+      const first = await discover();
+      const changed = buildCriteria('seeker');
+      changed.preferences.ageRange = { min: 25, max: 40 };
+
+      await expect(discover(first.nextPageToken, changed)).rejects.toMatchObject({ reason: 'criteria_changed' });
+    });
+
+    it('should reject tampered, foreign and expired tokens', async () => {
+      const { nextPageToken } = await discover();
+      const [version, body, signature] = nextPageToken!.split('.');
+      const forged = Buffer.from(JSON.stringify({
+        ...JSON.parse(Buffer.from(body, 'base64url').toString('utf8')),
+        cursor: { score: 1, distance: 0, targetUserId: '' }
+      })).toString('base64url');
+
+      await expect(discover(`${version}.${forged}.${signature}`)).rejects.toMatchObject({ reason: 'bad_signature' });
+      await expect(discover('not-a-token')).rejects.toBeInstanceOf(InvalidPageTokenError);
+      await expect(discover(nextPageToken, buildCriteria('seeker'), 'near_a'))
+        .rejects.toMatchObject({ reason: 'wrong_user' });
+
+      service.updateConfig({ pageTokenTtlMinutes: -1 });
+      try {
+        await expect(discover(nextPageToken)).rejects.toMatchObject({ reason: 'expired' });
+      } finally {
+        service.updateConfig({ pageTokenTtlMinutes: 60 });
+      }
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import { MutualMatchService } from '../mutualMatchService';
+import { PreferenceFilteringService } from '../preferenceFilteringService';
+import { InMemoryMatchNotifier } from '../notifiers/inMemoryMatchNotifier';
+import { InMemoryMutualMatchRepository } from '../repositories/inMemoryMutualMatchRepository';
+import { InMemoryProfileRepository } from '../../profile/repositories/inMemoryProfileRepository';
+import { Clock } from '../../../lib/clock';
+import { MatchingValidationError, SwipeAction, SwipeInteraction } from '../../../types/matching';
+import { UserProfile } from '../../../types/profile';
+
+const buildProfile = (userId: string, interests: string[]): UserProfile => ({
+  userId,
+  personalInfo: {
+    displayName: userId,
+    age: 28,
+    dateOfBirth: new Date('1997-01-01'),
+    location: { latitude: 51.5074, longitude: -0.1278, city: 'London', country: 'UK' },
+    sexualOrientation: 'straight',
+    sexualIntent: 'clear',
+    lookingFor: ['casual'],
+    bio: 'Enjoys running, live music and trying new restaurants around town.',
+    interests
+  },
+  photos: [],
+  preferences: {
+    ageRange: { min: 18, max: 40 },
+    maxDistance: 50,
+    sexualOrientations: ['straight'],
+    relationshipTypes: ['casual']
+  },
+  visibility: {
+    isVisible: true,
+    hideAge: false,
+    hideLocation: false,
+    hideLastActive: false,
+    showOnlyToVerified: false,
+    incognito: false,
+    distanceVisibility: 'approximate',
+    onlineStatus: 'online'
+  },
+  completion: {
+    overallPercentage: 80,
+    personalInfo: 100,
+    photos: 0,
+    preferences: 100,
+    visibility: 100,
+    missingFields: [],
+    recommendedActions: []
+  },
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  lastActiveAt: new Date(),
+  profileViews: 0,
+  profileLikes: 0,
+  verification: {
+    isVerified: true,
+    verificationResults: [],
+    verificationScore: 1,
+    lastVerificationUpdate: new Date()
+  },
+  premium: { isActive: false, features: [] },
+  safety: { isReported: false, reportCount: 0, isBanned: false, trustScore: 1 }
+});
+
+describe('MutualMatchService', () => {
+  const profiles = new InMemoryProfileRepository();
+  const scoring = new PreferenceFilteringService();
+
+  let currentTime: Date;
+  let repository: InMemoryMutualMatchRepository;
+  let notifier: InMemoryMatchNotifier;
+  let service: MutualMatchService;
+
+  const clock: Clock = { now: () => currentTime };
+
+  const swipe = (userId: string, targetUserId: string, action: SwipeAction = 'like'): SwipeInteraction => ({
+    interactionId: `interaction_${userId}_${targetUserId}`,
+    matchId: `match_${userId}_${targetUserId}`,
+    userId,
+    targetUserId,
+    action,
+    timestamp: currentTime,
+    context: {}
+  });
+
+  beforeEach(async () => {
+    currentTime = new Date('2025-06-01T12:00:00Z');
+    profiles.clear();
+    await profiles.saveProfile(buildProfile('zoe', ['music', 'running', 'travel']));
+    await profiles.saveProfile(buildProfile('adam', ['music', 'cooking']));
+
+    repository = new InMemoryMutualMatchRepository();
+    notifier = new InMemoryMatchNotifier();
+    service = MutualMatchService.getInstance({ repository, profiles, scoring, notifier, clock });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Match Creation', () => {
+    it('should store the pair once with the reciprocal compatibility score and a conversation', async () => {
+      const [zoe, adam] = await Promise.all([profiles.getProfile('zoe'), profiles.getProfile('adam')]);
+      const expected = scoring.calculateReciprocalScore(
+        scoring.calculateCompatibility(zoe!, adam!),
+        scoring.calculateCompatibility(adam!, zoe!)
+      );
+
+      const match = await service.createMutualMatch(swipe('zoe', 'adam'), swipe('adam', 'zoe'));
+
+      expect(match.userIds).toEqual(['adam', 'zoe']);
+      expect(match.matchIds).toEqual(['match_adam_zoe', 'match_zoe_adam']);
+      expect(match.compatibilityScore).toBeCloseTo(expected, 2);
+      expect(match.matchedAt).toEqual(currentTime);
+      expect(match.matchSource).toBe('discovery');
+      expect(match.conversationId).toBeTruthy();
+      expect(match.conversationStarted).toBe(false);
+    });
+
+    it('should keep one-sided pairs scored low', async () => {
+      jest.spyOn(scoring, 'calculateCompatibility').mockReturnValueOnce(0.9).mockReturnValueOnce(0.1);
+
+      const match = await service.createMutualMatch(swipe('zoe', 'adam'), swipe('adam', 'zoe'));
+
+      expect(match.compatibilityScore).toBe(0.18);
+    });
+
+    it('should notify both users once', async () => {
+      const match = await service.createMutualMatch(swipe('zoe', 'adam'), swipe('adam', 'zoe'));
+      const again = await service.createMutualMatch(swipe('adam', 'zoe'), swipe('zoe', 'adam'));
+
+      expect(again.mutualMatchId).toBe(match.mutualMatchId);
+      expect(await service.getMutualMatches('zoe')).toHaveLength(1);
+
+      const [toZoe] = notifier.getNotifications('zoe');
+      expect(notifier.getNotifications('zoe')).toHaveLength(1);
+      expect(notifier.getNotifications('adam')).toHaveLength(1);
+      expect(toZoe.type).toBe('mutual_match');
+      expect(toZoe.mutualMatchId).toBe(match.mutualMatchId);
+      expect(toZoe.body).toBe('You and adam liked each other');
+      expect(toZoe.data).toMatchObject({ otherUserId: 'adam', conversationId: match.conversationId });
+    });
+
+    it('should record super likes as the match source', async () => {
+      const match = await service.createMutualMatch(swipe('zoe', 'adam', 'super_like'), swipe('adam', 'zoe'));
+
+      expect(match.matchSource).toBe('super_like');
+    });
+
+    it('should record likes from a boost slot as premium_boost', async () => {
+      const boosted = { ...swipe('adam', 'zoe'), context: { exposureSlot: 'premium_boost' as const } };
+
+      const match = await service.createMutualMatch(swipe('zoe', 'adam'), boosted);
+
+      expect(match.matchSource).toBe('premium_boost');
+    });
+
+    it('should reject swipes that are not reciprocal likes', async () => {
+      await expect(service.createMutualMatch(swipe('zoe', 'adam'), swipe('adam', 'zoe', 'pass')))
+        .rejects.toThrow(MatchingValidationError);
+      await expect(service.createMutualMatch(swipe('zoe', 'adam'), swipe('adam', 'someone_else')))
+        .rejects.toMatchObject({ errors: [{ code: 'NOT_MUTUAL' }] });
+
+      expect(await service.getMutualMatches('zoe')).toHaveLength(0);
+    });
+
+    it('should keep the match when a notification fails', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      jest.spyOn(notifier, 'notify').mockRejectedValueOnce(new Error('push unavailable'));
+
+      const match = await service.createMutualMatch(swipe('zoe', 'adam'), swipe('adam', 'zoe'));
+
+      expect(await repository.getMutualMatch('zoe', 'adam')).toEqual(match);
+    });
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Boost Service
+ * Epic 003: Matching System
+ *
+ * Premium boosts: for 30 minutes the user ranks higher in other users'
+ * discovery. Each boost uses one unit of the plan's daily `boosts` quota.
+ * The lift stays within the exposure fairness caps. Only one boost runs at a
+ * time, and the lift is a ranking multiplier that the diminishing-returns
+ * discount still applies to. Boosted profiles only get a page's boost slots,
+ * never the whole page. A boost stops lifting early once it has been shown
+ * maxBoostImpressions times.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Clock, systemClock } from '../../lib/clock';
+import {
+  BoostAlreadyActiveError,
+  BoostedProfileSource,
+  BoostNotFoundError,
+  BoostRepository,
+  BoostSummary,
+  ImpressionRepository,
+  ProfileBoost
+} from '../../types/exposure';
+import { InteractionRepository } from '../../types/matching';
+import { EntitlementService } from '../subscription/entitlementService';
+import { InMemoryBoostRepository } from './repositories/inMemoryBoostRepository';
+import { InMemoryImpressionRepository } from './repositories/inMemoryImpressionRepository';
+import { InMemoryInteractionRepository } from './repositories/inMemoryInteractionRepository';
+
+export interface BoostServiceDependencies {
+  repository: BoostRepository;
+  entitlements: Pick<EntitlementService, 'consume' | 'refund'>;
+  impressions: Pick<ImpressionRepository, 'countImpressions'>;
+  interactions: Pick<InteractionRepository, 'listLikesReceived'>;
+  clock: Clock;
+}
+
+export interface BoostServiceConfig {
+  durationMinutes: number; // How long a boost runs
+  visibilityMultiplier: number; // Ranking lift while a boost runs
+  maxBoostImpressions: number; // Impressions after which a running boost stops lifting the profile
+}
+
+const MINUTE_MS = 60 * 1000;
+
+export class BoostService implements BoostedProfileSource {
+  private static instance: BoostService;
+  private dependencies: BoostServiceDependencies;
+
+  private config: BoostServiceConfig = {
+    durationMinutes: 30,
+    visibilityMultiplier: 2,
+    maxBoostImpressions: 300
+  };
+
+  private constructor(dependencies: Partial<BoostServiceDependencies> = {}) {
+    this.dependencies = {
+      repository: dependencies.repository || new InMemoryBoostRepository(),
+      entitlements: dependencies.entitlements || EntitlementService.getInstance(),
+      impressions: dependencies.impressions || new InMemoryImpressionRepository(),
+      interactions: dependencies.interactions || new InMemoryInteractionRepository(),
+      clock: dependencies.clock || systemClock
+    };
+  }
+
+  public static getInstance(dependencies?: Partial<BoostServiceDependencies>): BoostService {
+    if (!BoostService.instance) {
+      BoostService.instance = new BoostService(dependencies);
+    } else if (dependencies) {
+      BoostService.instance.setDependencies(dependencies);
+    }
+    return BoostService.instance;
+  }
+
+  /**
+   * Replace some or all dependencies (e.g. a fake clock in tests)
+   */
+  setDependencies(dependencies: Partial<BoostServiceDependencies>): void {
+    this.dependencies = { ...this.dependencies, ...dependencies };
+  }
+
+  /**
+   * Update boost configuration
+   */
+  updateConfig(newConfig: Partial<BoostServiceConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  // ===== BOOSTS =====
+
+  /**
+   * Start a boost for the user. Throws BoostAlreadyActiveError while one is
+   * still running, and MatchingLimitExceededError when the plan has no boosts left.
+   */
+  async startBoost(userId: string): Promise<ProfileBoost> {
+    const active = await this.getActiveBoost(userId);
+    if (active) {
+      throw new BoostAlreadyActiveError(userId, active.endsAt);
+    }
+
+    await this.dependencies.entitlements.consume(userId, 'boosts');
+
+    const startedAt = this.dependencies.clock.now();
+    const boost: ProfileBoost = {
+      boostId: uuidv4(),
+      userId,
+      startedAt,
+      endsAt: new Date(startedAt.getTime() + this.config.durationMinutes * MINUTE_MS),
+      multiplier: this.config.visibilityMultiplier
+    };
+
+    try {
+      // Throws BoostAlreadyActiveError if another request started one since the check above
+      await this.dependencies.repository.saveBoost(boost);
+    } catch (error) {
+      // Nothing was boosted, so give the boost back
+      await this.dependencies.entitlements.refund(userId, 'boosts');
+      throw error;
+    }
+
+    return boost;
+  }
+
+  /**
+   * The user's running boost, if any
+   */
+  async getActiveBoost(userId: string): Promise<ProfileBoost | null> {
+    const latest = await this.dependencies.repository.getLatestBoost(userId);
+    return latest && latest.endsAt > this.dependencies.clock.now() ? latest : null;
+  }
+
+  /**
+   * Ranking lift for the profiles with a boost running at `at`. Boosts that have
+   * already reached maxBoostImpressions are left out.
+   */
+  async getBoostMultipliers(profileIds: string[], at: Date): Promise<Map<string, number>> {
+    if (profileIds.length === 0) return new Map();
+
+    const boosts = await this.dependencies.repository.listActiveBoosts(profileIds, at);
+    const lifts = await Promise.all(boosts.map(async boost => {
+      const shown = await this.countImpressions(boost.userId, boost.startedAt);
+      return shown < this.config.maxBoostImpressions ? [boost.userId, boost.multiplier] as const : null;
+    }));
+
+    return new Map(lifts.filter((lift): lift is readonly [string, number] => lift !== null));
+  }
+
+  // ===== SUMMARY =====
+
+  /**
+   * Impressions and likes the boost brought in so far, next to the impressions
+   * the profile got in the same length of time before it
+   */
+  async getBoostSummary(boostId: string): Promise<BoostSummary> {
+    const boost = await this.dependencies.repository.getBoost(boostId);
+    if (!boost) {
+      throw new BoostNotFoundError(boostId);
+    }
+
+    const now = this.dependencies.clock.now();
+    const until = boost.endsAt < now ? boost.endsAt : now;
+    const duration = boost.endsAt.getTime() - boost.startedAt.getTime();
+
+    const [impressions, impressionsBefore, likes] = await Promise.all([
+      this.countImpressions(boost.userId, boost.startedAt, until),
+      this.countImpressions(boost.userId, new Date(boost.startedAt.getTime() - duration), boost.startedAt),
+      this.dependencies.interactions.listLikesReceived(boost.userId, boost.startedAt, until)
+    ]);
+
+    return {
+      boost,
+      isActive: boost.endsAt > now,
+      impressions,
+      impressionsBefore,
+      likes: likes.length,
+      superLikes: likes.filter(like => like.action === 'super_like').length
+    };
+  }
+
+  // ===== HELPERS =====
+
+  private async countImpressions(userId: string, since: Date, until?: Date): Promise<number> {
+    const counts = await this.dependencies.impressions.countImpressions(since, [userId], until);
+    return counts.get(userId) || 0;
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Collaborative Filtering Service
+ * Epic 003: Matching System
+ *
+ * Item-item collaborative filtering over like edges: two profiles are similar
+ * when the same people liked both (cosine similarity of their likers), and a
+ * user is suggested the profiles most similar to the ones they liked.
+ *
+ * The model is kept in memory and updated one like at a time. InteractionService
+ * feeds it likes as they are recorded; call sync() at startup and periodically
+ * to pick up likes recorded elsewhere. Counting the same like twice is a no-op,
+ * so the two can overlap.
+ */
+
+import {
+  CollaborativeCandidate,
+  CollaborativeCandidateSource,
+  InteractionRepository,
+  SwipeInteraction
+} from '../../types/matching';
+import { InMemoryInteractionRepository } from './repositories/inMemoryInteractionRepository';
+
+export interface CollaborativeFilteringDependencies {
+  interactions: Pick<InteractionRepository, 'listLikes'>;
+}
+
+export interface CollaborativeFilteringConfig {
+  minimumCoLikes: number; // Profiles liked together by fewer users aren't treated as similar
+  syncPageSize: number; // Likes read per query while syncing
+}
+
+export class CollaborativeFilteringService implements CollaborativeCandidateSource {
+  private static instance: CollaborativeFilteringService;
+  private dependencies: CollaborativeFilteringDependencies;
+
+  private likesByUser: Map<string, Set<string>> = new Map(); // userId -> profiles they liked
+  private likerCounts: Map<string, number> = new Map(); // profile -> how many users liked it
+  private coLikes: Map<string, Map<string, number>> = new Map(); // profile -> profile -> users who liked both
+  private lastSynced?: SwipeInteraction;
+
+  private config: CollaborativeFilteringConfig = {
+    minimumCoLikes: 2,
+    syncPageSize: 1000
+  };
+
+  private constructor(dependencies: Partial<CollaborativeFilteringDependencies> = {}) {
+    this.dependencies = {
+      interactions: dependencies.interactions || new InMemoryInteractionRepository()
+    };
+  }
+
+  public static getInstance(dependencies?: Partial<CollaborativeFilteringDependencies>): CollaborativeFilteringService {
+    if (!CollaborativeFilteringService.instance) {
+      CollaborativeFilteringService.instance = new CollaborativeFilteringService(dependencies);
+    } else if (dependencies) {
+      CollaborativeFilteringService.instance.setDependencies(dependencies);
+    }
+    return CollaborativeFilteringService.instance;
+  }
+
+  /**
+   * Replace some or all dependencies. The model is kept; call clear() to rebuild it.
+   */
+  setDependencies(dependencies: Partial<CollaborativeFilteringDependencies>): void {
+    this.dependencies = { ...this.dependencies, ...dependencies };
+  }
+
+  /**
+   * Update collaborative filtering configuration
+   */
+  updateConfig(newConfig: Partial<CollaborativeFilteringConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  // ===== UPDATES =====
+
+  /**
+   * Count a like or super like. Costs one step per profile the user liked
+   * before. Returns false when the like was already counted.
+   */
+  recordLike(userId: string, targetUserId: string): boolean {
+    const liked = this.likesByUser.get(userId) || new Set<string>();
+    if (liked.has(targetUserId)) return false;
+
+    for (const other of liked) {
+      this.incrementCoLikes(targetUserId, other);
+      this.incrementCoLikes(other, targetUserId);
+    }
+    liked.add(targetUserId);
+    this.likesByUser.set(userId, liked);
+    this.likerCounts.set(targetUserId, (this.likerCounts.get(targetUserId) || 0) + 1);
+    return true;
+  }
+
+  /**
+   * Read every like stored since the last sync. Returns how many were new to the model.
+   */
+  async sync(): Promise<number> {
+    let added = 0;
+    let page: SwipeInteraction[];
+
+    do {
+      page = await this.dependencies.interactions.listLikes(this.lastSynced, this.config.syncPageSize);
+      page.forEach(like => {
+        if (this.recordLike(like.userId, like.targetUserId)) added++;
+      });
+      if (page.length > 0) this.lastSynced = page[page.length - 1];
+    } while (page.length === this.config.syncPageSize);
+
+    return added;
+  }
+
+  /**
+   * Forget every like, e.g. before syncing from scratch
+   */
+  clear(): void {
+    this.likesByUser.clear();
+    this.likerCounts.clear();
+    this.coLikes.clear();
+    this.lastSynced = undefined;
+  }
+
+  // ===== RECOMMENDATIONS =====
+
+  /**
+   * Profiles similar to the ones the user liked, scored by their average
+   * similarity to those likes
+   */
+  async recommend(userId: string, limit: number): Promise<CollaborativeCandidate[]> {
+    const liked = this.likesByUser.get(userId);
+    if (!liked || liked.size === 0) return [];
+
+    const totals = new Map<string, number>();
+    for (const item of liked) {
+      for (const [other, count] of this.coLikes.get(item) || []) {
+        if (other === userId || liked.has(other) || count < this.config.minimumCoLikes) continue;
+        totals.set(other, (totals.get(other) || 0) + this.similarity(item, other, count));
+      }
+    }
+
+    return Array.from(totals, ([candidateId, total]) => ({ userId: candidateId, score: total / liked.size }))
+      .sort((a, b) => b.score - a.score || a.userId.localeCompare(b.userId))
+      .slice(0, limit);
+  }
+
+  async scoreCandidates(userId: string, candidateIds: string[]): Promise<Map<string, number>> {
+    const liked = this.likesByUser.get(userId) || new Set<string>();
+
+    return new Map(candidateIds.map(candidateId => {
+      if (liked.size === 0) return [candidateId, 0];
+
+      let total = 0;
+      for (const item of liked) {
+        const count = this.coLikes.get(item)?.get(candidateId) || 0;
+        if (count >= this.config.minimumCoLikes) total += this.similarity(item, candidateId, count);
+      }
+      return [candidateId, total / liked.size];
+    }));
+  }
+
+  // ===== HELPERS =====
+
+  private similarity(item: string, other: string, coLikes: number): number {
+    return coLikes / Math.sqrt(this.likerCounts.get(item)! * this.likerCounts.get(other)!);
+  }
+
+  private incrementCoLikes(item: string, other: string): void {
+    const counts = this.coLikes.get(item) || new Map<string, number>();
+    counts.set(other, (counts.get(other) || 0) + 1);
+    this.coLikes.set(item, counts);
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Configure Supabase Matching
+ * Epic 003: Matching System
+ *
+ * Points the matching services at Supabase for server-side code. Swipes,
+ * quotas and mutual matches are only writable server-side (see the RLS
+ * policies in supabase/schema.sql), so everything goes through the service
+ * role client.
+ */
+
+import { type SupabaseClient } from '../../lib/supabase';
+import { getServiceRoleClient } from '../../lib/supabaseAdmin';
+import { NotificationService } from '../notifications/notificationService';
+import { SupabaseNotificationRepository } from '../notifications/repositories/supabaseNotificationRepository';
+import { ProfileService } from '../profile/profileService';
+import { SupabaseProfileRepository } from '../profile/repositories/supabaseProfileRepository';
+import { EntitlementService } from '../subscription/entitlementService';
+import { SupabaseEntitlementRepository } from '../subscription/repositories/supabaseEntitlementRepository';
+import { CollaborativeFilteringService } from './collaborativeFilteringService';
+import { InteractionService } from './interactionService';
+import { MatchingService } from './matchingService';
+import { MutualMatchService } from './mutualMatchService';
+import { SupabaseInteractionRepository } from './repositories/supabaseInteractionRepository';
+import { SupabaseMatchingAlgorithmRepository } from './repositories/supabaseMatchingAlgorithmRepository';
+import { SupabaseMatchingStateStore } from './repositories/supabaseMatchingStateStore';
+import { SupabaseMutualMatchRepository } from './repositories/supabaseMutualMatchRepository';
+
+/**
+ * Wire profiles, queues, swipes, quotas, mutual matches and notifications to
+ * Supabase and return the InteractionService that records swipes through them
+ */
+export function configureSupabaseMatching(client: SupabaseClient = getServiceRoleClient()): InteractionService {
+  const profiles = new SupabaseProfileRepository(client);
+  const interactions = new SupabaseInteractionRepository(client);
+
+  ProfileService.getInstance(profiles);
+  MatchingService.getInstance(
+    undefined,
+    new SupabaseMatchingStateStore(client),
+    new SupabaseMatchingAlgorithmRepository(client)
+  );
+  CollaborativeFilteringService.getInstance({ interactions });
+  MutualMatchService.getInstance({ repository: new SupabaseMutualMatchRepository(client), profiles });
+  NotificationService.getInstance({ repository: new SupabaseNotificationRepository(client) });
+
+  return InteractionService.getInstance({
+    repository: interactions,
+    entitlements: EntitlementService.getInstance({ repository: new SupabaseEntitlementRepository(client) }),
+    profiles
+  });
+}
@@ -0,0 +1,119 @@
+/**
+ * Discovery Page Tokens
+ * Epic 003: Matching System
+ *
+ * Signed, opaque cursors for paging through a discovery session. A token
+ * records where the previous page ended in the ranking (sort key, then score,
+ * distance and user ID) and a hash of the criteria it was issued for, so the
+ * next page starts exactly after the last match shown and a token can't be
+ * replayed against different criteria.
+ */
+
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { InvalidPageTokenError, MatchingCriteria, MatchResult } from '../../types/matching';
+
+// A match's position in the ranking
+export interface DiscoveryCursor {
+  sortKey: number; // Value of the criteria's sort field
+  score: number;
+  distance: number;
+  targetUserId: string;
+}
+
+export interface DiscoveryPageTokenPayload {
+  discoveryId: string;
+  userId: string;
+  criteriaHash: string;
+  cursor: DiscoveryCursor;
+  issuedAt: number; // ms since epoch
+}
+
+const TOKEN_VERSION = 'v1';
+
+/**
+ * Ranking order for discovery: the sort key in the requested direction, then
+ * best score, nearest and user ID so that ties always come out the same way
+ */
+export function compareDiscoveryRank(
+  a: DiscoveryCursor,
+  b: DiscoveryCursor,
+  direction: MatchingCriteria['sort']['direction'] = 'desc'
+): number {
+  if (a.sortKey !== b.sortKey) return direction === 'asc' ? a.sortKey - b.sortKey : b.sortKey - a.sortKey;
+  if (a.score !== b.score) return b.score - a.score;
+  if (a.distance !== b.distance) return a.distance - b.distance;
+  return a.targetUserId < b.targetUserId ? -1 : a.targetUserId > b.targetUserId ? 1 : 0;
+}
+
+export function toDiscoveryCursor(match: MatchResult, sortKey: number): DiscoveryCursor {
+  return { sortKey, score: match.score, distance: match.distance, targetUserId: match.targetUserId };
+}
+
+/**
+ * Hash of the criteria, independent of key order
+ */
+export function hashMatchingCriteria(criteria: MatchingCriteria): string {
+  return createHash('sha256').update(stableStringify(criteria)).digest('hex').slice(0, 32);
+}
+
+export class DiscoveryPageTokens {
+  constructor(private secret: string, private ttlMinutes: number) {}
+
+  sign(payload: DiscoveryPageTokenPayload): string {
+    const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${TOKEN_VERSION}.${body}.${this.signature(body)}`;
+  }
+
+  /**
+   * Check the token's signature, age, owner and criteria and return its payload
+   */
+  verify(token: string, expected: { userId: string; criteriaHash: string; now: Date }): DiscoveryPageTokenPayload {
+    const [version, body, signature] = token.split('.');
+    if (version !== TOKEN_VERSION || !body || !signature) {
+      throw new InvalidPageTokenError('malformed');
+    }
+
+    const provided = Buffer.from(signature, 'base64url');
+    const computed = Buffer.from(this.signature(body), 'base64url');
+    if (provided.length !== computed.length || !timingSafeEqual(provided, computed)) {
+      throw new InvalidPageTokenError('bad_signature');
+    }
+
+    let payload: DiscoveryPageTokenPayload;
+    try {
+      payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    } catch {
+      throw new InvalidPageTokenError('malformed');
+    }
+
+    if (payload.userId !== expected.userId) {
+      throw new InvalidPageTokenError('wrong_user');
+    }
+    if (payload.criteriaHash !== expected.criteriaHash) {
+      throw new InvalidPageTokenError('criteria_changed');
+    }
+    if (expected.now.getTime() - payload.issuedAt > this.ttlMinutes * 60 * 1000) {
+      throw new InvalidPageTokenError('expired');
+    }
+
+    return payload;
+  }
+
+  private signature(body: string): string {
+    return createHmac('sha256', this.secret).update(body).digest('base64url');
+  }
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
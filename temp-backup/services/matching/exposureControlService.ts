@@ -0,0 +1,261 @@
+/**
+ * Exposure Control Service
+ * Epic 003: Matching System
+ *
+ * Keeps the discovery feed from showing the same popular profiles to everyone.
+ * Every profile shown is logged as an impression; profiles shown a lot lately
+ * rank lower (diminishing returns), and each page guarantees a share of its
+ * slots to new profiles and reserves some for profiles with a premium boost.
+ * Boosted profiles also get their boost's ranking lift.
+ * getExposureReport() measures how evenly impressions are spread.
+ */
+
+import { Clock, systemClock } from '../../lib/clock';
+import {
+  BoostedProfileSource,
+  ExposureCandidate,
+  ExposureController,
+  ExposurePage,
+  ExposureReport,
+  ExposureSlot,
+  ImpressionRepository
+} from '../../types/exposure';
+import { MatchResult } from '../../types/matching';
+import { ProfileRepository, UserProfile } from '../../types/profile';
+import { isBanActive, ProfileService } from '../profile/profileService';
+import { InMemoryImpressionRepository } from './repositories/inMemoryImpressionRepository';
+
+export interface ExposureControlDependencies {
+  impressions: ImpressionRepository;
+  profiles: Pick<ProfileRepository, 'listProfiles'>;
+  boosts: BoostedProfileSource;
+  clock: Clock;
+}
+
+export interface ExposureControlConfig {
+  impressionWindowHours: number; // Impressions older than this no longer count against a profile
+  saturationImpressions: number; // Impressions within the window that halve a profile's ranking score
+  newProfileDays: number; // Profiles created this recently count as new
+  newProfileShare: number; // 0-1 share of each page guaranteed to new profiles, when there are any
+  boostShare: number; // 0-1 share of each page reserved for boosted profiles
+  reportPageSize: number; // Profiles read, and impression counts fetched, per query while building the report
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const NO_BOOSTS: BoostedProfileSource = {
+  getBoostMultipliers: async () => new Map<string, number>()
+};
+
+/**
+ * Gini coefficient of non-negative values: 0 when they are all equal, (n - 1) / n
+ * when one value holds the whole total
+ */
+export function giniCoefficient(values: number[]): number {
+  const total = values.reduce((sum, value) => sum + value, 0);
+  if (values.length === 0 || total === 0) return 0;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const weighted = sorted.reduce((sum, value, index) => sum + (index + 1) * value, 0);
+  const n = sorted.length;
+  return (2 * weighted) / (n * total) - (n + 1) / n;
+}
+
+export class ExposureControlService implements ExposureController {
+  private static instance: ExposureControlService;
+  private dependencies: ExposureControlDependencies;
+
+  private config: ExposureControlConfig = {
+    impressionWindowHours: 7 * 24,
+    saturationImpressions: 100,
+    newProfileDays: 7,
+    newProfileShare: 0.2,
+    boostShare: 0.1,
+    reportPageSize: 500
+  };
+
+  private constructor(dependencies: Partial<ExposureControlDependencies> = {}) {
+    this.dependencies = {
+      impressions: dependencies.impressions || new InMemoryImpressionRepository(),
+      profiles: dependencies.profiles || ProfileService.getInstance().getRepository(),
+      boosts: dependencies.boosts || NO_BOOSTS,
+      clock: dependencies.clock || systemClock
+    };
+  }
+
+  public static getInstance(dependencies?: Partial<ExposureControlDependencies>): ExposureControlService {
+    if (!ExposureControlService.instance) {
+      ExposureControlService.instance = new ExposureControlService(dependencies);
+    } else if (dependencies) {
+      ExposureControlService.instance.setDependencies(dependencies);
+    }
+    return ExposureControlService.instance;
+  }
+
+  /**
+   * Replace some or all dependencies (e.g. a fake clock in tests)
+   */
+  setDependencies(dependencies: Partial<ExposureControlDependencies>): void {
+    this.dependencies = { ...this.dependencies, ...dependencies };
+  }
+
+  /**
+   * Update exposure control configuration
+   */
+  updateConfig(newConfig: Partial<ExposureControlConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  // ===== IMPRESSIONS =====
+
+  /**
+   * Log the profiles a viewer was shown, with the slots they were shown in
+   */
+  async recordImpressions(viewerId: string, matches: MatchResult[]): Promise<void> {
+    const shownAt = this.dependencies.clock.now();
+    await this.dependencies.impressions.recordImpressions(matches.map(match => ({
+      viewerId,
+      profileId: match.targetUserId,
+      slot: match.exposureSlot,
+      shownAt
+    })));
+  }
+
+  /**
+   * Ranking discount per profile, from 1 for a profile nobody has seen lately
+   * towards 0 as its impressions pile up: saturation / (saturation + impressions).
+   * A running boost multiplies the discount by its lift.
+   */
+  async getExposureMultipliers(profileIds: string[]): Promise<Map<string, number>> {
+    const [counts, boosts] = await Promise.all([
+      this.dependencies.impressions.countImpressions(this.getWindowStart(), profileIds),
+      this.getBoostMultipliers(profileIds, this.dependencies.clock.now())
+    ]);
+    const saturation = this.config.saturationImpressions;
+
+    return new Map(profileIds.map(profileId =>
+      [profileId, (saturation / (saturation + (counts.get(profileId) || 0))) * (boosts.get(profileId) ?? 1)]
+    ));
+  }
+
+  // ===== PAGE LAYOUT =====
+
+  /**
+   * Pick one page from ranked candidates. The best ranked boosted profiles fill
+   * the boost slots and the best ranked new profiles the new profile slots; the
+   * rest of the page is filled in rank order. Reserved picks that ranked on the
+   * page anyway keep their place, the others are spread evenly through it.
+   * Picks are stamped with the slot they were reserved under.
+   */
+  async arrangePage<T extends ExposureCandidate>(ranked: T[], pageSize: number): Promise<ExposurePage<T>> {
+    const now = this.dependencies.clock.now();
+    const boosted = await this.getBoostMultipliers(ranked.map(entry => entry.match.targetUserId), now);
+
+    const reserved = new Map<T, ExposureSlot>();
+    const reserve = (slot: ExposureSlot, slots: number, eligible: (entry: T) => boolean) => {
+      ranked
+        .filter(entry => !reserved.has(entry) && eligible(entry))
+        .slice(0, slots)
+        .forEach(entry => reserved.set(entry, slot));
+    };
+    reserve('premium_boost', Math.floor(pageSize * this.config.boostShare),
+      entry => boosted.has(entry.match.targetUserId));
+    reserve('new_profile', Math.floor(pageSize * this.config.newProfileShare),
+      entry => this.isNewProfile(entry.profile, now));
+
+    const regular = ranked.filter(entry => !reserved.has(entry)).slice(0, Math.max(pageSize - reserved.size, 0));
+    const continueAfter = regular[regular.length - 1];
+    const lastRank = continueAfter ? ranked.indexOf(continueAfter) : -1;
+
+    const taken = new Set<T>([...regular, ...reserved.keys()]);
+    const inPlace = ranked.slice(0, lastRank + 1).filter(entry => taken.has(entry));
+    const promoted = ranked.slice(lastRank + 1).filter(entry => reserved.has(entry));
+
+    const page = [...inPlace];
+    const total = inPlace.length + promoted.length;
+    promoted.forEach((entry, index) => {
+      page.splice(Math.floor(((index + 1) * total) / (promoted.length + 1)), 0, entry);
+    });
+    reserved.forEach((slot, entry) => {
+      entry.match.exposureSlot = slot;
+    });
+
+    return { page, continueAfter };
+  }
+
+  // ===== REPORTING =====
+
+  /**
+   * How evenly impressions since `since` (default: the impression window) were
+   * spread across visible profiles, including the ones never shown
+   */
+  async getExposureReport(since: Date = this.getWindowStart()): Promise<ExposureReport> {
+    const generatedAt = this.dependencies.clock.now();
+
+    const impressions: number[] = [];
+    let newProfiles = 0;
+    let newProfileImpressions = 0;
+    let afterUserId: string | undefined;
+    let page: UserProfile[];
+
+    do {
+      page = await this.dependencies.profiles.listProfiles({ limit: this.config.reportPageSize, afterUserId });
+      const visible = page.filter(profile => profile.visibility.isVisible && !isBanActive(profile.safety, generatedAt));
+
+      // Counted a page at a time so no single query returns more rows than the page holds
+      const counts = await this.dependencies.impressions.countImpressions(since, visible.map(profile => profile.userId));
+      visible.forEach(profile => {
+        const count = counts.get(profile.userId) || 0;
+        impressions.push(count);
+        if (this.isNewProfile(profile, generatedAt)) {
+          newProfiles++;
+          newProfileImpressions += count;
+        }
+      });
+      afterUserId = page[page.length - 1]?.userId;
+    } while (page.length === this.config.reportPageSize);
+
+    const totalImpressions = impressions.reduce((sum, count) => sum + count, 0);
+    const topDecile = [...impressions]
+      .sort((a, b) => b - a)
+      .slice(0, Math.ceil(impressions.length / 10))
+      .reduce((sum, count) => sum + count, 0);
+
+    return {
+      since,
+      generatedAt,
+      profiles: impressions.length,
+      totalImpressions,
+      gini: giniCoefficient(impressions),
+      topDecileShare: totalImpressions > 0 ? topDecile / totalImpressions : 0,
+      unexposedProfiles: impressions.filter(count => count === 0).length,
+      newProfiles,
+      newProfileImpressionShare: totalImpressions > 0 ? newProfileImpressions / totalImpressions : 0
+    };
+  }
+
+  // ===== HELPERS =====
+
+  private getWindowStart(): Date {
+    return new Date(this.dependencies.clock.now().getTime() - this.config.impressionWindowHours * HOUR_MS);
+  }
+
+  private isNewProfile(profile: UserProfile, now: Date): boolean {
+    return now.getTime() - profile.createdAt.getTime() < this.config.newProfileDays * DAY_MS;
+  }
+
+  /**
+   * Profiles rank and pages are laid out without boosts if they can't be looked up
+   */
+  private async getBoostMultipliers(profileIds: string[], at: Date): Promise<Map<string, number>> {
+    if (profileIds.length === 0) return new Map();
+
+    try {
+      return await this.dependencies.boosts.getBoostMultipliers(profileIds, at);
+    } catch (error) {
+      console.error('Failed to load boosted profiles:', error);
+      return new Map();
+    }
+  }
+}
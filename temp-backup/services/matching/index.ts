@@ -8,15 +8,55 @@
 export { LocationService } from './locationService';
 export { MatchingService } from './matchingService';
 export { PreferenceFilteringService } from './preferenceFilteringService';
+export { ProfileCandidateSource } from './profileCandidateSource';
+export { InteractionService } from './interactionService';
+export { MutualMatchService } from './mutualMatchService';
+export { CollaborativeFilteringService } from './collaborativeFilteringService';
+export { ExposureControlService, giniCoefficient } from './exposureControlService';
+export { BoostService } from './boostService';
+export { DEFAULT_MATCHING_ALGORITHM, validateMatchingAlgorithm } from './matchingAlgorithms';
+export {
+  InMemoryBoostRepository,
+  InMemoryImpressionRepository,
+  InMemoryInteractionRepository,
+  InMemoryMatchingAlgorithmRepository,
+  InMemoryMatchingStateStore,
+  InMemoryMutualMatchRepository,
+  SupabaseBoostRepository,
+  SupabaseImpressionRepository,
+  SupabaseInteractionRepository,
+  SupabaseMatchingAlgorithmRepository,
+  SupabaseMatchingStateStore,
+  SupabaseMutualMatchRepository
+} from './repositories';
+export { InMemoryMatchNotifier, SupabaseMatchNotifier } from './notifiers';
 
 export type {
   LocationPermissionStatus,
   DistanceCalculation,
-  LocationHistory
+  LocationHistory,
+  LocationServiceConfig,
+  DistanceUnit,
+  DistanceMethod
 } from './locationService';
 
 export type {
   MatchingConfig,
-  UserLocationData,
-  MatchingAlgorithmWeights
+  UserLocationData
 } from './matchingService';
+
+export type { ProfileCandidateStore } from './profileCandidateSource';
+export type { InteractionServiceDependencies } from './interactionService';
+export type { MutualMatchServiceDependencies } from './mutualMatchService';
+export type {
+  CollaborativeFilteringConfig,
+  CollaborativeFilteringDependencies
+} from './collaborativeFilteringService';
+export type {
+  ExposureControlConfig,
+  ExposureControlDependencies
+} from './exposureControlService';
+export type {
+  BoostServiceConfig,
+  BoostServiceDependencies
+} from './boostService';
@@ -0,0 +1,325 @@
+/**
+ * Interaction Service
+ * Epic 003: Matching System
+ *
+ * Records likes, super likes and passes against the user's match queue,
+ * charges them to the plan's daily quotas and lets users rewind their last pass.
+ * Reciprocated likes are handed to MutualMatchService, and every like is
+ * counted by CollaborativeFilteringService.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Clock, systemClock } from '../../lib/clock';
+import {
+  DuplicateInteractionError,
+  InteractionRepository,
+  LikeProfileRequest,
+  LikeProfileResponse,
+  MatchingLimitExceededError,
+  MatchingValidationError,
+  MatchNotifier,
+  MatchQueue,
+  MatchResult,
+  MutualMatch,
+  PassProfileRequest,
+  PassProfileResponse,
+  RewindResponse,
+  SwipeAction,
+  SwipeInteraction
+} from '../../types/matching';
+import { ProfileRepository } from '../../types/profile';
+import { NotificationService } from '../notifications/notificationService';
+import { isBanActive, ProfileService } from '../profile/profileService';
+import { EntitlementService } from '../subscription/entitlementService';
+import { CollaborativeFilteringService } from './collaborativeFilteringService';
+import { MatchingService } from './matchingService';
+import { MutualMatchService } from './mutualMatchService';
+import { InMemoryInteractionRepository } from './repositories/inMemoryInteractionRepository';
+
+export interface InteractionServiceDependencies {
+  repository: InteractionRepository;
+  entitlements: Pick<EntitlementService, 'consume' | 'refund'>;
+  matching: Pick<MatchingService, 'markMatchProcessed' | 'restoreMatch' | 'getMatchQueue'>;
+  mutualMatches: Pick<MutualMatchService, 'createMutualMatch'>;
+  collaborativeFiltering: Pick<CollaborativeFilteringService, 'recordLike'>;
+  notifier: MatchNotifier;
+  profiles: Pick<ProfileRepository, 'getProfile'>;
+  clock: Clock;
+}
+
+export class InteractionService {
+  private static instance: InteractionService;
+  private dependencies: InteractionServiceDependencies;
+
+  private constructor(dependencies: Partial<InteractionServiceDependencies> = {}) {
+    this.dependencies = {
+      repository: dependencies.repository || new InMemoryInteractionRepository(),
+      entitlements: dependencies.entitlements || EntitlementService.getInstance(),
+      matching: dependencies.matching || MatchingService.getInstance(),
+      mutualMatches: dependencies.mutualMatches || MutualMatchService.getInstance(),
+      collaborativeFiltering: dependencies.collaborativeFiltering || CollaborativeFilteringService.getInstance(),
+      notifier: dependencies.notifier || NotificationService.getInstance(),
+      profiles: dependencies.profiles || ProfileService.getInstance().getRepository(),
+      clock: dependencies.clock || systemClock
+    };
+  }
+
+  public static getInstance(dependencies?: Partial<InteractionServiceDependencies>): InteractionService {
+    if (!InteractionService.instance) {
+      InteractionService.instance = new InteractionService(dependencies);
+    } else if (dependencies) {
+      InteractionService.instance.setDependencies(dependencies);
+    }
+    return InteractionService.instance;
+  }
+
+  /**
+   * Replace some or all dependencies (e.g. a fake clock in tests)
+   */
+  setDependencies(dependencies: Partial<InteractionServiceDependencies>): void {
+    this.dependencies = { ...this.dependencies, ...dependencies };
+  }
+
+  // ===== SWIPES =====
+
+  /**
+   * Like or super like a profile. Running out of likes is reported in the
+   * response rather than thrown so the client can show the upgrade prompt.
+   */
+  async likeProfile(userId: string, request: LikeProfileRequest): Promise<LikeProfileResponse> {
+    await this.validateTarget(userId, request.targetUserId);
+
+    const action: SwipeAction = request.isSuperLike ? 'super_like' : 'like';
+    const feature = request.isSuperLike ? 'super_likes' : 'daily_likes';
+
+    let remainingLikes: number;
+    try {
+      const quota = await this.dependencies.entitlements.consume(userId, feature);
+      remainingLikes = quota.remaining;
+    } catch (error) {
+      if (error instanceof MatchingLimitExceededError) {
+        return {
+          success: false,
+          isMutualMatch: false,
+          limitsExceeded: true,
+          remainingLikes: 0,
+          message: error.message
+        };
+      }
+      throw error;
+    }
+
+    const interaction = await this.recordCharged(userId, request.matchId, request.targetUserId, action, feature);
+    const mutualMatch = await this.matchIfReciprocated(interaction, feature);
+    this.dependencies.collaborativeFiltering.recordLike(userId, request.targetUserId);
+
+    await this.dependencies.matching.markMatchProcessed(userId, request.matchId, 'liked');
+
+    // A match notification supersedes the super like one
+    if (action === 'super_like' && !mutualMatch) {
+      await this.notifySuperLike(interaction);
+    }
+
+    return {
+      success: true,
+      isMutualMatch: !!mutualMatch,
+      mutualMatch,
+      limitsExceeded: false,
+      remainingLikes,
+      ...await this.getQueueState(userId)
+    };
+  }
+
+  /**
+   * Pass on a profile. Passes are free; the latest one can be rewound.
+   */
+  async passProfile(userId: string, request: PassProfileRequest): Promise<PassProfileResponse> {
+    await this.validateTarget(userId, request.targetUserId);
+
+    await this.record(userId, request.matchId, request.targetUserId, 'pass');
+    await this.dependencies.matching.markMatchProcessed(userId, request.matchId, 'passed');
+
+    return { success: true, ...await this.getQueueState(userId) };
+  }
+
+  /**
+   * Everyone the user has swiped on, so regenerated queues can leave them out
+   */
+  async listInteractedUserIds(userId: string): Promise<string[]> {
+    return this.dependencies.repository.listInteractedUserIds(userId);
+  }
+
+  // ===== REWIND =====
+
+  /**
+   * Undo the user's most recent swipe if it was a pass, charging one rewind.
+   * The profile goes back to the front of the queue when it is still loaded.
+   */
+  async rewind(userId: string): Promise<RewindResponse> {
+    const latest = await this.dependencies.repository.getLatestInteraction(userId);
+    if (!latest) {
+      throw new MatchingValidationError(
+        [{ code: 'NOTHING_TO_REWIND', message: 'There is no swipe to rewind' }]
+      );
+    }
+    if (latest.action !== 'pass') {
+      throw new MatchingValidationError(
+        [{ code: 'REWIND_NOT_ALLOWED', message: 'Only your last pass can be rewound' }]
+      );
+    }
+
+    // Throws MatchingLimitExceededError when the plan has no rewinds left
+    const quota = await this.dependencies.entitlements.consume(userId, 'rewinds');
+
+    try {
+      await this.dependencies.repository.deleteInteraction(latest.interactionId);
+    } catch (error) {
+      await this.dependencies.entitlements.refund(userId, 'rewinds');
+      throw error;
+    }
+
+    // The pass carries its queued match, so any instance can put it back
+    const passed = latest.passedMatch;
+
+    let restoredMatch: MatchResult | undefined;
+    if (passed && await this.dependencies.matching.restoreMatch(userId, passed)) {
+      restoredMatch = { ...passed, status: 'pending' };
+    }
+
+    return {
+      success: true,
+      targetUserId: latest.targetUserId,
+      restoredMatch,
+      remainingRewinds: quota.remaining
+    };
+  }
+
+  // ===== HELPERS =====
+
+  private async validateTarget(userId: string, targetUserId: string): Promise<void> {
+    if (userId === targetUserId) {
+      throw new MatchingValidationError(
+        [{ code: 'INVALID_TARGET', message: 'You cannot swipe on your own profile', field: 'targetUserId' }]
+      );
+    }
+
+    const target = await this.dependencies.profiles.getProfile(targetUserId);
+    if (!target || isBanActive(target.safety, this.now())) {
+      throw new MatchingValidationError(
+        [{ code: 'USER_NOT_FOUND', message: 'Profile not found', field: 'targetUserId' }]
+      );
+    }
+
+    if (await this.dependencies.repository.getInteraction(userId, targetUserId)) {
+      throw new MatchingValidationError(
+        [{ code: 'ALREADY_INTERACTED', message: 'You have already swiped on this profile', field: 'targetUserId' }]
+      );
+    }
+  }
+
+  private async record(
+    userId: string,
+    matchId: string,
+    targetUserId: string,
+    action: SwipeAction
+  ): Promise<SwipeInteraction> {
+    // Remember which reserved slot the profile was shown in, e.g. for premium_boost
+    // matches, and for passes the whole match so a rewind can restore it
+    const queued = (await this.dependencies.matching.getMatchQueue(userId))?.pendingMatches
+      .find(match => match.matchId === matchId);
+
+    try {
+      return await this.dependencies.repository.recordInteraction({
+        matchId,
+        userId,
+        targetUserId,
+        action,
+        timestamp: this.now(),
+        context: {
+          swipeDirection: action === 'super_like' ? 'up' : action === 'like' ? 'right' : 'left',
+          ...(queued?.exposureSlot && { exposureSlot: queued.exposureSlot })
+        },
+        ...(action === 'pass' && queued && { passedMatch: queued })
+      });
+    } catch (error) {
+      // A concurrent swipe on the same profile won the race
+      if (error instanceof DuplicateInteractionError) {
+        throw new MatchingValidationError(
+          [{ code: 'ALREADY_INTERACTED', message: 'You have already swiped on this profile', field: 'targetUserId' }]
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Record a swipe that has already been paid for, refunding it if it can't be stored
+   */
+  private async recordCharged(
+    userId: string,
+    matchId: string,
+    targetUserId: string,
+    action: SwipeAction,
+    feature: 'daily_likes' | 'super_likes'
+  ): Promise<SwipeInteraction> {
+    try {
+      return await this.record(userId, matchId, targetUserId, action);
+    } catch (error) {
+      await this.dependencies.entitlements.refund(userId, feature);
+      throw error;
+    }
+  }
+
+  /**
+   * Create the match when the target already liked the user back. If that fails
+   * the like is undone and refunded so the user can simply try again.
+   */
+  private async matchIfReciprocated(
+    interaction: SwipeInteraction,
+    feature: 'daily_likes' | 'super_likes'
+  ): Promise<MutualMatch | undefined> {
+    try {
+      const reciprocal = await this.dependencies.repository.getInteraction(interaction.targetUserId, interaction.userId);
+      if (!reciprocal || reciprocal.action === 'pass') return undefined;
+
+      return await this.dependencies.mutualMatches.createMutualMatch(interaction, reciprocal);
+    } catch (error) {
+      await this.dependencies.repository.deleteInteraction(interaction.interactionId);
+      await this.dependencies.entitlements.refund(interaction.userId, feature);
+      throw error;
+    }
+  }
+
+  private async notifySuperLike(interaction: SwipeInteraction): Promise<void> {
+    const sender = await this.dependencies.profiles.getProfile(interaction.userId);
+    const name = sender?.personalInfo.displayName || 'Someone';
+
+    try {
+      await this.dependencies.notifier.notify({
+        notificationId: uuidv4(),
+        userId: interaction.targetUserId,
+        type: 'super_like_received',
+        title: 'You got a Super Like!',
+        body: `${name} super liked you`,
+        data: { fromUserId: interaction.userId },
+        scheduledFor: this.now(),
+        status: 'pending',
+        priority: 'high',
+        channels: ['push', 'in_app']
+      });
+    } catch (error) {
+      // The super like stands even if the notification can't be delivered
+      console.error('Failed to send super like notification:', error);
+    }
+  }
+
+  private async getQueueState(userId: string): Promise<{ queueExhausted: boolean; remainingInQueue: number }> {
+    const queue: MatchQueue | null = await this.dependencies.matching.getMatchQueue(userId);
+    const remainingInQueue = queue ? queue.pendingMatches.length : 0;
+    return { queueExhausted: remainingInQueue === 0, remainingInQueue };
+  }
+
+  private now(): Date {
+    return this.dependencies.clock.now();
+  }
+}
@@ -0,0 +1,458 @@
+/**
+ * Location Service
+ * Epic 003: Matching System
+ * Story 001: Location-Based Matching
+ *
+ * Pure TypeScript location subsystem: distance calculation (haversine and
+ * vincenty), bounding boxes, permission state, per-user location history
+ * and distance unit conversion. No device APIs are touched here, so every
+ * calculation can run in tests or on the server.
+ */
+
+import {
+  GeoLocation,
+  LocationBounds,
+  LocationConfig,
+  LocationPermissionError,
+  MatchResult
+} from '../../types/matching';
+
+export type DistanceUnit = MatchResult['distanceUnit'];
+
+export type DistanceMethod = 'haversine' | 'vincenty';
+
+export interface LocationPermissionStatus {
+  status: 'granted' | 'denied' | 'undetermined' | 'restricted';
+  foreground: boolean;
+  background: boolean;
+  canAskAgain: boolean;
+  updatedAt: Date;
+}
+
+export interface DistanceCalculation {
+  distance: number; // in kilometers
+  bearing: number; // initial bearing in degrees (0-359)
+  duration: number; // estimated travel time in minutes
+  method: DistanceMethod;
+}
+
+export interface LocationHistory {
+  userId: string;
+  entries: GeoLocation[]; // oldest first
+  maxEntries: number;
+  lastUpdated: Date;
+}
+
+export interface LocationServiceConfig {
+  maxHistoryEntries: number;
+  averageTravelSpeed: number; // km/h, used for duration estimates
+  defaultMethod: DistanceMethod;
+  location: LocationConfig;
+}
+
+type Coordinates = Pick<GeoLocation, 'latitude' | 'longitude'>;
+
+// Earth model constants
+const EARTH_RADIUS_KM = 6371;
+const WGS84 = {
+  a: 6378137, // semi-major axis (meters)
+  b: 6356752.314245, // semi-minor axis (meters)
+  f: 1 / 298.257223563 // flattening
+};
+const KM_PER_MILE = 1.609344;
+const KM_PER_DEGREE_LATITUDE = 111.32;
+
+export class LocationService {
+  private static instance: LocationService;
+  private locationHistory: Map<string, LocationHistory> = new Map();
+  private permissionStatus: LocationPermissionStatus = {
+    status: 'undetermined',
+    foreground: false,
+    background: false,
+    canAskAgain: true,
+    updatedAt: new Date()
+  };
+
+  // Default configuration
+  private config: LocationServiceConfig = {
+    maxHistoryEntries: 50,
+    averageTravelSpeed: 30, // urban average
+    defaultMethod: 'haversine',
+    location: {
+      accuracy: 'balanced',
+      enableBackground: false,
+      distanceFilter: 100,
+      enableHighAccuracy: false,
+      timeout: 15000,
+      maximumAge: 5 * 60 * 1000,
+      enableForegroundService: false,
+      showLocationDialog: true,
+      interval: 60 * 1000
+    }
+  };
+
+  private constructor() {}
+
+  public static getInstance(): LocationService {
+    if (!LocationService.instance) {
+      LocationService.instance = new LocationService();
+    }
+    return LocationService.instance;
+  }
+
+  /**
+   * Calculate distance, bearing and travel time between two points
+   */
+  calculateDistance(
+    from: Coordinates,
+    to: Coordinates,
+    method: DistanceMethod = this.config.defaultMethod
+  ): DistanceCalculation {
+    this.validateCoordinates(from);
+    this.validateCoordinates(to);
+
+    const distance = method === 'vincenty'
+      ? this.calculateVincentyDistance(from, to)
+      : this.calculateHaversineDistance(from, to);
+
+    return {
+      distance: Math.round(distance * 100) / 100,
+      bearing: Math.round(this.calculateBearing(from, to)) % 360,
+      duration: Math.round((distance / this.config.averageTravelSpeed) * 60),
+      method
+    };
+  }
+
+  /**
+   * Great-circle distance on a spherical earth (km)
+   */
+  calculateHaversineDistance(from: Coordinates, to: Coordinates): number {
+    const dLat = this.toRadians(to.latitude - from.latitude);
+    const dLon = this.toRadians(to.longitude - from.longitude);
+
+    const a =
+      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+      Math.cos(this.toRadians(from.latitude)) *
+      Math.cos(this.toRadians(to.latitude)) *
+      Math.sin(dLon / 2) * Math.sin(dLon / 2);
+
+    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+    return EARTH_RADIUS_KM * c;
+  }
+
+  /**
+   * Geodesic distance on the WGS-84 ellipsoid using Vincenty's inverse
+   * formula (km). Falls back to haversine for nearly antipodal points,
+   * where the iteration does not converge.
+   */
+  calculateVincentyDistance(from: Coordinates, to: Coordinates): number {
+    const { a, b, f } = WGS84;
+    const L = this.toRadians(to.longitude - from.longitude);
+    const U1 = Math.atan((1 - f) * Math.tan(this.toRadians(from.latitude)));
+    const U2 = Math.atan((1 - f) * Math.tan(this.toRadians(to.latitude)));
+    const sinU1 = Math.sin(U1), cosU1 = Math.cos(U1);
+    const sinU2 = Math.sin(U2), cosU2 = Math.cos(U2);
+
+    let lambda = L;
+    let lambdaPrev: number;
+    let iterations = 0;
+    let sinSigma = 0, cosSigma = 0, sigma = 0, cosSqAlpha = 0, cos2SigmaM = 0;
+
+    do {
+      const sinLambda = Math.sin(lambda);
+      const cosLambda = Math.cos(lambda);
+      sinSigma = Math.sqrt(
+        (cosU2 * sinLambda) * (cosU2 * sinLambda) +
+        (cosU1 * sinU2 - sinU1 * cosU2 * cosLambda) * (cosU1 * sinU2 - sinU1 * cosU2 * cosLambda)
+      );
+
+      if (sinSigma === 0) return 0; // Coincident points
+
+      cosSigma = sinU1 * sinU2 + cosU1 * cosU2 * cosLambda;
+      sigma = Math.atan2(sinSigma, cosSigma);
+      const sinAlpha = (cosU1 * cosU2 * sinLambda) / sinSigma;
+      cosSqAlpha = 1 - sinAlpha * sinAlpha;
+      cos2SigmaM = cosSqAlpha !== 0 ? cosSigma - (2 * sinU1 * sinU2) / cosSqAlpha : 0; // Equatorial line
+      const C = (f / 16) * cosSqAlpha * (4 + f * (4 - 3 * cosSqAlpha));
+      lambdaPrev = lambda;
+      lambda = L + (1 - C) * f * sinAlpha *
+        (sigma + C * sinSigma * (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM)));
+    } while (Math.abs(lambda - lambdaPrev) > 1e-12 && ++iterations < 200);
+
+    if (iterations >= 200) {
+      return this.calculateHaversineDistance(from, to);
+    }
+
+    const uSq = (cosSqAlpha * (a * a - b * b)) / (b * b);
+    const A = 1 + (uSq / 16384) * (4096 + uSq * (-768 + uSq * (320 - 175 * uSq)));
+    const B = (uSq / 1024) * (256 + uSq * (-128 + uSq * (74 - 47 * uSq)));
+    const deltaSigma = B * sinSigma * (
+      cos2SigmaM + (B / 4) * (
+        cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM) -
+        (B / 6) * cos2SigmaM * (-3 + 4 * sinSigma * sinSigma) * (-3 + 4 * cos2SigmaM * cos2SigmaM)
+      )
+    );
+
+    return (b * A * (sigma - deltaSigma)) / 1000;
+  }
+
+  /**
+   * Initial bearing from one point to another (degrees, 0-360)
+   */
+  calculateBearing(from: Coordinates, to: Coordinates): number {
+    const dLon = this.toRadians(to.longitude - from.longitude);
+    const lat1 = this.toRadians(from.latitude);
+    const lat2 = this.toRadians(to.latitude);
+
+    const y = Math.sin(dLon) * Math.cos(lat2);
+    const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+
+    return (this.toDegrees(Math.atan2(y, x)) + 360) % 360;
+  }
+
+  /**
+   * Create a bounding box around a center point
+   */
+  createLocationBounds(center: GeoLocation, radiusKm: number): LocationBounds {
+    this.validateCoordinates(center);
+    if (radiusKm <= 0) {
+      throw new Error('Radius must be greater than 0');
+    }
+
+    const latDelta = radiusKm / KM_PER_DEGREE_LATITUDE;
+    // Longitude degrees shrink towards the poles
+    const cosLat = Math.cos(this.toRadians(center.latitude));
+    const lonDelta = cosLat > 1e-6 ? radiusKm / (KM_PER_DEGREE_LATITUDE * cosLat) : 180;
+    const coversAllLongitudes = lonDelta >= 180;
+
+    return {
+      center,
+      radius: radiusKm * 1000, // Convert to meters
+      northEast: {
+        ...center,
+        latitude: Math.min(center.latitude + latDelta, 90),
+        longitude: coversAllLongitudes ? 180 : this.normalizeLongitude(center.longitude + lonDelta)
+      },
+      southWest: {
+        ...center,
+        latitude: Math.max(center.latitude - latDelta, -90),
+        longitude: coversAllLongitudes ? -180 : this.normalizeLongitude(center.longitude - lonDelta)
+      }
+    };
+  }
+
+  /**
+   * Check whether a point falls inside a bounding box
+   */
+  isWithinBounds(point: Coordinates, bounds: LocationBounds): boolean {
+    const { northEast, southWest } = bounds;
+    if (point.latitude < southWest.latitude || point.latitude > northEast.latitude) {
+      return false;
+    }
+
+    // Box crosses the antimeridian
+    if (southWest.longitude > northEast.longitude) {
+      return point.longitude >= southWest.longitude || point.longitude <= northEast.longitude;
+    }
+
+    return point.longitude >= southWest.longitude && point.longitude <= northEast.longitude;
+  }
+
+  /**
+   * Find users within a radius, nearest first
+   */
+  async findUsersInArea(
+    center: Coordinates,
+    radiusKm: number,
+    users: Array<{ userId: string; location: Coordinates }>
+  ): Promise<Array<{ userId: string; distance: number }>> {
+    const bounds = this.createLocationBounds(
+      { latitude: center.latitude, longitude: center.longitude, timestamp: new Date() },
+      radiusKm
+    );
+
+    return users
+      // Cheap bounding box pre-filter before the exact distance check
+      .filter(user => this.isWithinBounds(user.location, bounds))
+      .map(user => ({
+        userId: user.userId,
+        distance: this.calculateDistance(center, user.location).distance
+      }))
+      .filter(user => user.distance <= radiusKm)
+      .sort((a, b) => a.distance - b.distance);
+  }
+
+  // ===== PERMISSIONS =====
+
+  /**
+   * Record the latest permission state reported by the platform
+   */
+  setPermissionStatus(status: Partial<LocationPermissionStatus> & Pick<LocationPermissionStatus, 'status'>): LocationPermissionStatus {
+    const granted = status.status === 'granted';
+
+    this.permissionStatus = {
+      status: status.status,
+      foreground: status.foreground ?? granted,
+      background: status.background ?? false,
+      canAskAgain: status.canAskAgain ?? status.status !== 'denied',
+      updatedAt: new Date()
+    };
+
+    return this.getPermissionStatus();
+  }
+
+  getPermissionStatus(): LocationPermissionStatus {
+    return { ...this.permissionStatus };
+  }
+
+  hasPermission(requireBackground: boolean = false): boolean {
+    if (this.permissionStatus.status !== 'granted') return false;
+    return requireBackground ? this.permissionStatus.background : this.permissionStatus.foreground;
+  }
+
+  /**
+   * Throw if location access has not been granted
+   */
+  requirePermission(requireBackground: boolean = false): void {
+    if (!this.hasPermission(requireBackground)) {
+      throw new LocationPermissionError(
+        requireBackground
+          ? 'Background location permission required'
+          : 'Location permission required'
+      );
+    }
+  }
+
+  // ===== LOCATION HISTORY =====
+
+  /**
+   * Append a location to the user's history, dropping the oldest entries
+   * once the history is full
+   */
+  recordLocation(userId: string, location: GeoLocation): LocationHistory {
+    this.validateCoordinates(location);
+
+    const history = this.locationHistory.get(userId) || {
+      userId,
+      entries: [],
+      maxEntries: this.config.maxHistoryEntries,
+      lastUpdated: location.timestamp
+    };
+
+    history.entries.push(location);
+    if (history.entries.length > history.maxEntries) {
+      history.entries.splice(0, history.entries.length - history.maxEntries);
+    }
+    history.lastUpdated = location.timestamp;
+
+    this.locationHistory.set(userId, history);
+    return this.getLocationHistory(userId)!;
+  }
+
+  getLocationHistory(userId: string): LocationHistory | null {
+    const history = this.locationHistory.get(userId);
+    if (!history) return null;
+
+    return { ...history, entries: [...history.entries] };
+  }
+
+  getLastKnownLocation(userId: string): GeoLocation | null {
+    const history = this.locationHistory.get(userId);
+    if (!history || history.entries.length === 0) return null;
+
+    return history.entries[history.entries.length - 1];
+  }
+
+  clearLocationHistory(userId: string): void {
+    this.locationHistory.delete(userId);
+  }
+
+  /**
+   * Total distance travelled across the recorded history (km)
+   */
+  getDistanceTravelled(userId: string): number {
+    const history = this.locationHistory.get(userId);
+    if (!history || history.entries.length < 2) return 0;
+
+    let total = 0;
+    for (let i = 1; i < history.entries.length; i++) {
+      total += this.calculateHaversineDistance(history.entries[i - 1], history.entries[i]);
+    }
+    return Math.round(total * 100) / 100;
+  }
+
+  // ===== UNIT CONVERSION =====
+
+  convertDistance(value: number, from: DistanceUnit, to: DistanceUnit): number {
+    if (from === to) return value;
+    return from === 'km' ? value / KM_PER_MILE : value * KM_PER_MILE;
+  }
+
+  kilometersToMiles(km: number): number {
+    return this.convertDistance(km, 'km', 'miles');
+  }
+
+  milesToKilometers(miles: number): number {
+    return this.convertDistance(miles, 'miles', 'km');
+  }
+
+  /**
+   * Express a match's distance in the requested unit
+   */
+  convertMatchDistance<T extends MatchResult>(match: T, unit: DistanceUnit): T {
+    if (match.distanceUnit === unit) return match;
+
+    return {
+      ...match,
+      distance: Math.round(this.convertDistance(match.distance, match.distanceUnit, unit) * 100) / 100,
+      distanceUnit: unit
+    };
+  }
+
+  /**
+   * Format a distance (given in km) for display
+   */
+  formatDistance(distanceKm: number, unit: DistanceUnit = 'km'): string {
+    const value = this.convertDistance(distanceKm, 'km', unit);
+    const label = unit === 'km' ? 'km' : value === 1 ? 'mile' : 'miles';
+
+    if (value < 1) return `< 1 ${unit === 'km' ? 'km' : 'mile'}`;
+    return `${Math.round(value)} ${label}`;
+  }
+
+  /**
+   * Update location service configuration
+   */
+  updateConfig(newConfig: Partial<LocationServiceConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  getConfig(): LocationServiceConfig {
+    return { ...this.config };
+  }
+
+  // ===== HELPERS =====
+
+  private validateCoordinates(point: Coordinates): void {
+    if (!Number.isFinite(point.latitude) || point.latitude < -90 || point.latitude > 90) {
+      throw new Error(`Invalid latitude: ${point.latitude}`);
+    }
+    if (!Number.isFinite(point.longitude) || point.longitude < -180 || point.longitude > 180) {
+      throw new Error(`Invalid longitude: ${point.longitude}`);
+    }
+  }
+
+  private normalizeLongitude(longitude: number): number {
+    if (longitude > 180) return longitude - 360;
+    if (longitude < -180) return longitude + 360;
+    return longitude;
+  }
+
+  private toRadians(degrees: number): number {
+    return degrees * (Math.PI / 180);
+  }
+
+  private toDegrees(radians: number): number {
+    return radians * (180 / Math.PI);
+  }
+}
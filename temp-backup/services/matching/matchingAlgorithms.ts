@@ -0,0 +1,127 @@
+/**
+ * Matching Algorithms
+ * Epic 003: Matching System
+ *
+ * The built-in scoring model and the checks every MatchingAlgorithmConfig has
+ * to pass before it can be stored or used to score matches.
+ */
+
+import {
+  CategoryScores,
+  CompatibilityModel,
+  MatchingAlgorithmConfig,
+  MatchingError,
+  MatchingValidationError
+} from '../../types/matching';
+import { predictProbability } from '../training/logisticRegression';
+
+// Feature order of compatibility models
+export const COMPATIBILITY_CATEGORIES = ['physical', 'lifestyle', 'social', 'relationship'] as const;
+
+export const DEFAULT_MATCHING_ALGORITHM: MatchingAlgorithmConfig = {
+  version: 'v1',
+  weights: {
+    distance: 0.25,
+    age: 0.15,
+    preferences: 0.2,
+    activity: 0.1,
+    verification: 0.05,
+    premium: 0.05,
+    photos: 0.1,
+    completeness: 0.1
+  },
+  penalties: {
+    incompleteProfile: 0.05,
+    noPhotos: 0.1,
+    unverified: 0.05,
+    inactive: 0.1
+  },
+  thresholds: {
+    minimumScore: 0.2,
+    excellentScore: 0.85,
+    maxDistance: 100,
+    maxInactivity: 30
+  },
+  features: {
+    enableMachineLearning: false,
+    enableCollaborativeFiltering: false,
+    enableSeasonalAdjustments: false,
+    enableLocationHistory: false
+  }
+};
+
+/**
+ * Chance of the model's outcome (0-1) given the pair's category scores
+ */
+export function predictCompatibility(model: CompatibilityModel, categoryScores: CategoryScores): number {
+  return predictProbability(
+    { intercept: model.intercept, coefficients: COMPATIBILITY_CATEGORIES.map(category => model.weights[category]) },
+    COMPATIBILITY_CATEGORIES.map(category => categoryScores[category].score)
+  );
+}
+
+/**
+ * Throw a MatchingValidationError listing everything wrong with the config
+ */
+export function validateMatchingAlgorithm(config: MatchingAlgorithmConfig): void {
+  const errors: MatchingError[] = [];
+  const isNonNegative = (value: number) => Number.isFinite(value) && value >= 0;
+
+  if (!config.version || !config.version.trim()) {
+    errors.push({ code: 'INVALID_VERSION', message: 'Algorithm version is required', field: 'version' });
+  }
+
+  Object.entries(config.weights).forEach(([name, value]) => {
+    if (!isNonNegative(value)) {
+      errors.push({ code: 'INVALID_WEIGHT', message: `Weight ${name} must be a non-negative number`, field: `weights.${name}` });
+    }
+  });
+  if (Object.values(config.weights).every(value => value === 0)) {
+    errors.push({ code: 'INVALID_WEIGHT', message: 'At least one weight must be above zero', field: 'weights' });
+  }
+
+  Object.entries(config.penalties).forEach(([name, value]) => {
+    if (!isNonNegative(value)) {
+      errors.push({ code: 'INVALID_PENALTY', message: `Penalty ${name} must be a non-negative number`, field: `penalties.${name}` });
+    }
+  });
+
+  const { minimumScore, excellentScore, maxDistance, maxInactivity } = config.thresholds;
+  if (!(minimumScore >= 0 && minimumScore <= excellentScore && excellentScore <= 1)) {
+    errors.push({
+      code: 'INVALID_THRESHOLD',
+      message: 'Scores must satisfy 0 <= minimumScore <= excellentScore <= 1',
+      field: 'thresholds'
+    });
+  }
+  if (!(maxDistance > 0)) {
+    errors.push({ code: 'INVALID_THRESHOLD', message: 'maxDistance must be above zero', field: 'thresholds.maxDistance' });
+  }
+  if (!(maxInactivity > 0)) {
+    errors.push({ code: 'INVALID_THRESHOLD', message: 'maxInactivity must be above zero', field: 'thresholds.maxInactivity' });
+  }
+
+  const model = config.compatibilityModel;
+  if (config.features.enableMachineLearning && !model) {
+    errors.push({
+      code: 'MISSING_MODEL',
+      message: 'enableMachineLearning needs a compatibilityModel',
+      field: 'compatibilityModel'
+    });
+  }
+  if (model) {
+    const coefficients: Array<[string, number]> = [
+      ['intercept', model.intercept],
+      ...COMPATIBILITY_CATEGORIES.map((category): [string, number] => [`weights.${category}`, model.weights[category]])
+    ];
+    coefficients.forEach(([name, value]) => {
+      if (!Number.isFinite(value)) {
+        errors.push({ code: 'INVALID_MODEL', message: `Model ${name} must be a finite number`, field: `compatibilityModel.${name}` });
+      }
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new MatchingValidationError(errors, `Invalid matching algorithm ${config.version || '(unversioned)'}`);
+  }
+}
@@ -14,7 +14,6 @@ import {
   MatchResult,
   PreferenceMatchResult,
   MatchQueue,
-  MutualMatch,
   GeoLocation,
   MatchingLimits,
   MatchAnalytics,
@@ -23,12 +22,35 @@ import {
   MatchExplanation,
   PreferenceMatchAnalytics,
   PreferenceOptimizationSuggestions,
-  OptimizationGoals
+  OptimizationGoals,
+  CandidateSource,
+  MatchingStateStore,
+  MatchDiscovery,
+  GetMatchesRequest,
+  MatchingAlgorithmConfig,
+  MatchingAlgorithmRepository,
+  UnknownAlgorithmVersionError,
+  AlgorithmAssigner,
+  CollaborativeCandidateSource
 } from '../../types/matching';
 
+import { createHash, randomBytes } from 'crypto';
+import { ExposureCandidate, ExposureController, ExposurePage } from '../../types/exposure';
 import { UserProfile } from '../../types/profile';
+import { isBanActive } from '../profile/profileService';
+import {
+  compareDiscoveryRank,
+  DiscoveryCursor,
+  DiscoveryPageTokens,
+  hashMatchingCriteria,
+  toDiscoveryCursor
+} from './discoveryPageTokens';
 import { LocationService, DistanceCalculation } from './locationService';
+import { predictCompatibility, validateMatchingAlgorithm } from './matchingAlgorithms';
 import { PreferenceFilteringService } from './preferenceFilteringService';
+import { ProfileCandidateSource } from './profileCandidateSource';
+import { InMemoryMatchingAlgorithmRepository } from './repositories/inMemoryMatchingAlgorithmRepository';
+import { InMemoryMatchingStateStore } from './repositories/inMemoryMatchingStateStore';
 
 export interface MatchingConfig {
   defaultRadius: number; // in kilometers
@@ -38,6 +60,14 @@ export interface MatchingConfig {
   enableLocationFiltering: boolean;
   enableAgeFiltering: boolean;
   enableDistanceWeighting: boolean;
+  candidatePageSize: number; // profiles fetched per candidate source page
+  maxCandidatesScanned: number; // upper bound on profiles read per advanced search
+  queueTtlMinutes: number; // queues untouched for this long are dropped from the state store
+  pageTokenSecret: string; // signs discovery page tokens; share it between instances
+  pageTokenTtlMinutes: number; // how long a discovery session can be paged through
+  algorithmVersion: string; // MatchingAlgorithmConfig used when the criteria don't pick one
+  collaborativeCandidates: number; // collaborative suggestions added to each search's candidates
+  collaborativeMix: number; // 0-1 share of the compatibility ranking taken from collaborative scores
 }
 
 export interface UserLocationData {
@@ -48,21 +78,27 @@ export interface UserLocationData {
   isOnline: boolean;
 }
 
-export interface MatchingAlgorithmWeights {
-  distance: number; // 0-1
-  age: number; // 0-1
-  commonInterests: number; // 0-1
-  activityLevel: number; // 0-1
-  profileCompleteness: number; // 0-1
+// A match and its position in the ranking
+interface RankedMatch {
+  match: MatchResult;
+  profile: UserProfile;
+  cursor: DiscoveryCursor;
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+const IDEAL_PHOTO_COUNT = 6; // Approved photos needed for a full photo score
+
 export class MatchingService {
   private static instance: MatchingService;
   private locationService: LocationService;
   private preferenceFilteringService: PreferenceFilteringService;
-  private matchQueue: Map<string, MatchQueue> = new Map();
-  private mutualMatches: Map<string, MutualMatch[]> = new Map();
-  private userCooldowns: Map<string, Date> = new Map();
+  private candidateSource: CandidateSource;
+  private stateStore: MatchingStateStore;
+  private algorithms: MatchingAlgorithmRepository;
+  private loadedAlgorithms: Map<string, MatchingAlgorithmConfig> = new Map(); // Versions never change once stored
+  private algorithmAssigner?: AlgorithmAssigner;
+  private collaborativeSource?: CollaborativeCandidateSource;
+  private exposureControl?: ExposureController;
 
   // Default configuration
   private config: MatchingConfig = {
@@ -72,30 +108,166 @@ export class MatchingService {
     cooldownPeriod: 5, // 5 minutes
     enableLocationFiltering: true,
     enableAgeFiltering: true,
-    enableDistanceWeighting: true
-  };
-
-  // Algorithm weights for scoring
-  private weights: MatchingAlgorithmWeights = {
-    distance: 0.3,
-    age: 0.2,
-    commonInterests: 0.25,
-    activityLevel: 0.15,
-    profileCompleteness: 0.1
+    enableDistanceWeighting: true,
+    candidatePageSize: 100,
+    maxCandidatesScanned: 1000,
+    queueTtlMinutes: 7 * 24 * 60, // 1 week
+    // Without a configured secret tokens only work on the instance that issued them
+    pageTokenSecret: process.env.MATCH_PAGE_TOKEN_SECRET || randomBytes(32).toString('hex'),
+    pageTokenTtlMinutes: 60,
+    algorithmVersion: 'v1',
+    collaborativeCandidates: 50,
+    collaborativeMix: 0.3
   };
 
-  private constructor() {
+  private constructor(
+    candidateSource?: CandidateSource,
+    stateStore?: MatchingStateStore,
+    algorithms?: MatchingAlgorithmRepository
+  ) {
     this.locationService = LocationService.getInstance();
     this.preferenceFilteringService = new PreferenceFilteringService();
+    this.candidateSource = candidateSource || new ProfileCandidateSource();
+    this.stateStore = stateStore || new InMemoryMatchingStateStore();
+    this.algorithms = algorithms || new InMemoryMatchingAlgorithmRepository();
   }
 
-  public static getInstance(): MatchingService {
+  public static getInstance(
+    candidateSource?: CandidateSource,
+    stateStore?: MatchingStateStore,
+    algorithms?: MatchingAlgorithmRepository
+  ): MatchingService {
     if (!MatchingService.instance) {
-      MatchingService.instance = new MatchingService();
+      MatchingService.instance = new MatchingService(candidateSource, stateStore, algorithms);
+    } else {
+      if (candidateSource) MatchingService.instance.setCandidateSource(candidateSource);
+      if (stateStore) MatchingService.instance.setStateStore(stateStore);
+      if (algorithms) MatchingService.instance.setAlgorithmRepository(algorithms);
     }
     return MatchingService.instance;
   }
 
+  /**
+   * Swap the source that supplies candidate profiles
+   */
+  setCandidateSource(candidateSource: CandidateSource): void {
+    this.candidateSource = candidateSource;
+  }
+
+  /**
+   * Swap where match queues and cooldowns are kept (e.g. Postgres in production, in-memory in tests)
+   */
+  setStateStore(stateStore: MatchingStateStore): void {
+    this.stateStore = stateStore;
+  }
+
+  /**
+   * Swap where algorithm versions are loaded from
+   */
+  setAlgorithmRepository(algorithms: MatchingAlgorithmRepository): void {
+    this.algorithms = algorithms;
+    this.loadedAlgorithms.clear();
+  }
+
+  /**
+   * Suggest extra candidates from other users' likes when the algorithm has
+   * features.enableCollaborativeFiltering on. Pass undefined to stop.
+   */
+  setCollaborativeSource(collaborativeSource?: CollaborativeCandidateSource): void {
+    this.collaborativeSource = collaborativeSource;
+  }
+
+  /**
+   * Balance exposure across profiles: discount over-shown profiles, reserve
+   * page slots for new and boosted ones and log impressions. Pass undefined to stop.
+   */
+  setExposureControl(exposureControl?: ExposureController): void {
+    this.exposureControl = exposureControl;
+  }
+
+  // ===== ALGORITHMS =====
+
+  /**
+   * Load an algorithm version, or the active one (config.algorithmVersion)
+   * when none is given. Throws UnknownAlgorithmVersionError if it isn't stored.
+   */
+  async loadAlgorithm(version: string = this.config.algorithmVersion): Promise<MatchingAlgorithmConfig> {
+    const loaded = this.loadedAlgorithms.get(version);
+    if (loaded) return loaded;
+
+    const config = await this.algorithms.getAlgorithm(version);
+    if (!config) {
+      throw new UnknownAlgorithmVersionError(version);
+    }
+    validateMatchingAlgorithm(config);
+
+    this.loadedAlgorithms.set(version, config);
+    return config;
+  }
+
+  /**
+   * Store a new algorithm version alongside the existing ones. Switching to it
+   * is a separate step (updateConfig({ algorithmVersion })), so it can be tried
+   * on some searches first via MatchingCriteria.algorithmVersion.
+   */
+  async registerAlgorithm(config: MatchingAlgorithmConfig): Promise<void> {
+    validateMatchingAlgorithm(config);
+    await this.algorithms.saveAlgorithm(config);
+  }
+
+  async listAlgorithms(): Promise<MatchingAlgorithmConfig[]> {
+    return this.algorithms.listAlgorithms();
+  }
+
+  /**
+   * Let something else (e.g. ExperimentService) pick versions per user.
+   * Pass undefined to go back to the active version for everyone.
+   */
+  setAlgorithmAssigner(assigner?: AlgorithmAssigner): void {
+    this.algorithmAssigner = assigner;
+  }
+
+  /**
+   * The version named in the criteria, else the user's assigned one, else the active one
+   */
+  private async resolveAlgorithm(userId: string, requestedVersion?: string): Promise<MatchingAlgorithmConfig> {
+    if (requestedVersion || !this.algorithmAssigner) {
+      return this.loadAlgorithm(requestedVersion);
+    }
+
+    let assigned: string | null = null;
+    try {
+      assigned = await this.algorithmAssigner.assignAlgorithm(userId);
+    } catch (error) {
+      // Searches carry on with the active version if assignment is unavailable
+      console.error(`Failed to assign an algorithm to ${userId}:`, error);
+    }
+    return this.loadAlgorithm(assigned || undefined);
+  }
+
+  /**
+   * Tell the assigner and exposure control which matches the user was shown
+   */
+  private async recordExposure(userId: string, matches: MatchResult[]): Promise<void> {
+    if (matches.length === 0) return;
+
+    if (this.algorithmAssigner) {
+      try {
+        await this.algorithmAssigner.recordExposure(userId, matches[0].algorithmVersion, matches);
+      } catch (error) {
+        console.error(`Failed to record the algorithm exposure for ${userId}:`, error);
+      }
+    }
+
+    if (this.exposureControl) {
+      try {
+        await this.exposureControl.recordImpressions(userId, matches);
+      } catch (error) {
+        console.error(`Failed to record impressions for ${userId}:`, error);
+      }
+    }
+  }
+
   /**
    * Find potential matches for a user based on location and preferences
    */
@@ -108,50 +280,28 @@ export class MatchingService {
   ): Promise<MatchResult[]> {
     try {
       // Check if user is on cooldown
-      if (this.isUserOnCooldown(userId)) {
-        const cooldownEnd = this.userCooldowns.get(userId);
-        throw new Error(`User is on cooldown until ${cooldownEnd?.toISOString()}`);
-      }
+      await this.assertNotOnCooldown(userId);
 
-      // Validate criteria
-      this.validateMatchingCriteria(criteria);
+      // Pin the version so candidates are gathered and scored by the same algorithm
+      const algorithm = await this.resolveAlgorithm(userId, criteria.algorithmVersion);
+      const candidates = await this.addCollaborativeCandidates(userId, algorithm, availableUsers, userLocations);
 
-      // Get user's current location
-      const userLocation = await this.getUserLocation(userId, userLocations);
-      if (!userLocation) {
-        throw new Error('User location not available');
-      }
-
-      // Filter candidates by basic criteria
-      const candidates = this.filterCandidates(
+      const ranked = await this.rankCandidates(
         userId,
         userProfile,
-        criteria,
-        availableUsers,
-        userLocations
-      );
-
-      console.log(`Found ${candidates.length} potential candidates`);
-
-      // Calculate match scores and distances
-      const scoredMatches = await this.scoreMatches(
-        userProfile,
-        userLocation,
-        candidates,
-        criteria
+        { ...criteria, algorithmVersion: algorithm.version },
+        candidates.availableUsers,
+        candidates.userLocations,
+        criteria.sort.seed || `${userId}_${Date.now()}`
       );
-
-      // Sort by score (descending)
-      const sortedMatches = scoredMatches.sort((a, b) => b.score - a.score);
-
-      // Limit results
-      const limitedMatches = sortedMatches.slice(0, this.config.maxResults);
+      const limitedMatches = (await this.arrangePage(ranked, this.config.maxResults)).page.map(({ match }) => match);
 
       // Set cooldown
-      this.setCooldown(userId);
+      await this.setCooldown(userId);
 
       // Add to match queue
-      this.addToMatchQueue(userId, limitedMatches);
+      await this.addToMatchQueue(userId, limitedMatches);
+      await this.recordExposure(userId, limitedMatches);
 
       console.log(`Returning ${limitedMatches.length} matches for user ${userId}`);
       return limitedMatches;
@@ -162,6 +312,204 @@ export class MatchingService {
     }
   }
 
+  /**
+   * Return one page of a discovery session. The first page counts against the
+   * search cooldown and starts the user's queue; later pages continue from the
+   * request's page token and are added to the queue. Tokens are rejected with
+   * InvalidPageTokenError once the criteria or the algorithm version they
+   * resolve to change, or the session expires.
+   */
+  async discoverMatches(
+    userId: string,
+    userProfile: UserProfile,
+    request: GetMatchesRequest,
+    availableUsers: UserProfile[],
+    userLocations: UserLocationData[]
+  ): Promise<MatchDiscovery> {
+    // Pin the version so a session isn't ranked by two algorithms
+    const algorithm = await this.resolveAlgorithm(userId, request.criteria.algorithmVersion);
+    const criteria: MatchingCriteria = { ...request.criteria, algorithmVersion: algorithm.version };
+    const now = new Date();
+    const criteriaHash = hashMatchingCriteria(criteria);
+    const pageToken = request.pagination?.pageToken;
+    const previous = pageToken
+      ? this.getPageTokens().verify(pageToken, { userId, criteriaHash, now })
+      : null;
+
+    if (!previous) {
+      await this.assertNotOnCooldown(userId);
+    }
+
+    const discoveryId = previous?.discoveryId || `discovery_${userId}_${now.getTime()}`;
+    const candidates = await this.addCollaborativeCandidates(userId, algorithm, availableUsers, userLocations);
+    const ranked = await this.rankCandidates(
+      userId,
+      userProfile,
+      criteria,
+      candidates.availableUsers,
+      candidates.userLocations,
+      criteria.sort.seed || discoveryId
+    );
+
+    // Scores can drift between requests, so also skip anyone already waiting in the queue
+    const queued = previous
+      ? new Set((await this.stateStore.getQueue(userId))?.pendingMatches.map(match => match.targetUserId))
+      : new Set<string>();
+    const remaining = ranked.filter(({ match, cursor }) =>
+      !queued.has(match.targetUserId)
+      && (!previous || compareDiscoveryRank(cursor, previous.cursor, criteria.sort.direction) > 0)
+    );
+
+    const pageSize = Math.min(request.pagination?.limit || this.config.maxResults, this.config.maxResults);
+    const { page, continueAfter } = await this.arrangePage(remaining, pageSize);
+    const matches = page.map(({ match }) => match);
+    const hasMoreMatches = remaining.length > page.length;
+
+    if (previous) {
+      await this.appendToMatchQueue(userId, matches);
+    } else {
+      await this.setCooldown(userId);
+      await this.addToMatchQueue(userId, matches);
+    }
+    await this.recordExposure(userId, matches);
+
+    return {
+      discoveryId,
+      userId,
+      totalMatches: ranked.length,
+      matchesReturned: matches.length,
+      matches,
+      hasMoreMatches,
+      nextPageToken: hasMoreMatches
+        ? this.getPageTokens().sign({
+          discoveryId,
+          userId,
+          criteriaHash,
+          cursor: (continueAfter || page[page.length - 1]).cursor,
+          issuedAt: now.getTime()
+        })
+        : undefined,
+      refreshedAt: now,
+      locationUsed: (await this.getUserLocation(userId, candidates.userLocations))!,
+      criteriaUsed: criteria
+    };
+  }
+
+  private getPageTokens(): DiscoveryPageTokens {
+    return new DiscoveryPageTokens(this.config.pageTokenSecret, this.config.pageTokenTtlMinutes);
+  }
+
+  /**
+   * Filter, score and rank candidates without touching cooldowns or queues.
+   * `seed` fixes the order for the 'random' sort.
+   */
+  private async rankCandidates(
+    userId: string,
+    userProfile: UserProfile,
+    criteria: MatchingCriteria,
+    availableUsers: UserProfile[],
+    userLocations: UserLocationData[],
+    seed: string = userId
+  ): Promise<RankedMatch[]> {
+    // Validate criteria
+    this.validateMatchingCriteria(criteria);
+    const algorithm = await this.resolveAlgorithm(userId, criteria.algorithmVersion);
+
+    // Get user's current location
+    const userLocation = await this.getUserLocation(userId, userLocations);
+    if (!userLocation) {
+      throw new Error('User location not available');
+    }
+
+    // Filter candidates by basic criteria
+    const candidates = this.filterCandidates(
+      userId,
+      userProfile,
+      criteria,
+      availableUsers,
+      userLocations
+    );
+
+    console.log(`Found ${candidates.length} potential candidates`);
+
+    // Calculate match scores and distances
+    const scoredMatches = await this.scoreMatches(
+      userProfile,
+      userLocation,
+      candidates,
+      criteria,
+      algorithm
+    );
+
+    const collaborativeScores = await this.getCollaborativeScores(userId, algorithm, scoredMatches);
+    if (collaborativeScores) {
+      scoredMatches.forEach(match => {
+        const collaborativeScore = collaborativeScores.get(match.targetUserId) || 0;
+        match.matchFactors.collaborativeScore = Math.round(collaborativeScore * 100) / 100;
+      });
+    }
+
+    const exposureMultipliers = await this.getExposureMultipliers(userId, scoredMatches);
+    if (exposureMultipliers) {
+      scoredMatches.forEach(match => {
+        const multiplier = exposureMultipliers.get(match.targetUserId) ?? 1;
+        match.matchFactors.exposureMultiplier = Math.round(multiplier * 100) / 100;
+      });
+    }
+
+    // Sort by the requested field, with a fixed order for ties so pages are stable
+    const profiles = new Map(candidates.map(({ profile }) => [profile.userId, profile]));
+    return scoredMatches
+      .map(match => {
+        const profile = profiles.get(match.targetUserId)!;
+        return {
+          match,
+          profile,
+          cursor: toDiscoveryCursor(match, this.getSortKey(criteria.sort.by, match, profile, seed))
+        };
+      })
+      .sort((a, b) => compareDiscoveryRank(a.cursor, b.cursor, criteria.sort.direction));
+  }
+
+  /**
+   * The value a match is ordered by for the given sort field. Compatibility
+   * ranks on `compatibilityScore`, the basic score unless given another.
+   */
+  private getSortKey(
+    sortBy: MatchingCriteria['sort']['by'],
+    match: MatchResult,
+    candidate: UserProfile,
+    seed: string,
+    compatibilityScore: number = match.score
+  ): number {
+    switch (sortBy) {
+      case 'distance':
+        return match.distance;
+      case 'activity':
+        return candidate.lastActiveAt.getTime();
+      case 'verification':
+        return candidate.verification.isVerified ? 1 + candidate.verification.verificationScore : 0;
+      case 'random':
+        // Hashing each user with the seed shuffles reproducibly, and keeps the
+        // order stable when candidates join or leave between pages
+        return parseInt(createHash('sha256').update(`${seed}:${candidate.userId}`).digest('hex').slice(0, 12), 16);
+      case 'compatibility':
+      default:
+        return this.getRankingScore(compatibilityScore, match.matchFactors);
+    }
+  }
+
+  /**
+   * A compatibility score blended with the collaborative score, when there is
+   * one, and scaled by the exposure multiplier
+   */
+  private getRankingScore(score: number, matchFactors: MatchResult['matchFactors']): number {
+    const { collaborativeScore, exposureMultiplier = 1 } = matchFactors;
+    const mix = this.config.collaborativeMix;
+    const blended = collaborativeScore === undefined ? score : (1 - mix) * score + mix * collaborativeScore;
+    return blended * exposureMultiplier;
+  }
+
   /**
    * Get a user's current location
    */
@@ -194,14 +542,21 @@ export class MatchingService {
     availableUsers: UserProfile[],
     userLocations: UserLocationData[]
   ): Array<{ profile: UserProfile; locationData: UserLocationData }> {
+    const filters = criteria.filters || {};
+    const excluded = new Set(filters.excludeUserIds || []);
+
     return availableUsers
       .filter(candidate => {
-        // Exclude self
+        // Exclude self and anyone the caller has ruled out
         if (candidate.userId === userId) return false;
+        if (excluded.has(candidate.userId)) return false;
 
         // Check profile visibility
         if (!candidate.visibility.isVisible) return false;
 
+        // Banned users never appear in discovery
+        if (isBanActive(candidate.safety)) return false;
+
         // Find location data
         const locationData = userLocations.find(ul => ul.userId === candidate.userId);
         if (!locationData) return false;
@@ -221,12 +576,23 @@ export class MatchingService {
           }
         }
 
+        // Matches go both ways, so the user can't trip the candidate's own deal breakers
+        if (!this.preferenceFilteringService.passesCandidateDealBreakers(userProfile, candidate)) return false;
+
         // Online status filter (if available)
-        if (criteria.filters?.lastActiveWithin) {
-          const hoursAgo = new Date(Date.now() - criteria.filters.lastActiveWithin * 60 * 60 * 1000);
+        if (filters.lastActiveWithin) {
+          const hoursAgo = new Date(Date.now() - filters.lastActiveWithin * 60 * 60 * 1000);
           if (candidate.lastActiveAt < hoursAgo) return false;
         }
 
+        if (filters.isVerified && !candidate.verification.isVerified) return false;
+        if (filters.includePremiumOnly && !candidate.premium.isActive) return false;
+
+        // Only photos that passed moderation are shown, so only they count
+        const photoCount = candidate.photos.filter(photo => photo.moderationStatus === 'approved').length;
+        if (filters.hasPhotos && photoCount === 0) return false;
+        if (filters.minimumPhotoCount && photoCount < filters.minimumPhotoCount) return false;
+
         return true;
       })
       .map(profile => ({
@@ -242,9 +608,12 @@ export class MatchingService {
     userProfile: UserProfile,
     userLocation: GeoLocation,
     candidates: Array<{ profile: UserProfile; locationData: UserLocationData }>,
-    criteria: MatchingCriteria
+    criteria: MatchingCriteria,
+    algorithm: MatchingAlgorithmConfig
   ): Promise<MatchResult[]> {
     const matches: MatchResult[] = [];
+    const maxDistance = Math.min(criteria.preferences.maxDistance, algorithm.thresholds.maxDistance);
+    const activeSince = new Date(Date.now() - algorithm.thresholds.maxInactivity * DAY_MS);
 
     for (const candidate of candidates) {
       try {
@@ -255,17 +624,25 @@ export class MatchingService {
         );
 
         // Skip if outside radius
-        if (this.config.enableLocationFiltering && 
-            distanceData.distance > criteria.preferences.maxDistance) {
+        if (this.config.enableLocationFiltering && distanceData.distance > maxDistance) {
+          continue;
+        }
+
+        // The algorithm decides how long someone can be away and still be shown
+        if (candidate.profile.lastActiveAt < activeSince) {
           continue;
         }
 
         // Calculate compatibility score
-        const score = this.calculateCompatibilityScore(
+        const { score, locationScore, photoScore, penalty } = this.calculateCompatibilityScore(
+          algorithm,
           userProfile,
           candidate.profile,
           distanceData
         );
+        if (score < algorithm.thresholds.minimumScore) {
+          continue;
+        }
 
         // Create match result
         const matchResult: MatchResult = {
@@ -279,13 +656,16 @@ export class MatchingService {
           expiresAt: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days
           status: 'pending',
           isNewMatch: true,
+          algorithmVersion: algorithm.version,
           matchFactors: {
-            locationScore: this.calculateDistanceScore(distanceData.distance, criteria.preferences.maxDistance),
+            locationScore,
             ageCompatibility: this.calculateAgeCompatibility(userProfile, candidate.profile),
             preferenceAlignment: this.calculatePreferenceAlignment(userProfile, candidate.profile),
             activityScore: this.calculateActivityScore(candidate.profile),
-            verificationBonus: candidate.profile.verification.isVerified ? 0.1 : 0,
-            premiumBonus: candidate.profile.premium.isActive ? 0.05 : 0
+            verificationBonus: candidate.profile.verification.isVerified ? algorithm.weights.verification : 0,
+            premiumBonus: candidate.profile.premium.isActive ? algorithm.weights.premium : 0,
+            photoScore,
+            penalty
           }
         };
 
@@ -301,37 +681,70 @@ export class MatchingService {
   }
 
   /**
-   * Calculate overall compatibility score
+   * Calculate overall compatibility score with the given algorithm: weighted
+   * factors plus the verification and premium bonuses, less any penalties
    */
   private calculateCompatibilityScore(
+    algorithm: MatchingAlgorithmConfig,
     userProfile: UserProfile,
     candidateProfile: UserProfile,
     distanceData: DistanceCalculation
-  ): number {
+  ): { score: number; locationScore: number; photoScore: number; penalty: number } {
+    const { weights, penalties, thresholds } = algorithm;
     let totalScore = 0;
 
     // Distance score (closer is better)
-    const distanceScore = this.calculateDistanceScore(distanceData.distance, 50); // max 50km
-    totalScore += distanceScore * this.weights.distance;
+    const distanceScore = this.calculateDistanceScore(distanceData.distance, thresholds.maxDistance);
+    totalScore += distanceScore * weights.distance;
 
     // Age compatibility
     const ageScore = this.calculateAgeCompatibility(userProfile, candidateProfile);
-    totalScore += ageScore * this.weights.age;
-
-    // Preference alignment
-    const preferenceScore = this.calculatePreferenceAlignment(userProfile, candidateProfile);
-    totalScore += preferenceScore * this.weights.commonInterests;
+    totalScore += ageScore * weights.age;
+
+    // Preference alignment, from the learned model when the algorithm has one.
+    // The model predicts one side, so score both and combine them.
+    const model = algorithm.features.enableMachineLearning ? algorithm.compatibilityModel : undefined;
+    const preferenceScore = model
+      ? this.preferenceFilteringService.calculateReciprocalScore(
+          predictCompatibility(model, this.preferenceFilteringService.calculateCategoryScores(userProfile, candidateProfile)),
+          predictCompatibility(model, this.preferenceFilteringService.calculateCategoryScores(candidateProfile, userProfile))
+        )
+      : this.calculatePreferenceAlignment(userProfile, candidateProfile);
+    totalScore += preferenceScore * weights.preferences;
 
     // Activity level
     const activityScore = this.calculateActivityScore(candidateProfile);
-    totalScore += activityScore * this.weights.activityLevel;
+    totalScore += activityScore * weights.activity;
 
     // Profile completeness
     const completenessScore = candidateProfile.completion.overallPercentage / 100;
-    totalScore += completenessScore * this.weights.profileCompleteness;
-
-    // Normalize to 0-1 range
-    return Math.round(totalScore * 100) / 100;
+    totalScore += completenessScore * weights.completeness;
+
+    // Photos that passed moderation
+    const photoCount = candidateProfile.photos.filter(photo => photo.moderationStatus === 'approved').length;
+    const photoScore = Math.min(photoCount / IDEAL_PHOTO_COUNT, 1);
+    totalScore += photoScore * weights.photos;
+
+    // Bonuses
+    if (candidateProfile.verification.isVerified) totalScore += weights.verification;
+    if (candidateProfile.premium.isActive) totalScore += weights.premium;
+
+    // Penalties; inactivity grows until the profile drops out at maxInactivity
+    let penalty = 0;
+    if (candidateProfile.completion.missingFields.length > 0) penalty += penalties.incompleteProfile;
+    if (photoCount === 0) penalty += penalties.noPhotos;
+    if (!candidateProfile.verification.isVerified) penalty += penalties.unverified;
+    const daysInactive = Math.max(0, Date.now() - candidateProfile.lastActiveAt.getTime()) / DAY_MS;
+    penalty += penalties.inactive * Math.min(daysInactive / thresholds.maxInactivity, 1);
+
+    // Clamp to 0-1 range
+    const score = Math.min(Math.max(totalScore - penalty, 0), 1);
+    return {
+      score: Math.round(score * 100) / 100,
+      locationScore: distanceScore,
+      photoScore,
+      penalty: Math.round(penalty * 100) / 100
+    };
   }
 
   /**
@@ -425,76 +838,203 @@ export class MatchingService {
   }
 
   /**
-   * Check if user is on cooldown
+   * Throw if the user searched too recently
    */
-  private isUserOnCooldown(userId: string): boolean {
-    const cooldownEnd = this.userCooldowns.get(userId);
-    if (!cooldownEnd) return false;
-    
-    return new Date() < cooldownEnd;
+  private async assertNotOnCooldown(userId: string): Promise<void> {
+    const cooldownEnd = await this.stateStore.getCooldown(userId);
+    if (cooldownEnd && new Date() < cooldownEnd) {
+      throw new Error(`User is on cooldown until ${cooldownEnd.toISOString()}`);
+    }
   }
 
   /**
    * Set cooldown for user
    */
-  private setCooldown(userId: string): void {
+  private async setCooldown(userId: string): Promise<void> {
     const cooldownEnd = new Date(Date.now() + this.config.cooldownPeriod * 60 * 1000);
-    this.userCooldowns.set(userId, cooldownEnd);
+    await this.stateStore.setCooldown(userId, cooldownEnd);
   }
 
   /**
    * Add matches to user's match queue
    */
-  private addToMatchQueue(userId: string, matches: MatchResult[]): void {
+  private async addToMatchQueue(
+    userId: string,
+    matches: MatchResult[],
+    generatedAt: Date = new Date(),
+    refreshInterval: number = 60 // minutes
+  ): Promise<MatchQueue> {
     const queue: MatchQueue = {
-      queueId: `queue_${userId}_${Date.now()}`,
+      queueId: `queue_${userId}_${generatedAt.getTime()}`,
       userId,
       pendingMatches: matches,
       processedCount: 0,
       totalCount: matches.length,
-      lastProcessedAt: new Date(),
+      lastProcessedAt: generatedAt,
+      generatedAt,
       queueStatus: 'active',
-      refreshInterval: 60 // 60 minutes
+      refreshInterval
     };
 
-    this.matchQueue.set(userId, queue);
+    await this.saveQueue(queue);
+    return queue;
+  }
+
+  /**
+   * Add the next page of a discovery session to the user's queue
+   */
+  private async appendToMatchQueue(userId: string, matches: MatchResult[]): Promise<void> {
+    const queue = await this.stateStore.getQueue(userId);
+    if (!queue) {
+      await this.addToMatchQueue(userId, matches);
+      return;
+    }
+
+    queue.pendingMatches = [...queue.pendingMatches, ...matches];
+    queue.totalCount += matches.length;
+    if (queue.pendingMatches.length > 0) {
+      queue.queueStatus = 'active';
+    }
+    await this.saveQueue(queue);
+  }
+
+  /**
+   * Store the queue, extending its time to live
+   */
+  private async saveQueue(queue: MatchQueue): Promise<void> {
+    const expiresAt = new Date(Date.now() + this.config.queueTtlMinutes * 60 * 1000);
+    await this.stateStore.saveQueue(queue, expiresAt);
   }
 
   /**
    * Get user's match queue
    */
-  getMatchQueue(userId: string): MatchQueue | null {
-    return this.matchQueue.get(userId) || null;
+  async getMatchQueue(userId: string): Promise<MatchQueue | null> {
+    return this.stateStore.getQueue(userId);
   }
 
   /**
-   * Update matching configuration
+   * Take a match out of the user's queue once they have swiped on it.
+   * Returns null if the match is not queued (e.g. liked from a profile view).
    */
-  updateConfig(newConfig: Partial<MatchingConfig>): void {
-    this.config = { ...this.config, ...newConfig };
+  async markMatchProcessed(userId: string, matchId: string, status: 'liked' | 'passed'): Promise<MatchResult | null> {
+    const queue = await this.stateStore.getQueue(userId);
+    if (!queue) return null;
+
+    const match = queue.pendingMatches.find(pending => pending.matchId === matchId);
+    if (!match) return null;
+
+    queue.pendingMatches = queue.pendingMatches.filter(pending => pending !== match);
+    queue.processedCount++;
+    queue.lastProcessedAt = new Date();
+    if (queue.pendingMatches.length === 0) {
+      queue.queueStatus = 'exhausted';
+    }
+    await this.saveQueue(queue);
+
+    return { ...match, status, isNewMatch: false };
   }
 
   /**
-   * Update algorithm weights
+   * Put a processed match back at the front of the user's queue (rewind)
    */
-  updateWeights(newWeights: Partial<MatchingAlgorithmWeights>): void {
-    this.weights = { ...this.weights, ...newWeights };
-    
-    // Normalize weights to sum to 1
-    const totalWeight = Object.values(this.weights).reduce((sum, weight) => sum + weight, 0);
-    if (totalWeight !== 1.0) {
-      Object.keys(this.weights).forEach(key => {
-        this.weights[key as keyof MatchingAlgorithmWeights] /= totalWeight;
-      });
+  async restoreMatch(userId: string, match: MatchResult): Promise<MatchQueue | null> {
+    const queue = await this.stateStore.getQueue(userId);
+    if (!queue) return null;
+
+    if (!queue.pendingMatches.some(pending => pending.matchId === match.matchId)) {
+      queue.pendingMatches = [{ ...match, status: 'pending' }, ...queue.pendingMatches];
+      queue.processedCount = Math.max(0, queue.processedCount - 1);
     }
+    queue.queueStatus = 'active';
+    queue.lastProcessedAt = new Date();
+    await this.saveQueue(queue);
+
+    return queue;
+  }
+
+  /**
+   * Every user's match queue, for background jobs
+   */
+  async getMatchQueues(): Promise<MatchQueue[]> {
+    return this.stateStore.listQueues();
+  }
+
+  /**
+   * Remove matches that expired at or before `now` from every queue.
+   * Returns the removed matches marked as expired.
+   */
+  async expireStaleMatches(now: Date = new Date()): Promise<MatchResult[]> {
+    const expired: MatchResult[] = [];
+
+    for (const queue of await this.stateStore.listQueues()) {
+      const stale = queue.pendingMatches.filter(match => match.expiresAt <= now);
+      if (stale.length === 0) continue;
+
+      queue.pendingMatches = queue.pendingMatches.filter(match => match.expiresAt > now);
+      if (queue.pendingMatches.length === 0) {
+        queue.queueStatus = 'exhausted';
+      }
+      await this.saveQueue(queue);
+      expired.push(...stale.map(match => ({ ...match, status: 'expired' as const, isNewMatch: false })));
+    }
+
+    return expired;
+  }
+
+  /**
+   * Record that the user was warned about these queued matches expiring, so
+   * later job runs don't warn them again
+   */
+  async markExpiryWarned(userId: string, matchIds: string[], warnedAt: Date = new Date()): Promise<void> {
+    const queue = await this.stateStore.getQueue(userId);
+    if (!queue) return;
+
+    const warned = new Set(matchIds);
+    const pending = queue.pendingMatches.filter(match => warned.has(match.matchId));
+    if (pending.length === 0) return;
+
+    pending.forEach(match => {
+      match.expiryWarnedAt = warnedAt;
+    });
+    await this.saveQueue(queue);
+  }
+
+  /**
+   * Rebuild the user's queue with their default criteria, leaving out users
+   * they have already swiped on. Unlike findAdvancedMatches this ignores the
+   * search cooldown, which only throttles searches the user starts.
+   */
+  async refreshMatchQueue(userId: string, excludeUserIds: string[] = [], now: Date = new Date()): Promise<MatchQueue> {
+    const userProfile = await this.getUserProfile(userId);
+    if (!userProfile) {
+      throw new MatchingValidationError(
+        [{ code: 'USER_NOT_FOUND', message: 'User profile not found' }]
+      );
+    }
+
+    const excluded = new Set(excludeUserIds);
+    const matches = (await this.runAdvancedMatching(userProfile, this.getDefaultAdvancedCriteria(userProfile)))
+      .filter(match => !excluded.has(match.targetUserId));
+
+    const previous = await this.stateStore.getQueue(userId);
+    const queue = await this.addToMatchQueue(userId, matches, now, previous?.refreshInterval);
+    await this.recordExposure(userId, matches);
+    return queue;
+  }
+
+  /**
+   * Update matching configuration
+   */
+  updateConfig(newConfig: Partial<MatchingConfig>): void {
+    this.config = { ...this.config, ...newConfig };
   }
 
   /**
    * Get matching analytics
    */
-  getAnalytics(userId: string): Partial<MatchAnalytics> {
-    const queue = this.matchQueue.get(userId);
-    const mutualMatches = this.mutualMatches.get(userId) || [];
+  async getAnalytics(userId: string): Promise<Partial<MatchAnalytics>> {
+    const queue = await this.stateStore.getQueue(userId);
 
     return {
       userId,
@@ -506,7 +1046,7 @@ export class MatchingService {
         likesReceived: 0,
         likesSent: 0,
         matches: queue?.totalCount || 0,
-        mutualMatches: mutualMatches.length,
+        mutualMatches: 0, // Stored by MutualMatchService
         superLikesReceived: 0,
         superLikesSent: 0,
         messagesFromMatches: 0
@@ -525,37 +1065,137 @@ export class MatchingService {
   /**
    * Clear user cooldown (admin function)
    */
-  clearCooldown(userId: string): void {
-    this.userCooldowns.delete(userId);
+  async clearCooldown(userId: string): Promise<void> {
+    await this.stateStore.clearCooldown(userId);
   }
 
   /**
    * Get all active cooldowns (admin function)
    */
-  getActiveCooldowns(): Map<string, Date> {
-    const now = new Date();
-    const activeCooldowns = new Map<string, Date>();
-    
-    this.userCooldowns.forEach((cooldownEnd, userId) => {
-      if (cooldownEnd > now) {
-        activeCooldowns.set(userId, cooldownEnd);
+  async getActiveCooldowns(): Promise<Map<string, Date>> {
+    return this.stateStore.listCooldowns();
+  }
+
+  // ===== COLLABORATIVE FILTERING =====
+
+  private usesCollaborativeFiltering(algorithm: MatchingAlgorithmConfig): boolean {
+    return !!this.collaborativeSource && algorithm.features.enableCollaborativeFiltering;
+  }
+
+  /**
+   * Profiles suggested for the user that aren't among the known ones. If the
+   * source fails the search carries on with the regular candidates.
+   */
+  private async getCollaborativeProfiles(
+    userId: string,
+    algorithm: MatchingAlgorithmConfig,
+    knownUserIds: Set<string>
+  ): Promise<UserProfile[]> {
+    if (!this.usesCollaborativeFiltering(algorithm)) return [];
+
+    try {
+      const suggestions = await this.collaborativeSource!.recommend(userId, this.config.collaborativeCandidates);
+      const profiles = await Promise.all(suggestions
+        .filter(suggestion => suggestion.userId !== userId && !knownUserIds.has(suggestion.userId))
+        .map(suggestion => this.candidateSource.getProfile(suggestion.userId)));
+      return profiles.filter((profile): profile is UserProfile => profile !== null);
+    } catch (error) {
+      console.error(`Failed to load collaborative candidates for ${userId}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Add collaborative suggestions to a search's candidates, located by their
+   * profiles. They are filtered and scored like every other candidate.
+   */
+  private async addCollaborativeCandidates(
+    userId: string,
+    algorithm: MatchingAlgorithmConfig,
+    availableUsers: UserProfile[],
+    userLocations: UserLocationData[]
+  ): Promise<{ availableUsers: UserProfile[]; userLocations: UserLocationData[] }> {
+    const suggested = await this.getCollaborativeProfiles(
+      userId,
+      algorithm,
+      new Set(availableUsers.map(user => user.userId))
+    );
+    const located = new Set(userLocations.map(data => data.userId));
+
+    return {
+      availableUsers: [...availableUsers, ...suggested],
+      userLocations: [
+        ...userLocations,
+        ...suggested
+          .filter(profile => !located.has(profile.userId))
+          .map(profile => this.getProfileLocationData(profile))
+          .filter((data): data is UserLocationData => data !== null)
+      ]
+    };
+  }
+
+  private async getCollaborativeScores(
+    userId: string,
+    algorithm: MatchingAlgorithmConfig,
+    matches: MatchResult[]
+  ): Promise<Map<string, number> | undefined> {
+    if (!this.usesCollaborativeFiltering(algorithm) || matches.length === 0) return undefined;
+
+    try {
+      return await this.collaborativeSource!.scoreCandidates(userId, matches.map(match => match.targetUserId));
+    } catch (error) {
+      console.error(`Failed to score collaborative candidates for ${userId}:`, error);
+      return undefined;
+    }
+  }
+
+  // ===== EXPOSURE CONTROL =====
+
+  private async getExposureMultipliers(
+    userId: string,
+    matches: MatchResult[]
+  ): Promise<Map<string, number> | undefined> {
+    if (!this.exposureControl || matches.length === 0) return undefined;
+
+    try {
+      return await this.exposureControl.getExposureMultipliers(matches.map(match => match.targetUserId));
+    } catch (error) {
+      console.error(`Failed to load exposure for ${userId}'s candidates:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * One page of ranked matches, laid out by exposure control when there is one.
+   * Falls back to the top of the ranking if it fails.
+   */
+  private async arrangePage<T extends ExposureCandidate>(ranked: T[], pageSize: number): Promise<ExposurePage<T>> {
+    if (this.exposureControl) {
+      try {
+        return await this.exposureControl.arrangePage(ranked, pageSize);
+      } catch (error) {
+        console.error('Failed to arrange the page for exposure:', error);
       }
-    });
-    
-    return activeCooldowns;
+    }
+
+    const page = ranked.slice(0, pageSize);
+    return { page, continueAfter: page[page.length - 1] };
   }
 
   // ===== EPIC 003 STORY 002: PREFERENCE-BASED FILTERING METHODS =====
 
   /**
    * Find matches using advanced preference-based filtering
-   * Enhances basic location matching with sophisticated preference analysis
+   * Enhances basic location matching with sophisticated preference analysis.
+   * Candidates are streamed from the candidate source unless supplied directly.
    */
   async findAdvancedMatches(
     criteria: AdvancedMatchingCriteria,
-    availableUsers: UserProfile[]
+    availableUsers?: UserProfile[]
   ): Promise<PreferenceMatchResult[]> {
     try {
+      await this.assertNotOnCooldown(criteria.userId);
+
       // Get user profile for preference analysis
       const userProfile = await this.getUserProfile(criteria.userId);
       if (!userProfile) {
@@ -564,133 +1204,212 @@ export class MatchingService {
         );
       }
 
-      // Phase 1: Basic location and demographic filtering (from Story 001)
-      const basicCriteria: MatchingCriteria = {
+      const limitedResults = await this.runAdvancedMatching(userProfile, criteria, availableUsers);
+
+      await this.setCooldown(criteria.userId);
+      await this.addToMatchQueue(criteria.userId, limitedResults);
+      await this.recordExposure(criteria.userId, limitedResults);
+
+      console.log(`Advanced matching completed: ${limitedResults.length} high-quality matches found`);
+      return limitedResults;
+
+    } catch (error) {
+      console.error('Advanced matching error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Score candidates page by page and return the best preference matches
+   */
+  private async runAdvancedMatching(
+    userProfile: UserProfile,
+    requestedCriteria: AdvancedMatchingCriteria,
+    availableUsers?: UserProfile[]
+  ): Promise<PreferenceMatchResult[]> {
+    const preferenceMatches: PreferenceMatchResult[] = [];
+
+    // Resolve the version once so every candidate page is scored the same way
+    const algorithm = await this.resolveAlgorithm(requestedCriteria.userId, requestedCriteria.algorithmVersion);
+    const criteria: AdvancedMatchingCriteria = { ...requestedCriteria, algorithmVersion: algorithm.version };
+
+    const scannedProfiles = new Map<string, UserProfile>();
+    if (availableUsers) {
+      availableUsers.forEach(user => scannedProfiles.set(user.userId, user));
+      preferenceMatches.push(...await this.scoreAdvancedCandidates(userProfile, criteria, availableUsers));
+    } else {
+      let cursor: string | undefined;
+      let scanned = 0;
+
+      do {
+        const page = await this.candidateSource.getCandidates({
+          userId: criteria.userId,
+          limit: Math.min(this.config.candidatePageSize, this.config.maxCandidatesScanned - scanned),
+          cursor,
+          criteria
+        });
+
+        scanned += page.candidates.length;
+        cursor = page.nextCursor;
+        page.candidates.forEach(candidate => scannedProfiles.set(candidate.userId, candidate));
+
+        preferenceMatches.push(...await this.scoreAdvancedCandidates(userProfile, criteria, page.candidates));
+      } while (cursor && scanned < this.config.maxCandidatesScanned);
+    }
+
+    // Collaborative suggestions the scan didn't reach go through the same phases
+    const suggested = await this.getCollaborativeProfiles(criteria.userId, algorithm, new Set(scannedProfiles.keys()));
+    if (suggested.length > 0) {
+      suggested.forEach(profile => scannedProfiles.set(profile.userId, profile));
+      preferenceMatches.push(...await this.scoreAdvancedCandidates(userProfile, criteria, suggested));
+    }
+
+    // Phase 4: Sort by the requested field like findMatches, with compatibility
+    // meaning the advanced (two-sided) score
+    const seed = criteria.sort.seed || criteria.userId;
+    const ranked = preferenceMatches
+      .map(match => {
+        const profile = scannedProfiles.get(match.targetUserId)!;
+        const sortKey = this.getSortKey(criteria.sort.by, match, profile, seed, match.compatibilityScore);
+        return { match, profile, cursor: toDiscoveryCursor(match, sortKey) };
+      })
+      .sort((a, b) => compareDiscoveryRank(a.cursor, b.cursor, criteria.sort.direction));
+
+    // Phase 5: Limit results
+    const { page } = await this.arrangePage(ranked, this.config.maxResults);
+    return page.map(({ match }) => match);
+  }
+
+  /**
+   * Run location, deal breaker and preference phases over one batch of candidates
+   */
+  private async scoreAdvancedCandidates(
+    userProfile: UserProfile,
+    criteria: AdvancedMatchingCriteria,
+    availableUsers: UserProfile[]
+  ): Promise<PreferenceMatchResult[]> {
+    if (availableUsers.length === 0) {
+      return [];
+    }
+
+    // Phase 1: Basic location and demographic filtering (from Story 001)
+    const basicCriteria: MatchingCriteria = {
+      userId: criteria.userId,
+      location: criteria.location,
+      preferences: criteria.preferences,
+      filters: criteria.filters,
+      sort: criteria.sort,
+      algorithmVersion: criteria.algorithmVersion
+    };
+
+    // Searching user is located by the criteria, candidates by their stored profile location
+    const userLocations: UserLocationData[] = [
+      {
         userId: criteria.userId,
-        location: criteria.location,
-        preferences: criteria.preferences,
-        filters: criteria.filters,
-        sort: criteria.sort
-      };
-      
-      // Get user locations for basic matching (simplified for demo)
-      const userLocations: UserLocationData[] = availableUsers.map(user => ({
-        userId: user.userId,
         location: {
-          latitude: 51.5074 + (Math.random() - 0.5) * 0.1, // London area
-          longitude: -0.1278 + (Math.random() - 0.5) * 0.1,
-          timestamp: new Date(),
-          accuracy: 10
+          latitude: criteria.location.latitude,
+          longitude: criteria.location.longitude,
+          timestamp: new Date()
         },
         lastSeen: new Date(),
-        accuracy: 10,
+        accuracy: 0,
         isOnline: true
-      }));
-      
-      const basicMatches = await this.findMatches(
-        criteria.userId,
-        userProfile,
-        basicCriteria,
-        availableUsers,
-        userLocations
-      );
-
-      // Phase 2: Apply deal breaker filters (hard elimination)
-      let candidateProfiles = basicMatches.map(match => 
-        availableUsers.find(user => user.userId === match.targetUserId)!
-      );
-
-      candidateProfiles = this.preferenceFilteringService.applyDealBreakerFilters(
-        userProfile,
-        candidateProfiles,
-        criteria.dealBreakers
-      );
+      },
+      ...availableUsers
+        .map(user => this.getProfileLocationData(user))
+        .filter((data): data is UserLocationData => data !== null)
+    ];
 
-      // Phase 3: Advanced preference scoring and filtering
-      const preferenceMatches: PreferenceMatchResult[] = [];
+    const basicMatches = (await this.rankCandidates(
+      criteria.userId,
+      userProfile,
+      basicCriteria,
+      availableUsers,
+      userLocations
+    )).map(({ match }) => match);
+
+    // Phase 2: Apply deal breaker filters (hard elimination)
+    let candidateProfiles = basicMatches.map(match => 
+      availableUsers.find(user => user.userId === match.targetUserId)!
+    );
 
-      for (const candidate of candidateProfiles) {
-        // Calculate comprehensive preference alignment
-        const preferenceAlignment = this.preferenceFilteringService.analyzePreferenceMatch(
-          userProfile,
-          candidate,
-          criteria
-        );
+    candidateProfiles = this.preferenceFilteringService.applyDealBreakerFilters(
+      userProfile,
+      candidateProfiles,
+      criteria.dealBreakers
+    );
 
-        // Apply minimum threshold filters
-        if (!this.meetsMinimumThresholds(preferenceAlignment, criteria.minimumThresholds)) {
-          continue;
-        }
+    // Phase 3: Advanced preference scoring and filtering
+    const preferenceMatches: PreferenceMatchResult[] = [];
 
-        // Find the original basic match for location data
-        const basicMatch = basicMatches.find(match => match.targetUserId === candidate.userId);
-        if (!basicMatch) continue;
-
-        // Create enhanced match result
-        const preferenceMatch: PreferenceMatchResult = {
-          ...basicMatch,
-          compatibilityScore: preferenceAlignment.totalScore,
-          categoryScores: {
-            physical: preferenceAlignment.categoryAlignments.physical.score,
-            lifestyle: preferenceAlignment.categoryAlignments.lifestyle.score,
-            social: preferenceAlignment.categoryAlignments.social.score,
-            relationship: preferenceAlignment.categoryAlignments.relationship.score
-          },
-          preferenceAlignment: {
-            matches: [
-              ...preferenceAlignment.matchedPreferences.physical,
-              ...preferenceAlignment.matchedPreferences.lifestyle,
-              ...preferenceAlignment.matchedPreferences.social,
-              ...preferenceAlignment.matchedPreferences.relationship
-            ],
-            mismatches: [
-              ...preferenceAlignment.mismatchedPreferences.physical,
-              ...preferenceAlignment.mismatchedPreferences.lifestyle,
-              ...preferenceAlignment.mismatchedPreferences.social,
-              ...preferenceAlignment.mismatchedPreferences.relationship
-            ],
-            dealBreakersPassed: preferenceAlignment.dealBreakerAnalysis.passed,
-            mustHavesSatisfied: preferenceAlignment.mustHaveAnalysis.satisfiedMustHaves,
-            niceToHavesMatched: preferenceAlignment.niceToHaveAnalysis.matchedNiceToHaves
-          },
-          matchExplanation: this.generateMatchExplanation(userProfile, candidate, preferenceAlignment),
-          improvementSuggestions: this.generateImprovementSuggestions(userProfile, preferenceAlignment)
-        };
+    for (const candidate of candidateProfiles) {
+      // Calculate comprehensive preference alignment
+      const preferenceAlignment = this.preferenceFilteringService.analyzePreferenceMatch(
+        userProfile,
+        candidate,
+        criteria
+      );
 
-        preferenceMatches.push(preferenceMatch);
+      // Apply minimum threshold filters
+      if (!this.meetsMinimumThresholds(preferenceAlignment, criteria.minimumThresholds)) {
+        continue;
       }
 
-      // Phase 4: Sort by advanced compatibility score
-      preferenceMatches.sort((a, b) => {
-        if (criteria.sort.by === 'compatibility') {
-          return criteria.sort.direction === 'desc' 
-            ? b.compatibilityScore - a.compatibilityScore
-            : a.compatibilityScore - b.compatibilityScore;
-        }
-        return b.score - a.score; // Fall back to basic score
-      });
-
-      // Phase 5: Limit results
-      const limitedResults = preferenceMatches.slice(0, this.config.maxResults);
-
-      console.log(`Advanced matching completed: ${limitedResults.length} high-quality matches found`);
-      return limitedResults;
+      // Find the original basic match for location data
+      const basicMatch = basicMatches.find(match => match.targetUserId === candidate.userId);
+      if (!basicMatch) continue;
+
+      // Create enhanced match result
+      const preferenceMatch: PreferenceMatchResult = {
+        ...basicMatch,
+        compatibilityScore: preferenceAlignment.totalScore,
+        directionalScores: {
+          forward: preferenceAlignment.forwardScore,
+          backward: preferenceAlignment.backwardScore
+        },
+        categoryScores: {
+          physical: preferenceAlignment.categoryAlignments.physical.score,
+          lifestyle: preferenceAlignment.categoryAlignments.lifestyle.score,
+          social: preferenceAlignment.categoryAlignments.social.score,
+          relationship: preferenceAlignment.categoryAlignments.relationship.score
+        },
+        preferenceAlignment: {
+          matches: [
+            ...preferenceAlignment.matchedPreferences.physical,
+            ...preferenceAlignment.matchedPreferences.lifestyle,
+            ...preferenceAlignment.matchedPreferences.social,
+            ...preferenceAlignment.matchedPreferences.relationship
+          ],
+          mismatches: [
+            ...preferenceAlignment.mismatchedPreferences.physical,
+            ...preferenceAlignment.mismatchedPreferences.lifestyle,
+            ...preferenceAlignment.mismatchedPreferences.social,
+            ...preferenceAlignment.mismatchedPreferences.relationship
+          ],
+          dealBreakersPassed: preferenceAlignment.dealBreakerAnalysis.passed &&
+            preferenceAlignment.reverseDealBreakerAnalysis.passed,
+          mustHavesSatisfied: preferenceAlignment.mustHaveAnalysis.satisfiedMustHaves,
+          niceToHavesMatched: preferenceAlignment.niceToHaveAnalysis.matchedNiceToHaves
+        },
+        matchExplanation: this.generateMatchExplanation(userProfile, candidate, preferenceAlignment),
+        improvementSuggestions: this.generateImprovementSuggestions(userProfile, preferenceAlignment)
+      };
 
-    } catch (error) {
-      console.error('Advanced matching error:', error);
-      throw error;
+      preferenceMatches.push(preferenceMatch);
     }
+
+    return preferenceMatches;
   }
 
   /**
    * Explain why specific matches were suggested
    */
-  explainMatchReasons(
+  async explainMatchReasons(
     userProfile: UserProfile,
     matches: PreferenceMatchResult[]
-  ): MatchExplanation[] {
-    return matches.map(match => {
-      const candidate = this.getCandidateProfile(match.targetUserId);
+  ): Promise<MatchExplanation[]> {
+    return Promise.all(matches.map(async match => {
+      const candidate = await this.getCandidateProfile(match.targetUserId);
       if (!candidate) {
         return {
           matchId: match.matchId,
@@ -699,7 +1418,9 @@ export class MatchingService {
           compatibilityHighlights: [],
           potentialConcerns: [],
           overallAssessment: 'fair',
-          recommendationStrength: 0.5
+          recommendationStrength: 0.5,
+          forward: { score: match.directionalScores.forward, triggeredDealBreakers: [] },
+          backward: { score: match.directionalScores.backward, triggeredDealBreakers: [] }
         };
       }
 
@@ -715,7 +1436,7 @@ export class MatchingService {
         candidate,
         preferenceAlignment
       );
-    });
+    }));
   }
 
   /**
@@ -734,8 +1455,7 @@ export class MatchingService {
 
     // Get current match results for analysis
     const currentCriteria = this.getDefaultAdvancedCriteria(userProfile);
-    const availableUsers = await this.getAvailableUsers(); // This would fetch from your user service
-    const currentResults = await this.findAdvancedMatches(currentCriteria, availableUsers);
+    const currentResults = await this.runAdvancedMatching(userProfile, currentCriteria);
 
     return this.preferenceFilteringService.optimizePreferenceSettings(
       userProfile,
@@ -757,13 +1477,13 @@ export class MatchingService {
 
     // Get recent matches for analysis
     const criteria = this.getDefaultAdvancedCriteria(userProfile);
-    const availableUsers = await this.getAvailableUsers();
-    const recentMatches = await this.findAdvancedMatches(criteria, availableUsers);
+    const recentMatches = await this.runAdvancedMatching(userProfile, criteria);
 
     // Analyze match quality distribution
+    const { excellentScore } = (await this.loadAlgorithm()).thresholds;
     const qualityDistribution = {
-      excellent: recentMatches.filter(m => m.compatibilityScore >= 0.85).length,
-      veryGood: recentMatches.filter(m => m.compatibilityScore >= 0.7 && m.compatibilityScore < 0.85).length,
+      excellent: recentMatches.filter(m => m.compatibilityScore >= excellentScore).length,
+      veryGood: recentMatches.filter(m => m.compatibilityScore >= 0.7 && m.compatibilityScore < excellentScore).length,
       good: recentMatches.filter(m => m.compatibilityScore >= 0.55 && m.compatibilityScore < 0.7).length,
       fair: recentMatches.filter(m => m.compatibilityScore < 0.55).length
     };
@@ -894,12 +1614,14 @@ export class MatchingService {
    */
   private getDefaultAdvancedCriteria(userProfile: UserProfile): AdvancedMatchingCriteria {
     const preferences = userProfile.preferences || {};
+    const location = userProfile.personalInfo.location;
+    const hasLocation = !!location && (location.latitude !== 0 || location.longitude !== 0);
     
     return {
       userId: userProfile.userId,
       location: {
-        latitude: 51.5074, // Default to London coordinates
-        longitude: -0.1278,
+        latitude: hasLocation ? location.latitude : 51.5074, // Default to London coordinates
+        longitude: hasLocation ? location.longitude : -0.1278,
         radius: preferences.maxDistance || 25
       },
       preferences: {
@@ -968,26 +1690,38 @@ export class MatchingService {
   }
 
   /**
-   * Get candidate profile (placeholder - would integrate with your profile service)
+   * Get a candidate's profile from the candidate source
    */
-  private getCandidateProfile(userId: string): UserProfile | undefined {
-    // This would integrate with your profile service
-    return undefined;
+  private async getCandidateProfile(userId: string): Promise<UserProfile | undefined> {
+    return (await this.candidateSource.getProfile(userId)) || undefined;
   }
 
   /**
-   * Get user profile (placeholder - would integrate with your profile service)
+   * Get the searching user's profile from the candidate source
    */
   private async getUserProfile(userId: string): Promise<UserProfile | undefined> {
-    // This would integrate with your profile service
-    return undefined;
+    return (await this.candidateSource.getProfile(userId)) || undefined;
   }
 
   /**
-   * Get available users (placeholder - would integrate with your user service)
+   * Build location data from a profile's stored location, if it has one
    */
-  private async getAvailableUsers(): Promise<UserProfile[]> {
-    // This would integrate with your user service
-    return [];
+  private getProfileLocationData(profile: UserProfile): UserLocationData | null {
+    const location = profile.personalInfo.location;
+    if (!location || (location.latitude === 0 && location.longitude === 0)) {
+      return null;
+    }
+
+    return {
+      userId: profile.userId,
+      location: {
+        latitude: location.latitude,
+        longitude: location.longitude,
+        timestamp: profile.lastActiveAt
+      },
+      lastSeen: profile.lastActiveAt,
+      accuracy: 0,
+      isOnline: Date.now() - new Date(profile.lastActiveAt).getTime() < 15 * 60 * 1000
+    };
   }
 }
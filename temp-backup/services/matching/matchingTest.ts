@@ -266,7 +266,7 @@ export async function testMatchingService(): Promise<void> {
     });
 
     // Get analytics
-    const analytics = matchingService.getAnalytics(searchingUser.userId);
+    const analytics = await matchingService.getAnalytics(searchingUser.userId);
     console.log('📊 Matching Analytics:');
     console.log(`   Total matches found: ${analytics.metrics?.matches || 0}`);
     console.log(`   Queue status: Active`);
@@ -0,0 +1,170 @@
+/**
+ * Mutual Match Service
+ * Epic 003: Matching System
+ *
+ * The single path for turning two reciprocal likes into a match: scores the
+ * pair, creates the match and its conversation in one transaction and tells
+ * both users about it
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Clock, systemClock } from '../../lib/clock';
+import {
+  CreateMutualMatchRequest,
+  MatchingValidationError,
+  MatchNotifier,
+  MutualMatch,
+  MutualMatchRepository,
+  SwipeInteraction
+} from '../../types/matching';
+import { ProfileRepository, UserProfile } from '../../types/profile';
+import { NotificationService } from '../notifications/notificationService';
+import { ProfileService } from '../profile/profileService';
+import { PreferenceFilteringService } from './preferenceFilteringService';
+import { InMemoryMutualMatchRepository } from './repositories/inMemoryMutualMatchRepository';
+
+export interface MutualMatchServiceDependencies {
+  repository: MutualMatchRepository;
+  profiles: Pick<ProfileRepository, 'getProfile'>;
+  scoring: Pick<PreferenceFilteringService, 'calculateCompatibility' | 'calculateReciprocalScore'>;
+  notifier: MatchNotifier;
+  clock: Clock;
+}
+
+export class MutualMatchService {
+  private static instance: MutualMatchService;
+  private dependencies: MutualMatchServiceDependencies;
+
+  private constructor(dependencies: Partial<MutualMatchServiceDependencies> = {}) {
+    this.dependencies = {
+      repository: dependencies.repository || new InMemoryMutualMatchRepository(),
+      profiles: dependencies.profiles || ProfileService.getInstance().getRepository(),
+      scoring: dependencies.scoring || new PreferenceFilteringService(),
+      notifier: dependencies.notifier || NotificationService.getInstance(),
+      clock: dependencies.clock || systemClock
+    };
+  }
+
+  public static getInstance(dependencies?: Partial<MutualMatchServiceDependencies>): MutualMatchService {
+    if (!MutualMatchService.instance) {
+      MutualMatchService.instance = new MutualMatchService(dependencies);
+    } else if (dependencies) {
+      MutualMatchService.instance.setDependencies(dependencies);
+    }
+    return MutualMatchService.instance;
+  }
+
+  /**
+   * Replace some or all dependencies (e.g. a fake clock in tests)
+   */
+  setDependencies(dependencies: Partial<MutualMatchServiceDependencies>): void {
+    this.dependencies = { ...this.dependencies, ...dependencies };
+  }
+
+  /**
+   * Match two users who liked each other. Calling it again for the same pair
+   * returns the existing match without notifying anyone a second time.
+   */
+  async createMutualMatch(like: SwipeInteraction, reciprocal: SwipeInteraction): Promise<MutualMatch> {
+    if (
+      like.action === 'pass' || reciprocal.action === 'pass' ||
+      like.userId !== reciprocal.targetUserId || like.targetUserId !== reciprocal.userId
+    ) {
+      throw new MatchingValidationError(
+        [{ code: 'NOT_MUTUAL', message: 'Both users must have liked each other' }]
+      );
+    }
+
+    const [userProfile, targetProfile] = await Promise.all([
+      this.dependencies.profiles.getProfile(like.userId),
+      this.dependencies.profiles.getProfile(like.targetUserId)
+    ]);
+    if (!userProfile || !targetProfile) {
+      throw new MatchingValidationError(
+        [{ code: 'USER_NOT_FOUND', message: 'User profile not found' }]
+      );
+    }
+
+    // Matches are stored once per pair, lowest user ID first
+    const [first, second] = like.userId < like.targetUserId ? [like, reciprocal] : [reciprocal, like];
+    const request: CreateMutualMatchRequest = {
+      userIds: [first.userId, second.userId],
+      matchIds: [first.matchId, second.matchId],
+      compatibilityScore: this.scorePair(userProfile, targetProfile),
+      matchSource: this.getMatchSource(like, reciprocal),
+      matchedAt: this.dependencies.clock.now()
+    };
+
+    const { mutualMatch, created } = await this.dependencies.repository.createMutualMatch(request);
+
+    if (created) {
+      await Promise.all([
+        this.notifyMatch(mutualMatch, userProfile.userId, targetProfile),
+        this.notifyMatch(mutualMatch, targetProfile.userId, userProfile)
+      ]);
+    }
+
+    return mutualMatch;
+  }
+
+  /**
+   * The user's matches, most recent first
+   */
+  async getMutualMatches(userId: string): Promise<MutualMatch[]> {
+    return this.dependencies.repository.getMutualMatches(userId);
+  }
+
+  /**
+   * Deactivate matches made before `matchedBefore` that never got a message
+   */
+  async deactivateSilentMatches(matchedBefore: Date): Promise<MutualMatch[]> {
+    return this.dependencies.repository.deactivateSilentMatches(matchedBefore);
+  }
+
+  /**
+   * Compatibility of the pair as seen from both sides, combined the way
+   * discovery ranks reciprocal matches and rounded to two decimals
+   */
+  private scorePair(userProfile: UserProfile, targetProfile: UserProfile): number {
+    const { scoring } = this.dependencies;
+    const forward = scoring.calculateCompatibility(userProfile, targetProfile);
+    const backward = scoring.calculateCompatibility(targetProfile, userProfile);
+    const score = Math.min(1, Math.max(0, scoring.calculateReciprocalScore(forward, backward)));
+    return Math.round(score * 100) / 100;
+  }
+
+  /**
+   * A super like takes precedence, then either profile having been shown in a boost slot
+   */
+  private getMatchSource(like: SwipeInteraction, reciprocal: SwipeInteraction): MutualMatch['matchSource'] {
+    const swipes = [like, reciprocal];
+    if (swipes.some(swipe => swipe.action === 'super_like')) return 'super_like';
+    if (swipes.some(swipe => swipe.context.exposureSlot === 'premium_boost')) return 'premium_boost';
+    return 'discovery';
+  }
+
+  private async notifyMatch(mutualMatch: MutualMatch, userId: string, other: UserProfile): Promise<void> {
+    try {
+      await this.dependencies.notifier.notify({
+        notificationId: uuidv4(),
+        userId,
+        type: 'mutual_match',
+        mutualMatchId: mutualMatch.mutualMatchId,
+        title: "It's a match!",
+        body: `You and ${other.personalInfo.displayName} liked each other`,
+        data: {
+          otherUserId: other.userId,
+          conversationId: mutualMatch.conversationId,
+          compatibilityScore: mutualMatch.compatibilityScore
+        },
+        scheduledFor: mutualMatch.matchedAt,
+        status: 'pending',
+        priority: 'high',
+        channels: ['push', 'in_app']
+      });
+    } catch (error) {
+      // The match stands even if the notification can't be delivered
+      console.error(`Failed to send match notification to ${userId}:`, error);
+    }
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * In-Memory Match Notifier
+ * Epic 003: Matching System
+ *
+ * Records match notifications instead of delivering them (tests and offline development)
+ */
+
+import { MatchNotification, MatchNotifier } from '../../../types/matching';
+
+export class InMemoryMatchNotifier implements MatchNotifier {
+  private outbox: MatchNotification[] = [];
+
+  async notify(notification: MatchNotification): Promise<void> {
+    this.outbox.push({ ...notification, status: 'sent', sentAt: new Date() });
+  }
+
+  /**
+   * Notifications recorded for a user, oldest first
+   */
+  getNotifications(userId: string): MatchNotification[] {
+    return this.outbox.filter(notification => notification.userId === userId);
+  }
+
+  clear(): void {
+    this.outbox = [];
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * Match Notifiers
+ * Delivery backends for match notifications
+ */
+
+export { InMemoryMatchNotifier } from './inMemoryMatchNotifier';
+export { SupabaseMatchNotifier } from './supabaseMatchNotifier';
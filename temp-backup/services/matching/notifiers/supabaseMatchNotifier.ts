@@ -0,0 +1,34 @@
+/**
+ * Supabase Match Notifier
+ * Epic 003: Matching System
+ *
+ * Inserts into match_notifications, which RealtimeHub subscribers receive as
+ * notification events. match_id references matches, so only mutual matches set it.
+ */
+
+import { supabase, type SupabaseClient } from '../../../lib/supabase';
+import { MatchNotification, MatchNotifier } from '../../../types/matching';
+
+export class SupabaseMatchNotifier implements MatchNotifier {
+  constructor(private client: SupabaseClient = supabase) {}
+
+  async notify(notification: MatchNotification): Promise<void> {
+    const { error } = await this.client
+      .from('match_notifications')
+      .insert({
+        user_id: notification.userId,
+        match_id: notification.mutualMatchId ?? null,
+        notification_type: notification.type,
+        data: {
+          ...notification.data,
+          matchId: notification.matchId,
+          title: notification.title,
+          body: notification.body,
+          priority: notification.priority
+        },
+        created_at: notification.scheduledFor.toISOString()
+      });
+
+    if (error) throw error;
+  }
+}
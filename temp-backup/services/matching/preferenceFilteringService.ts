@@ -12,6 +12,7 @@ import {
   PreferenceMatchResult, 
   CategoryScores, 
   PreferenceAlignment,
+  DealBreakerAnalysis,
   PreferenceAnalytics,
   OptimizationGoals,
   PreferenceOptimizationSuggestions,
@@ -49,25 +50,35 @@ export class PreferenceFilteringService {
   }
 
   /**
-   * Apply deal breaker filters to eliminate incompatible candidates
+   * Apply deal breaker filters to eliminate incompatible candidates. Runs both
+   * ways: the user's deal breakers against each candidate, and each candidate's
+   * own deal breakers against the user.
    */
   applyDealBreakerFilters(
     userProfile: UserProfile,
     candidates: UserProfile[],
     dealBreakers: string[]
   ): UserProfile[] {
-    if (!this.config.enableDealBreakerFiltering || dealBreakers.length === 0) {
+    if (!this.config.enableDealBreakerFiltering) {
       return candidates;
     }
 
-    return candidates.filter(candidate => {
-      for (const dealBreaker of dealBreakers) {
-        if (this.isDealBreakerTriggered(userProfile, candidate, dealBreaker)) {
-          return false;
-        }
-      }
+    return candidates.filter(candidate =>
+      !dealBreakers.some(dealBreaker => this.isDealBreakerTriggered(userProfile, candidate, dealBreaker)) &&
+      this.passesCandidateDealBreakers(userProfile, candidate)
+    );
+  }
+
+  /**
+   * Whether the user clears the candidate's own deal breakers
+   */
+  passesCandidateDealBreakers(userProfile: UserProfile, candidate: UserProfile): boolean {
+    if (!this.config.enableDealBreakerFiltering) {
       return true;
-    });
+    }
+
+    return !this.getDealBreakers(candidate)
+      .some(dealBreaker => this.isDealBreakerTriggered(candidate, userProfile, dealBreaker));
   }
 
   /**
@@ -161,6 +172,26 @@ export class PreferenceFilteringService {
     };
   }
 
+  /**
+   * Combine both directions of a match into one score (0-1). The harmonic mean
+   * stays low unless both sides fit, so a one-sided match can't rank highly.
+   */
+  calculateReciprocalScore(forwardScore: number, backwardScore: number): number {
+    const total = forwardScore + backwardScore;
+    return total > 0 ? (2 * forwardScore * backwardScore) / total : 0;
+  }
+
+  /**
+   * Overall compatibility of a candidate from the user's perspective (0-1)
+   */
+  calculateCompatibility(
+    userProfile: UserProfile,
+    candidate: UserProfile,
+    weights: AdvancedMatchingCriteria['preferenceWeights'] = this.config.defaultWeights
+  ): number {
+    return this.calculateWeightedCompatibility(this.calculateCategoryScores(userProfile, candidate), weights);
+  }
+
   /**
    * Calculate physical compatibility score
    */
@@ -408,13 +439,18 @@ export class PreferenceFilteringService {
     criteria: AdvancedMatchingCriteria
   ): PreferenceAlignment {
     const categoryScores = this.calculateCategoryScores(userProfile, candidate);
-    const totalScore = this.calculateWeightedCompatibility(categoryScores, criteria.preferenceWeights);
+    const forwardScore = this.calculateWeightedCompatibility(categoryScores, criteria.preferenceWeights);
+
+    // The candidate's side, with default weights since we don't know theirs
+    const reverseCategoryScores = this.calculateCategoryScores(candidate, userProfile);
+    const backwardScore = this.calculateWeightedCompatibility(reverseCategoryScores, this.config.defaultWeights);
 
     // Analyze matched and mismatched preferences
     const { matchedPreferences, mismatchedPreferences } = this.analyzePreferenceMatches(userProfile, candidate);
 
     // Analyze deal breakers
     const dealBreakerAnalysis = this.analyzeDealBreakers(userProfile, candidate, criteria.dealBreakers);
+    const reverseDealBreakerAnalysis = this.analyzeDealBreakers(candidate, userProfile, this.getDealBreakers(candidate));
 
     // Analyze must-haves
     const mustHaveAnalysis = this.analyzeMustHaves(userProfile, candidate, criteria.mustHaves);
@@ -423,11 +459,15 @@ export class PreferenceFilteringService {
     const niceToHaveAnalysis = this.analyzeNiceToHaves(userProfile, candidate, criteria.niceToHaves);
 
     return {
-      totalScore,
+      totalScore: this.calculateReciprocalScore(forwardScore, backwardScore),
+      forwardScore,
+      backwardScore,
       categoryAlignments: categoryScores,
+      reverseCategoryAlignments: reverseCategoryScores,
       matchedPreferences,
       mismatchedPreferences,
       dealBreakerAnalysis,
+      reverseDealBreakerAnalysis,
       mustHaveAnalysis,
       niceToHaveAnalysis
     };
@@ -481,6 +521,18 @@ export class PreferenceFilteringService {
       compatibilityHighlights.push(`Matching ${match} preference`);
     });
 
+    // How the match looks from the candidate's side
+    const backwardPercent = Math.round(preferenceAlignment.backwardScore * 100);
+    if (preferenceAlignment.forwardScore >= 0.7 && preferenceAlignment.backwardScore >= 0.7) {
+      compatibilityHighlights.push('Strong fit both ways');
+    }
+    if (preferenceAlignment.backwardScore < 0.4) {
+      potentialConcerns.push(`You may not match what they're looking for (${backwardPercent}%)`);
+    }
+    preferenceAlignment.reverseDealBreakerAnalysis.triggeredDealBreakers.forEach(dealBreaker => {
+      potentialConcerns.push(`Triggers their ${dealBreaker.replace(/_/g, ' ')} deal breaker`);
+    });
+
     // Determine overall assessment
     let overallAssessment: 'excellent' | 'very_good' | 'good' | 'fair';
     if (preferenceAlignment.totalScore >= 0.85) {
@@ -500,7 +552,15 @@ export class PreferenceFilteringService {
       compatibilityHighlights,
       potentialConcerns,
       overallAssessment,
-      recommendationStrength: preferenceAlignment.totalScore
+      recommendationStrength: preferenceAlignment.totalScore,
+      forward: {
+        score: preferenceAlignment.forwardScore,
+        triggeredDealBreakers: preferenceAlignment.dealBreakerAnalysis.triggeredDealBreakers
+      },
+      backward: {
+        score: preferenceAlignment.backwardScore,
+        triggeredDealBreakers: preferenceAlignment.reverseDealBreakerAnalysis.triggeredDealBreakers
+      }
     };
   }
 
@@ -790,7 +850,11 @@ export class PreferenceFilteringService {
     return { matchedPreferences, mismatchedPreferences };
   }
 
-  private analyzeDealBreakers(userProfile: UserProfile, candidate: UserProfile, dealBreakers: string[]) {
+  private getDealBreakers(profile: UserProfile): string[] {
+    return profile.preferences?.dealBreakers || [];
+  }
+
+  private analyzeDealBreakers(userProfile: UserProfile, candidate: UserProfile, dealBreakers: string[]): DealBreakerAnalysis {
     const triggeredDealBreakers: string[] = [];
     const passedDealBreakers: string[] = [];
 
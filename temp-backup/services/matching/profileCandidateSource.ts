@@ -0,0 +1,43 @@
+/**
+ * Profile Candidate Source
+ * Epic 003: Matching System
+ *
+ * Pages candidate profiles out of profile storage for the matching service.
+ * Backed by ProfileService by default; pass a SupabaseProfileRepository to
+ * read straight from the profiles table.
+ */
+
+import { CandidatePage, CandidatePageRequest, CandidateSource } from '../../types/matching';
+import { ProfileRepository, UserProfile } from '../../types/profile';
+import { ProfileService } from '../profile/profileService';
+
+export type ProfileCandidateStore = Pick<ProfileRepository, 'getProfile' | 'listProfiles'>;
+
+export class ProfileCandidateSource implements CandidateSource {
+  private store: ProfileCandidateStore;
+
+  constructor(store?: ProfileCandidateStore) {
+    this.store = store || ProfileService.getInstance();
+  }
+
+  async getProfile(userId: string): Promise<UserProfile | null> {
+    return this.store.getProfile(userId);
+  }
+
+  async getCandidates(request: CandidatePageRequest): Promise<CandidatePage> {
+    const candidates = await this.store.listProfiles({
+      limit: request.limit,
+      afterUserId: request.cursor,
+      excludeUserIds: [request.userId, ...(request.criteria?.filters?.excludeUserIds || [])],
+      ageRange: request.criteria?.preferences.ageRange
+    });
+
+    // A short page means there is nothing left after it
+    return {
+      candidates,
+      nextCursor: candidates.length === request.limit
+        ? candidates[candidates.length - 1].userId
+        : undefined
+    };
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * In-Memory Boost Repository
+ * Epic 003: Matching System
+ *
+ * Process-local boost store used by tests and offline development
+ */
+
+import { BoostAlreadyActiveError, BoostRepository, ProfileBoost } from '../../../types/exposure';
+
+export class InMemoryBoostRepository implements BoostRepository {
+  private boosts: Map<string, ProfileBoost> = new Map();
+
+  async saveBoost(boost: ProfileBoost): Promise<void> {
+    const overlapping = Array.from(this.boosts.values()).find(existing =>
+      existing.userId === boost.userId && existing.startedAt < boost.endsAt && existing.endsAt > boost.startedAt
+    );
+    if (overlapping) {
+      throw new BoostAlreadyActiveError(boost.userId, overlapping.endsAt);
+    }
+
+    this.boosts.set(boost.boostId, { ...boost });
+  }
+
+  async getBoost(boostId: string): Promise<ProfileBoost | null> {
+    const boost = this.boosts.get(boostId);
+    return boost ? { ...boost } : null;
+  }
+
+  async getLatestBoost(userId: string): Promise<ProfileBoost | null> {
+    const latest = Array.from(this.boosts.values())
+      .filter(boost => boost.userId === userId)
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())[0];
+    return latest ? { ...latest } : null;
+  }
+
+  async listActiveBoosts(userIds: string[], at: Date): Promise<ProfileBoost[]> {
+    const wanted = new Set(userIds);
+    return Array.from(this.boosts.values())
+      .filter(boost => wanted.has(boost.userId) && boost.startedAt <= at && boost.endsAt > at)
+      .map(boost => ({ ...boost }));
+  }
+
+  clear(): void {
+    this.boosts.clear();
+  }
+}
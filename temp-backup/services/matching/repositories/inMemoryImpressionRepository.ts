@@ -0,0 +1,34 @@
+/**
+ * In-Memory Impression Repository
+ * Epic 003: Matching System
+ *
+ * Process-local impression log used by tests and offline development
+ */
+
+import { ImpressionRepository, ProfileImpression } from '../../../types/exposure';
+
+export class InMemoryImpressionRepository implements ImpressionRepository {
+  private impressions: ProfileImpression[] = [];
+
+  async recordImpressions(impressions: ProfileImpression[]): Promise<void> {
+    this.impressions.push(...impressions.map(impression => ({ ...impression })));
+  }
+
+  async countImpressions(since: Date, profileIds?: string[], until?: Date): Promise<Map<string, number>> {
+    const wanted = profileIds ? new Set(profileIds) : undefined;
+    const counts = new Map<string, number>();
+
+    this.impressions
+      .filter(impression =>
+        impression.shownAt >= since &&
+        (!until || impression.shownAt < until) &&
+        (!wanted || wanted.has(impression.profileId))
+      )
+      .forEach(impression => counts.set(impression.profileId, (counts.get(impression.profileId) || 0) + 1));
+    return counts;
+  }
+
+  clear(): void {
+    this.impressions = [];
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * In-Memory Interaction Repository
+ * Epic 003: Matching System
+ *
+ * Process-local swipes used by tests and offline development
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { DuplicateInteractionError, InteractionRepository, SwipeInteraction } from '../../../types/matching';
+
+export class InMemoryInteractionRepository implements InteractionRepository {
+  private interactions: Map<string, SwipeInteraction> = new Map();
+  private sequence = 0;
+  private order: Map<string, number> = new Map(); // Insertion order breaks timestamp ties
+
+  async recordInteraction(interaction: Omit<SwipeInteraction, 'interactionId'>): Promise<SwipeInteraction> {
+    if (this.find(interaction.userId, interaction.targetUserId)) {
+      throw new DuplicateInteractionError(interaction.userId, interaction.targetUserId);
+    }
+
+    const stored: SwipeInteraction = { ...interaction, interactionId: uuidv4() };
+    this.interactions.set(stored.interactionId, stored);
+    this.order.set(stored.interactionId, ++this.sequence);
+    return this.copy(stored);
+  }
+
+  async getInteraction(userId: string, targetUserId: string): Promise<SwipeInteraction | null> {
+    const interaction = this.find(userId, targetUserId);
+    return interaction ? this.copy(interaction) : null;
+  }
+
+  async getLatestInteraction(userId: string): Promise<SwipeInteraction | null> {
+    const latest = Array.from(this.interactions.values())
+      .filter(interaction => interaction.userId === userId)
+      .sort((a, b) =>
+        b.timestamp.getTime() - a.timestamp.getTime()
+        || this.order.get(b.interactionId)! - this.order.get(a.interactionId)!
+      )[0];
+    return latest ? this.copy(latest) : null;
+  }
+
+  async listInteractedUserIds(userId: string): Promise<string[]> {
+    return Array.from(this.interactions.values())
+      .filter(interaction => interaction.userId === userId)
+      .map(interaction => interaction.targetUserId);
+  }
+
+  async listLikes(after: SwipeInteraction | undefined, limit: number): Promise<SwipeInteraction[]> {
+    const position = (interaction: SwipeInteraction) =>
+      [interaction.timestamp.getTime(), this.order.get(interaction.interactionId) ?? Infinity];
+    const isAfter = (interaction: SwipeInteraction) => {
+      if (!after) return true;
+      const [time, order] = position(interaction);
+      const [afterTime, afterOrder] = position(after);
+      return time > afterTime || (time === afterTime && order > afterOrder);
+    };
+
+    return Array.from(this.interactions.values())
+      .filter(interaction => interaction.action !== 'pass' && isAfter(interaction))
+      .sort((a, b) => {
+        const [aTime, aOrder] = position(a);
+        const [bTime, bOrder] = position(b);
+        return aTime - bTime || aOrder - bOrder;
+      })
+      .slice(0, limit)
+      .map(interaction => this.copy(interaction));
+  }
+
+  async listLikesReceived(targetUserId: string, since: Date, until: Date): Promise<SwipeInteraction[]> {
+    return Array.from(this.interactions.values())
+      .filter(interaction =>
+        interaction.targetUserId === targetUserId &&
+        interaction.action !== 'pass' &&
+        interaction.timestamp >= since &&
+        interaction.timestamp < until
+      )
+      .map(interaction => this.copy(interaction));
+  }
+
+  async deleteInteraction(interactionId: string): Promise<void> {
+    this.interactions.delete(interactionId);
+    this.order.delete(interactionId);
+  }
+
+  /**
+   * Remove all stored interactions
+   */
+  clear(): void {
+    this.interactions.clear();
+    this.order.clear();
+  }
+
+  private find(userId: string, targetUserId: string): SwipeInteraction | undefined {
+    return Array.from(this.interactions.values())
+      .find(interaction => interaction.userId === userId && interaction.targetUserId === targetUserId);
+  }
+
+  private copy(interaction: SwipeInteraction): SwipeInteraction {
+    return { ...interaction, context: { ...interaction.context } };
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * In-Memory Matching Algorithm Repository
+ * Epic 003: Matching System
+ *
+ * Process-local algorithm versions used by tests and offline development.
+ * Starts out holding the built-in default version.
+ */
+
+import {
+  AlgorithmVersionExistsError,
+  MatchingAlgorithmConfig,
+  MatchingAlgorithmRepository
+} from '../../../types/matching';
+import { DEFAULT_MATCHING_ALGORITHM } from '../matchingAlgorithms';
+
+export class InMemoryMatchingAlgorithmRepository implements MatchingAlgorithmRepository {
+  private algorithms: Map<string, MatchingAlgorithmConfig> = new Map();
+
+  constructor(algorithms: MatchingAlgorithmConfig[] = [DEFAULT_MATCHING_ALGORITHM]) {
+    algorithms.forEach(config => this.algorithms.set(config.version, this.copy(config)));
+  }
+
+  async getAlgorithm(version: string): Promise<MatchingAlgorithmConfig | null> {
+    const config = this.algorithms.get(version);
+    return config ? this.copy(config) : null;
+  }
+
+  async listAlgorithms(): Promise<MatchingAlgorithmConfig[]> {
+    return Array.from(this.algorithms.values()).map(config => this.copy(config));
+  }
+
+  async saveAlgorithm(config: MatchingAlgorithmConfig): Promise<void> {
+    if (this.algorithms.has(config.version)) {
+      throw new AlgorithmVersionExistsError(config.version);
+    }
+    this.algorithms.set(config.version, this.copy(config));
+  }
+
+  /**
+   * Remove every stored version, including the default
+   */
+  clear(): void {
+    this.algorithms.clear();
+  }
+
+  private copy(config: MatchingAlgorithmConfig): MatchingAlgorithmConfig {
+    return {
+      ...config,
+      weights: { ...config.weights },
+      penalties: { ...config.penalties },
+      thresholds: { ...config.thresholds },
+      features: { ...config.features },
+      compatibilityModel: config.compatibilityModel && {
+        ...config.compatibilityModel,
+        weights: { ...config.compatibilityModel.weights }
+      }
+    };
+  }
+}
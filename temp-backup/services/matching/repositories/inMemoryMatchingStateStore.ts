@@ -0,0 +1,93 @@
+/**
+ * In-Memory Matching State Store
+ * Epic 003: Matching System
+ *
+ * Process-local match queues and cooldowns used by tests and offline development
+ */
+
+import { Clock, systemClock } from '../../../lib/clock';
+import { MatchingStateStore, MatchQueue } from '../../../types/matching';
+
+interface Expiring<T> {
+  value: T;
+  expiresAt: Date;
+}
+
+export class InMemoryMatchingStateStore implements MatchingStateStore {
+  private queues: Map<string, Expiring<MatchQueue>> = new Map();
+  private cooldowns: Map<string, Date> = new Map();
+
+  constructor(private clock: Clock = systemClock) {}
+
+  async getQueue(userId: string): Promise<MatchQueue | null> {
+    const entry = this.queues.get(userId);
+    if (!entry) return null;
+
+    if (this.isExpired(entry.expiresAt)) {
+      this.queues.delete(userId);
+      return null;
+    }
+    return this.copy(entry.value);
+  }
+
+  async saveQueue(queue: MatchQueue, expiresAt: Date): Promise<void> {
+    this.queues.set(queue.userId, { value: this.copy(queue), expiresAt });
+  }
+
+  async listQueues(): Promise<MatchQueue[]> {
+    this.purgeExpired();
+    return Array.from(this.queues.values()).map(entry => this.copy(entry.value));
+  }
+
+  async getCooldown(userId: string): Promise<Date | null> {
+    const endsAt = this.cooldowns.get(userId);
+    if (!endsAt) return null;
+
+    if (this.isExpired(endsAt)) {
+      this.cooldowns.delete(userId);
+      return null;
+    }
+    return new Date(endsAt);
+  }
+
+  async setCooldown(userId: string, endsAt: Date): Promise<void> {
+    this.cooldowns.set(userId, new Date(endsAt));
+  }
+
+  async clearCooldown(userId: string): Promise<void> {
+    this.cooldowns.delete(userId);
+  }
+
+  async listCooldowns(): Promise<Map<string, Date>> {
+    this.purgeExpired();
+    return new Map(Array.from(this.cooldowns.entries()).map(([userId, endsAt]) => [userId, new Date(endsAt)]));
+  }
+
+  /**
+   * Remove all stored queues and cooldowns
+   */
+  clear(): void {
+    this.queues.clear();
+    this.cooldowns.clear();
+  }
+
+  private purgeExpired(): void {
+    this.queues.forEach((entry, userId) => {
+      if (this.isExpired(entry.expiresAt)) this.queues.delete(userId);
+    });
+    this.cooldowns.forEach((endsAt, userId) => {
+      if (this.isExpired(endsAt)) this.cooldowns.delete(userId);
+    });
+  }
+
+  private isExpired(expiresAt: Date): boolean {
+    return expiresAt.getTime() <= this.clock.now().getTime();
+  }
+
+  private copy(queue: MatchQueue): MatchQueue {
+    return {
+      ...queue,
+      pendingMatches: queue.pendingMatches.map(match => ({ ...match, matchFactors: { ...match.matchFactors } }))
+    };
+  }
+}
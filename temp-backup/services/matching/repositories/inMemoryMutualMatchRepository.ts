@@ -0,0 +1,92 @@
+/**
+ * In-Memory Mutual Match Repository
+ * Epic 003: Matching System
+ *
+ * Process-local matches and their conversations used by tests and offline development
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  CreateMutualMatchRequest,
+  CreateMutualMatchResult,
+  MutualMatch,
+  MutualMatchRepository
+} from '../../../types/matching';
+
+export class InMemoryMutualMatchRepository implements MutualMatchRepository {
+  private matches: Map<string, MutualMatch> = new Map(); // Sorted user pair -> match
+
+  async createMutualMatch(request: CreateMutualMatchRequest): Promise<CreateMutualMatchResult> {
+    const key = this.pairKey(request.userIds[0], request.userIds[1]);
+    const existing = this.matches.get(key);
+    if (existing) {
+      return { mutualMatch: this.copy(existing), created: false };
+    }
+
+    const mutualMatch: MutualMatch = {
+      mutualMatchId: uuidv4(),
+      userIds: [...request.userIds],
+      matchIds: [...request.matchIds],
+      matchedAt: request.matchedAt,
+      isActive: true,
+      compatibilityScore: request.compatibilityScore,
+      conversationId: uuidv4(),
+      conversationStarted: false,
+      lastActivityAt: request.matchedAt,
+      matchSource: request.matchSource
+    };
+    this.matches.set(key, mutualMatch);
+
+    return { mutualMatch: this.copy(mutualMatch), created: true };
+  }
+
+  async getMutualMatch(userId: string, otherUserId: string): Promise<MutualMatch | null> {
+    const match = this.matches.get(this.pairKey(userId, otherUserId));
+    return match ? this.copy(match) : null;
+  }
+
+  async getMutualMatches(userId: string): Promise<MutualMatch[]> {
+    return Array.from(this.matches.values())
+      .filter(match => match.userIds.includes(userId))
+      .sort((a, b) => b.matchedAt.getTime() - a.matchedAt.getTime())
+      .map(match => this.copy(match));
+  }
+
+  async deactivateSilentMatches(matchedBefore: Date): Promise<MutualMatch[]> {
+    const silent = Array.from(this.matches.values())
+      .filter(match => match.isActive && !match.conversationStarted && match.matchedAt < matchedBefore);
+
+    silent.forEach(match => {
+      match.isActive = false;
+    });
+    return silent.map(match => this.copy(match));
+  }
+
+  /**
+   * Record a message in the match's conversation (stands in for the messaging layer)
+   */
+  recordMessage(mutualMatchId: string, sentAt: Date): void {
+    const match = Array.from(this.matches.values()).find(stored => stored.mutualMatchId === mutualMatchId);
+    if (!match) return;
+
+    match.conversationStarted = true;
+    match.firstMessageSent = true;
+    match.firstMessageAt = match.firstMessageAt || sentAt;
+    match.lastActivityAt = sentAt;
+  }
+
+  /**
+   * Remove all stored matches
+   */
+  clear(): void {
+    this.matches.clear();
+  }
+
+  private pairKey(userId: string, otherUserId: string): string {
+    return [userId, otherUserId].sort().join(':');
+  }
+
+  private copy(match: MutualMatch): MutualMatch {
+    return { ...match, userIds: [...match.userIds], matchIds: [...match.matchIds] };
+  }
+}
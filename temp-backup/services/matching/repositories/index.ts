@@ -0,0 +1,24 @@
+/**
+ * Matching Repositories
+ * Persistence backends for swipes, mutual matches, queues, cooldowns, algorithm versions, impressions and boosts
+ */
+
+export { InMemoryInteractionRepository } from './inMemoryInteractionRepository';
+export { SupabaseInteractionRepository } from './supabaseInteractionRepository';
+export { InMemoryMutualMatchRepository } from './inMemoryMutualMatchRepository';
+export { SupabaseMutualMatchRepository } from './supabaseMutualMatchRepository';
+export { InMemoryMatchingStateStore } from './inMemoryMatchingStateStore';
+export { SupabaseMatchingStateStore } from './supabaseMatchingStateStore';
+export { InMemoryMatchingAlgorithmRepository } from './inMemoryMatchingAlgorithmRepository';
+export { SupabaseMatchingAlgorithmRepository } from './supabaseMatchingAlgorithmRepository';
+export { InMemoryImpressionRepository } from './inMemoryImpressionRepository';
+export { SupabaseImpressionRepository } from './supabaseImpressionRepository';
+export { InMemoryBoostRepository } from './inMemoryBoostRepository';
+export { SupabaseBoostRepository } from './supabaseBoostRepository';
+export type {
+  InteractionRepository,
+  MatchingAlgorithmRepository,
+  MatchingStateStore,
+  MutualMatchRepository
+} from '../../../types/matching';
+export type { BoostRepository, ImpressionRepository } from '../../../types/exposure';
@@ -0,0 +1,85 @@
+/**
+ * Supabase Boost Repository
+ * Epic 003: Matching System
+ *
+ * Maps boosts onto the profile_boosts table defined in supabase/schema.sql.
+ * Discovery reads other users' boosts, so this runs with the service role.
+ */
+
+import { supabase, type SupabaseClient } from '../../../lib/supabase';
+import { BoostAlreadyActiveError, BoostRepository, ProfileBoost } from '../../../types/exposure';
+
+const EXCLUSION_VIOLATION = '23P01';
+
+export class SupabaseBoostRepository implements BoostRepository {
+  constructor(private client: SupabaseClient = supabase) {}
+
+  async saveBoost(boost: ProfileBoost): Promise<void> {
+    const { error } = await this.client
+      .from('profile_boosts')
+      .insert({
+        id: boost.boostId,
+        user_id: boost.userId,
+        started_at: boost.startedAt.toISOString(),
+        ends_at: boost.endsAt.toISOString(),
+        multiplier: boost.multiplier
+      });
+
+    if (error) {
+      // The exclusion constraint caught a boost started at the same time
+      if (error.code === EXCLUSION_VIOLATION) {
+        const latest = await this.getLatestBoost(boost.userId);
+        throw new BoostAlreadyActiveError(boost.userId, latest?.endsAt ?? boost.endsAt);
+      }
+      throw error;
+    }
+  }
+
+  async getBoost(boostId: string): Promise<ProfileBoost | null> {
+    const { data, error } = await this.client
+      .from('profile_boosts')
+      .select('*')
+      .eq('id', boostId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? this.mapBoostFromDatabase(data) : null;
+  }
+
+  async getLatestBoost(userId: string): Promise<ProfileBoost | null> {
+    const { data, error } = await this.client
+      .from('profile_boosts')
+      .select('*')
+      .eq('user_id', userId)
+      .order('started_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? this.mapBoostFromDatabase(data) : null;
+  }
+
+  async listActiveBoosts(userIds: string[], at: Date): Promise<ProfileBoost[]> {
+    if (userIds.length === 0) return [];
+
+    const { data, error } = await this.client
+      .from('profile_boosts')
+      .select('*')
+      .in('user_id', userIds)
+      .lte('started_at', at.toISOString())
+      .gt('ends_at', at.toISOString());
+
+    if (error) throw error;
+    return (data || []).map(row => this.mapBoostFromDatabase(row));
+  }
+
+  private mapBoostFromDatabase(row: any): ProfileBoost {
+    return {
+      boostId: row.id,
+      userId: row.user_id,
+      startedAt: new Date(row.started_at),
+      endsAt: new Date(row.ends_at),
+      multiplier: Number(row.multiplier)
+    };
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Supabase Impression Repository
+ * Epic 003: Matching System
+ *
+ * Logs impressions to the profile_impressions table and counts them with the
+ * count_profile_impressions function in supabase/schema.sql. Intended for the
+ * service role.
+ */
+
+import { supabase, type SupabaseClient } from '../../../lib/supabase';
+import { ImpressionRepository, ProfileImpression } from '../../../types/exposure';
+
+export class SupabaseImpressionRepository implements ImpressionRepository {
+  constructor(private client: SupabaseClient = supabase) {}
+
+  async recordImpressions(impressions: ProfileImpression[]): Promise<void> {
+    if (impressions.length === 0) return;
+
+    const { error } = await this.client
+      .from('profile_impressions')
+      .insert(impressions.map(impression => ({
+        viewer_id: impression.viewerId,
+        profile_id: impression.profileId,
+        slot: impression.slot ?? null,
+        shown_at: impression.shownAt.toISOString()
+      })));
+
+    if (error) throw error;
+  }
+
+  async countImpressions(since: Date, profileIds?: string[], until?: Date): Promise<Map<string, number>> {
+    if (profileIds && profileIds.length === 0) return new Map();
+
+    const { data, error } = await this.client.rpc('count_profile_impressions', {
+      p_since: since.toISOString(),
+      p_profile_ids: profileIds ?? null,
+      p_until: until?.toISOString() ?? null
+    });
+
+    if (error) throw error;
+    return new Map((data || []).map((row: any) => [row.profile_id, Number(row.impressions)]));
+  }
+}
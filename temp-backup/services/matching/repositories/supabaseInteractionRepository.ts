@@ -0,0 +1,144 @@
+/**
+ * Supabase Interaction Repository
+ * Epic 003: Matching System
+ *
+ * Maps swipes onto the user_interactions table defined in supabase/schema.sql.
+ * Reciprocal lookups read other users' swipes, so this runs with the service role.
+ */
+
+import { supabase, type SupabaseClient } from '../../../lib/supabase';
+import { DuplicateInteractionError, InteractionRepository, MatchResult, SwipeInteraction } from '../../../types/matching';
+
+const UNIQUE_VIOLATION = '23505';
+
+export class SupabaseInteractionRepository implements InteractionRepository {
+  constructor(private client: SupabaseClient = supabase) {}
+
+  async recordInteraction(interaction: Omit<SwipeInteraction, 'interactionId'>): Promise<SwipeInteraction> {
+    const { data, error } = await this.client
+      .from('user_interactions')
+      .insert({
+        user_id: interaction.userId,
+        target_user_id: interaction.targetUserId,
+        interaction_type: interaction.action,
+        context: {
+          ...interaction.context,
+          matchId: interaction.matchId,
+          passedMatch: interaction.passedMatch,
+          metadata: interaction.metadata
+        },
+        created_at: interaction.timestamp.toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) {
+        throw new DuplicateInteractionError(interaction.userId, interaction.targetUserId);
+      }
+      throw error;
+    }
+    return this.mapInteractionFromDatabase(data);
+  }
+
+  async getInteraction(userId: string, targetUserId: string): Promise<SwipeInteraction | null> {
+    const { data, error } = await this.client
+      .from('user_interactions')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('target_user_id', targetUserId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? this.mapInteractionFromDatabase(data) : null;
+  }
+
+  async getLatestInteraction(userId: string): Promise<SwipeInteraction | null> {
+    const { data, error } = await this.client
+      .from('user_interactions')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? this.mapInteractionFromDatabase(data) : null;
+  }
+
+  async listInteractedUserIds(userId: string): Promise<string[]> {
+    const { data, error } = await this.client
+      .from('user_interactions')
+      .select('target_user_id')
+      .eq('user_id', userId);
+
+    if (error) throw error;
+    return (data || []).map(row => row.target_user_id);
+  }
+
+  async listLikes(after: SwipeInteraction | undefined, limit: number): Promise<SwipeInteraction[]> {
+    let query = this.client
+      .from('user_interactions')
+      .select('*')
+      .in('interaction_type', ['like', 'super_like'])
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .limit(limit);
+
+    if (after) {
+      const timestamp = after.timestamp.toISOString();
+      query = query.or(`created_at.gt.${timestamp},and(created_at.eq.${timestamp},id.gt.${after.interactionId})`);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(row => this.mapInteractionFromDatabase(row));
+  }
+
+  async listLikesReceived(targetUserId: string, since: Date, until: Date): Promise<SwipeInteraction[]> {
+    const { data, error } = await this.client
+      .from('user_interactions')
+      .select('*')
+      .eq('target_user_id', targetUserId)
+      .in('interaction_type', ['like', 'super_like'])
+      .gte('created_at', since.toISOString())
+      .lt('created_at', until.toISOString());
+
+    if (error) throw error;
+    return (data || []).map(row => this.mapInteractionFromDatabase(row));
+  }
+
+  async deleteInteraction(interactionId: string): Promise<void> {
+    const { error } = await this.client
+      .from('user_interactions')
+      .delete()
+      .eq('id', interactionId);
+
+    if (error) throw error;
+  }
+
+  private mapInteractionFromDatabase(row: any): SwipeInteraction {
+    const { matchId, passedMatch, metadata, ...context } = row.context || {};
+
+    return {
+      interactionId: row.id,
+      matchId: matchId || '',
+      userId: row.user_id,
+      targetUserId: row.target_user_id,
+      action: row.interaction_type,
+      timestamp: new Date(row.created_at),
+      context,
+      passedMatch: passedMatch ? this.mapPassedMatch(passedMatch) : undefined,
+      metadata: metadata ?? undefined
+    };
+  }
+
+  private mapPassedMatch(match: any): MatchResult {
+    return {
+      ...match,
+      createdAt: new Date(match.createdAt),
+      expiresAt: new Date(match.expiresAt),
+      expiryWarnedAt: match.expiryWarnedAt ? new Date(match.expiryWarnedAt) : undefined
+    };
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Supabase Matching Algorithm Repository
+ * Epic 003: Matching System
+ *
+ * Keeps algorithm versions in the matching_algorithms table defined in
+ * supabase/schema.sql, one row per version with the config as JSON.
+ */
+
+import { supabase, type SupabaseClient } from '../../../lib/supabase';
+import {
+  AlgorithmVersionExistsError,
+  MatchingAlgorithmConfig,
+  MatchingAlgorithmRepository
+} from '../../../types/matching';
+
+const UNIQUE_VIOLATION = '23505';
+
+export class SupabaseMatchingAlgorithmRepository implements MatchingAlgorithmRepository {
+  constructor(private client: SupabaseClient = supabase) {}
+
+  async getAlgorithm(version: string): Promise<MatchingAlgorithmConfig | null> {
+    const { data, error } = await this.client
+      .from('matching_algorithms')
+      .select('*')
+      .eq('version', version)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? this.mapAlgorithmFromDatabase(data) : null;
+  }
+
+  async listAlgorithms(): Promise<MatchingAlgorithmConfig[]> {
+    const { data, error } = await this.client
+      .from('matching_algorithms')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(row => this.mapAlgorithmFromDatabase(row));
+  }
+
+  async saveAlgorithm(config: MatchingAlgorithmConfig): Promise<void> {
+    const { error } = await this.client
+      .from('matching_algorithms')
+      .insert({
+        version: config.version,
+        weights: config.weights,
+        penalties: config.penalties,
+        thresholds: config.thresholds,
+        features: config.features,
+        compatibility_model: config.compatibilityModel ?? null
+      });
+
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) {
+        throw new AlgorithmVersionExistsError(config.version);
+      }
+      throw error;
+    }
+  }
+
+  private mapAlgorithmFromDatabase(row: any): MatchingAlgorithmConfig {
+    return {
+      version: row.version,
+      weights: row.weights,
+      penalties: row.penalties,
+      thresholds: row.thresholds,
+      features: row.features,
+      compatibilityModel: row.compatibility_model ?? undefined
+    };
+  }
+}
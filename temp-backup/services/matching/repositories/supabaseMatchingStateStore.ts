@@ -0,0 +1,118 @@
+/**
+ * Supabase Matching State Store
+ * Epic 003: Matching System
+ *
+ * Keeps match queues and search cooldowns in the match_queues and
+ * matching_cooldowns tables defined in supabase/schema.sql, so every instance
+ * sees the same state. Expired rows are ignored on read and overwritten on the
+ * next save. Intended for the service role.
+ */
+
+import { Clock, systemClock } from '../../../lib/clock';
+import { supabase, type SupabaseClient } from '../../../lib/supabase';
+import { MatchingStateStore, MatchQueue, MatchResult } from '../../../types/matching';
+
+export class SupabaseMatchingStateStore implements MatchingStateStore {
+  constructor(private client: SupabaseClient = supabase, private clock: Clock = systemClock) {}
+
+  async getQueue(userId: string): Promise<MatchQueue | null> {
+    const { data, error } = await this.client
+      .from('match_queues')
+      .select('*')
+      .eq('user_id', userId)
+      .gt('expires_at', this.clock.now().toISOString())
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? this.mapQueueFromDatabase(data) : null;
+  }
+
+  async saveQueue(queue: MatchQueue, expiresAt: Date): Promise<void> {
+    const { error } = await this.client
+      .from('match_queues')
+      .upsert({
+        user_id: queue.userId,
+        queue_id: queue.queueId,
+        pending_matches: queue.pendingMatches,
+        processed_count: queue.processedCount,
+        total_count: queue.totalCount,
+        last_processed_at: queue.lastProcessedAt.toISOString(),
+        generated_at: queue.generatedAt.toISOString(),
+        queue_status: queue.queueStatus,
+        refresh_interval_minutes: queue.refreshInterval,
+        expires_at: expiresAt.toISOString()
+      }, { onConflict: 'user_id' });
+
+    if (error) throw error;
+  }
+
+  async listQueues(): Promise<MatchQueue[]> {
+    const { data, error } = await this.client
+      .from('match_queues')
+      .select('*')
+      .gt('expires_at', this.clock.now().toISOString());
+
+    if (error) throw error;
+    return (data || []).map(row => this.mapQueueFromDatabase(row));
+  }
+
+  async getCooldown(userId: string): Promise<Date | null> {
+    const { data, error } = await this.client
+      .from('matching_cooldowns')
+      .select('ends_at')
+      .eq('user_id', userId)
+      .gt('ends_at', this.clock.now().toISOString())
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? new Date(data.ends_at) : null;
+  }
+
+  async setCooldown(userId: string, endsAt: Date): Promise<void> {
+    const { error } = await this.client
+      .from('matching_cooldowns')
+      .upsert({ user_id: userId, ends_at: endsAt.toISOString() }, { onConflict: 'user_id' });
+
+    if (error) throw error;
+  }
+
+  async clearCooldown(userId: string): Promise<void> {
+    const { error } = await this.client
+      .from('matching_cooldowns')
+      .delete()
+      .eq('user_id', userId);
+
+    if (error) throw error;
+  }
+
+  async listCooldowns(): Promise<Map<string, Date>> {
+    const { data, error } = await this.client
+      .from('matching_cooldowns')
+      .select('user_id, ends_at')
+      .gt('ends_at', this.clock.now().toISOString());
+
+    if (error) throw error;
+    return new Map((data || []).map(row => [row.user_id, new Date(row.ends_at)] as [string, Date]));
+  }
+
+  private mapQueueFromDatabase(row: any): MatchQueue {
+    const pendingMatches: MatchResult[] = (row.pending_matches || []).map((match: any) => ({
+      ...match,
+      createdAt: new Date(match.createdAt),
+      expiresAt: new Date(match.expiresAt),
+      expiryWarnedAt: match.expiryWarnedAt ? new Date(match.expiryWarnedAt) : undefined
+    }));
+
+    return {
+      queueId: row.queue_id,
+      userId: row.user_id,
+      pendingMatches,
+      processedCount: row.processed_count ?? 0,
+      totalCount: row.total_count ?? pendingMatches.length,
+      lastProcessedAt: new Date(row.last_processed_at),
+      generatedAt: new Date(row.generated_at),
+      queueStatus: row.queue_status || 'active',
+      refreshInterval: row.refresh_interval_minutes ?? 60
+    };
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Supabase Mutual Match Repository
+ * Epic 003: Matching System
+ *
+ * Creates matches through the create_mutual_match function in supabase/schema.sql,
+ * which also flags both swipes as mutual and opens the conversation. Intended for
+ * the service role.
+ */
+
+import { supabase, type SupabaseClient } from '../../../lib/supabase';
+import {
+  CreateMutualMatchRequest,
+  CreateMutualMatchResult,
+  MutualMatch,
+  MutualMatchRepository
+} from '../../../types/matching';
+
+export class SupabaseMutualMatchRepository implements MutualMatchRepository {
+  constructor(private client: SupabaseClient = supabase) {}
+
+  async createMutualMatch(request: CreateMutualMatchRequest): Promise<CreateMutualMatchResult> {
+    const { data, error } = await this.client.rpc('create_mutual_match', {
+      p_user_id: request.userIds[0],
+      p_target_user_id: request.userIds[1],
+      p_user_match_id: request.matchIds[0],
+      p_target_match_id: request.matchIds[1],
+      p_match_score: request.compatibilityScore,
+      p_match_source: request.matchSource
+    });
+
+    if (error) throw error;
+
+    const row = Array.isArray(data) ? data[0] : data;
+    return {
+      mutualMatch: this.mapMatchFromDatabase(row, row.conversation_id),
+      created: !!row.created
+    };
+  }
+
+  async getMutualMatch(userId: string, otherUserId: string): Promise<MutualMatch | null> {
+    const [user1, user2] = [userId, otherUserId].sort();
+
+    const { data, error } = await this.client
+      .from('matches')
+      .select('*, conversations(id)')
+      .eq('user1_id', user1)
+      .eq('user2_id', user2)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? this.mapMatchFromDatabase(data, this.conversationIdOf(data)) : null;
+  }
+
+  async getMutualMatches(userId: string): Promise<MutualMatch[]> {
+    const { data, error } = await this.client
+      .from('matches')
+      .select('*, conversations(id)')
+      .or(`user1_id.eq.${userId},user2_id.eq.${userId}`)
+      .order('matched_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(row => this.mapMatchFromDatabase(row, this.conversationIdOf(row)));
+  }
+
+  async deactivateSilentMatches(matchedBefore: Date): Promise<MutualMatch[]> {
+    // matches.last_message_at is kept up to date by the messaging transport
+    const { data, error } = await this.client
+      .from('matches')
+      .update({ is_active: false })
+      .eq('is_active', true)
+      .is('last_message_at', null)
+      .lt('matched_at', matchedBefore.toISOString())
+      .select('*, conversations(id)');
+
+    if (error) throw error;
+
+    const rows = data || [];
+    if (rows.length > 0) {
+      const { error: conversationError } = await this.client
+        .from('conversations')
+        .update({ is_active: false })
+        .in('match_id', rows.map(row => row.id));
+
+      if (conversationError) throw conversationError;
+    }
+
+    return rows.map(row => this.mapMatchFromDatabase(row, this.conversationIdOf(row)));
+  }
+
+  private conversationIdOf(row: any): string {
+    // conversations.match_id is unique, but the embed may still come back as a list
+    const conversation = Array.isArray(row.conversations) ? row.conversations[0] : row.conversations;
+    return conversation?.id || '';
+  }
+
+  private mapMatchFromDatabase(row: any, conversationId: string): MutualMatch {
+    const matchedAt = new Date(row.matched_at);
+    const lastMessageAt = row.last_message_at ? new Date(row.last_message_at) : undefined;
+    const matchIds: string[] = row.source_match_ids || [];
+
+    return {
+      mutualMatchId: row.id,
+      userIds: [row.user1_id, row.user2_id],
+      matchIds: [matchIds[0] || '', matchIds[1] || ''],
+      matchedAt,
+      isActive: row.is_active ?? true,
+      compatibilityScore: Number(row.match_score) || 0,
+      conversationId,
+      conversationStarted: !!lastMessageAt,
+      firstMessageSent: !!lastMessageAt,
+      lastActivityAt: lastMessageAt || matchedAt,
+      matchSource: row.match_source || 'discovery'
+    };
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Run Exposure Report
+ * Epic 003: Matching System
+ *
+ * Prints how evenly discovery impressions were spread across profiles,
+ * read from Supabase:
+ *
+ *   runExposureReport [--since=<ISO date>]
+ *
+ * Without --since the report covers the exposure control impression window.
+ */
+
+import { getServiceRoleClient } from '../../lib/supabaseAdmin';
+import { SupabaseProfileRepository } from '../profile/repositories/supabaseProfileRepository';
+import { ExposureControlService } from './exposureControlService';
+import { SupabaseImpressionRepository } from './repositories/supabaseImpressionRepository';
+
+function parseSince(args: string[]): Date | undefined {
+  let since: Date | undefined;
+
+  for (const arg of args) {
+    const [flag, value] = arg.split('=', 2);
+    if (flag === '--since' && !isNaN(new Date(value).getTime())) {
+      since = new Date(value);
+    } else {
+      throw new Error(`Invalid argument: ${arg}`);
+    }
+  }
+  return since;
+}
+
+if (require.main === module) {
+  // Impressions are only readable with the service role
+  const client = getServiceRoleClient();
+  const exposure = ExposureControlService.getInstance({
+    impressions: new SupabaseImpressionRepository(client),
+    profiles: new SupabaseProfileRepository(client)
+  });
+
+  Promise.resolve()
+    .then(() => exposure.getExposureReport(parseSince(process.argv.slice(2))))
+    .then(report => {
+      console.log(JSON.stringify(report, null, 2));
+      process.exit(0);
+    })
+    .catch(error => {
+      console.error(error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,176 @@
+import { MessagingService } from '../messagingService';
+import { InMemoryMessagingTransport } from '../transports/inMemoryMessagingTransport';
+import {
+  MatchRecord,
+  MessageValidationError,
+  MessagingPermissionError,
+  ReadReceipt
+} from '../../../types/messaging';
+
+describe('MessagingService', () => {
+  const transport = new InMemoryMessagingTransport();
+  const service = MessagingService.getInstance(transport);
+
+  const match: MatchRecord = {
+    id: 'match_1',
+    user1Id: 'alice',
+    user2Id: 'bob',
+    matchedAt: new Date(),
+    isActive: true
+  };
+
+  let conversationId: string;
+
+  beforeEach(async () => {
+    service.stop();
+    transport.clear();
+    service.start();
+
+    transport.addMatch(match);
+    // Conversations are opened asynchronously by the match handler
+    await new Promise(resolve => setImmediate(resolve));
+    const conversation = await transport.getConversationByMatchId('match_1');
+    conversationId = conversation!.id;
+  });
+
+  afterAll(() => {
+    service.stop();
+  });
+
+  describe('Conversations', () => {
+    it('should open a conversation when a match is created', async () => {
+      const conversation = await transport.getConversationByMatchId('match_1');
+
+      expect(conversation).not.toBeNull();
+      expect(conversation!.isActive).toBe(true);
+    });
+
+    it('should reuse the existing conversation for a match', async () => {
+      const conversation = await service.getOrCreateConversation('bob', 'match_1');
+
+      expect(conversation.id).toBe(conversationId);
+    });
+
+    it('should not let outsiders open a conversation', async () => {
+      await expect(service.getOrCreateConversation('mallory', 'match_1'))
+        .rejects.toBeInstanceOf(MessagingPermissionError);
+    });
+  });
+
+  describe('Sending Messages', () => {
+    it('should send a text message and update last message timestamps', async () => {
+      const message = await service.sendMessage('alice', { conversationId, content: '  Hi Bob!  ' });
+
+      expect(message.content).toBe('Hi Bob!');
+      expect(message.type).toBe('text');
+      expect(message.isRead).toBe(false);
+
+      const conversation = await transport.getConversation(conversationId);
+      const updatedMatch = await transport.getMatch('match_1');
+      expect(conversation!.lastMessageAt).toEqual(message.createdAt);
+      expect(updatedMatch!.lastMessageAt).toEqual(message.createdAt);
+    });
+
+    it('should send media messages with metadata', async () => {
+      const message = await service.sendMessage('bob', {
+        conversationId,
+        type: 'image',
+        metadata: { url: 'https://cdn.example.com/a.jpg', width: 800, height: 600 }
+      });
+
+      expect(message.type).toBe('image');
+      expect(message.content).toBeNull();
+      expect(message.metadata!.width).toBe(800);
+    });
+
+    it('should validate message content', async () => {
+      await expect(service.sendMessage('alice', { conversationId, content: '   ' }))
+        .rejects.toBeInstanceOf(MessageValidationError);
+      await expect(service.sendMessage('alice', { conversationId, type: 'video' }))
+        .rejects.toThrow('Message validation failed');
+      await expect(service.sendMessage('alice', { conversationId, content: 'x'.repeat(2001) }))
+        .rejects.toBeInstanceOf(MessageValidationError);
+    });
+
+    it('should reject senders outside the match', async () => {
+      await expect(service.sendMessage('mallory', { conversationId, content: 'hey' }))
+        .rejects.toBeInstanceOf(MessagingPermissionError);
+    });
+  });
+
+  describe('History', () => {
+    it('should page through history newest first with cursors', async () => {
+      for (let i = 1; i <= 5; i++) {
+        await service.sendMessage(i % 2 ? 'alice' : 'bob', { conversationId, content: `message ${i}` });
+      }
+
+      const first = await service.getMessages('bob', conversationId, { limit: 2 });
+      const second = await service.getMessages('bob', conversationId, { limit: 2, cursor: first.nextCursor });
+      const third = await service.getMessages('bob', conversationId, { limit: 2, cursor: second.nextCursor });
+
+      expect(first.messages.map(m => m.content)).toEqual(['message 5', 'message 4']);
+      expect(second.messages.map(m => m.content)).toEqual(['message 3', 'message 2']);
+      expect(third.messages.map(m => m.content)).toEqual(['message 1']);
+      expect(third.nextCursor).toBeUndefined();
+    });
+
+    it('should reject malformed cursors', async () => {
+      await expect(service.getMessages('bob', conversationId, { cursor: 'garbage' }))
+        .rejects.toBeInstanceOf(MessageValidationError);
+    });
+  });
+
+  describe('Editing and Deleting', () => {
+    it('should let the sender edit a text message', async () => {
+      const message = await service.sendMessage('alice', { conversationId, content: 'helo' });
+
+      const edited = await service.editMessage('alice', message.id, 'hello');
+
+      expect(edited.content).toBe('hello');
+      expect(edited.metadata!.editedAt).toBeInstanceOf(Date);
+      await expect(service.editMessage('bob', message.id, 'hijacked'))
+        .rejects.toBeInstanceOf(MessagingPermissionError);
+    });
+
+    it('should soft-delete messages and hide their content', async () => {
+      const message = await service.sendMessage('alice', { conversationId, content: 'oops' });
+
+      const deleted = await service.deleteMessage('alice', message.id);
+      const page = await service.getMessages('bob', conversationId);
+
+      expect(deleted.isDeleted).toBe(true);
+      expect(page.messages).toHaveLength(1);
+      expect(page.messages[0]).toMatchObject({ id: message.id, isDeleted: true, content: null });
+      await expect(service.editMessage('alice', message.id, 'again'))
+        .rejects.toBeInstanceOf(MessageValidationError);
+    });
+  });
+
+  describe('Read Receipts', () => {
+    it('should mark only the other participant\'s messages as read', async () => {
+      const receipts: ReadReceipt[] = [];
+      const unsubscribe = service.onReadReceipt(receipt => receipts.push(receipt));
+
+      const fromAlice = await service.sendMessage('alice', { conversationId, content: 'one' });
+      await service.sendMessage('alice', { conversationId, content: 'two' });
+      await service.sendMessage('bob', { conversationId, content: 'reply' });
+
+      expect(await service.getUnreadCount('bob', conversationId)).toBe(2);
+
+      const partial = await service.markAsRead('bob', conversationId, fromAlice.id);
+      expect(partial.messageIds).toEqual([fromAlice.id]);
+      expect(await service.getUnreadCount('bob', conversationId)).toBe(1);
+
+      const rest = await service.markAsRead('bob', conversationId);
+      expect(rest.messageIds).toHaveLength(1);
+      expect(await service.getUnreadCount('bob', conversationId)).toBe(0);
+      expect(await service.getUnreadCount('alice', conversationId)).toBe(1);
+
+      // Nothing new to read produces an empty receipt without notifying
+      await service.markAsRead('bob', conversationId);
+      expect(receipts).toHaveLength(2);
+
+      unsubscribe();
+    });
+  });
+});
@@ -0,0 +1,9 @@
+/**
+ * Messaging Services Export
+ * Epic 004: Communication Features
+ */
+
+export { MessagingService } from './messagingService';
+export { InMemoryMessagingTransport, SupabaseMessagingTransport } from './transports';
+
+export type { MessagingServiceConfig } from './messagingService';
@@ -0,0 +1,379 @@
+/**
+ * Messaging Service
+ * Epic 004: Communication Features
+ *
+ * Opens conversations for new matches and handles sending, paging, editing,
+ * deleting and reading messages between matched users
+ */
+
+import {
+  Conversation,
+  ConversationNotFoundError,
+  MatchRecord,
+  Message,
+  MessageKey,
+  MessageMetadata,
+  MessageNotFoundError,
+  MessagePage,
+  MessagePageRequest,
+  MessageType,
+  MessageValidationError,
+  MessagingErrorDetail,
+  MessagingPermissionError,
+  MessagingTransport,
+  ReadReceipt,
+  SendMessageRequest
+} from '../../types/messaging';
+import { InMemoryMessagingTransport } from './transports/inMemoryMessagingTransport';
+
+export interface MessagingServiceConfig {
+  maxTextLength: number;
+  defaultPageSize: number;
+  maxPageSize: number;
+  editWindowMinutes: number; // how long after sending a text message can be edited
+}
+
+const MEDIA_MESSAGE_TYPES: MessageType[] = ['image', 'video', 'audio', 'gif'];
+
+export class MessagingService {
+  private static instance: MessagingService;
+  private transport: MessagingTransport;
+  private readReceiptListeners: Set<(receipt: ReadReceipt) => void> = new Set();
+  private unsubscribeFromMatches?: () => void;
+
+  private config: MessagingServiceConfig = {
+    maxTextLength: 2000,
+    defaultPageSize: 30,
+    maxPageSize: 100,
+    editWindowMinutes: 15
+  };
+
+  private constructor(transport?: MessagingTransport) {
+    this.transport = transport || new InMemoryMessagingTransport();
+  }
+
+  public static getInstance(transport?: MessagingTransport): MessagingService {
+    if (!MessagingService.instance) {
+      MessagingService.instance = new MessagingService(transport);
+    } else if (transport) {
+      MessagingService.instance.setTransport(transport);
+    }
+    return MessagingService.instance;
+  }
+
+  /**
+   * Swap the transport (e.g. Supabase in production, in-memory in tests)
+   */
+  setTransport(transport: MessagingTransport): void {
+    this.stop();
+    this.transport = transport;
+  }
+
+  /**
+   * Start opening conversations automatically as matches are created
+   */
+  start(): void {
+    if (this.unsubscribeFromMatches) return;
+
+    this.unsubscribeFromMatches = this.transport.onMatchCreated(match => {
+      this.handleMatchCreated(match).catch(error => {
+        console.error(`Failed to open conversation for match ${match.id}:`, error);
+      });
+    });
+  }
+
+  /**
+   * Stop listening for new matches
+   */
+  stop(): void {
+    this.unsubscribeFromMatches?.();
+    this.unsubscribeFromMatches = undefined;
+  }
+
+  // ===== CONVERSATIONS =====
+
+  /**
+   * Open the conversation for a newly created match
+   */
+  async handleMatchCreated(match: MatchRecord): Promise<Conversation | null> {
+    if (!match.isActive) return null;
+    return this.transport.createConversation(match.id);
+  }
+
+  /**
+   * Get or create the conversation for a match
+   */
+  async getOrCreateConversation(userId: string, matchId: string): Promise<Conversation> {
+    const match = await this.transport.getMatch(matchId);
+    if (!match || !this.isParticipant(match, userId)) {
+      throw new MessagingPermissionError('open conversation', matchId);
+    }
+
+    return this.transport.createConversation(matchId);
+  }
+
+  /**
+   * Get a conversation the user participates in
+   */
+  async getConversation(userId: string, conversationId: string): Promise<Conversation> {
+    const { conversation } = await this.getParticipantConversation(userId, conversationId, 'view conversation');
+    return conversation;
+  }
+
+  // ===== MESSAGES =====
+
+  /**
+   * Send a message to a conversation
+   */
+  async sendMessage(senderId: string, request: SendMessageRequest): Promise<Message> {
+    const { conversation, match } = await this.getParticipantConversation(
+      senderId,
+      request.conversationId,
+      'send message'
+    );
+
+    if (!conversation.isActive || !match.isActive) {
+      throw new MessageValidationError([{
+        code: 'CONVERSATION_INACTIVE',
+        message: 'This conversation is no longer active'
+      }]);
+    }
+
+    const type = request.type || 'text';
+    const errors = this.validateMessage(type, request.content, request.metadata);
+    if (errors.length > 0) {
+      throw new MessageValidationError(errors);
+    }
+
+    const message = await this.transport.insertMessage({
+      conversationId: conversation.id,
+      senderId,
+      content: request.content?.trim() || null,
+      type,
+      metadata: request.metadata,
+      isRead: false,
+      isDeleted: false
+    });
+
+    // Keep conversation and match ordering current
+    await Promise.all([
+      this.transport.updateConversationLastMessageAt(conversation.id, message.createdAt),
+      this.transport.updateMatchLastMessageAt(match.id, message.createdAt)
+    ]);
+
+    return message;
+  }
+
+  /**
+   * Page through a conversation's history, newest first
+   */
+  async getMessages(userId: string, conversationId: string, request: MessagePageRequest = {}): Promise<MessagePage> {
+    await this.getParticipantConversation(userId, conversationId, 'read messages');
+
+    const limit = Math.min(Math.max(request.limit || this.config.defaultPageSize, 1), this.config.maxPageSize);
+    const before = request.cursor ? this.decodeCursor(request.cursor) : undefined;
+
+    // Fetch one extra row to know whether another page exists
+    const rows = await this.transport.listMessages(conversationId, { limit: limit + 1, before });
+    const messages = rows.slice(0, limit);
+    const hasMore = rows.length > limit;
+
+    return {
+      messages: messages.map(message => this.redactDeleted(message)),
+      nextCursor: hasMore ? this.encodeCursor(messages[messages.length - 1]) : undefined
+    };
+  }
+
+  /**
+   * Edit the text of a recently sent message
+   */
+  async editMessage(senderId: string, messageId: string, content: string): Promise<Message> {
+    const message = await this.getOwnMessage(senderId, messageId, 'edit message');
+
+    if (message.isDeleted) {
+      throw new MessageValidationError([{ code: 'MESSAGE_DELETED', message: 'Deleted messages cannot be edited' }]);
+    }
+    if (message.type !== 'text') {
+      throw new MessageValidationError([{ code: 'MESSAGE_NOT_EDITABLE', message: 'Only text messages can be edited' }]);
+    }
+
+    const editDeadline = message.createdAt.getTime() + this.config.editWindowMinutes * 60 * 1000;
+    if (Date.now() > editDeadline) {
+      throw new MessageValidationError([{
+        code: 'EDIT_WINDOW_EXPIRED',
+        message: `Messages can only be edited within ${this.config.editWindowMinutes} minutes of sending`
+      }]);
+    }
+
+    const errors = this.validateMessage('text', content);
+    if (errors.length > 0) {
+      throw new MessageValidationError(errors);
+    }
+
+    return this.transport.updateMessage(messageId, {
+      content: content.trim(),
+      metadata: { ...message.metadata, editedAt: new Date() }
+    });
+  }
+
+  /**
+   * Soft-delete a message. The row is kept but its content is cleared.
+   */
+  async deleteMessage(senderId: string, messageId: string): Promise<Message> {
+    const message = await this.getOwnMessage(senderId, messageId, 'delete message');
+    if (message.isDeleted) {
+      return this.redactDeleted(message);
+    }
+
+    const deleted = await this.transport.updateMessage(messageId, {
+      isDeleted: true,
+      content: null,
+      metadata: undefined
+    });
+    return this.redactDeleted(deleted);
+  }
+
+  // ===== READ RECEIPTS =====
+
+  /**
+   * Mark the other participant's messages as read, optionally up to a message
+   */
+  async markAsRead(readerId: string, conversationId: string, upToMessageId?: string): Promise<ReadReceipt> {
+    await this.getParticipantConversation(readerId, conversationId, 'mark messages read');
+
+    let upTo: MessageKey | undefined;
+    if (upToMessageId) {
+      const message = await this.transport.getMessage(upToMessageId);
+      if (!message || message.conversationId !== conversationId) {
+        throw new MessageNotFoundError(upToMessageId);
+      }
+      upTo = { createdAt: message.createdAt, id: message.id };
+    }
+
+    const messageIds = await this.transport.markMessagesRead(conversationId, readerId, upTo);
+    const receipt: ReadReceipt = {
+      conversationId,
+      readerId,
+      messageIds,
+      readAt: new Date()
+    };
+
+    if (messageIds.length > 0) {
+      this.readReceiptListeners.forEach(listener => listener(receipt));
+    }
+
+    return receipt;
+  }
+
+  /**
+   * Listen for read receipts; returns an unsubscribe function
+   */
+  onReadReceipt(listener: (receipt: ReadReceipt) => void): () => void {
+    this.readReceiptListeners.add(listener);
+    return () => {
+      this.readReceiptListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Count messages the user has not read yet
+   */
+  async getUnreadCount(userId: string, conversationId: string): Promise<number> {
+    await this.getParticipantConversation(userId, conversationId, 'read messages');
+    return this.transport.countUnreadMessages(conversationId, userId);
+  }
+
+  /**
+   * Update messaging configuration
+   */
+  updateConfig(newConfig: Partial<MessagingServiceConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  // ===== HELPERS =====
+
+  private async getParticipantConversation(
+    userId: string,
+    conversationId: string,
+    action: string
+  ): Promise<{ conversation: Conversation; match: MatchRecord }> {
+    const conversation = await this.transport.getConversation(conversationId);
+    if (!conversation) {
+      throw new ConversationNotFoundError(conversationId);
+    }
+
+    const match = await this.transport.getMatch(conversation.matchId);
+    if (!match || !this.isParticipant(match, userId)) {
+      throw new MessagingPermissionError(action, conversationId);
+    }
+
+    return { conversation, match };
+  }
+
+  private async getOwnMessage(senderId: string, messageId: string, action: string): Promise<Message> {
+    const message = await this.transport.getMessage(messageId);
+    if (!message) {
+      throw new MessageNotFoundError(messageId);
+    }
+    if (message.senderId !== senderId) {
+      throw new MessagingPermissionError(action, messageId);
+    }
+    return message;
+  }
+
+  private isParticipant(match: MatchRecord, userId: string): boolean {
+    return match.user1Id === userId || match.user2Id === userId;
+  }
+
+  private validateMessage(type: MessageType, content?: string, metadata?: MessageMetadata): MessagingErrorDetail[] {
+    const errors: MessagingErrorDetail[] = [];
+
+    if (type === 'text') {
+      if (!content || content.trim().length === 0) {
+        errors.push({ code: 'CONTENT_REQUIRED', message: 'Text messages cannot be empty', field: 'content' });
+      } else if (content.length > this.config.maxTextLength) {
+        errors.push({
+          code: 'CONTENT_TOO_LONG',
+          message: `Messages must be no more than ${this.config.maxTextLength} characters`,
+          field: 'content'
+        });
+      }
+    } else if (MEDIA_MESSAGE_TYPES.includes(type)) {
+      if (!metadata?.url) {
+        errors.push({ code: 'MEDIA_URL_REQUIRED', message: `${type} messages require a media URL`, field: 'metadata.url' });
+      }
+      if (content && content.length > this.config.maxTextLength) {
+        errors.push({
+          code: 'CAPTION_TOO_LONG',
+          message: `Captions must be no more than ${this.config.maxTextLength} characters`,
+          field: 'content'
+        });
+      }
+    } else {
+      errors.push({ code: 'INVALID_MESSAGE_TYPE', message: `Unsupported message type: ${type}`, field: 'type' });
+    }
+
+    return errors;
+  }
+
+  private redactDeleted(message: Message): Message {
+    if (!message.isDeleted) return message;
+    return { ...message, content: null, metadata: undefined };
+  }
+
+  private encodeCursor(message: Message): string {
+    return `${message.createdAt.getTime()}_${message.id}`;
+  }
+
+  private decodeCursor(cursor: string): MessageKey {
+    const separator = cursor.indexOf('_');
+    const timestamp = Number(cursor.slice(0, separator));
+    const id = cursor.slice(separator + 1);
+
+    if (separator <= 0 || !Number.isFinite(timestamp) || !id) {
+      throw new MessageValidationError([{ code: 'INVALID_CURSOR', message: 'Invalid page cursor', field: 'cursor' }]);
+    }
+
+    return { createdAt: new Date(timestamp), id };
+  }
+}
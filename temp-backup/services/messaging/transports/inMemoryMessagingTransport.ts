@@ -0,0 +1,174 @@
+/**
+ * In-Memory Messaging Transport
+ * Epic 004: Communication Features
+ *
+ * Process-local conversations and messages used by tests and offline development
+ */
+
+import {
+  Conversation,
+  MatchRecord,
+  Message,
+  MessageKey,
+  MessageListOptions,
+  MessagingTransport
+} from '../../../types/messaging';
+
+export class InMemoryMessagingTransport implements MessagingTransport {
+  private matches: Map<string, MatchRecord> = new Map();
+  private conversations: Map<string, Conversation> = new Map();
+  private messages: Map<string, Message> = new Map();
+  private matchHandlers: Set<(match: MatchRecord) => void> = new Set();
+  private sequence = 0;
+
+  /**
+   * Simulate a matches row being inserted
+   */
+  addMatch(match: MatchRecord): void {
+    this.matches.set(match.id, { ...match });
+    this.matchHandlers.forEach(handler => handler({ ...match }));
+  }
+
+  async getMatch(matchId: string): Promise<MatchRecord | null> {
+    const match = this.matches.get(matchId);
+    return match ? { ...match } : null;
+  }
+
+  async updateMatchLastMessageAt(matchId: string, lastMessageAt: Date): Promise<void> {
+    const match = this.matches.get(matchId);
+    if (match) {
+      match.lastMessageAt = lastMessageAt;
+    }
+  }
+
+  async getConversation(conversationId: string): Promise<Conversation | null> {
+    const conversation = this.conversations.get(conversationId);
+    return conversation ? { ...conversation } : null;
+  }
+
+  async getConversationByMatchId(matchId: string): Promise<Conversation | null> {
+    const conversation = Array.from(this.conversations.values()).find(c => c.matchId === matchId);
+    return conversation ? { ...conversation } : null;
+  }
+
+  async createConversation(matchId: string): Promise<Conversation> {
+    const existing = await this.getConversationByMatchId(matchId);
+    if (existing) {
+      return existing;
+    }
+
+    const conversation: Conversation = {
+      id: `conversation_${this.nextSequence()}`,
+      matchId,
+      isActive: true,
+      createdAt: new Date()
+    };
+    this.conversations.set(conversation.id, conversation);
+    return { ...conversation };
+  }
+
+  async updateConversationLastMessageAt(conversationId: string, lastMessageAt: Date): Promise<void> {
+    const conversation = this.conversations.get(conversationId);
+    if (conversation) {
+      conversation.lastMessageAt = lastMessageAt;
+    }
+  }
+
+  async insertMessage(message: Omit<Message, 'id' | 'createdAt' | 'updatedAt'>): Promise<Message> {
+    const now = new Date();
+    const stored: Message = {
+      ...message,
+      // Sequential IDs keep same-millisecond messages in insertion order
+      id: `message_${this.nextSequence()}`,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.messages.set(stored.id, stored);
+    return { ...stored };
+  }
+
+  async getMessage(messageId: string): Promise<Message | null> {
+    const message = this.messages.get(messageId);
+    return message ? { ...message } : null;
+  }
+
+  async updateMessage(
+    messageId: string,
+    updates: Partial<Pick<Message, 'content' | 'metadata' | 'isDeleted'>>
+  ): Promise<Message> {
+    const message = this.messages.get(messageId);
+    if (!message) {
+      throw new Error(`Message not found: ${messageId}`);
+    }
+
+    const updated: Message = { ...message, ...updates, updatedAt: new Date() };
+    this.messages.set(messageId, updated);
+    return { ...updated };
+  }
+
+  async listMessages(conversationId: string, options: MessageListOptions): Promise<Message[]> {
+    const before = options.before;
+
+    return Array.from(this.messages.values())
+      .filter(message => message.conversationId === conversationId)
+      .filter(message => !before || this.compare(message, before) < 0)
+      .sort((a, b) => this.compare(b, a))
+      .slice(0, options.limit)
+      .map(message => ({ ...message }));
+  }
+
+  async markMessagesRead(conversationId: string, readerId: string, upTo?: MessageKey): Promise<string[]> {
+    const marked: string[] = [];
+
+    this.messages.forEach(message => {
+      if (
+        message.conversationId === conversationId &&
+        message.senderId !== readerId &&
+        !message.isRead &&
+        (!upTo || this.compare(message, upTo) <= 0)
+      ) {
+        message.isRead = true;
+        marked.push(message.id);
+      }
+    });
+
+    return marked;
+  }
+
+  async countUnreadMessages(conversationId: string, readerId: string): Promise<number> {
+    return Array.from(this.messages.values()).filter(message =>
+      message.conversationId === conversationId &&
+      message.senderId !== readerId &&
+      !message.isRead &&
+      !message.isDeleted
+    ).length;
+  }
+
+  onMatchCreated(handler: (match: MatchRecord) => void): () => void {
+    this.matchHandlers.add(handler);
+    return () => {
+      this.matchHandlers.delete(handler);
+    };
+  }
+
+  /**
+   * Remove all stored data and subscriptions
+   */
+  clear(): void {
+    this.matches.clear();
+    this.conversations.clear();
+    this.messages.clear();
+    this.matchHandlers.clear();
+  }
+
+  private nextSequence(): string {
+    this.sequence += 1;
+    return String(this.sequence).padStart(8, '0');
+  }
+
+  private compare(message: Message, key: MessageKey): number {
+    const timeDiff = message.createdAt.getTime() - key.createdAt.getTime();
+    if (timeDiff !== 0) return timeDiff;
+    return message.id < key.id ? -1 : message.id > key.id ? 1 : 0;
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Messaging Transports
+ * Storage and change-feed backends for the messaging service
+ */
+
+export { InMemoryMessagingTransport } from './inMemoryMessagingTransport';
+export { SupabaseMessagingTransport } from './supabaseMessagingTransport';
+export type { MessagingTransport } from '../../../types/messaging';
@@ -0,0 +1,242 @@
+/**
+ * Supabase Messaging Transport
+ * Epic 004: Communication Features
+ *
+ * Maps conversations and messages onto the conversations, messages and
+ * matches tables defined in supabase/schema.sql
+ */
+
+import { supabase, type SupabaseClient } from '../../../lib/supabase';
+import {
+  Conversation,
+  MatchRecord,
+  Message,
+  MessageKey,
+  MessageListOptions,
+  MessagingTransport
+} from '../../../types/messaging';
+
+export class SupabaseMessagingTransport implements MessagingTransport {
+  constructor(private client: SupabaseClient = supabase) {}
+
+  async getMatch(matchId: string): Promise<MatchRecord | null> {
+    const { data, error } = await this.client
+      .from('matches')
+      .select('*')
+      .eq('id', matchId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? this.mapMatchFromDatabase(data) : null;
+  }
+
+  async updateMatchLastMessageAt(matchId: string, lastMessageAt: Date): Promise<void> {
+    // Participants cannot update matches directly; the function checks membership
+    const { error } = await this.client.rpc('touch_match_last_message_at', {
+      p_match_id: matchId,
+      p_last_message_at: lastMessageAt.toISOString()
+    });
+
+    if (error) throw error;
+  }
+
+  async getConversation(conversationId: string): Promise<Conversation | null> {
+    const { data, error } = await this.client
+      .from('conversations')
+      .select('*')
+      .eq('id', conversationId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? this.mapConversationFromDatabase(data) : null;
+  }
+
+  async getConversationByMatchId(matchId: string): Promise<Conversation | null> {
+    const { data, error } = await this.client
+      .from('conversations')
+      .select('*')
+      .eq('match_id', matchId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? this.mapConversationFromDatabase(data) : null;
+  }
+
+  async createConversation(matchId: string): Promise<Conversation> {
+    // match_id is UNIQUE, so concurrent creators converge on one row
+    const { error } = await this.client
+      .from('conversations')
+      .upsert({ match_id: matchId }, { onConflict: 'match_id', ignoreDuplicates: true });
+
+    if (error) throw error;
+
+    const conversation = await this.getConversationByMatchId(matchId);
+    if (!conversation) {
+      throw new Error(`Failed to create conversation for match ${matchId}`);
+    }
+    return conversation;
+  }
+
+  async updateConversationLastMessageAt(conversationId: string, lastMessageAt: Date): Promise<void> {
+    const { error } = await this.client
+      .from('conversations')
+      .update({ last_message_at: lastMessageAt.toISOString() })
+      .eq('id', conversationId);
+
+    if (error) throw error;
+  }
+
+  async insertMessage(message: Omit<Message, 'id' | 'createdAt' | 'updatedAt'>): Promise<Message> {
+    const { data, error } = await this.client
+      .from('messages')
+      .insert({
+        conversation_id: message.conversationId,
+        sender_id: message.senderId,
+        content: message.content,
+        message_type: message.type,
+        metadata: message.metadata,
+        is_read: message.isRead,
+        is_deleted: message.isDeleted
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.mapMessageFromDatabase(data);
+  }
+
+  async getMessage(messageId: string): Promise<Message | null> {
+    const { data, error } = await this.client
+      .from('messages')
+      .select('*')
+      .eq('id', messageId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? this.mapMessageFromDatabase(data) : null;
+  }
+
+  async updateMessage(
+    messageId: string,
+    updates: Partial<Pick<Message, 'content' | 'metadata' | 'isDeleted'>>
+  ): Promise<Message> {
+    const row: Record<string, any> = { updated_at: new Date().toISOString() };
+    if (updates.content !== undefined) row.content = updates.content;
+    if (updates.metadata !== undefined) row.metadata = updates.metadata;
+    if (updates.isDeleted !== undefined) row.is_deleted = updates.isDeleted;
+
+    const { data, error } = await this.client
+      .from('messages')
+      .update(row)
+      .eq('id', messageId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.mapMessageFromDatabase(data);
+  }
+
+  async listMessages(conversationId: string, options: MessageListOptions): Promise<Message[]> {
+    // created_at has microseconds but a Date only keeps milliseconds, so keyset
+    // positions are compared in SQL against the key message's own row
+    const { data, error } = options.before
+      ? await this.client.rpc('list_messages_before', {
+        p_conversation_id: conversationId,
+        p_before_id: options.before.id,
+        p_limit: options.limit
+      })
+      : await this.client
+        .from('messages')
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(options.limit);
+
+    if (error) throw error;
+    return (data || []).map((row: any) => this.mapMessageFromDatabase(row));
+  }
+
+  async markMessagesRead(conversationId: string, readerId: string, upTo?: MessageKey): Promise<string[]> {
+    // Readers may not update the other person's messages directly, so read
+    // receipts always go through the function
+    const { data, error } = await this.client.rpc('mark_messages_read', {
+      p_conversation_id: conversationId,
+      p_reader_id: readerId,
+      p_up_to_id: upTo ? upTo.id : null
+    });
+
+    if (error) throw error;
+    return (data || []).map((row: { id: string }) => row.id);
+  }
+
+  async countUnreadMessages(conversationId: string, readerId: string): Promise<number> {
+    const { count, error } = await this.client
+      .from('messages')
+      .select('id', { count: 'exact', head: true })
+      .eq('conversation_id', conversationId)
+      .neq('sender_id', readerId)
+      .eq('is_read', false)
+      .eq('is_deleted', false);
+
+    if (error) throw error;
+    return count || 0;
+  }
+
+  onMatchCreated(handler: (match: MatchRecord) => void): () => void {
+    const channel = this.client
+      .channel('messaging:matches')
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'matches'
+        },
+        (payload: any) => handler(this.mapMatchFromDatabase(payload.new))
+      )
+      .subscribe();
+
+    return () => {
+      this.client.removeChannel(channel);
+    };
+  }
+
+  // ===== MAPPING =====
+
+  private mapMatchFromDatabase(row: any): MatchRecord {
+    return {
+      id: row.id,
+      user1Id: row.user1_id,
+      user2Id: row.user2_id,
+      matchedAt: new Date(row.matched_at),
+      isActive: row.is_active !== false,
+      lastMessageAt: row.last_message_at ? new Date(row.last_message_at) : undefined
+    };
+  }
+
+  private mapConversationFromDatabase(row: any): Conversation {
+    return {
+      id: row.id,
+      matchId: row.match_id,
+      isActive: row.is_active !== false,
+      lastMessageAt: row.last_message_at ? new Date(row.last_message_at) : undefined,
+      createdAt: new Date(row.created_at)
+    };
+  }
+
+  private mapMessageFromDatabase(row: any): Message {
+    return {
+      id: row.id,
+      conversationId: row.conversation_id,
+      senderId: row.sender_id,
+      content: row.content,
+      type: row.message_type || 'text',
+      metadata: row.metadata || undefined,
+      isRead: row.is_read === true,
+      isDeleted: row.is_deleted === true,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+}
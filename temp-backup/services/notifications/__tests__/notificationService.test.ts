@@ -0,0 +1,256 @@
+import { NotificationService } from '../notificationService';
+import {
+  EmailNotificationChannel,
+  InAppNotificationChannel,
+  PushNotificationChannel
+} from '../channels/notificationChannels';
+import { InMemoryNotificationRepository } from '../repositories/inMemoryNotificationRepository';
+import { InMemoryMatchNotifier } from '../../matching/notifiers/inMemoryMatchNotifier';
+import { Clock } from '../../../lib/clock';
+import { MatchNotification } from '../../../types/matching';
+import { NotificationValidationError } from '../../../types/notifications';
+
+describe('NotificationService', () => {
+  const MINUTE = 60 * 1000;
+
+  let currentTime: Date;
+  let repository: InMemoryNotificationRepository;
+  let push: PushNotificationChannel;
+  let email: EmailNotificationChannel;
+  let inApp: InMemoryMatchNotifier;
+  let service: NotificationService;
+  let sequence = 0;
+
+  const clock: Clock = { now: () => currentTime };
+
+  const advance = (minutes: number) => {
+    currentTime = new Date(currentTime.getTime() + minutes * MINUTE);
+  };
+
+  const buildNotification = (overrides: Partial<MatchNotification> = {}): MatchNotification => ({
+    notificationId: `notification_${++sequence}`,
+    userId: 'alice',
+    type: 'mutual_match',
+    title: "It's a match!",
+    body: 'You and bob liked each other',
+    data: { otherUserId: 'bob' },
+    scheduledFor: currentTime,
+    status: 'pending',
+    priority: 'high',
+    channels: ['push', 'email', 'in_app'],
+    ...overrides
+  });
+
+  beforeEach(() => {
+    currentTime = new Date('2025-06-01T12:00:00Z');
+    repository = new InMemoryNotificationRepository();
+    push = new PushNotificationChannel();
+    email = new EmailNotificationChannel();
+    inApp = new InMemoryMatchNotifier();
+    service = NotificationService.getInstance({
+      repository,
+      channels: [push, email, new InAppNotificationChannel(inApp)],
+      clock
+    });
+    service.updateConfig({
+      maxAttempts: 3,
+      retryBaseDelaySeconds: 60,
+      batchWindowMinutes: 5,
+      maxPerHour: 10,
+      rateLimitDeferMinutes: 15
+    });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Scheduling and Delivery', () => {
+    it('should deliver a due notification on every channel and track it as sent', async () => {
+      const { notificationId } = await service.schedule(buildNotification());
+
+      const summary = await service.processDueNotifications();
+
+      expect(summary).toMatchObject({ processed: 1, sent: 1 });
+      expect(push.getSentNotifications()).toHaveLength(1);
+      expect(email.getSentNotifications()[0].body).toBe('You and bob liked each other');
+      expect(inApp.getNotifications('alice')[0].notificationId).toBe(notificationId);
+
+      const stored = await service.getNotification(notificationId);
+      expect(stored.status).toBe('sent');
+      expect(stored.sentAt).toEqual(currentTime);
+      expect(stored.deliveries.map(d => d.channel).sort()).toEqual(['email', 'in_app', 'push']);
+
+      expect((await service.markDelivered(notificationId)).status).toBe('delivered');
+    });
+
+    it('should wait until the scheduled time', async () => {
+      await service.schedule(buildNotification({ scheduledFor: new Date(currentTime.getTime() + 30 * MINUTE) }));
+
+      expect((await service.processDueNotifications()).processed).toBe(0);
+
+      advance(30);
+      expect((await service.processDueNotifications()).sent).toBe(1);
+    });
+
+    it('should not deliver cancelled notifications', async () => {
+      const { notificationId } = await service.schedule(buildNotification());
+
+      await service.cancel(notificationId);
+
+      expect((await service.processDueNotifications()).processed).toBe(0);
+      expect((await service.getNotification(notificationId)).status).toBe('cancelled');
+    });
+
+    it('should act as a MatchNotifier', async () => {
+      await service.notify(buildNotification());
+      await service.processDueNotifications();
+
+      expect(push.getSentNotifications()).toHaveLength(1);
+    });
+  });
+
+  describe('User Settings', () => {
+    it('should cancel notification types the user switched off', async () => {
+      await service.updatePreferences('alice', { settings: { mutualMatches: false } });
+
+      const queued = await service.schedule(buildNotification());
+
+      expect(queued.status).toBe('cancelled');
+      expect((await service.processDueNotifications()).processed).toBe(0);
+    });
+
+    it('should skip channels the user switched off, including after queueing', async () => {
+      await service.updatePreferences('alice', { settings: { emailNotifications: false } });
+      const { notificationId } = await service.schedule(buildNotification());
+      await service.updatePreferences('alice', { settings: { pushNotifications: false } });
+
+      await service.processDueNotifications();
+
+      expect(email.getSentNotifications()).toHaveLength(0);
+      expect(push.getSentNotifications()).toHaveLength(0);
+      expect(inApp.getNotifications('alice')).toHaveLength(1);
+      expect((await service.getNotification(notificationId)).channels).toEqual(['in_app']);
+    });
+
+    it('should hold notifications until quiet hours end', async () => {
+      // 23:30 local time at UTC+1
+      currentTime = new Date('2025-06-01T22:30:00Z');
+      await service.updatePreferences('alice', {
+        quietHours: { startHour: 22, endHour: 7, utcOffsetMinutes: 60 }
+      });
+      const { notificationId } = await service.schedule(buildNotification());
+
+      expect((await service.processDueNotifications()).deferred).toBe(1);
+      expect((await service.getNotification(notificationId)).nextAttemptAt)
+        .toEqual(new Date('2025-06-02T06:00:00Z'));
+
+      currentTime = new Date('2025-06-02T06:00:00Z');
+      expect((await service.processDueNotifications()).sent).toBe(1);
+    });
+
+    it('should let urgent notifications through quiet hours', async () => {
+      await service.updatePreferences('alice', {
+        quietHours: { startHour: 9, endHour: 17, utcOffsetMinutes: 0 }
+      });
+      await service.schedule(buildNotification({ priority: 'urgent' }));
+
+      expect((await service.processDueNotifications()).sent).toBe(1);
+    });
+
+    it('should validate quiet hours', async () => {
+      await expect(service.updatePreferences('alice', {
+        quietHours: { startHour: 24, endHour: 7, utcOffsetMinutes: 0 }
+      })).rejects.toThrow(NotificationValidationError);
+    });
+  });
+
+  describe('Rate Limiting and Batching', () => {
+    it('should defer notifications past the hourly cap', async () => {
+      service.updateConfig({ maxPerHour: 2 });
+      for (let i = 0; i < 3; i++) {
+        await service.schedule(buildNotification({ type: 'match_expiring' }));
+      }
+
+      const summary = await service.processDueNotifications();
+
+      expect(summary).toMatchObject({ sent: 2, deferred: 1 });
+
+      advance(15);
+      expect((await service.processDueNotifications()).deferred).toBe(1);
+
+      advance(46);
+      expect((await service.processDueNotifications()).sent).toBe(1);
+    });
+
+    it('should merge a burst of super likes into one notification', async () => {
+      for (let i = 0; i < 5; i++) {
+        await service.schedule(buildNotification({
+          type: 'super_like_received',
+          title: 'You got a Super Like!',
+          body: `user_${i} super liked you`,
+          data: { fromUserId: `user_${i}` }
+        }));
+        advance(1);
+      }
+
+      const batches = repository.getUserNotifications('alice');
+      expect(batches).toHaveLength(1);
+      expect(batches[0].batchCount).toBe(5);
+      expect(batches[0].body).toBe('You have 5 new super likes');
+
+      // Held for the batch window after the first one
+      expect((await service.processDueNotifications()).sent).toBe(1);
+      expect(push.getSentNotifications()).toHaveLength(1);
+
+      // The next super like starts a new batch
+      await service.schedule(buildNotification({ type: 'super_like_received' }));
+      expect(repository.getUserNotifications('alice')).toHaveLength(2);
+    });
+  });
+
+  describe('Retries', () => {
+    it('should retry only the failed channel with backoff, then give up', async () => {
+      const pushSend = jest.spyOn(push, 'send').mockRejectedValue(new Error('APNs unavailable'));
+      const { notificationId } = await service.schedule(buildNotification());
+
+      expect((await service.processDueNotifications()).retrying).toBe(1);
+      let stored = await service.getNotification(notificationId);
+      expect(stored.attempts).toBe(1);
+      expect(stored.nextAttemptAt).toEqual(new Date(currentTime.getTime() + MINUTE));
+      expect(stored.deliveries.find(d => d.channel === 'push')).toMatchObject({
+        delivered: false,
+        error: 'APNs unavailable'
+      });
+
+      advance(1);
+      await service.processDueNotifications();
+      stored = await service.getNotification(notificationId);
+      expect(stored.nextAttemptAt).toEqual(new Date(currentTime.getTime() + 2 * MINUTE));
+
+      advance(2);
+      expect((await service.processDueNotifications()).failed).toBe(1);
+      expect((await service.getNotification(notificationId)).status).toBe('failed');
+
+      expect(pushSend).toHaveBeenCalledTimes(3);
+      expect(email.getSentNotifications()).toHaveLength(1);
+      expect(inApp.getNotifications('alice')).toHaveLength(1);
+    });
+
+    it('should complete once the failing channel recovers', async () => {
+      jest.spyOn(push, 'send').mockRejectedValueOnce(new Error('APNs unavailable'));
+      const { notificationId } = await service.schedule(buildNotification());
+
+      await service.processDueNotifications();
+      advance(1);
+      await service.processDueNotifications();
+
+      const stored = await service.getNotification(notificationId);
+      expect(stored.status).toBe('sent');
+      expect(stored.deliveries.every(d => d.delivered)).toBe(true);
+      expect(email.getSentNotifications()).toHaveLength(1);
+    });
+  });
+});
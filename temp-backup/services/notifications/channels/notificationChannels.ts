@@ -0,0 +1,88 @@
+/**
+ * Notification Channels
+ * Epic 003: Matching System
+ *
+ * Push and email stand-ins that record notifications instead of sending them,
+ * and the in-app channel, which hands notifications to a MatchNotifier
+ * (match_notifications in production, picked up by RealtimeHub).
+ * Swap in provider-backed channels (APNs/FCM, SES, ...) in production.
+ */
+
+import { MatchNotifier } from '../../../types/matching';
+import {
+  NotificationChannel,
+  NotificationChannelAdapter,
+  NotificationDeliveryResult,
+  QueuedNotification
+} from '../../../types/notifications';
+import { InMemoryMatchNotifier } from '../../matching/notifiers/inMemoryMatchNotifier';
+
+export interface SentNotification {
+  userId: string;
+  title: string;
+  body: string;
+  notification: QueuedNotification;
+  sentAt: Date;
+}
+
+abstract class RecordingNotificationChannel implements NotificationChannelAdapter {
+  abstract readonly channel: NotificationChannel;
+  private outbox: SentNotification[] = [];
+
+  async send(notification: QueuedNotification): Promise<NotificationDeliveryResult> {
+    this.outbox.push({
+      userId: notification.userId,
+      title: notification.title,
+      body: notification.body,
+      notification,
+      sentAt: new Date()
+    });
+    console.log(`${this.channel} notification ${notification.notificationId} sent to ${notification.userId}`);
+
+    return { channel: this.channel, delivered: true };
+  }
+
+  /**
+   * Notifications recorded so far, oldest first
+   */
+  getSentNotifications(): SentNotification[] {
+    return [...this.outbox];
+  }
+
+  clear(): void {
+    this.outbox = [];
+  }
+}
+
+export class PushNotificationChannel extends RecordingNotificationChannel {
+  readonly channel = 'push' as const;
+}
+
+export class EmailNotificationChannel extends RecordingNotificationChannel {
+  readonly channel = 'email' as const;
+}
+
+export class InAppNotificationChannel implements NotificationChannelAdapter {
+  readonly channel = 'in_app' as const;
+
+  constructor(private notifier: MatchNotifier = new InMemoryMatchNotifier()) {}
+
+  async send(notification: QueuedNotification): Promise<NotificationDeliveryResult> {
+    await this.notifier.notify({
+      notificationId: notification.notificationId,
+      userId: notification.userId,
+      type: notification.type,
+      matchId: notification.matchId,
+      mutualMatchId: notification.mutualMatchId,
+      title: notification.title,
+      body: notification.body,
+      data: { ...notification.data, batchCount: notification.batchCount },
+      scheduledFor: notification.scheduledFor,
+      status: 'pending',
+      priority: notification.priority,
+      channels: ['in_app']
+    });
+
+    return { channel: this.channel, delivered: true };
+  }
+}
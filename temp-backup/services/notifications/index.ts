@@ -0,0 +1,15 @@
+/**
+ * Notification Services Export
+ * Epic 003: Matching System
+ */
+
+export { NotificationService, DEFAULT_NOTIFICATION_SETTINGS } from './notificationService';
+export { InMemoryNotificationRepository, SupabaseNotificationRepository } from './repositories';
+export {
+  EmailNotificationChannel,
+  InAppNotificationChannel,
+  PushNotificationChannel
+} from './channels/notificationChannels';
+
+export type { NotificationServiceConfig, NotificationServiceDependencies } from './notificationService';
+export type { SentNotification } from './channels/notificationChannels';
@@ -0,0 +1,441 @@
+/**
+ * Notification Service
+ * Epic 003: Matching System
+ *
+ * Queues match notifications and delivers them over push, email and in-app
+ * channels. Honors each user's notification settings and quiet hours, caps how
+ * many notifications a user gets per hour, merges bursts of the same kind into
+ * one ("5 new super likes") and retries failed channels with backoff.
+ */
+
+import { Clock, systemClock } from '../../lib/clock';
+import { MatchNotification, MatchNotifier } from '../../types/matching';
+import {
+  DispatchSummary,
+  NotificationChannel,
+  NotificationChannelAdapter,
+  NotificationDelivery,
+  NotificationDeliveryResult,
+  NotificationNotFoundError,
+  NotificationPreferences,
+  NotificationRepository,
+  NotificationSettings,
+  NotificationType,
+  NotificationValidationError,
+  QueuedNotification,
+  QuietHours
+} from '../../types/notifications';
+import {
+  EmailNotificationChannel,
+  InAppNotificationChannel,
+  PushNotificationChannel
+} from './channels/notificationChannels';
+import { InMemoryNotificationRepository } from './repositories/inMemoryNotificationRepository';
+
+export interface NotificationServiceDependencies {
+  repository: NotificationRepository;
+  channels: NotificationChannelAdapter[];
+  clock: Clock;
+}
+
+export interface NotificationServiceConfig {
+  maxAttempts: number; // Delivery rounds before a notification is marked failed
+  retryBaseDelaySeconds: number; // Doubles after every failed round
+  batchWindowMinutes: number; // How long batchable notifications wait for more of the same kind
+  maxPerHour: number; // Per user; urgent notifications are exempt
+  rateLimitDeferMinutes: number;
+  dispatchBatchSize: number;
+}
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  newMatches: true,
+  mutualMatches: true,
+  superLikes: true,
+  matchReminders: true,
+  pushNotifications: true,
+  emailNotifications: true
+};
+
+// The setting that switches each notification type on or off
+const TYPE_SETTINGS: Record<NotificationType, keyof NotificationSettings> = {
+  new_match: 'newMatches',
+  mutual_match: 'mutualMatches',
+  super_like_received: 'superLikes',
+  match_expiring: 'matchReminders',
+  daily_matches_ready: 'matchReminders'
+};
+
+// Types that are merged while pending, with the copy for a batch of `count`
+const BATCH_COPY: Partial<Record<NotificationType, (count: number) => { title: string; body: string }>> = {
+  super_like_received: count => ({ title: 'New Super Likes', body: `You have ${count} new super likes` }),
+  new_match: count => ({ title: 'New matches', body: `You have ${count} new matches waiting` })
+};
+
+const PRIORITY_ORDER: MatchNotification['priority'][] = ['low', 'normal', 'high', 'urgent'];
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+export class NotificationService implements MatchNotifier {
+  private static instance: NotificationService;
+  private dependencies: NotificationServiceDependencies;
+
+  private config: NotificationServiceConfig = {
+    maxAttempts: 4,
+    retryBaseDelaySeconds: 60,
+    batchWindowMinutes: 5,
+    maxPerHour: 10,
+    rateLimitDeferMinutes: 15,
+    dispatchBatchSize: 100
+  };
+
+  private constructor(dependencies: Partial<NotificationServiceDependencies> = {}) {
+    this.dependencies = {
+      repository: dependencies.repository || new InMemoryNotificationRepository(),
+      channels: dependencies.channels || [
+        new PushNotificationChannel(),
+        new EmailNotificationChannel(),
+        new InAppNotificationChannel()
+      ],
+      clock: dependencies.clock || systemClock
+    };
+  }
+
+  public static getInstance(dependencies?: Partial<NotificationServiceDependencies>): NotificationService {
+    if (!NotificationService.instance) {
+      NotificationService.instance = new NotificationService(dependencies);
+    } else if (dependencies) {
+      NotificationService.instance.setDependencies(dependencies);
+    }
+    return NotificationService.instance;
+  }
+
+  /**
+   * Replace some or all dependencies (e.g. a fake clock in tests)
+   */
+  setDependencies(dependencies: Partial<NotificationServiceDependencies>): void {
+    this.dependencies = { ...this.dependencies, ...dependencies };
+  }
+
+  /**
+   * Update notification configuration
+   */
+  updateConfig(config: Partial<NotificationServiceConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  // ===== SCHEDULING =====
+
+  /**
+   * MatchNotifier entry point, so matching services can hand notifications to the queue
+   */
+  async notify(notification: MatchNotification): Promise<void> {
+    await this.schedule(notification);
+  }
+
+  /**
+   * Queue a notification for delivery at its scheduledFor time. Notifications the
+   * user has switched off are stored as cancelled; batchable ones are merged into
+   * a pending notification of the same kind.
+   */
+  async schedule(notification: MatchNotification): Promise<QueuedNotification> {
+    const now = this.now();
+    const { settings } = await this.getPreferences(notification.userId);
+    const channels = this.allowedChannels(notification, settings);
+    const batchKey = notification.priority !== 'urgent' && BATCH_COPY[notification.type]
+      ? notification.type
+      : undefined;
+
+    if (channels.length > 0 && batchKey) {
+      const batch = await this.dependencies.repository.findPendingBatch(notification.userId, batchKey);
+      if (batch) {
+        return this.mergeIntoBatch(batch, notification, channels, now);
+      }
+    }
+
+    // Hold batchable notifications briefly so a burst goes out as one
+    const dueAt = batchKey
+      ? Math.max(notification.scheduledFor.getTime(), now.getTime() + this.config.batchWindowMinutes * MINUTE_MS)
+      : notification.scheduledFor.getTime();
+
+    return this.dependencies.repository.createNotification({
+      ...notification,
+      channels: channels.length > 0 ? channels : notification.channels,
+      status: channels.length > 0 ? 'pending' : 'cancelled',
+      sentAt: undefined,
+      attempts: 0,
+      nextAttemptAt: new Date(dueAt),
+      deliveries: [],
+      batchKey,
+      batchCount: 1,
+      createdAt: now,
+      updatedAt: now
+    });
+  }
+
+  /**
+   * Withdraw a notification that hasn't gone out yet
+   */
+  async cancel(notificationId: string): Promise<QueuedNotification> {
+    const notification = await this.getNotification(notificationId);
+    if (notification.status !== 'pending') return notification;
+
+    return this.dependencies.repository.updateNotification(notificationId, {
+      status: 'cancelled',
+      updatedAt: this.now()
+    });
+  }
+
+  // ===== DISPATCH =====
+
+  /**
+   * Deliver every notification that is due. Meant to run on a short interval.
+   */
+  async processDueNotifications(): Promise<DispatchSummary> {
+    const now = this.now();
+    const due = await this.dependencies.repository.listDueNotifications(now, this.config.dispatchBatchSize);
+    const summary: DispatchSummary = { processed: 0, sent: 0, retrying: 0, failed: 0, deferred: 0, cancelled: 0 };
+
+    for (const notification of due) {
+      try {
+        const outcome = await this.dispatch(notification, now);
+        summary[outcome]++;
+        summary.processed++;
+      } catch (error) {
+        // Leave it pending; the next run picks it up again
+        console.error(`Failed to dispatch notification ${notification.notificationId}:`, error);
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Record that the user's device confirmed receipt (push receipt, in-app read, ...)
+   */
+  async markDelivered(notificationId: string): Promise<QueuedNotification> {
+    const notification = await this.getNotification(notificationId);
+    if (notification.status !== 'sent') return notification;
+
+    const now = this.now();
+    return this.dependencies.repository.updateNotification(notificationId, {
+      status: 'delivered',
+      deliveredAt: now,
+      updatedAt: now
+    });
+  }
+
+  async getNotification(notificationId: string): Promise<QueuedNotification> {
+    const notification = await this.dependencies.repository.getNotification(notificationId);
+    if (!notification) {
+      throw new NotificationNotFoundError(notificationId);
+    }
+    return notification;
+  }
+
+  // ===== PREFERENCES =====
+
+  /**
+   * The user's notification preferences, with everything enabled by default
+   */
+  async getPreferences(userId: string): Promise<NotificationPreferences> {
+    const stored = await this.dependencies.repository.getPreferences(userId);
+    return {
+      userId,
+      settings: { ...DEFAULT_NOTIFICATION_SETTINGS, ...stored?.settings },
+      quietHours: stored?.quietHours
+    };
+  }
+
+  /**
+   * Change some settings and/or quiet hours. Pass `quietHours: undefined` to clear them.
+   */
+  async updatePreferences(
+    userId: string,
+    updates: { settings?: Partial<NotificationSettings>; quietHours?: QuietHours }
+  ): Promise<NotificationPreferences> {
+    if (updates.quietHours) {
+      this.validateQuietHours(updates.quietHours);
+    }
+
+    const current = await this.getPreferences(userId);
+    const preferences: NotificationPreferences = {
+      userId,
+      settings: { ...current.settings, ...updates.settings },
+      quietHours: 'quietHours' in updates ? updates.quietHours : current.quietHours
+    };
+
+    await this.dependencies.repository.savePreferences(preferences);
+    return preferences;
+  }
+
+  // ===== HELPERS =====
+
+  private async dispatch(
+    notification: QueuedNotification,
+    now: Date
+  ): Promise<Exclude<keyof DispatchSummary, 'processed'>> {
+    const { repository } = this.dependencies;
+    const preferences = await this.getPreferences(notification.userId);
+
+    // Settings may have changed since the notification was queued
+    const channels = this.allowedChannels(notification, preferences.settings);
+    if (channels.length === 0) {
+      await repository.updateNotification(notification.notificationId, { status: 'cancelled', updatedAt: now });
+      return 'cancelled';
+    }
+
+    if (notification.priority !== 'urgent') {
+      const deferUntil = this.quietHoursEnd(preferences.quietHours, now) || await this.rateLimitEnd(notification, now);
+      if (deferUntil) {
+        await repository.updateNotification(notification.notificationId, { nextAttemptAt: deferUntil, updatedAt: now });
+        return 'deferred';
+      }
+    }
+
+    // Channels that already succeeded on an earlier attempt are not sent again
+    const pending = channels.filter(channel =>
+      !notification.deliveries.some(delivery => delivery.channel === channel && delivery.delivered)
+    );
+    const results = await Promise.all(pending.map(channel => this.deliver(channel, notification)));
+    const deliveries: NotificationDelivery[] = [
+      ...notification.deliveries.filter(delivery => !pending.includes(delivery.channel)),
+      ...results.map(result => ({ ...result, attemptedAt: now }))
+    ];
+
+    if (results.every(result => result.delivered)) {
+      await repository.updateNotification(notification.notificationId, {
+        status: 'sent',
+        sentAt: now,
+        channels,
+        deliveries,
+        updatedAt: now
+      });
+      return 'sent';
+    }
+
+    const attempts = notification.attempts + 1;
+    if (attempts >= this.config.maxAttempts) {
+      console.error(
+        `Giving up on notification ${notification.notificationId} after ${attempts} attempts:`,
+        results.filter(result => !result.delivered).map(result => `${result.channel}: ${result.error}`)
+      );
+      await repository.updateNotification(notification.notificationId, {
+        status: 'failed',
+        attempts,
+        deliveries,
+        updatedAt: now
+      });
+      return 'failed';
+    }
+
+    const retryDelayMs = this.config.retryBaseDelaySeconds * 1000 * Math.pow(2, attempts - 1);
+    await repository.updateNotification(notification.notificationId, {
+      attempts,
+      deliveries,
+      nextAttemptAt: new Date(now.getTime() + retryDelayMs),
+      updatedAt: now
+    });
+    return 'retrying';
+  }
+
+  private async deliver(
+    channel: NotificationChannel,
+    notification: QueuedNotification
+  ): Promise<NotificationDeliveryResult> {
+    const adapter = this.dependencies.channels.find(candidate => candidate.channel === channel);
+    if (!adapter) {
+      return { channel, delivered: false, error: `No adapter for ${channel} notifications` };
+    }
+
+    try {
+      return await adapter.send(notification);
+    } catch (error) {
+      return { channel, delivered: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private async mergeIntoBatch(
+    batch: QueuedNotification,
+    notification: MatchNotification,
+    channels: NotificationChannel[],
+    now: Date
+  ): Promise<QueuedNotification> {
+    const batchCount = batch.batchCount + 1;
+    const copy = BATCH_COPY[notification.type]!(batchCount);
+
+    return this.dependencies.repository.updateNotification(batch.notificationId, {
+      ...copy,
+      data: { ...batch.data, ...notification.data },
+      priority: PRIORITY_ORDER[Math.max(
+        PRIORITY_ORDER.indexOf(batch.priority),
+        PRIORITY_ORDER.indexOf(notification.priority)
+      )],
+      channels: Array.from(new Set([...batch.channels, ...channels])),
+      batchCount,
+      updatedAt: now
+    });
+  }
+
+  /**
+   * The requested channels the user accepts; none if the type is switched off.
+   * In-app notifications can't be turned off separately.
+   */
+  private allowedChannels(notification: MatchNotification, settings: NotificationSettings): NotificationChannel[] {
+    if (!settings[TYPE_SETTINGS[notification.type]]) return [];
+
+    return notification.channels.filter(channel =>
+      (channel !== 'push' || settings.pushNotifications) &&
+      (channel !== 'email' || settings.emailNotifications)
+    );
+  }
+
+  /**
+   * When the user's quiet hours end, if `now` falls inside them
+   */
+  private quietHoursEnd(quietHours: QuietHours | undefined, now: Date): Date | null {
+    if (!quietHours || quietHours.startHour === quietHours.endHour) return null;
+
+    const { startHour, endHour, utcOffsetMinutes } = quietHours;
+    const local = new Date(now.getTime() + utcOffsetMinutes * MINUTE_MS);
+    const hour = local.getUTCHours();
+    const isQuiet = startHour < endHour
+      ? hour >= startHour && hour < endHour
+      : hour >= startHour || hour < endHour;
+    if (!isQuiet) return null;
+
+    let endLocal = Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate(), endHour);
+    if (endLocal <= local.getTime()) {
+      endLocal += 24 * HOUR_MS;
+    }
+    return new Date(endLocal - utcOffsetMinutes * MINUTE_MS);
+  }
+
+  private async rateLimitEnd(notification: QueuedNotification, now: Date): Promise<Date | null> {
+    const sentLastHour = await this.dependencies.repository.countSentSince(
+      notification.userId,
+      new Date(now.getTime() - HOUR_MS)
+    );
+    if (sentLastHour < this.config.maxPerHour) return null;
+
+    return new Date(now.getTime() + this.config.rateLimitDeferMinutes * MINUTE_MS);
+  }
+
+  private validateQuietHours(quietHours: QuietHours): void {
+    const isHour = (value: number) => Number.isInteger(value) && value >= 0 && value <= 23;
+
+    if (!isHour(quietHours.startHour)) {
+      throw new NotificationValidationError('Quiet hours must start on a whole hour between 0 and 23', 'startHour');
+    }
+    if (!isHour(quietHours.endHour)) {
+      throw new NotificationValidationError('Quiet hours must end on a whole hour between 0 and 23', 'endHour');
+    }
+    if (!Number.isInteger(quietHours.utcOffsetMinutes) || Math.abs(quietHours.utcOffsetMinutes) > 14 * 60) {
+      throw new NotificationValidationError('Invalid UTC offset', 'utcOffsetMinutes');
+    }
+  }
+
+  private now(): Date {
+    return this.dependencies.clock.now();
+  }
+}
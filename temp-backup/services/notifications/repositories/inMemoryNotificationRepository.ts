@@ -0,0 +1,97 @@
+/**
+ * In-Memory Notification Repository
+ * Epic 003: Matching System
+ *
+ * Process-local notification queue and preferences used by tests and offline development
+ */
+
+import {
+  NotificationNotFoundError,
+  NotificationPreferences,
+  NotificationRepository,
+  NotificationUpdate,
+  QueuedNotification
+} from '../../../types/notifications';
+
+export class InMemoryNotificationRepository implements NotificationRepository {
+  private notifications: Map<string, QueuedNotification> = new Map();
+  private preferences: Map<string, NotificationPreferences> = new Map();
+
+  async createNotification(notification: QueuedNotification): Promise<QueuedNotification> {
+    this.notifications.set(notification.notificationId, this.copy(notification));
+    return this.copy(notification);
+  }
+
+  async getNotification(notificationId: string): Promise<QueuedNotification | null> {
+    const notification = this.notifications.get(notificationId);
+    return notification ? this.copy(notification) : null;
+  }
+
+  async updateNotification(notificationId: string, updates: NotificationUpdate): Promise<QueuedNotification> {
+    const notification = this.notifications.get(notificationId);
+    if (!notification) {
+      throw new NotificationNotFoundError(notificationId);
+    }
+
+    const updated = { ...notification, ...updates };
+    this.notifications.set(notificationId, updated);
+    return this.copy(updated);
+  }
+
+  async listDueNotifications(dueBy: Date, limit: number): Promise<QueuedNotification[]> {
+    return Array.from(this.notifications.values())
+      .filter(notification => notification.status === 'pending' && notification.nextAttemptAt <= dueBy)
+      .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime())
+      .slice(0, limit)
+      .map(notification => this.copy(notification));
+  }
+
+  async findPendingBatch(userId: string, batchKey: string): Promise<QueuedNotification | null> {
+    const batch = Array.from(this.notifications.values()).find(notification =>
+      notification.userId === userId && notification.batchKey === batchKey && notification.status === 'pending'
+    );
+    return batch ? this.copy(batch) : null;
+  }
+
+  async countSentSince(userId: string, since: Date): Promise<number> {
+    return Array.from(this.notifications.values()).filter(notification =>
+      notification.userId === userId && !!notification.sentAt && notification.sentAt >= since
+    ).length;
+  }
+
+  async getPreferences(userId: string): Promise<NotificationPreferences | null> {
+    const preferences = this.preferences.get(userId);
+    return preferences ? { ...preferences, settings: { ...preferences.settings } } : null;
+  }
+
+  async savePreferences(preferences: NotificationPreferences): Promise<void> {
+    this.preferences.set(preferences.userId, { ...preferences, settings: { ...preferences.settings } });
+  }
+
+  /**
+   * Notifications queued for a user, oldest first
+   */
+  getUserNotifications(userId: string): QueuedNotification[] {
+    return Array.from(this.notifications.values())
+      .filter(notification => notification.userId === userId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(notification => this.copy(notification));
+  }
+
+  /**
+   * Remove all notifications and preferences
+   */
+  clear(): void {
+    this.notifications.clear();
+    this.preferences.clear();
+  }
+
+  private copy(notification: QueuedNotification): QueuedNotification {
+    return {
+      ...notification,
+      data: { ...notification.data },
+      channels: [...notification.channels],
+      deliveries: notification.deliveries.map(delivery => ({ ...delivery }))
+    };
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Notification Repositories
+ * Persistence backends for the notification queue and preferences
+ */
+
+export { InMemoryNotificationRepository } from './inMemoryNotificationRepository';
+export { SupabaseNotificationRepository } from './supabaseNotificationRepository';
+export type { NotificationRepository } from '../../../types/notifications';
@@ -0,0 +1,199 @@
+/**
+ * Supabase Notification Repository
+ * Epic 003: Matching System
+ *
+ * Maps the dispatch queue and per-user preferences onto the notification_queue
+ * and notification_settings tables defined in supabase/schema.sql. In-app copies
+ * land in match_notifications through the in-app channel. Intended for the service role.
+ */
+
+import { supabase, type SupabaseClient } from '../../../lib/supabase';
+import {
+  NotificationDelivery,
+  NotificationPreferences,
+  NotificationRepository,
+  NotificationUpdate,
+  QueuedNotification
+} from '../../../types/notifications';
+
+export class SupabaseNotificationRepository implements NotificationRepository {
+  constructor(private client: SupabaseClient = supabase) {}
+
+  async createNotification(notification: QueuedNotification): Promise<QueuedNotification> {
+    const { data, error } = await this.client
+      .from('notification_queue')
+      .insert({
+        id: notification.notificationId,
+        user_id: notification.userId,
+        notification_type: notification.type,
+        match_id: notification.matchId ?? null,
+        mutual_match_id: notification.mutualMatchId ?? null,
+        batch_key: notification.batchKey ?? null,
+        scheduled_for: notification.scheduledFor.toISOString(),
+        created_at: notification.createdAt.toISOString(),
+        ...this.toNotificationRow(notification)
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.mapNotificationFromDatabase(data);
+  }
+
+  async getNotification(notificationId: string): Promise<QueuedNotification | null> {
+    const { data, error } = await this.client
+      .from('notification_queue')
+      .select('*')
+      .eq('id', notificationId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? this.mapNotificationFromDatabase(data) : null;
+  }
+
+  async updateNotification(notificationId: string, updates: NotificationUpdate): Promise<QueuedNotification> {
+    const { data, error } = await this.client
+      .from('notification_queue')
+      .update(this.toNotificationRow(updates))
+      .eq('id', notificationId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.mapNotificationFromDatabase(data);
+  }
+
+  async listDueNotifications(dueBy: Date, limit: number): Promise<QueuedNotification[]> {
+    const { data, error } = await this.client
+      .from('notification_queue')
+      .select('*')
+      .eq('status', 'pending')
+      .lte('next_attempt_at', dueBy.toISOString())
+      .order('next_attempt_at', { ascending: true })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []).map(row => this.mapNotificationFromDatabase(row));
+  }
+
+  async findPendingBatch(userId: string, batchKey: string): Promise<QueuedNotification | null> {
+    const { data, error } = await this.client
+      .from('notification_queue')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('batch_key', batchKey)
+      .eq('status', 'pending')
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? this.mapNotificationFromDatabase(data) : null;
+  }
+
+  async countSentSince(userId: string, since: Date): Promise<number> {
+    const { count, error } = await this.client
+      .from('notification_queue')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .gte('sent_at', since.toISOString());
+
+    if (error) throw error;
+    return count || 0;
+  }
+
+  async getPreferences(userId: string): Promise<NotificationPreferences | null> {
+    const { data, error } = await this.client
+      .from('notification_settings')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    const hasQuietHours = data.quiet_hours_start !== null && data.quiet_hours_end !== null;
+    return {
+      userId: data.user_id,
+      settings: data.settings,
+      quietHours: hasQuietHours
+        ? {
+          startHour: data.quiet_hours_start,
+          endHour: data.quiet_hours_end,
+          utcOffsetMinutes: data.utc_offset_minutes || 0
+        }
+        : undefined
+    };
+  }
+
+  async savePreferences(preferences: NotificationPreferences): Promise<void> {
+    const { error } = await this.client
+      .from('notification_settings')
+      .upsert({
+        user_id: preferences.userId,
+        settings: preferences.settings,
+        quiet_hours_start: preferences.quietHours?.startHour ?? null,
+        quiet_hours_end: preferences.quietHours?.endHour ?? null,
+        utc_offset_minutes: preferences.quietHours?.utcOffsetMinutes ?? 0,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'user_id' });
+
+    if (error) throw error;
+  }
+
+  private toNotificationRow(notification: NotificationUpdate): Record<string, any> {
+    const row: Record<string, any> = {};
+    const toTimestamp = (date: Date | undefined) => (date ? date.toISOString() : null);
+
+    if (notification.title !== undefined) row.title = notification.title;
+    if (notification.body !== undefined) row.body = notification.body;
+    if (notification.data !== undefined) row.data = notification.data;
+    if (notification.priority !== undefined) row.priority = notification.priority;
+    if (notification.channels !== undefined) row.channels = notification.channels;
+    if (notification.status !== undefined) row.status = notification.status;
+    if (notification.attempts !== undefined) row.attempts = notification.attempts;
+    if (notification.nextAttemptAt !== undefined) row.next_attempt_at = notification.nextAttemptAt.toISOString();
+    if (notification.batchCount !== undefined) row.batch_count = notification.batchCount;
+    if ('sentAt' in notification) row.sent_at = toTimestamp(notification.sentAt);
+    if ('deliveredAt' in notification) row.delivered_at = toTimestamp(notification.deliveredAt);
+    if (notification.deliveries !== undefined) {
+      row.deliveries = notification.deliveries.map(delivery => ({
+        ...delivery,
+        attemptedAt: delivery.attemptedAt.toISOString()
+      }));
+    }
+    row.updated_at = notification.updatedAt.toISOString();
+
+    return row;
+  }
+
+  private mapNotificationFromDatabase(row: any): QueuedNotification {
+    const deliveries: NotificationDelivery[] = (row.deliveries || []).map((delivery: any) => ({
+      ...delivery,
+      attemptedAt: new Date(delivery.attemptedAt)
+    }));
+
+    return {
+      notificationId: row.id,
+      userId: row.user_id,
+      type: row.notification_type,
+      matchId: row.match_id ?? undefined,
+      mutualMatchId: row.mutual_match_id ?? undefined,
+      title: row.title,
+      body: row.body,
+      data: row.data || {},
+      scheduledFor: new Date(row.scheduled_for),
+      sentAt: row.sent_at ? new Date(row.sent_at) : undefined,
+      status: row.status,
+      priority: row.priority || 'normal',
+      channels: row.channels || [],
+      attempts: row.attempts || 0,
+      nextAttemptAt: new Date(row.next_attempt_at),
+      deliveries,
+      batchKey: row.batch_key ?? undefined,
+      batchCount: row.batch_count || 1,
+      deliveredAt: row.delivered_at ? new Date(row.delivered_at) : undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+}
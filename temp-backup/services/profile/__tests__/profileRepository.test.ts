@@ -0,0 +1,116 @@
+import { ProfileService } from '../profileService';
+import { PhotoManagementService } from '../photoManagementService';
+import { PreferencesService } from '../preferencesService';
+import { PrivacyVisibilityService } from '../privacyVisibilityService';
+import { InMemoryProfileRepository } from '../repositories/inMemoryProfileRepository';
+import { CreateProfileRequest } from '../../../types/profile';
+
+describe('ProfileRepository', () => {
+  const repository = new InMemoryProfileRepository();
+  const profileService = ProfileService.getInstance(repository);
+  const photoService = PhotoManagementService.getInstance();
+
+  const request: CreateProfileRequest = {
+    personalInfo: {
+      displayName: 'Alex',
+      age: 29,
+      bio: 'Coffee, climbing and long walks.',
+      location: { latitude: 51.5074, longitude: -0.1278, city: 'London', country: 'UK' }
+    }
+  };
+
+  const imageData = 'data:image/jpeg;base64,' + 'A'.repeat(100);
+
+  beforeEach(() => {
+    repository.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Profile Storage', () => {
+    it('should read back a saved profile', async () => {
+      const created = await profileService.createProfile('user_1', request);
+      const stored = await profileService.getProfileByUserId('user_1');
+
+      expect(stored).not.toBeNull();
+      expect(stored!.personalInfo.displayName).toBe('Alex');
+      expect(stored!.completion).toEqual(created.completion);
+      await expect(profileService.getProfile('user_1')).resolves.toEqual(stored);
+    });
+
+    it('should persist preference and visibility updates', async () => {
+      await profileService.createProfile('user_1', request);
+
+      await PreferencesService.getInstance().updatePreferences('user_1', { maxDistance: 25 });
+      await PrivacyVisibilityService.getInstance().enableIncognito('user_1');
+
+      const stored = await profileService.getProfileByUserId('user_1');
+      expect(stored!.preferences.maxDistance).toBe(25);
+      expect(stored!.visibility.incognito).toBe(true);
+    });
+
+    it('should return null for unknown users', async () => {
+      await expect(profileService.getProfileByUserId('nobody')).resolves.toBeNull();
+    });
+  });
+
+  describe('Photo Storage', () => {
+    it('should attach uploaded photos to the profile', async () => {
+      await profileService.createProfile('user_1', request);
+
+      const first = await photoService.uploadPhoto('user_1', { imageData });
+      const second = await photoService.uploadPhoto('user_1', { imageData, isPrimary: true });
+
+      const photos = await photoService.getUserPhotos('user_1');
+      expect(photos.map(p => p.id)).toEqual([first.photo.id, second.photo.id]);
+      expect(photos.filter(p => p.isPrimary).map(p => p.id)).toEqual([second.photo.id]);
+
+      const stored = await profileService.getProfileByUserId('user_1');
+      expect(stored!.photos).toHaveLength(2);
+      expect(stored!.completion.photos).toBe(100);
+    });
+
+    it('should promote another photo when the primary is deleted', async () => {
+      await profileService.createProfile('user_1', request);
+      const first = await photoService.uploadPhoto('user_1', { imageData });
+      const second = await photoService.uploadPhoto('user_1', { imageData });
+
+      await photoService.deletePhoto('user_1', first.photo.id);
+
+      await expect(photoService.getPhoto(first.photo.id)).resolves.toBeNull();
+      await expect(photoService.getPhoto(second.photo.id)).resolves.toMatchObject({ isPrimary: true });
+    });
+
+    it('should persist moderation results', async () => {
+      await profileService.createProfile('user_1', request);
+      const { photo } = await photoService.uploadPhoto('user_1', { imageData });
+
+      await photoService.moderatePhoto(photo.id, { status: 'approved' });
+
+      await expect(photoService.getPhoto(photo.id)).resolves.toMatchObject({
+        moderationStatus: 'approved',
+        isVerified: true
+      });
+    });
+  });
+
+  describe('Hide List', () => {
+    it('should hide a profile from specific viewers', async () => {
+      const privacyService = PrivacyVisibilityService.getInstance();
+      await profileService.createProfile('user_1', request);
+
+      await privacyService.hideFromUsers('user_1', ['user_2', 'user_3']);
+      const hidden = await privacyService.checkProfileVisibility('user_1', 'user_2');
+      expect(hidden.canViewProfile).toBe(false);
+      expect(hidden.restrictions).toContain('hidden_from_viewer');
+
+      await privacyService.showToUsers('user_1', ['user_2']);
+      await expect(privacyService.getHiddenFromUsers('user_1')).resolves.toEqual(['user_3']);
+      await expect(privacyService.checkProfileVisibility('user_1', 'user_2'))
+        .resolves.toMatchObject({ canViewProfile: true });
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { SupabaseProfileRepository } from '../repositories/supabaseProfileRepository';
+import { UserProfile } from '../../../types/profile';
+
+// The real client needs React Native; the repository is given a fake client instead
+jest.mock('../../../lib/supabase', () => ({ supabase: {} }));
+
+const buildProfile = (userId: string): UserProfile => ({
+  userId,
+  personalInfo: {
+    displayName: userId,
+    age: 28,
+    dateOfBirth: new Date('1997-01-01'),
+    location: { latitude: 51.5074, longitude: -0.1278, city: 'London', country: 'UK' },
+    sexualOrientation: 'bisexual',
+    sexualIntent: 'clear',
+    lookingFor: ['casual'],
+    bio: 'Enjoys running, live music and trying new restaurants around town.',
+    interests: ['music', 'running']
+  },
+  photos: [],
+  preferences: {
+    ageRange: { min: 18, max: 40 },
+    maxDistance: 50,
+    sexualOrientations: ['bisexual', 'straight'],
+    relationshipTypes: ['casual']
+  },
+  visibility: {
+    isVisible: true,
+    hideAge: false,
+    hideLocation: false,
+    hideLastActive: false,
+    showOnlyToVerified: false,
+    incognito: false,
+    distanceVisibility: 'approximate',
+    onlineStatus: 'online'
+  },
+  completion: {
+    overallPercentage: 80,
+    personalInfo: 100,
+    photos: 0,
+    preferences: 100,
+    visibility: 100,
+    missingFields: [],
+    recommendedActions: []
+  },
+  createdAt: new Date('2025-06-01T12:00:00Z'),
+  updatedAt: new Date('2025-06-01T12:00:00Z'),
+  lastActiveAt: new Date('2025-06-01T12:00:00Z'),
+  profileViews: 0,
+  profileLikes: 0,
+  verification: {
+    isVerified: false,
+    verificationResults: [],
+    verificationScore: 0,
+    lastVerificationUpdate: new Date('2025-06-01T12:00:00Z')
+  },
+  premium: { isActive: false, features: [] },
+  safety: { isReported: false, reportCount: 0, isBanned: false, trustScore: 80 }
+});
+
+/**
+ * Just enough of the Supabase client for the repository: upserts are kept per
+ * table and reads are answered from them
+ */
+const buildClient = () => {
+  const tables: Record<string, Record<string, any>[]> = {};
+
+  const from = (table: string) => {
+    let rows = tables[table] || [];
+    const builder: any = {
+      select: () => builder,
+      order: () => builder,
+      eq: (column: string, value: unknown) => {
+        rows = rows.filter(row => row[column] === value);
+        return builder;
+      },
+      maybeSingle: async () => ({ data: rows[0] ?? null, error: null }),
+      then: (resolve: (result: unknown) => void) => resolve({ data: rows, error: null }),
+      upsert: async (row: Record<string, any>) => {
+        tables[table] = [...(tables[table] || []).filter(existing => existing.user_id !== row.user_id), row];
+        return { error: null };
+      }
+    };
+    return builder;
+  };
+
+  return { tables, client: { from } as any };
+};
+
+describe('SupabaseProfileRepository', () => {
+  let tables: Record<string, Record<string, any>[]>;
+  let repository: SupabaseProfileRepository;
+
+  beforeEach(() => {
+    const fake = buildClient();
+    tables = fake.tables;
+    repository = new SupabaseProfileRepository(fake.client);
+  });
+
+  it('should keep sexual orientation out of the gender columns', async () => {
+    await repository.saveProfile(buildProfile('zoe'));
+
+    const [profileRow] = tables.profiles;
+    const [preferencesRow] = tables.matching_preferences;
+    expect(profileRow.sexual_orientation).toBe('bisexual');
+    expect(profileRow).not.toHaveProperty('gender');
+    expect(preferencesRow).not.toHaveProperty('gender_preference');
+
+    const stored = await repository.getProfile('zoe');
+    expect(stored!.personalInfo.sexualOrientation).toBe('bisexual');
+    expect(stored!.preferences.sexualOrientations).toEqual(['bisexual', 'straight']);
+  });
+
+  it('should store the trust score as a whole number out of 100', async () => {
+    const profile = buildProfile('zoe');
+    profile.safety.trustScore = 72.6;
+
+    await repository.saveProfile(profile);
+
+    expect(tables.profiles[0].trust_score).toBe(73);
+    expect((await repository.getProfile('zoe'))!.safety.trustScore).toBe(73);
+  });
+
+  it('should read back the date of birth and the verification status from users', async () => {
+    await repository.saveProfile(buildProfile('zoe'));
+    expect(tables.profiles[0].date_of_birth).toBe('1997-01-01');
+
+    tables.profiles[0].users = { is_verified: true, verification_level: 4 };
+    const stored = await repository.getProfile('zoe');
+
+    expect(stored!.personalInfo.dateOfBirth).toEqual(new Date('1997-01-01'));
+    expect(stored!.verification).toMatchObject({ isVerified: true, verificationScore: 0.8 });
+  });
+
+  it('should treat profiles without a users row as unverified', async () => {
+    await repository.saveProfile(buildProfile('zoe'));
+
+    expect((await repository.getProfile('zoe'))!.verification).toMatchObject({
+      isVerified: false,
+      verificationScore: 0
+    });
+  });
+});
@@ -13,8 +13,10 @@ import {
   ProfileError,
   ProfileValidationError,
   ProfileNotFoundError,
-  ProfilePermissionError
+  ProfilePermissionError,
+  ProfileRepository
 } from '../../types/profile';
+import { v4 as uuidv4 } from 'uuid';
 import { ProfileService } from './profileService';
 
 export interface PhotoUploadResult {
@@ -43,6 +45,7 @@ export interface PhotoAnalysisResult {
 export class PhotoManagementService {
   private static instance: PhotoManagementService;
   private profileService: ProfileService;
+  private repository?: ProfileRepository;
   
   // Photo constraints
   private readonly MAX_PHOTOS = 9;
@@ -51,17 +54,31 @@ export class PhotoManagementService {
   private readonly MIN_RESOLUTION = { width: 400, height: 400 };
   private readonly MAX_RESOLUTION = { width: 4000, height: 4000 };
 
-  private constructor() {
+  private constructor(repository?: ProfileRepository) {
     this.profileService = ProfileService.getInstance();
+    this.repository = repository;
   }
 
-  public static getInstance(): PhotoManagementService {
+  public static getInstance(repository?: ProfileRepository): PhotoManagementService {
     if (!PhotoManagementService.instance) {
-      PhotoManagementService.instance = new PhotoManagementService();
+      PhotoManagementService.instance = new PhotoManagementService(repository);
+    } else if (repository) {
+      PhotoManagementService.instance.setRepository(repository);
     }
     return PhotoManagementService.instance;
   }
 
+  /**
+   * Override the photo storage backend. Defaults to the ProfileService repository.
+   */
+  setRepository(repository: ProfileRepository): void {
+    this.repository = repository;
+  }
+
+  getRepository(): ProfileRepository {
+    return this.repository || this.profileService.getRepository();
+  }
+
   /**
    * Upload a new photo to user's profile
    */
@@ -93,25 +110,20 @@ export class PhotoManagementService {
       metadata: processedPhoto.metadata
     };
 
-    // Add photo to profile
-    const updatedPhotos = [...profile.photos, photo];
-    
     // If this is set as primary, update other photos
     if (photo.isPrimary) {
-      updatedPhotos.forEach(p => {
-        if (p.id !== photo.id) {
-          p.isPrimary = false;
+      for (const otherPhoto of profile.photos) {
+        if (otherPhoto.isPrimary) {
+          await this.storePhoto({ ...otherPhoto, isPrimary: false });
         }
-      });
+      }
     }
 
-    // Update profile
-    await this.profileService.updateProfile(userId, profile.userId, {
-      // Note: This would need to be updated when profile service supports photo updates
-    });
+    // Add photo to profile
+    await this.getRepository().addPhoto(userId, photo);
 
-    // Store photo separately (for now)
-    await this.storePhoto(photo);
+    // Refresh profile completion now that the photo is stored
+    await this.profileService.updateProfile(userId, profile.userId, {});
 
     // Trigger moderation process
     this.triggerPhotoModeration(photo.id);
@@ -208,15 +220,14 @@ export class PhotoManagementService {
    * Get all photos for a user
    */
   async getUserPhotos(userId: string): Promise<ProfilePhoto[]> {
-    // In real implementation, this would query database
-    return this.retrieveUserPhotos(userId);
+    return this.getRepository().getUserPhotos(userId);
   }
 
   /**
    * Get photo by ID
    */
   async getPhoto(photoId: string): Promise<ProfilePhoto | null> {
-    return this.retrievePhoto(photoId);
+    return this.getRepository().getPhoto(photoId);
   }
 
   /**
@@ -378,26 +389,16 @@ export class PhotoManagementService {
    * Generate unique photo ID
    */
   private generatePhotoId(): string {
-    return `photo_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    return uuidv4();
   }
 
-  // Storage methods (mock implementations)
+  // Storage methods
   private async storePhoto(photo: ProfilePhoto): Promise<void> {
-    console.log('Photo stored:', photo.id);
-  }
-
-  private async retrievePhoto(photoId: string): Promise<ProfilePhoto | null> {
-    // Mock retrieval
-    return null;
-  }
-
-  private async retrieveUserPhotos(userId: string): Promise<ProfilePhoto[]> {
-    // Mock retrieval
-    return [];
+    await this.getRepository().updatePhoto(photo);
   }
 
   private async deletePhotoRecord(photoId: string): Promise<void> {
-    console.log('Photo record deleted:', photoId);
+    await this.getRepository().deletePhoto(photoId);
   }
 
   private async deletePhotoFromStorage(url: string): Promise<void> {
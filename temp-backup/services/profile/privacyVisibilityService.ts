@@ -12,9 +12,10 @@ import {
   ProfileError,
   ProfileValidationError,
   ProfileNotFoundError,
-  ProfilePermissionError
+  ProfilePermissionError,
+  ProfileRepository
 } from '../../types/profile';
-import { ProfileService } from './profileService';
+import { ProfileService, isBanActive } from './profileService';
 
 export interface VisibilitySettings {
   profileVisibility: 'visible' | 'hidden' | 'incognito';
@@ -56,18 +57,33 @@ export interface PrivacyAudit {
 export class PrivacyVisibilityService {
   private static instance: PrivacyVisibilityService;
   private profileService: ProfileService;
+  private repository?: ProfileRepository;
 
-  private constructor() {
+  private constructor(repository?: ProfileRepository) {
     this.profileService = ProfileService.getInstance();
+    this.repository = repository;
   }
 
-  public static getInstance(): PrivacyVisibilityService {
+  public static getInstance(repository?: ProfileRepository): PrivacyVisibilityService {
     if (!PrivacyVisibilityService.instance) {
-      PrivacyVisibilityService.instance = new PrivacyVisibilityService();
+      PrivacyVisibilityService.instance = new PrivacyVisibilityService(repository);
+    } else if (repository) {
+      PrivacyVisibilityService.instance.setRepository(repository);
     }
     return PrivacyVisibilityService.instance;
   }
 
+  /**
+   * Override the hide-list storage backend. Defaults to the ProfileService repository.
+   */
+  setRepository(repository: ProfileRepository): void {
+    this.repository = repository;
+  }
+
+  getRepository(): ProfileRepository {
+    return this.repository || this.profileService.getRepository();
+  }
+
   /**
    * Update user's privacy and visibility settings
    */
@@ -235,14 +251,23 @@ export class PrivacyVisibilityService {
       }
     }
 
+    // Explicit hide list check
+    if (viewerId && viewerId !== profile.userId) {
+      const hiddenFrom = await this.getRepository().getHiddenFromUsers(profile.userId);
+      if (hiddenFrom.includes(viewerId)) {
+        canViewProfile = false;
+        restrictions.push('hidden_from_viewer');
+      }
+    }
+
     // Incognito mode check
     if (profile.visibility.incognito && viewerId !== profile.userId) {
       restrictions.push('incognito_mode');
       // In incognito, others can still see basic profile but with limited info
     }
 
-    // Banned or reported check
-    if (profile.safety.isBanned) {
+    // Banned check; time-limited bans stop applying once they expire
+    if (isBanActive(profile.safety)) {
       canViewProfile = false;
       restrictions.push('profile_banned');
     }
@@ -288,16 +313,33 @@ export class PrivacyVisibilityService {
    * Hide profile from specific users
    */
   async hideFromUsers(userId: string, userIdsToHideFrom: string[]): Promise<void> {
-    // In real implementation, this would maintain a block/hide list
-    console.log(`User ${userId} hiding from:`, userIdsToHideFrom);
+    const repository = this.getRepository();
+    const hiddenFrom = new Set(await repository.getHiddenFromUsers(userId));
+    userIdsToHideFrom
+      .filter(id => id !== userId)
+      .forEach(id => hiddenFrom.add(id));
+
+    await repository.setHiddenFromUsers(userId, Array.from(hiddenFrom));
   }
 
   /**
    * Show profile to specific users (remove from hide list)
    */
   async showToUsers(userId: string, userIdsToShow: string[]): Promise<void> {
-    // In real implementation, this would remove from block/hide list
-    console.log(`User ${userId} showing to:`, userIdsToShow);
+    const repository = this.getRepository();
+    const hiddenFrom = await repository.getHiddenFromUsers(userId);
+
+    await repository.setHiddenFromUsers(
+      userId,
+      hiddenFrom.filter(id => !userIdsToShow.includes(id))
+    );
+  }
+
+  /**
+   * Get the users a profile is hidden from
+   */
+  async getHiddenFromUsers(userId: string): Promise<string[]> {
+    return this.getRepository().getHiddenFromUsers(userId);
   }
 
   /**
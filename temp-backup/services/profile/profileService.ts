@@ -25,27 +25,53 @@ import {
   Location,
   ProfilePhoto,
   SexualOrientation,
-  RelationshipType
+  RelationshipType,
+  ProfileRepository,
+  ProfileListOptions
 } from '../../types/profile';
+import { InMemoryProfileRepository } from './repositories/inMemoryProfileRepository';
 // Note: VerificationStatusService to be imported when available
 // import { VerificationStatusService } from '../verification/verificationStatusService';
 import { VerificationResult } from '../../types/verification';
 
+/**
+ * Whether a ban is in force at the given time. Bans without an expiry are permanent.
+ */
+export function isBanActive(safety: UserProfile['safety'], at: Date = new Date()): boolean {
+  if (!safety.isBanned) return false;
+  return !safety.banExpiresAt || safety.banExpiresAt.getTime() > at.getTime();
+}
+
 export class ProfileService {
   private static instance: ProfileService;
+  private repository: ProfileRepository;
   // private verificationService: VerificationStatusService;
   
-  private constructor() {
+  private constructor(repository?: ProfileRepository) {
+    this.repository = repository || new InMemoryProfileRepository();
     // this.verificationService = VerificationStatusService.getInstance();
   }
 
-  public static getInstance(): ProfileService {
+  public static getInstance(repository?: ProfileRepository): ProfileService {
     if (!ProfileService.instance) {
-      ProfileService.instance = new ProfileService();
+      ProfileService.instance = new ProfileService(repository);
+    } else if (repository) {
+      ProfileService.instance.setRepository(repository);
     }
     return ProfileService.instance;
   }
 
+  /**
+   * Swap the storage backend (e.g. Supabase in production, in-memory in tests)
+   */
+  setRepository(repository: ProfileRepository): void {
+    this.repository = repository;
+  }
+
+  getRepository(): ProfileRepository {
+    return this.repository;
+  }
+
   // Validation rules
   private validationRules: ProfileValidationRules = {
     displayName: {
@@ -167,7 +193,7 @@ export class ProfileService {
         isReported: false,
         reportCount: 0,
         isBanned: false,
-        trustScore: verificationScore
+        trustScore: Math.round(verificationScore * 100) // verificationScore is 0-1
       }
     };
 
@@ -228,16 +254,22 @@ export class ProfileService {
    * Get user profile by ID
    */
   async getProfile(profileId: string): Promise<UserProfile | null> {
-    // In real implementation, this would fetch from database
-    return this.retrieveProfile(profileId);
+    // Profiles are keyed by the owning user's ID
+    return this.repository.getProfile(profileId);
   }
 
   /**
    * Get user profile by user ID
    */
   async getProfileByUserId(userId: string): Promise<UserProfile | null> {
-    // In real implementation, this would query database by userId
-    return this.retrieveProfileByUserId(userId);
+    return this.repository.getProfile(userId);
+  }
+
+  /**
+   * List stored profiles one page at a time, ordered by user ID
+   */
+  async listProfiles(options: ProfileListOptions): Promise<UserProfile[]> {
+    return this.repository.listProfiles(options);
   }
 
   /**
@@ -579,20 +611,9 @@ export class ProfileService {
     return [];
   }
 
-  // Storage methods (in real implementation, these would interact with database)
+  // Storage methods
   private async storeProfile(profile: UserProfile): Promise<void> {
-    // Mock storage - in real app, this would save to database
-    console.log('Profile stored:', profile.userId);
-  }
-
-  private async retrieveProfile(profileId: string): Promise<UserProfile | null> {
-    // Mock retrieval - in real app, this would fetch from database
-    return null;
-  }
-
-  private async retrieveProfileByUserId(userId: string): Promise<UserProfile | null> {
-    // Mock retrieval - in real app, this would fetch from database
-    return null;
+    await this.repository.saveProfile(profile);
   }
 
   private async storeProfileSession(session: ProfileCreationSession): Promise<void> {
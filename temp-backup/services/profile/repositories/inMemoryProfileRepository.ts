@@ -0,0 +1,101 @@
+/**
+ * In-Memory Profile Repository
+ * Epic 002: Profile Creation & Management
+ *
+ * Process-local profile storage used by tests and offline development
+ */
+
+import { ProfileListOptions, ProfilePhoto, ProfileRepository, UserProfile } from '../../../types/profile';
+
+interface StoredPhoto {
+  userId: string;
+  photo: ProfilePhoto;
+}
+
+export class InMemoryProfileRepository implements ProfileRepository {
+  private profiles: Map<string, UserProfile> = new Map();
+  private photos: Map<string, StoredPhoto> = new Map();
+  private hiddenFrom: Map<string, Set<string>> = new Map();
+
+  async getProfile(userId: string): Promise<UserProfile | null> {
+    const profile = this.profiles.get(userId);
+    if (!profile) {
+      return null;
+    }
+
+    return {
+      ...profile,
+      personalInfo: { ...profile.personalInfo },
+      preferences: { ...profile.preferences },
+      visibility: { ...profile.visibility },
+      photos: await this.getUserPhotos(userId)
+    };
+  }
+
+  async saveProfile(profile: UserProfile): Promise<void> {
+    this.profiles.set(profile.userId, { ...profile, photos: [] });
+  }
+
+  async listProfiles(options: ProfileListOptions): Promise<UserProfile[]> {
+    const excluded = new Set(options.excludeUserIds || []);
+    const userIds = Array.from(this.profiles.keys())
+      .filter(userId => !options.afterUserId || userId > options.afterUserId)
+      .filter(userId => !excluded.has(userId))
+      .filter(userId => {
+        if (!options.ageRange) return true;
+        const age = this.profiles.get(userId)!.personalInfo.age;
+        return age >= options.ageRange.min && age <= options.ageRange.max;
+      })
+      .sort()
+      .slice(0, options.limit);
+
+    const profiles = await Promise.all(userIds.map(userId => this.getProfile(userId)));
+    return profiles as UserProfile[];
+  }
+
+  async getPhoto(photoId: string): Promise<ProfilePhoto | null> {
+    const stored = this.photos.get(photoId);
+    return stored ? { ...stored.photo } : null;
+  }
+
+  async getUserPhotos(userId: string): Promise<ProfilePhoto[]> {
+    return Array.from(this.photos.values())
+      .filter(stored => stored.userId === userId)
+      .map(stored => ({ ...stored.photo }))
+      .sort((a, b) => a.order - b.order);
+  }
+
+  async addPhoto(userId: string, photo: ProfilePhoto): Promise<void> {
+    this.photos.set(photo.id, { userId, photo: { ...photo } });
+  }
+
+  async updatePhoto(photo: ProfilePhoto): Promise<void> {
+    const stored = this.photos.get(photo.id);
+    if (!stored) {
+      throw new Error(`Photo not found: ${photo.id}`);
+    }
+
+    this.photos.set(photo.id, { userId: stored.userId, photo: { ...photo } });
+  }
+
+  async deletePhoto(photoId: string): Promise<void> {
+    this.photos.delete(photoId);
+  }
+
+  async getHiddenFromUsers(userId: string): Promise<string[]> {
+    return Array.from(this.hiddenFrom.get(userId) || []);
+  }
+
+  async setHiddenFromUsers(userId: string, hiddenFromUserIds: string[]): Promise<void> {
+    this.hiddenFrom.set(userId, new Set(hiddenFromUserIds));
+  }
+
+  /**
+   * Remove all stored data
+   */
+  clear(): void {
+    this.profiles.clear();
+    this.photos.clear();
+    this.hiddenFrom.clear();
+  }
+}
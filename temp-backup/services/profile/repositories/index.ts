@@ -0,0 +1,8 @@
+/**
+ * Profile Repositories
+ * Storage backends for the profile services
+ */
+
+export { InMemoryProfileRepository } from './inMemoryProfileRepository';
+export { SupabaseProfileRepository } from './supabaseProfileRepository';
+export type { ProfileRepository } from '../../../types/profile';
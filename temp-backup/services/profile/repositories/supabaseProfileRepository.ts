@@ -0,0 +1,431 @@
+/**
+ * Supabase Profile Repository
+ * Epic 002: Profile Creation & Management
+ *
+ * Maps profiles onto the profiles, profile_photos, matching_preferences and
+ * profile_visibility tables defined in supabase/schema.sql. Verification
+ * status is read from the user's users row, which verification keeps up to date.
+ */
+
+import { supabase, type SupabaseClient } from '../../../lib/supabase';
+import {
+  Location,
+  MatchingPreferences,
+  ProfileListOptions,
+  ProfilePhoto,
+  ProfileRepository,
+  ProfileVisibility,
+  UserProfile
+} from '../../../types/profile';
+
+// Profile columns plus the verification status held on users
+const PROFILE_COLUMNS = '*, users(is_verified, verification_level)';
+
+// users.verification_level runs from 0 (none) to 5 (background check)
+const MAX_VERIFICATION_LEVEL = 5;
+
+export class SupabaseProfileRepository implements ProfileRepository {
+  constructor(private client: SupabaseClient = supabase) {}
+
+  async getProfile(userId: string): Promise<UserProfile | null> {
+    const { data: profile, error } = await this.client
+      .from('profiles')
+      .select(PROFILE_COLUMNS)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!profile) return null;
+
+    const [photos, preferences, visibility] = await Promise.all([
+      this.getUserPhotos(userId),
+      this.fetchRow('matching_preferences', userId),
+      this.fetchRow('profile_visibility', userId)
+    ]);
+
+    return this.mapProfileFromDatabase(profile, photos, preferences, visibility);
+  }
+
+  async saveProfile(profile: UserProfile): Promise<void> {
+    const info = profile.personalInfo;
+    const now = new Date().toISOString();
+
+    // gender and gender_preference hold genders, which profiles don't record,
+    // so they are left to whatever sets them
+    const { error: profileError } = await this.client
+      .from('profiles')
+      .upsert({
+        user_id: profile.userId,
+        display_name: info.displayName,
+        bio: info.bio,
+        age: info.age,
+        date_of_birth: info.dateOfBirth ? info.dateOfBirth.toISOString().slice(0, 10) : null,
+        sexual_orientation: info.sexualOrientation,
+        relationship_type: info.lookingFor?.[0],
+        location: this.toPoint(info.location),
+        city: info.location?.city,
+        country: info.location?.country,
+        occupation: info.occupation,
+        education: info.education,
+        height: info.height,
+        interests: info.interests,
+        lifestyle: info.lifestyle,
+        is_complete: profile.completion.overallPercentage >= 100,
+        completion_score: profile.completion.overallPercentage,
+        profile_views: profile.profileViews,
+        is_reported: profile.safety.isReported,
+        report_count: profile.safety.reportCount,
+        is_banned: profile.safety.isBanned,
+        ban_reason: profile.safety.banReason ?? null,
+        ban_expires_at: profile.safety.banExpiresAt?.toISOString() ?? null,
+        trust_score: Math.round(profile.safety.trustScore),
+        is_premium: profile.premium.isActive,
+        premium_tier: profile.premium.tier ?? 'basic',
+        premium_expires_at: profile.premium.expiresAt?.toISOString() ?? null,
+        premium_features: profile.premium.features,
+        updated_at: now
+      }, { onConflict: 'user_id' });
+
+    if (profileError) throw profileError;
+
+    const { error: prefsError } = await this.client
+      .from('matching_preferences')
+      .upsert({
+        user_id: profile.userId,
+        age_min: profile.preferences.ageRange.min,
+        age_max: profile.preferences.ageRange.max,
+        distance_max: profile.preferences.maxDistance,
+        relationship_goals: profile.preferences.relationshipTypes,
+        deal_breakers: profile.preferences.dealBreakers || [],
+        preferences: profile.preferences,
+        updated_at: now
+      }, { onConflict: 'user_id' });
+
+    if (prefsError) throw prefsError;
+
+    const { error: visibilityError } = await this.client
+      .from('profile_visibility')
+      .upsert({
+        user_id: profile.userId,
+        is_discoverable: profile.visibility.isVisible,
+        is_incognito: profile.visibility.incognito,
+        show_distance: !profile.visibility.hideLocation && profile.visibility.distanceVisibility !== 'hidden',
+        show_last_active: !profile.visibility.hideLastActive,
+        settings: profile.visibility,
+        updated_at: now
+      }, { onConflict: 'user_id' });
+
+    if (visibilityError) throw visibilityError;
+  }
+
+  async listProfiles(options: ProfileListOptions): Promise<UserProfile[]> {
+    let query = this.client
+      .from('profiles')
+      .select(PROFILE_COLUMNS)
+      .order('user_id')
+      .limit(options.limit);
+
+    if (options.afterUserId) {
+      query = query.gt('user_id', options.afterUserId);
+    }
+    if (options.excludeUserIds && options.excludeUserIds.length > 0) {
+      query = query.not('user_id', 'in', `(${options.excludeUserIds.join(',')})`);
+    }
+    if (options.ageRange) {
+      query = query.gte('age', options.ageRange.min).lte('age', options.ageRange.max);
+    }
+
+    const { data: profiles, error } = await query;
+    if (error) throw error;
+    if (!profiles || profiles.length === 0) return [];
+
+    // Load related rows for the whole page in one query per table
+    const userIds = profiles.map(profile => profile.user_id);
+    const [photos, preferences, visibility] = await Promise.all([
+      this.fetchRowsForUsers('profile_photos', userIds),
+      this.fetchRowsForUsers('matching_preferences', userIds),
+      this.fetchRowsForUsers('profile_visibility', userIds)
+    ]);
+
+    return profiles.map(profile => this.mapProfileFromDatabase(
+      profile,
+      photos
+        .filter(photo => photo.user_id === profile.user_id)
+        .sort((a, b) => a.order_index - b.order_index)
+        .map(photo => this.mapPhotoFromDatabase(photo)),
+      preferences.find(row => row.user_id === profile.user_id) || null,
+      visibility.find(row => row.user_id === profile.user_id) || null
+    ));
+  }
+
+  async getPhoto(photoId: string): Promise<ProfilePhoto | null> {
+    const { data: photo, error } = await this.client
+      .from('profile_photos')
+      .select('*')
+      .eq('id', photoId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return photo ? this.mapPhotoFromDatabase(photo) : null;
+  }
+
+  async getUserPhotos(userId: string): Promise<ProfilePhoto[]> {
+    const { data: photos, error } = await this.client
+      .from('profile_photos')
+      .select('*')
+      .eq('user_id', userId)
+      .order('order_index');
+
+    if (error) throw error;
+    return (photos || []).map(photo => this.mapPhotoFromDatabase(photo));
+  }
+
+  async addPhoto(userId: string, photo: ProfilePhoto): Promise<void> {
+    const { error } = await this.client
+      .from('profile_photos')
+      .insert({
+        ...this.mapPhotoToDatabase(photo),
+        id: photo.id,
+        user_id: userId,
+        created_at: photo.uploadedAt.toISOString()
+      });
+
+    if (error) throw error;
+  }
+
+  async updatePhoto(photo: ProfilePhoto): Promise<void> {
+    const { data, error } = await this.client
+      .from('profile_photos')
+      .update({
+        ...this.mapPhotoToDatabase(photo),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', photo.id)
+      .select('id');
+
+    if (error) throw error;
+    if (!data || data.length === 0) {
+      throw new Error(`Photo not found: ${photo.id}`);
+    }
+  }
+
+  async deletePhoto(photoId: string): Promise<void> {
+    const { error } = await this.client
+      .from('profile_photos')
+      .delete()
+      .eq('id', photoId);
+
+    if (error) throw error;
+  }
+
+  async getHiddenFromUsers(userId: string): Promise<string[]> {
+    const visibility = await this.fetchRow('profile_visibility', userId);
+    return visibility?.hidden_from_users || [];
+  }
+
+  async setHiddenFromUsers(userId: string, hiddenFromUserIds: string[]): Promise<void> {
+    const { error } = await this.client
+      .from('profile_visibility')
+      .upsert({
+        user_id: userId,
+        hidden_from_users: hiddenFromUserIds,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'user_id' });
+
+    if (error) throw error;
+  }
+
+  // ===== MAPPING =====
+
+  private async fetchRow(table: 'matching_preferences' | 'profile_visibility', userId: string): Promise<any | null> {
+    const { data, error } = await this.client
+      .from(table)
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  private async fetchRowsForUsers(
+    table: 'profile_photos' | 'matching_preferences' | 'profile_visibility',
+    userIds: string[]
+  ): Promise<any[]> {
+    const { data, error } = await this.client
+      .from(table)
+      .select('*')
+      .in('user_id', userIds);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  private mapProfileFromDatabase(
+    dbProfile: any,
+    photos: ProfilePhoto[],
+    dbPreferences: any | null,
+    dbVisibility: any | null
+  ): UserProfile {
+    const completionScore = dbProfile.completion_score || 0;
+    const verificationLevel = dbProfile.users?.verification_level || 0;
+
+    return {
+      userId: dbProfile.user_id,
+      personalInfo: {
+        displayName: dbProfile.display_name,
+        bio: dbProfile.bio || '',
+        age: dbProfile.age,
+        dateOfBirth: dbProfile.date_of_birth ? new Date(dbProfile.date_of_birth) : new Date(),
+        sexualOrientation: dbProfile.sexual_orientation || 'straight',
+        sexualIntent: 'clear',
+        lookingFor: dbProfile.relationship_type ? [dbProfile.relationship_type] : [],
+        location: {
+          ...this.fromPoint(dbProfile.location),
+          city: dbProfile.city || '',
+          country: dbProfile.country || ''
+        },
+        occupation: dbProfile.occupation,
+        education: dbProfile.education,
+        height: dbProfile.height,
+        interests: dbProfile.interests || [],
+        lifestyle: dbProfile.lifestyle || {}
+      },
+      photos,
+      preferences: this.mapPreferencesFromDatabase(dbPreferences),
+      visibility: this.mapVisibilityFromDatabase(dbVisibility),
+      completion: {
+        overallPercentage: completionScore,
+        personalInfo: completionScore,
+        photos: photos.length > 0 ? 100 : 0,
+        preferences: dbPreferences ? 100 : 0,
+        visibility: 100,
+        missingFields: [],
+        recommendedActions: []
+      },
+      createdAt: new Date(dbProfile.created_at),
+      updatedAt: new Date(dbProfile.updated_at),
+      lastActiveAt: new Date(dbProfile.updated_at),
+      profileViews: dbProfile.profile_views || 0,
+      profileLikes: 0,
+      verification: {
+        isVerified: dbProfile.users?.is_verified === true,
+        verificationResults: [],
+        verificationScore: Math.min(verificationLevel / MAX_VERIFICATION_LEVEL, 1),
+        lastVerificationUpdate: new Date(dbProfile.updated_at)
+      },
+      premium: {
+        isActive: dbProfile.is_premium === true,
+        tier: dbProfile.premium_tier ?? undefined,
+        expiresAt: dbProfile.premium_expires_at ? new Date(dbProfile.premium_expires_at) : undefined,
+        features: dbProfile.premium_features || []
+      },
+      safety: {
+        isReported: dbProfile.is_reported === true,
+        reportCount: dbProfile.report_count || 0,
+        isBanned: dbProfile.is_banned === true,
+        banReason: dbProfile.ban_reason ?? undefined,
+        banExpiresAt: dbProfile.ban_expires_at ? new Date(dbProfile.ban_expires_at) : undefined,
+        trustScore: dbProfile.trust_score ?? 50
+      }
+    };
+  }
+
+  private mapPreferencesFromDatabase(row: any | null): MatchingPreferences {
+    const stored: Partial<MatchingPreferences> = row?.preferences || {};
+
+    return {
+      ...stored,
+      ageRange: stored.ageRange || { min: row?.age_min ?? 18, max: row?.age_max ?? 99 },
+      maxDistance: stored.maxDistance ?? row?.distance_max ?? 50,
+      sexualOrientations: stored.sexualOrientations || ['straight'],
+      relationshipTypes: stored.relationshipTypes || row?.relationship_goals || ['casual'],
+      dealBreakers: stored.dealBreakers || row?.deal_breakers || []
+    };
+  }
+
+  private mapVisibilityFromDatabase(row: any | null): ProfileVisibility {
+    const stored: Partial<ProfileVisibility> = row?.settings || {};
+
+    return {
+      isVisible: row?.is_discoverable ?? true,
+      hideAge: stored.hideAge ?? false,
+      hideLocation: stored.hideLocation ?? row?.show_distance === false,
+      hideLastActive: row ? row.show_last_active === false : false,
+      showOnlyToVerified: stored.showOnlyToVerified ?? false,
+      incognito: row?.is_incognito ?? false,
+      distanceVisibility: stored.distanceVisibility || 'approximate',
+      onlineStatus: stored.onlineStatus || 'online'
+    };
+  }
+
+  private mapPhotoFromDatabase(photo: any): ProfilePhoto {
+    const verification = photo.verification_data || {};
+
+    return {
+      id: photo.id,
+      url: photo.url,
+      thumbnailUrl: photo.thumbnail_url,
+      isPrimary: photo.is_primary,
+      order: photo.order_index,
+      isVerified: photo.is_verified,
+      moderationStatus: verification.moderationStatus || 'pending',
+      moderationNotes: verification.moderationNotes,
+      metadata: photo.metadata,
+      uploadedAt: new Date(photo.created_at)
+    };
+  }
+
+  private mapPhotoToDatabase(photo: ProfilePhoto): Record<string, any> {
+    return {
+      url: photo.url,
+      thumbnail_url: photo.thumbnailUrl,
+      is_primary: photo.isPrimary,
+      order_index: photo.order,
+      is_verified: photo.isVerified,
+      verification_data: {
+        moderationStatus: photo.moderationStatus,
+        moderationNotes: photo.moderationNotes
+      },
+      metadata: photo.metadata
+    };
+  }
+
+  /**
+   * Encode a location as EWKT for the GEOGRAPHY(POINT, 4326) column
+   */
+  private toPoint(location?: Location): string | null {
+    if (!location || (!location.latitude && !location.longitude)) {
+      return null;
+    }
+    return `SRID=4326;POINT(${location.longitude} ${location.latitude})`;
+  }
+
+  /**
+   * Decode a point returned by PostgREST (hex EWKB or GeoJSON)
+   */
+  private fromPoint(value: any): { latitude: number; longitude: number } {
+    if (value && typeof value === 'object' && Array.isArray(value.coordinates)) {
+      return { longitude: value.coordinates[0], latitude: value.coordinates[1] };
+    }
+
+    if (typeof value !== 'string' || value.length < 42) {
+      return { latitude: 0, longitude: 0 };
+    }
+
+    const bytes = new Uint8Array(value.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(value.substr(i * 2, 2), 16);
+    }
+
+    const view = new DataView(bytes.buffer);
+    const littleEndian = view.getUint8(0) === 1;
+    const hasSrid = (view.getUint32(1, littleEndian) & 0x20000000) !== 0;
+    const offset = hasSrid ? 9 : 5;
+
+    return {
+      longitude: view.getFloat64(offset, littleEndian),
+      latitude: view.getFloat64(offset + 8, littleEndian)
+    };
+  }
+}
@@ -0,0 +1,177 @@
+import { RealtimeHub } from '../realtimeHub';
+import { InMemoryRealtimeTransport } from '../transports/inMemoryRealtimeTransport';
+import { AnyRealtimeEvent, RealtimeConnectionStatus, RealtimeEvent } from '../../../types/realtime';
+
+describe('RealtimeHub', () => {
+  let transport: InMemoryRealtimeTransport;
+  let hub: RealtimeHub;
+
+  const matchEvent = (userId: string, matchId: string, otherUserId: string): AnyRealtimeEvent => ({
+    id: `match:${matchId}`,
+    type: 'match',
+    userId,
+    payload: { matchId, otherUserId, matchedAt: new Date() }
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    transport = new InMemoryRealtimeTransport();
+    hub = RealtimeHub.getInstance(transport);
+    hub.updateConfig({
+      initialReconnectDelayMs: 1000,
+      maxReconnectDelayMs: 8000,
+      reconnectJitterRatio: 0,
+      maxReconnectAttempts: 0
+    });
+  });
+
+  afterEach(() => {
+    hub.disconnectAll();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('Multiplexing', () => {
+    it('should share one channel across event types for a user', () => {
+      const matches: RealtimeEvent<'match'>[] = [];
+      const typing: RealtimeEvent<'typing'>[] = [];
+
+      hub.on('alice', 'match', event => matches.push(event));
+      hub.on('alice', 'typing', event => typing.push(event));
+
+      expect(transport.getOpenChannelCount('alice')).toBe(1);
+      expect(hub.getStatus('alice')).toBe('connected');
+
+      transport.emit('alice', matchEvent('alice', 'match_1', 'bob'));
+
+      expect(matches).toHaveLength(1);
+      expect(matches[0].payload.otherUserId).toBe('bob');
+      expect(typing).toHaveLength(0);
+    });
+
+    it('should close the channel when the last listener unsubscribes', () => {
+      const offMatch = hub.on('alice', 'match', () => {});
+      const offMessage = hub.on('alice', 'message', () => {});
+
+      offMatch();
+      expect(transport.getOpenChannelCount('alice')).toBe(1);
+
+      offMessage();
+      expect(transport.getOpenChannelCount('alice')).toBe(0);
+      expect(hub.getStatus('alice')).toBe('closed');
+    });
+
+    it('should deliver typing indicators to the recipient', async () => {
+      const typing: RealtimeEvent<'typing'>[] = [];
+      hub.on('bob', 'typing', event => typing.push(event));
+
+      await hub.sendTyping('alice', 'bob', 'conversation_1', true);
+
+      expect(typing).toHaveLength(1);
+      expect(typing[0].payload).toMatchObject({ conversationId: 'conversation_1', userId: 'alice', isTyping: true });
+    });
+  });
+
+  describe('De-duplication', () => {
+    it('should drop events already delivered', () => {
+      const listener = jest.fn();
+      hub.on('alice', 'match', listener);
+
+      transport.emit('alice', matchEvent('alice', 'match_1', 'bob'));
+      transport.emit('alice', matchEvent('alice', 'match_1', 'bob'));
+      transport.emit('alice', matchEvent('alice', 'match_2', 'carol'));
+
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it('should only remember a bounded number of events', () => {
+      hub.updateConfig({ dedupeWindowSize: 1 });
+      const listener = jest.fn();
+      hub.on('alice', 'match', listener);
+
+      transport.emit('alice', matchEvent('alice', 'match_1', 'bob'));
+      transport.emit('alice', matchEvent('alice', 'match_2', 'carol'));
+      transport.emit('alice', matchEvent('alice', 'match_1', 'bob'));
+
+      expect(listener).toHaveBeenCalledTimes(3);
+      hub.updateConfig({ dedupeWindowSize: 500 });
+    });
+  });
+
+  describe('Reconnection', () => {
+    let manualTransport: InMemoryRealtimeTransport;
+
+    beforeEach(() => {
+      // Channels only connect when the test says so
+      manualTransport = new InMemoryRealtimeTransport(false);
+      hub.setTransport(manualTransport);
+    });
+
+    it('should reconnect with exponential backoff', () => {
+      const statuses: RealtimeConnectionStatus[] = [];
+      hub.on('alice', 'match', () => {});
+      hub.onStatusChange('alice', status => statuses.push(status));
+
+      manualTransport.setStatus('alice', 'error', new Error('socket closed'));
+      expect(hub.getStatus('alice')).toBe('reconnecting');
+      expect(manualTransport.getOpenChannelCount('alice')).toBe(0);
+
+      jest.advanceTimersByTime(999);
+      expect(manualTransport.getConnectCount('alice')).toBe(1);
+      jest.advanceTimersByTime(1);
+      expect(manualTransport.getConnectCount('alice')).toBe(2);
+
+      // Each consecutive failure waits twice as long
+      manualTransport.setStatus('alice', 'disconnected');
+      jest.advanceTimersByTime(1999);
+      expect(manualTransport.getConnectCount('alice')).toBe(2);
+      jest.advanceTimersByTime(1);
+      expect(manualTransport.getConnectCount('alice')).toBe(3);
+
+      // A successful connection resets the backoff
+      manualTransport.setStatus('alice', 'connected');
+      manualTransport.setStatus('alice', 'error');
+      jest.advanceTimersByTime(1000);
+      expect(manualTransport.getConnectCount('alice')).toBe(4);
+
+      expect(statuses).toEqual(['reconnecting', 'connected', 'reconnecting']);
+    });
+
+    it('should cap the backoff delay', () => {
+      hub.on('alice', 'match', () => {});
+
+      for (let attempt = 0; attempt < 5; attempt++) {
+        manualTransport.setStatus('alice', 'error');
+        jest.advanceTimersByTime(8000);
+      }
+
+      expect(manualTransport.getConnectCount('alice')).toBe(6);
+    });
+
+    it('should give up after the configured number of attempts', () => {
+      hub.updateConfig({ maxReconnectAttempts: 1 });
+
+      hub.on('alice', 'match', () => {});
+      manualTransport.setStatus('alice', 'error');
+      jest.advanceTimersByTime(1000);
+      manualTransport.setStatus('alice', 'error');
+
+      expect(hub.getStatus('alice')).toBe('closed');
+      expect(manualTransport.getOpenChannelCount('alice')).toBe(0);
+    });
+
+    it('should ignore events from replaced channels', () => {
+      const listener = jest.fn();
+      hub.on('alice', 'match', listener);
+
+      manualTransport.setStatus('alice', 'error');
+      jest.advanceTimersByTime(1000);
+      manualTransport.emit('alice', matchEvent('alice', 'match_1', 'bob'));
+
+      expect(manualTransport.getOpenChannelCount('alice')).toBe(1);
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { SupabaseRealtimeTransport } from '../transports/supabaseRealtimeTransport';
+import { AnyRealtimeEvent } from '../../../types/realtime';
+
+// The real client needs React Native; the transport is given a fake client instead
+jest.mock('../../../lib/supabase', () => ({ supabase: {} }));
+
+interface Binding {
+  type: string;
+  filter: Record<string, any>;
+  callback: (payload: any) => void;
+}
+
+const buildClient = () => {
+  const bindings: Binding[] = [];
+  const channel: any = {
+    on: (type: string, filter: Record<string, any>, callback: (payload: any) => void) => {
+      bindings.push({ type, filter, callback });
+      return channel;
+    },
+    subscribe: () => channel
+  };
+
+  return {
+    bindings,
+    client: { channel: () => channel, removeChannel: jest.fn() } as any
+  };
+};
+
+describe('SupabaseRealtimeTransport', () => {
+  it('should deliver matches from either side of the pair', () => {
+    const { bindings, client } = buildClient();
+    const events: AnyRealtimeEvent[] = [];
+    new SupabaseRealtimeTransport(client).connect('bob', { onEvent: event => events.push(event), onStatusChange: () => {} });
+
+    const matchBindings = bindings.filter(binding => binding.filter.table === 'matches');
+    expect(matchBindings.map(binding => binding.filter.filter)).toEqual(['user1_id=eq.bob', 'user2_id=eq.bob']);
+
+    matchBindings[1].callback({
+      new: { id: 'match_1', user1_id: 'alice', user2_id: 'bob', matched_at: '2025-06-01T12:00:00Z' }
+    });
+    expect(events).toEqual([expect.objectContaining({
+      type: 'match',
+      userId: 'bob',
+      payload: expect.objectContaining({ matchId: 'match_1', otherUserId: 'alice' })
+    })]);
+  });
+
+  it('should only subscribe to tables the user can select under RLS', () => {
+    // Realtime drops postgres changes the subscriber cannot SELECT, so a table
+    // without a SELECT policy would never deliver an event
+    const { bindings, client } = buildClient();
+    new SupabaseRealtimeTransport(client).connect('bob', { onEvent: () => {}, onStatusChange: () => {} });
+
+    const schema = readFileSync(join(__dirname, '../../../../supabase/schema.sql'), 'utf8');
+    const selectable = new Set(
+      Array.from(schema.matchAll(/CREATE POLICY "[^"]+" ON public\.(\w+)\s+FOR (?:SELECT|ALL)/g), match => match[1])
+    );
+    const tables = new Set(bindings.filter(binding => binding.type === 'postgres_changes').map(binding => binding.filter.table));
+
+    expect(Array.from(tables).sort()).toEqual(['match_notifications', 'matches', 'messages']);
+    tables.forEach(table => expect(selectable).toContain(table));
+  });
+});
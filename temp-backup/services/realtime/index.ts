@@ -0,0 +1,9 @@
+/**
+ * Realtime Services Export
+ * Epic 004: Communication Features
+ */
+
+export { RealtimeHub } from './realtimeHub';
+export { InMemoryRealtimeTransport, SupabaseRealtimeTransport } from './transports';
+
+export type { RealtimeHubConfig } from './realtimeHub';
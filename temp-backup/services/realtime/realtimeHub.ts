@@ -0,0 +1,279 @@
+/**
+ * Realtime Hub
+ * Epic 004: Communication Features
+ *
+ * Multiplexes match, message, typing, notification and profile view events
+ * for each user over a single channel, dropping duplicate deliveries and
+ * reconnecting with exponential backoff when the channel fails
+ */
+
+import {
+  AnyRealtimeEvent,
+  RealtimeConnection,
+  RealtimeConnectionStatus,
+  RealtimeEvent,
+  RealtimeEventListener,
+  RealtimeEventType,
+  RealtimeTransport,
+  RealtimeTransportStatus
+} from '../../types/realtime';
+import { InMemoryRealtimeTransport } from './transports/inMemoryRealtimeTransport';
+
+export interface RealtimeHubConfig {
+  initialReconnectDelayMs: number;
+  maxReconnectDelayMs: number;
+  reconnectJitterRatio: number; // 0.2 = up to 20% extra delay
+  maxReconnectAttempts: number; // 0 = keep retrying
+  dedupeWindowSize: number; // Recent event IDs remembered per user
+}
+
+type StatusListener = (status: RealtimeConnectionStatus, error?: Error) => void;
+
+interface UserChannel {
+  userId: string;
+  connection?: RealtimeConnection;
+  generation: number; // Ignores callbacks from channels that have been replaced
+  status: RealtimeConnectionStatus;
+  listeners: Map<RealtimeEventType, Set<RealtimeEventListener<any>>>;
+  statusListeners: Set<StatusListener>;
+  reconnectAttempts: number;
+  reconnectTimer?: ReturnType<typeof setTimeout>;
+  seenEventIds: Set<string>;
+  seenEventOrder: string[];
+}
+
+export class RealtimeHub {
+  private static instance: RealtimeHub;
+  private transport: RealtimeTransport;
+  private channels: Map<string, UserChannel> = new Map();
+
+  private config: RealtimeHubConfig = {
+    initialReconnectDelayMs: 1000,
+    maxReconnectDelayMs: 30000,
+    reconnectJitterRatio: 0.2,
+    maxReconnectAttempts: 0,
+    dedupeWindowSize: 500
+  };
+
+  private constructor(transport?: RealtimeTransport) {
+    this.transport = transport || new InMemoryRealtimeTransport();
+  }
+
+  public static getInstance(transport?: RealtimeTransport): RealtimeHub {
+    if (!RealtimeHub.instance) {
+      RealtimeHub.instance = new RealtimeHub(transport);
+    } else if (transport) {
+      RealtimeHub.instance.setTransport(transport);
+    }
+    return RealtimeHub.instance;
+  }
+
+  /**
+   * Swap the transport, closing every open channel
+   */
+  setTransport(transport: RealtimeTransport): void {
+    this.disconnectAll();
+    this.transport = transport;
+  }
+
+  // ===== SUBSCRIPTIONS =====
+
+  /**
+   * Listen for one event type for a user; returns an unsubscribe function.
+   * The user's channel opens with the first listener and closes with the last.
+   */
+  on<K extends RealtimeEventType>(userId: string, type: K, listener: RealtimeEventListener<K>): () => void {
+    const channel = this.ensureChannel(userId);
+    const listeners = channel.listeners.get(type) || new Set();
+    listeners.add(listener);
+    channel.listeners.set(type, listeners);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        channel.listeners.delete(type);
+      }
+      this.closeIfUnused(channel);
+    };
+  }
+
+  /**
+   * Listen for connection status changes for a user
+   */
+  onStatusChange(userId: string, listener: StatusListener): () => void {
+    const channel = this.ensureChannel(userId);
+    channel.statusListeners.add(listener);
+
+    return () => {
+      channel.statusListeners.delete(listener);
+      this.closeIfUnused(channel);
+    };
+  }
+
+  getStatus(userId: string): RealtimeConnectionStatus {
+    return this.channels.get(userId)?.status || 'closed';
+  }
+
+  /**
+   * Tell the other participant whether the user is typing
+   */
+  async sendTyping(userId: string, recipientId: string, conversationId: string, isTyping: boolean): Promise<void> {
+    await this.transport.sendTyping(recipientId, {
+      conversationId,
+      userId,
+      isTyping,
+      sentAt: new Date()
+    });
+  }
+
+  /**
+   * Close a user's channel and drop all of their listeners
+   */
+  disconnect(userId: string): void {
+    const channel = this.channels.get(userId);
+    if (!channel) return;
+
+    this.teardown(channel);
+    this.channels.delete(userId);
+    this.setStatus(channel, 'closed');
+  }
+
+  disconnectAll(): void {
+    Array.from(this.channels.keys()).forEach(userId => this.disconnect(userId));
+  }
+
+  /**
+   * Update hub configuration
+   */
+  updateConfig(newConfig: Partial<RealtimeHubConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  // ===== CONNECTION MANAGEMENT =====
+
+  private ensureChannel(userId: string): UserChannel {
+    let channel = this.channels.get(userId);
+    if (!channel) {
+      channel = {
+        userId,
+        generation: 0,
+        status: 'connecting',
+        listeners: new Map(),
+        statusListeners: new Set(),
+        reconnectAttempts: 0,
+        seenEventIds: new Set(),
+        seenEventOrder: []
+      };
+      this.channels.set(userId, channel);
+      this.open(channel);
+    }
+    return channel;
+  }
+
+  private open(channel: UserChannel): void {
+    const generation = ++channel.generation;
+    const isCurrent = () => this.channels.get(channel.userId) === channel && channel.generation === generation;
+
+    channel.connection = this.transport.connect(channel.userId, {
+      onEvent: event => {
+        if (isCurrent()) this.dispatch(channel, event);
+      },
+      onStatusChange: (status, error) => {
+        if (isCurrent()) this.handleTransportStatus(channel, status, error);
+      }
+    });
+  }
+
+  private handleTransportStatus(channel: UserChannel, status: RealtimeTransportStatus, error?: Error): void {
+    if (status === 'connected') {
+      channel.reconnectAttempts = 0;
+      this.setStatus(channel, 'connected');
+      return;
+    }
+
+    // Drop the failed channel and try again later
+    channel.generation++;
+    channel.connection?.close();
+    channel.connection = undefined;
+    this.scheduleReconnect(channel, error);
+  }
+
+  private scheduleReconnect(channel: UserChannel, error?: Error): void {
+    if (channel.reconnectTimer) return;
+
+    const { maxReconnectAttempts } = this.config;
+    if (maxReconnectAttempts > 0 && channel.reconnectAttempts >= maxReconnectAttempts) {
+      console.error(`Realtime channel for ${channel.userId} gave up after ${channel.reconnectAttempts} attempts:`, error);
+      this.disconnect(channel.userId);
+      return;
+    }
+
+    const delay = this.getReconnectDelay(channel.reconnectAttempts);
+    channel.reconnectAttempts++;
+    this.setStatus(channel, 'reconnecting', error);
+
+    channel.reconnectTimer = setTimeout(() => {
+      channel.reconnectTimer = undefined;
+      if (this.channels.get(channel.userId) === channel) {
+        this.open(channel);
+      }
+    }, delay);
+  }
+
+  private getReconnectDelay(attempt: number): number {
+    const { initialReconnectDelayMs, maxReconnectDelayMs, reconnectJitterRatio } = this.config;
+    const base = Math.min(initialReconnectDelayMs * Math.pow(2, attempt), maxReconnectDelayMs);
+    return Math.round(base * (1 + Math.random() * reconnectJitterRatio));
+  }
+
+  private closeIfUnused(channel: UserChannel): void {
+    if (channel.listeners.size === 0 && channel.statusListeners.size === 0) {
+      this.disconnect(channel.userId);
+    }
+  }
+
+  private teardown(channel: UserChannel): void {
+    channel.generation++;
+    if (channel.reconnectTimer) {
+      clearTimeout(channel.reconnectTimer);
+      channel.reconnectTimer = undefined;
+    }
+    channel.connection?.close();
+    channel.connection = undefined;
+  }
+
+  // ===== DISPATCH =====
+
+  private dispatch(channel: UserChannel, event: AnyRealtimeEvent): void {
+    if (this.isDuplicate(channel, event.id)) return;
+
+    const listeners = channel.listeners.get(event.type);
+    if (!listeners) return;
+
+    Array.from(listeners).forEach(listener => {
+      try {
+        (listener as RealtimeEventListener<typeof event.type>)(event as RealtimeEvent<typeof event.type>);
+      } catch (error) {
+        console.error(`Realtime ${event.type} listener failed:`, error);
+      }
+    });
+  }
+
+  private isDuplicate(channel: UserChannel, eventId: string): boolean {
+    if (channel.seenEventIds.has(eventId)) return true;
+
+    channel.seenEventIds.add(eventId);
+    channel.seenEventOrder.push(eventId);
+    while (channel.seenEventOrder.length > this.config.dedupeWindowSize) {
+      channel.seenEventIds.delete(channel.seenEventOrder.shift()!);
+    }
+    return false;
+  }
+
+  private setStatus(channel: UserChannel, status: RealtimeConnectionStatus, error?: Error): void {
+    if (channel.status === status && !error) return;
+
+    channel.status = status;
+    Array.from(channel.statusListeners).forEach(listener => listener(status, error));
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * In-Memory Realtime Transport
+ * Epic 004: Communication Features
+ *
+ * Process-local channels used by tests and offline development
+ */
+
+import {
+  AnyRealtimeEvent,
+  RealtimeConnection,
+  RealtimeTransport,
+  RealtimeTransportHandlers,
+  RealtimeTransportStatus,
+  TypingEventPayload
+} from '../../../types/realtime';
+
+export class InMemoryRealtimeTransport implements RealtimeTransport {
+  private channels: Map<string, Set<RealtimeTransportHandlers>> = new Map();
+  private connectCounts: Map<string, number> = new Map();
+
+  /**
+   * Open channels report connected immediately unless disabled, which lets
+   * tests drive the status by hand
+   */
+  constructor(private autoConnect: boolean = true) {}
+
+  connect(userId: string, handlers: RealtimeTransportHandlers): RealtimeConnection {
+    const handlerSet = this.channels.get(userId) || new Set();
+    handlerSet.add(handlers);
+    this.channels.set(userId, handlerSet);
+    this.connectCounts.set(userId, (this.connectCounts.get(userId) || 0) + 1);
+
+    if (this.autoConnect) {
+      handlers.onStatusChange('connected');
+    }
+
+    return {
+      close: () => {
+        handlerSet.delete(handlers);
+      }
+    };
+  }
+
+  async sendTyping(recipientId: string, payload: TypingEventPayload): Promise<void> {
+    this.emit(recipientId, {
+      id: `typing:${payload.conversationId}:${payload.userId}:${payload.sentAt.getTime()}`,
+      type: 'typing',
+      userId: recipientId,
+      payload
+    });
+  }
+
+  /**
+   * Deliver an event to every open channel for the user
+   */
+  emit(userId: string, event: AnyRealtimeEvent): void {
+    this.getHandlers(userId).forEach(handlers => handlers.onEvent(event));
+  }
+
+  /**
+   * Simulate a status change on every open channel for the user
+   */
+  setStatus(userId: string, status: RealtimeTransportStatus, error?: Error): void {
+    this.getHandlers(userId).forEach(handlers => handlers.onStatusChange(status, error));
+  }
+
+  /**
+   * Number of channels currently open for the user
+   */
+  getOpenChannelCount(userId: string): number {
+    return this.channels.get(userId)?.size || 0;
+  }
+
+  /**
+   * Number of times a channel has been opened for the user
+   */
+  getConnectCount(userId: string): number {
+    return this.connectCounts.get(userId) || 0;
+  }
+
+  /**
+   * Remove all channels and counters
+   */
+  clear(): void {
+    this.channels.clear();
+    this.connectCounts.clear();
+  }
+
+  private getHandlers(userId: string): RealtimeTransportHandlers[] {
+    return Array.from(this.channels.get(userId) || []);
+  }
+}
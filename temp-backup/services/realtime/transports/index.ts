@@ -0,0 +1,8 @@
+/**
+ * Realtime Transports
+ * Channel backends for the realtime hub
+ */
+
+export { InMemoryRealtimeTransport } from './inMemoryRealtimeTransport';
+export { SupabaseRealtimeTransport } from './supabaseRealtimeTransport';
+export type { RealtimeTransport } from '../../../types/realtime';
@@ -0,0 +1,188 @@
+/**
+ * Supabase Realtime Transport
+ * Epic 004: Communication Features
+ *
+ * Carries a user's events over one Supabase channel: postgres changes on
+ * matches, messages and match_notifications plus typing broadcasts. Realtime
+ * only delivers changes to rows the user can SELECT, so each of those tables
+ * needs a participant or owner policy in supabase/schema.sql.
+ */
+
+import type { RealtimePostgresInsertPayload } from '@supabase/supabase-js';
+import { supabase, type SupabaseClient } from '../../../lib/supabase';
+import { Message } from '../../../types/messaging';
+import {
+  AnyRealtimeEvent,
+  RealtimeConnection,
+  RealtimeTransport,
+  RealtimeTransportHandlers,
+  TypingEventPayload
+} from '../../../types/realtime';
+
+const TYPING_EVENT = 'typing';
+
+export class SupabaseRealtimeTransport implements RealtimeTransport {
+  constructor(private client: SupabaseClient = supabase) {}
+
+  connect(userId: string, handlers: RealtimeTransportHandlers): RealtimeConnection {
+    let closed = false;
+    const deliver = (event: AnyRealtimeEvent | null) => {
+      if (!closed && event) handlers.onEvent(event);
+    };
+
+    const channel = this.client
+      .channel(this.getTopic(userId))
+      // Realtime filters are single-column equality checks, so matches on
+      // either side of the pair need their own binding
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'matches', filter: `user1_id=eq.${userId}` },
+        (payload: RealtimePostgresInsertPayload<Record<string, any>>) => deliver(this.mapMatch(userId, payload.new))
+      )
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'matches', filter: `user2_id=eq.${userId}` },
+        (payload: RealtimePostgresInsertPayload<Record<string, any>>) => deliver(this.mapMatch(userId, payload.new))
+      )
+      // messages has no recipient column; RLS limits delivery to the user's conversations
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'messages' },
+        (payload: RealtimePostgresInsertPayload<Record<string, any>>) => deliver(this.mapMessage(userId, payload.new))
+      )
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'match_notifications', filter: `user_id=eq.${userId}` },
+        (payload: RealtimePostgresInsertPayload<Record<string, any>>) => deliver(this.mapNotification(userId, payload.new))
+      )
+      .on('broadcast', { event: TYPING_EVENT }, ({ payload }) => deliver(this.mapTyping(userId, payload)))
+      .subscribe((status, error) => {
+        if (closed) return;
+
+        if (status === 'SUBSCRIBED') {
+          handlers.onStatusChange('connected');
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          handlers.onStatusChange('error', error || new Error(`Realtime channel ${status.toLowerCase()}`));
+        } else if (status === 'CLOSED') {
+          handlers.onStatusChange('disconnected');
+        }
+      });
+
+    return {
+      close: () => {
+        closed = true;
+        this.client.removeChannel(channel);
+      }
+    };
+  }
+
+  async sendTyping(recipientId: string, payload: TypingEventPayload): Promise<void> {
+    // channel() hands back the recipient's live channel when they are connected
+    // through this client too, and that one has to stay subscribed
+    const topic = this.getTopic(recipientId);
+    const alreadyOpen = this.client.getChannels().some(channel => channel.subTopic === topic);
+
+    // Sending on a channel that was never joined goes over the REST broadcast endpoint
+    const channel = this.client.channel(topic);
+    try {
+      await channel.send({
+        type: 'broadcast',
+        event: TYPING_EVENT,
+        payload: {
+          conversation_id: payload.conversationId,
+          user_id: payload.userId,
+          is_typing: payload.isTyping,
+          sent_at: payload.sentAt.toISOString()
+        }
+      });
+    } finally {
+      if (!alreadyOpen) this.client.removeChannel(channel);
+    }
+  }
+
+  private getTopic(userId: string): string {
+    return `user:${userId}`;
+  }
+
+  // ===== MAPPING =====
+
+  private mapMatch(userId: string, row: Record<string, any>): AnyRealtimeEvent {
+    return {
+      id: `match:${row.id}`,
+      type: 'match',
+      userId,
+      payload: {
+        matchId: row.id,
+        otherUserId: row.user1_id === userId ? row.user2_id : row.user1_id,
+        matchedAt: new Date(row.matched_at),
+        matchScore: row.match_score ?? undefined
+      }
+    };
+  }
+
+  private mapMessage(userId: string, row: Record<string, any>): AnyRealtimeEvent | null {
+    // The sender already has their own message
+    if (row.sender_id === userId) return null;
+
+    const message: Message = {
+      id: row.id,
+      conversationId: row.conversation_id,
+      senderId: row.sender_id,
+      content: row.content ?? null,
+      type: row.message_type || 'text',
+      metadata: row.metadata || undefined,
+      isRead: row.is_read === true,
+      isDeleted: row.is_deleted === true,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+
+    return { id: `message:${row.id}`, type: 'message', userId, payload: { message } };
+  }
+
+  private mapNotification(userId: string, row: Record<string, any>): AnyRealtimeEvent {
+    if (row.notification_type === 'profile_view') {
+      return {
+        id: `profile_view:${row.id}`,
+        type: 'profile_view',
+        userId,
+        payload: {
+          notificationId: row.id,
+          viewerId: row.data?.viewer_id,
+          viewedAt: new Date(row.data?.viewed_at || row.created_at)
+        }
+      };
+    }
+
+    return {
+      id: `notification:${row.id}`,
+      type: 'notification',
+      userId,
+      payload: {
+        notificationId: row.id,
+        notificationType: row.notification_type,
+        matchId: row.match_id ?? undefined,
+        data: row.data ?? undefined,
+        isRead: row.is_read === true,
+        createdAt: new Date(row.created_at)
+      }
+    };
+  }
+
+  private mapTyping(userId: string, payload: Record<string, any>): AnyRealtimeEvent | null {
+    if (!payload?.conversation_id || !payload.user_id) return null;
+
+    const sentAt = new Date(payload.sent_at);
+    return {
+      id: `typing:${payload.conversation_id}:${payload.user_id}:${sentAt.getTime()}`,
+      type: 'typing',
+      userId,
+      payload: {
+        conversationId: payload.conversation_id,
+        userId: payload.user_id,
+        isTyping: payload.is_typing === true,
+        sentAt
+      }
+    };
+  }
+}
@@ -0,0 +1,271 @@
+import { ReportService } from '../reportService';
+import { InMemoryReportRepository } from '../repositories/inMemoryReportRepository';
+import { InMemoryProfileRepository } from '../../profile/repositories/inMemoryProfileRepository';
+import { PrivacyVisibilityService } from '../../profile/privacyVisibilityService';
+import { ProfileService } from '../../profile/profileService';
+import { Clock } from '../../../lib/clock';
+import { UserProfile } from '../../../types/profile';
+import {
+  InvalidReportTransitionError,
+  ReportPermissionError,
+  SafetyValidationError,
+  SubmitReportRequest
+} from '../../../types/safety';
+
+const buildProfile = (userId: string): UserProfile => ({
+  userId,
+  personalInfo: {
+    displayName: userId,
+    age: 30,
+    dateOfBirth: new Date('1995-01-01'),
+    location: { latitude: 51.5074, longitude: -0.1278, city: 'London', country: 'UK' },
+    sexualOrientation: 'straight',
+    sexualIntent: 'clear',
+    lookingFor: ['casual'],
+    bio: 'Enjoys running, live music and trying new restaurants around town.',
+    interests: ['music']
+  },
+  photos: [],
+  preferences: {
+    ageRange: { min: 18, max: 40 },
+    maxDistance: 50,
+    sexualOrientations: ['straight'],
+    relationshipTypes: ['casual']
+  },
+  visibility: {
+    isVisible: true,
+    hideAge: false,
+    hideLocation: false,
+    hideLastActive: false,
+    showOnlyToVerified: false,
+    incognito: false,
+    distanceVisibility: 'approximate',
+    onlineStatus: 'online'
+  },
+  completion: {
+    overallPercentage: 80,
+    personalInfo: 100,
+    photos: 0,
+    preferences: 100,
+    visibility: 100,
+    missingFields: [],
+    recommendedActions: []
+  },
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  lastActiveAt: new Date(),
+  profileViews: 0,
+  profileLikes: 0,
+  verification: {
+    isVerified: true,
+    verificationResults: [],
+    verificationScore: 1,
+    lastVerificationUpdate: new Date()
+  },
+  premium: { isActive: false, features: [] },
+  safety: { isReported: false, reportCount: 0, isBanned: false, trustScore: 80 }
+});
+
+describe('ReportService', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+
+  let currentTime: Date;
+  let reports: InMemoryReportRepository;
+  let profiles: InMemoryProfileRepository;
+  let service: ReportService;
+
+  const clock: Clock = { now: () => currentTime };
+
+  const harassment = (description = 'Keeps sending rude messages after I asked them to stop'): SubmitReportRequest => ({
+    reportedUserId: 'mallory',
+    type: 'harassment',
+    description,
+    evidenceUrls: ['https://cdn.example.com/screenshot-1.png']
+  });
+
+  beforeEach(async () => {
+    // Visibility checks read the system time, so keep the fake clock close to it
+    currentTime = new Date();
+    reports = new InMemoryReportRepository();
+    profiles = new InMemoryProfileRepository();
+    service = ReportService.getInstance({ repository: reports, profiles, clock });
+
+    for (const userId of ['alice', 'bob', 'carol', 'dave', 'erin', 'mallory']) {
+      await profiles.saveProfile(buildProfile(userId));
+    }
+  });
+
+  describe('Submitting Reports', () => {
+    it('should store the report with evidence and flag the reported profile', async () => {
+      const report = await service.submitReport('alice', harassment());
+
+      expect(report.status).toBe('pending');
+      expect(report.priority).toBe('medium');
+      expect(report.evidenceUrls).toEqual(['https://cdn.example.com/screenshot-1.png']);
+
+      const mallory = await profiles.getProfile('mallory');
+      expect(mallory!.safety.isReported).toBe(true);
+      expect(mallory!.safety.reportCount).toBe(1);
+    });
+
+    it('should validate reports', async () => {
+      await expect(service.submitReport('mallory', harassment()))
+        .rejects.toThrow('You cannot report yourself');
+      await expect(service.submitReport('alice', harassment('rude')))
+        .rejects.toBeInstanceOf(SafetyValidationError);
+      await expect(service.submitReport('alice', { ...harassment(), evidenceUrls: ['file:///etc/passwd'] }))
+        .rejects.toThrow('Evidence must be an https URL');
+    });
+
+    it('should reject duplicate open reports and accept extra evidence instead', async () => {
+      const report = await service.submitReport('alice', harassment());
+
+      await expect(service.submitReport('alice', harassment())).rejects.toBeInstanceOf(SafetyValidationError);
+
+      const updated = await service.addEvidence('alice', report.id, ['https://cdn.example.com/screenshot-2.png']);
+      expect(updated.evidenceUrls).toHaveLength(2);
+      await expect(service.addEvidence('bob', report.id, ['https://cdn.example.com/x.png']))
+        .rejects.toBeInstanceOf(ReportPermissionError);
+    });
+  });
+
+  describe('Prioritisation', () => {
+    it('should mark reports describing threats as critical', async () => {
+      const report = await service.submitReport('alice', harassment('They threatened to hurt me if I did not reply'));
+
+      expect(report.priority).toBe('critical');
+    });
+
+    it('should raise priority as more people report the same user', async () => {
+      const first = await service.submitReport('alice', harassment());
+      const second = await service.submitReport('bob', harassment());
+      const third = await service.submitReport('carol', harassment());
+
+      expect(first.priority).toBe('medium');
+      expect(second.priority).toBe('high');
+      expect(third.priority).toBe('high');
+
+      await service.submitReport('dave', harassment());
+      const fifth = await service.submitReport('erin', harassment());
+      expect(fifth.priority).toBe('critical');
+
+      // Earlier open reports are pulled up with the newest one
+      expect((await reports.getReport(first.id))!.priority).toBe('critical');
+    });
+
+    it('should ignore reports outside the repeat window', async () => {
+      await service.submitReport('alice', harassment());
+      currentTime = new Date(currentTime.getTime() + 31 * DAY);
+
+      const later = await service.submitReport('bob', harassment());
+
+      expect(later.priority).toBe('medium');
+    });
+  });
+
+  describe('Moderation Queue', () => {
+    it('should hand out the most urgent report first', async () => {
+      await service.submitReport('alice', { ...harassment(), type: 'fake_profile', reportedUserId: 'bob' });
+      const urgent = await service.submitReport('carol', harassment('They said they would stalk me home'));
+
+      const queue = await service.getModerationQueue();
+      expect(queue[0].id).toBe(urgent.id);
+
+      const claimed = await service.claimNextReport('mod_1');
+      expect(claimed!.id).toBe(urgent.id);
+      expect(claimed!.status).toBe('investigating');
+      expect(claimed!.assignedTo).toBe('mod_1');
+
+      expect(await service.getModerationQueue()).toHaveLength(1);
+      expect(await service.getAssignedReports('mod_1')).toHaveLength(1);
+    });
+
+    it('should not let two moderators claim the same report', async () => {
+      const report = await service.submitReport('alice', harassment());
+
+      await service.assignReport(report.id, 'mod_1');
+
+      await expect(service.assignReport(report.id, 'mod_2')).rejects.toBeInstanceOf(InvalidReportTransitionError);
+      expect(await service.claimNextReport('mod_2')).toBeNull();
+    });
+
+    it('should return released reports to the queue', async () => {
+      const report = await service.submitReport('alice', harassment());
+      await service.assignReport(report.id, 'mod_1');
+
+      await expect(service.releaseReport('mod_2', report.id)).rejects.toBeInstanceOf(ReportPermissionError);
+      const released = await service.releaseReport('mod_1', report.id);
+
+      expect(released.status).toBe('pending');
+      expect(released.assignedTo).toBeUndefined();
+      expect(await service.getModerationQueue()).toHaveLength(1);
+    });
+  });
+
+  describe('Resolution', () => {
+    it('should enforce the report lifecycle', async () => {
+      const report = await service.submitReport('alice', harassment());
+
+      await expect(service.resolveReport('mod_1', report.id, { outcome: 'resolved', notes: 'Upheld' }))
+        .rejects.toBeInstanceOf(InvalidReportTransitionError);
+
+      const dismissed = await service.resolveReport('mod_1', report.id, { outcome: 'dismissed', notes: 'No evidence' });
+      expect(dismissed.status).toBe('dismissed');
+      expect(dismissed.resolvedAt).toEqual(currentTime);
+      expect((await profiles.getProfile('mallory'))!.safety.isReported).toBe(false);
+
+      await expect(service.assignReport(report.id, 'mod_1')).rejects.toBeInstanceOf(InvalidReportTransitionError);
+    });
+
+    it('should only let the assigned moderator close an investigation', async () => {
+      const report = await service.submitReport('alice', harassment());
+      await service.assignReport(report.id, 'mod_1');
+
+      await expect(service.resolveReport('mod_2', report.id, { outcome: 'resolved', notes: 'Upheld' }))
+        .rejects.toBeInstanceOf(ReportPermissionError);
+    });
+
+    it('should apply time-limited bans that visibility checks respect', async () => {
+      ProfileService.getInstance(profiles);
+      const visibility = PrivacyVisibilityService.getInstance(profiles);
+      const report = await service.submitReport('alice', harassment());
+      await service.assignReport(report.id, 'mod_1');
+
+      await service.resolveReport('mod_1', report.id, {
+        outcome: 'resolved',
+        notes: 'Screenshots confirm repeated abuse',
+        ban: { reason: 'Harassment', durationDays: 7 }
+      });
+
+      const mallory = await profiles.getProfile('mallory');
+      expect(mallory!.safety.isBanned).toBe(true);
+      expect(mallory!.safety.banExpiresAt).toEqual(new Date(currentTime.getTime() + 7 * DAY));
+      expect(mallory!.safety.trustScore).toBe(60);
+      expect(await service.isUserBanned('mallory')).toBe(true);
+
+      const whileBanned = await visibility.checkProfileVisibility('mallory', 'bob');
+      expect(whileBanned.canViewProfile).toBe(false);
+      expect(whileBanned.restrictions).toContain('profile_banned');
+
+      // Once the ban runs out the profile is visible again
+      currentTime = new Date(currentTime.getTime() + 8 * DAY);
+      expect(await service.isUserBanned('mallory')).toBe(false);
+      await profiles.saveProfile({
+        ...mallory!,
+        safety: { ...mallory!.safety, banExpiresAt: new Date(Date.now() - 1000) }
+      });
+      expect((await visibility.checkProfileVisibility('mallory', 'bob')).canViewProfile).toBe(true);
+    });
+
+    it('should ban permanently when no duration is given', async () => {
+      const safety = await service.banUser('mallory', { reason: 'Scam' });
+
+      expect(safety.banExpiresAt).toBeUndefined();
+      currentTime = new Date(currentTime.getTime() + 3650 * DAY);
+      expect(await service.isUserBanned('mallory')).toBe(true);
+
+      await service.liftBan('mallory');
+      expect(await service.isUserBanned('mallory')).toBe(false);
+    });
+  });
+});
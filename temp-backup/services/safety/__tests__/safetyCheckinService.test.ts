@@ -0,0 +1,190 @@
+import { SafetyCheckinService } from '../safetyCheckinService';
+import { InMemorySafetyRepository } from '../repositories/inMemorySafetyRepository';
+import { EmailEmergencyNotifier, SmsEmergencyNotifier } from '../notifiers/emergencyNotifiers';
+import { Clock } from '../../../lib/clock';
+import { GeoLocation } from '../../../types/matching';
+import { EmergencyNotifier, SafetyValidationError } from '../../../types/safety';
+
+describe('SafetyCheckinService', () => {
+  const MINUTE = 60 * 1000;
+  const start = new Date('2025-06-01T18:00:00Z');
+
+  let currentTime: Date;
+  let lastKnownLocation: GeoLocation | null;
+  let repository: InMemorySafetyRepository;
+  let sms: SmsEmergencyNotifier;
+  let email: EmailEmergencyNotifier;
+  let service: SafetyCheckinService;
+
+  const clock: Clock = { now: () => currentTime };
+  const advance = (minutes: number) => {
+    currentTime = new Date(currentTime.getTime() + minutes * MINUTE);
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    currentTime = new Date('2025-06-01T12:00:00Z');
+    lastKnownLocation = { latitude: 51.5074, longitude: -0.1278, timestamp: new Date('2025-06-01T17:45:00Z') };
+    repository = new InMemorySafetyRepository();
+    sms = new SmsEmergencyNotifier();
+    email = new EmailEmergencyNotifier();
+
+    service = SafetyCheckinService.getInstance({
+      repository,
+      notifiers: [sms, email],
+      clock,
+      locationProvider: { getLastKnownLocation: () => lastKnownLocation }
+    });
+    service.updateConfig({ startCheckinDelayMinutes: 30, gracePeriodMinutes: 15 });
+
+    await service.addEmergencyContact('alice', { name: 'Sam', phone: '+447700900001' });
+    await service.addEmergencyContact('alice', {
+      name: 'Jo',
+      phone: '+447700900002',
+      email: 'jo@example.com',
+      isPrimary: true
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const scheduleDate = () => service.scheduleDateCheckins({
+    userId: 'alice',
+    matchId: 'match_1',
+    meetingStart: start,
+    meetingEnd: new Date(start.getTime() + 120 * MINUTE)
+  });
+
+  describe('Scheduling', () => {
+    it('should schedule start and end check-ins around the date', async () => {
+      const [startCheckin, endCheckin] = await scheduleDate();
+
+      expect(startCheckin.type).toBe('meeting_start');
+      expect(startCheckin.scheduledTime).toEqual(new Date('2025-06-01T18:30:00Z'));
+      expect(endCheckin.type).toBe('meeting_end');
+      expect(endCheckin.scheduledTime).toEqual(new Date('2025-06-01T20:00:00Z'));
+      expect(await service.getUpcomingCheckins('alice')).toHaveLength(2);
+    });
+
+    it('should reject dates in the past or ending before they start', async () => {
+      await expect(service.scheduleDateCheckins({
+        userId: 'alice',
+        matchId: 'match_1',
+        meetingStart: new Date('2025-06-01T11:00:00Z'),
+        meetingEnd: new Date('2025-06-01T13:00:00Z')
+      })).rejects.toBeInstanceOf(SafetyValidationError);
+
+      await expect(service.scheduleDateCheckins({
+        userId: 'alice',
+        matchId: 'match_1',
+        meetingStart: start,
+        meetingEnd: start
+      })).rejects.toThrow('Date must end after it starts');
+    });
+  });
+
+  describe('Missed Check-ins', () => {
+    it('should wait for the grace period before escalating', async () => {
+      await scheduleDate();
+
+      currentTime = new Date('2025-06-01T18:44:59Z');
+      expect(await service.processMissedCheckins()).toHaveLength(0);
+
+      currentTime = new Date('2025-06-01T18:45:00Z');
+      const results = await service.processMissedCheckins();
+
+      expect(results).toHaveLength(1);
+      expect(results[0].reason).toBe('missed_checkin');
+      expect(results[0].contact!.name).toBe('Jo');
+      expect(results[0].notified).toBe(true);
+    });
+
+    it('should alert the primary contact with the last known location and record it', async () => {
+      const [startCheckin] = await scheduleDate();
+      currentTime = new Date('2025-06-01T19:00:00Z');
+
+      await service.processMissedCheckins();
+
+      const sent = sms.getSentAlerts();
+      expect(sent).toHaveLength(1);
+      expect(sent[0].to).toBe('+447700900002');
+      expect(sent[0].body).toContain('51.5074,-0.1278');
+      expect(email.getSentAlerts()[0].to).toBe('jo@example.com');
+
+      const stored = await repository.getCheckin(startCheckin.id);
+      expect(stored!.status).toBe('no_response');
+      expect(stored!.emergencyContactsNotified).toBe(true);
+
+      // Already escalated check-ins are not escalated again
+      advance(5);
+      expect(await service.processMissedCheckins()).toHaveLength(0);
+      expect(sms.getSentAlerts()).toHaveLength(1);
+    });
+
+    it('should not escalate check-ins that were answered', async () => {
+      const [startCheckin] = await scheduleDate();
+      currentTime = new Date('2025-06-01T18:35:00Z');
+
+      await service.respondToCheckin('alice', { checkinId: startCheckin.id, status: 'safe' });
+      currentTime = new Date('2025-06-01T19:00:00Z');
+
+      expect(await service.processMissedCheckins()).toHaveLength(0);
+      expect(sms.getSentAlerts()).toHaveLength(0);
+    });
+
+    it('should leave the check-in pending when every notifier throws', async () => {
+      const failing: EmergencyNotifier = {
+        channel: 'sms',
+        canReach: () => true,
+        send: jest.fn().mockRejectedValue(new Error('gateway down'))
+      };
+      service.setDependencies({ notifiers: [failing] });
+      const [startCheckin] = await scheduleDate();
+      currentTime = new Date('2025-06-01T19:00:00Z');
+
+      const [result] = await service.processMissedCheckins();
+
+      expect(result.notified).toBe(false);
+      expect(result.deliveries[0].error).toBe('gateway down');
+      expect((await repository.getCheckin(startCheckin.id))!.status).toBe('scheduled');
+
+      // The next run retries once the gateway recovers
+      service.setDependencies({ notifiers: [sms] });
+      const [retry] = await service.processMissedCheckins();
+      expect(retry.notified).toBe(true);
+      expect((await repository.getCheckin(startCheckin.id))!.emergencyContactsNotified).toBe(true);
+    });
+  });
+
+  describe('Immediate Escalation', () => {
+    it('should escalate straight away when the user reports feeling unsafe', async () => {
+      const [startCheckin] = await scheduleDate();
+      currentTime = new Date('2025-06-01T18:31:00Z');
+      const location: GeoLocation = { latitude: 51.5155, longitude: -0.0922, timestamp: currentTime };
+
+      const { checkin, escalation } = await service.respondToCheckin('alice', {
+        checkinId: startCheckin.id,
+        status: 'unsafe',
+        location
+      });
+
+      expect(escalation!.reason).toBe('unsafe_response');
+      expect(escalation!.location).toEqual(location);
+      expect(checkin.emergencyContactsNotified).toBe(true);
+    });
+
+    it('should escalate an emergency and report when nobody can be reached', async () => {
+      const result = await service.triggerEmergency('alice');
+      expect(result.notified).toBe(true);
+      expect(result.location).toEqual(lastKnownLocation);
+
+      const noContacts = await service.triggerEmergency('bob');
+      expect(noContacts.notified).toBe(false);
+      expect(noContacts.deliveries).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,22 @@
+/**
+ * Safety Services Export
+ * Epic 005: Safety & Security Features
+ */
+
+export { SafetyCheckinService } from './safetyCheckinService';
+export { ReportService } from './reportService';
+export {
+  InMemoryReportRepository,
+  InMemorySafetyRepository,
+  SupabaseReportRepository,
+  SupabaseSafetyRepository
+} from './repositories';
+export { EmailEmergencyNotifier, SmsEmergencyNotifier } from './notifiers/emergencyNotifiers';
+
+export type {
+  LastKnownLocationProvider,
+  SafetyCheckinConfig,
+  SafetyCheckinDependencies
+} from './safetyCheckinService';
+export type { ReportServiceConfig, ReportServiceDependencies } from './reportService';
+export type { SentEmergencyAlert } from './notifiers/emergencyNotifiers';
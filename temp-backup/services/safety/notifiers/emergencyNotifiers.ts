@@ -0,0 +1,92 @@
+/**
+ * Emergency Notifiers
+ * Epic 005: Safety & Security Features
+ *
+ * SMS and email stand-ins that record alerts instead of sending them.
+ * Swap in gateway-backed notifiers (Twilio, SES, ...) in production.
+ */
+
+import {
+  EmergencyAlert,
+  EmergencyChannel,
+  EmergencyContact,
+  EmergencyDeliveryResult,
+  EmergencyNotifier
+} from '../../../types/safety';
+
+export interface SentEmergencyAlert {
+  to: string;
+  body: string;
+  alert: EmergencyAlert;
+  sentAt: Date;
+}
+
+abstract class RecordingEmergencyNotifier implements EmergencyNotifier {
+  abstract readonly channel: EmergencyChannel;
+  private outbox: SentEmergencyAlert[] = [];
+
+  abstract canReach(contact: EmergencyContact): boolean;
+  protected abstract getAddress(contact: EmergencyContact): string;
+
+  async send(alert: EmergencyAlert): Promise<EmergencyDeliveryResult> {
+    if (!this.canReach(alert.contact)) {
+      return {
+        channel: this.channel,
+        contactId: alert.contact.id,
+        delivered: false,
+        error: `No ${this.channel} address for contact`
+      };
+    }
+
+    const to = this.getAddress(alert.contact);
+    this.outbox.push({ to, body: this.formatBody(alert), alert, sentAt: new Date() });
+    console.log(`Emergency ${this.channel} alert for check-in ${alert.checkinId} sent to ${to}`);
+
+    return { channel: this.channel, contactId: alert.contact.id, delivered: true };
+  }
+
+  /**
+   * Alerts recorded so far, oldest first
+   */
+  getSentAlerts(): SentEmergencyAlert[] {
+    return [...this.outbox];
+  }
+
+  clear(): void {
+    this.outbox = [];
+  }
+
+  protected formatBody(alert: EmergencyAlert): string {
+    if (!alert.location) {
+      return `${alert.message} No location is available.`;
+    }
+
+    const { latitude, longitude, timestamp } = alert.location;
+    return `${alert.message} Last known location: https://maps.google.com/?q=${latitude},${longitude} ` +
+      `(as of ${timestamp.toISOString()}).`;
+  }
+}
+
+export class SmsEmergencyNotifier extends RecordingEmergencyNotifier {
+  readonly channel = 'sms' as const;
+
+  canReach(contact: EmergencyContact): boolean {
+    return !!contact.phone;
+  }
+
+  protected getAddress(contact: EmergencyContact): string {
+    return contact.phone;
+  }
+}
+
+export class EmailEmergencyNotifier extends RecordingEmergencyNotifier {
+  readonly channel = 'email' as const;
+
+  canReach(contact: EmergencyContact): boolean {
+    return !!contact.email;
+  }
+
+  protected getAddress(contact: EmergencyContact): string {
+    return contact.email!;
+  }
+}
@@ -0,0 +1,473 @@
+/**
+ * Report Service
+ * Epic 005: Safety & Security Features
+ *
+ * Takes user reports with evidence, prioritises repeat and critical reports,
+ * feeds moderator queues, enforces the report lifecycle
+ * (pending → investigating → resolved/dismissed) and applies bans
+ */
+
+import { Clock, systemClock } from '../../lib/clock';
+import { ProfileNotFoundError, ProfileRepository, UserProfile } from '../../types/profile';
+import {
+  BanRequest,
+  InvalidReportTransitionError,
+  ReportNotFoundError,
+  ReportPermissionError,
+  ReportPriority,
+  ReportRepository,
+  ReportStatus,
+  ReportType,
+  ResolveReportRequest,
+  SafetyReport,
+  SafetyValidationError,
+  SubmitReportRequest
+} from '../../types/safety';
+import { ProfileService, isBanActive } from '../profile/profileService';
+import { InMemoryReportRepository } from './repositories/inMemoryReportRepository';
+
+export interface ReportServiceDependencies {
+  repository: ReportRepository;
+  profiles: Pick<ProfileRepository, 'getProfile' | 'saveProfile'>;
+  clock: Clock;
+}
+
+export interface ReportServiceConfig {
+  minDescriptionLength: number;
+  maxDescriptionLength: number;
+  maxEvidenceItems: number;
+  repeatReportWindowDays: number;
+  highPriorityReporterCount: number; // Distinct reporters within the window
+  criticalPriorityReporterCount: number;
+  upheldReportTrustPenalty: number;
+}
+
+const REPORT_TYPES: ReportType[] = ['harassment', 'inappropriate_content', 'fake_profile', 'safety_concern'];
+
+const BASE_PRIORITY: Record<ReportType, ReportPriority> = {
+  safety_concern: 'high',
+  harassment: 'medium',
+  inappropriate_content: 'medium',
+  fake_profile: 'low'
+};
+
+const PRIORITY_ORDER: ReportPriority[] = ['low', 'medium', 'high', 'critical'];
+
+// Descriptions mentioning any of these go straight to the top of the queue
+const CRITICAL_TERMS = /\b(threat\w*|violen\w*|assault\w*|rape\w*|weapon\w*|kill\w*|underage|under 18|child|blackmail\w*|extort\w*|stalk\w*|traffick\w*|suicid\w*)\b/i;
+
+const VALID_TRANSITIONS: Record<ReportStatus, ReportStatus[]> = {
+  pending: ['investigating', 'dismissed'],
+  investigating: ['pending', 'resolved', 'dismissed'],
+  resolved: [],
+  dismissed: []
+};
+
+const OPEN_STATUSES: ReportStatus[] = ['pending', 'investigating'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class ReportService {
+  private static instance: ReportService;
+  private dependencies: ReportServiceDependencies;
+
+  private config: ReportServiceConfig = {
+    minDescriptionLength: 10,
+    maxDescriptionLength: 2000,
+    maxEvidenceItems: 10,
+    repeatReportWindowDays: 30,
+    highPriorityReporterCount: 3,
+    criticalPriorityReporterCount: 5,
+    upheldReportTrustPenalty: 20
+  };
+
+  private constructor(dependencies: Partial<ReportServiceDependencies> = {}) {
+    this.dependencies = {
+      repository: dependencies.repository || new InMemoryReportRepository(),
+      profiles: dependencies.profiles || ProfileService.getInstance().getRepository(),
+      clock: dependencies.clock || systemClock
+    };
+  }
+
+  public static getInstance(dependencies?: Partial<ReportServiceDependencies>): ReportService {
+    if (!ReportService.instance) {
+      ReportService.instance = new ReportService(dependencies);
+    } else if (dependencies) {
+      ReportService.instance.setDependencies(dependencies);
+    }
+    return ReportService.instance;
+  }
+
+  /**
+   * Replace some or all dependencies (e.g. a fake clock in tests)
+   */
+  setDependencies(dependencies: Partial<ReportServiceDependencies>): void {
+    this.dependencies = { ...this.dependencies, ...dependencies };
+  }
+
+  // ===== REPORTING =====
+
+  /**
+   * Submit a report against another user
+   */
+  async submitReport(reporterId: string, request: SubmitReportRequest): Promise<SafetyReport> {
+    this.validateReport(reporterId, request);
+
+    const reportedProfile = await this.dependencies.profiles.getProfile(request.reportedUserId);
+    if (!reportedProfile) {
+      throw new ProfileNotFoundError(request.reportedUserId);
+    }
+
+    const { repository } = this.dependencies;
+    const openReports = await repository.listReports({
+      reporterId,
+      reportedUserId: request.reportedUserId,
+      status: OPEN_STATUSES
+    });
+    if (openReports.length > 0) {
+      throw new SafetyValidationError('You already have an open report against this user; add evidence to it instead');
+    }
+
+    const priority = await this.calculatePriority(reporterId, request);
+    const report = await repository.createReport({
+      reporterId,
+      reportedUserId: request.reportedUserId,
+      type: request.type,
+      description: request.description.trim(),
+      evidenceUrls: request.evidenceUrls || [],
+      status: 'pending',
+      priority,
+      createdAt: this.now()
+    });
+
+    await this.escalateOpenReports(request.reportedUserId, priority);
+    await this.saveSafety(reportedProfile, {
+      isReported: true,
+      reportCount: reportedProfile.safety.reportCount + 1
+    });
+
+    return report;
+  }
+
+  /**
+   * Attach more evidence to one of the reporter's open reports
+   */
+  async addEvidence(reporterId: string, reportId: string, evidenceUrls: string[]): Promise<SafetyReport> {
+    const report = await this.getExistingReport(reportId);
+    if (report.reporterId !== reporterId) {
+      throw new ReportPermissionError('add evidence', reportId);
+    }
+    if (!OPEN_STATUSES.includes(report.status)) {
+      throw new SafetyValidationError('Evidence can only be added to open reports', 'reportId');
+    }
+
+    const combined = Array.from(new Set([...report.evidenceUrls, ...evidenceUrls]));
+    this.validateEvidence(combined);
+
+    return this.dependencies.repository.updateReport(reportId, { evidenceUrls: combined });
+  }
+
+  /**
+   * Reports the user has submitted, oldest first
+   */
+  async getSubmittedReports(reporterId: string): Promise<SafetyReport[]> {
+    return this.dependencies.repository.listReports({ reporterId });
+  }
+
+  // ===== MODERATION QUEUES =====
+
+  /**
+   * Unassigned reports awaiting a moderator, most urgent first
+   */
+  async getModerationQueue(limit?: number): Promise<SafetyReport[]> {
+    const pending = await this.dependencies.repository.listReports({ status: ['pending'] });
+    const queue = this.sortByUrgency(pending.filter(report => !report.assignedTo));
+    return limit ? queue.slice(0, limit) : queue;
+  }
+
+  /**
+   * Reports a moderator is currently investigating, most urgent first
+   */
+  async getAssignedReports(moderatorId: string): Promise<SafetyReport[]> {
+    const assigned = await this.dependencies.repository.listReports({
+      status: ['investigating'],
+      assignedTo: moderatorId
+    });
+    return this.sortByUrgency(assigned);
+  }
+
+  /**
+   * Take the most urgent unassigned report. Returns null when the queue is empty.
+   */
+  async claimNextReport(moderatorId: string): Promise<SafetyReport | null> {
+    const queue = await this.getModerationQueue();
+
+    // Another moderator may win the race for a report; move on to the next one
+    for (const report of queue) {
+      const claimed = await this.dependencies.repository.claimReport(report.id, moderatorId);
+      if (claimed) return claimed;
+    }
+    return null;
+  }
+
+  /**
+   * Assign a specific pending report to a moderator
+   */
+  async assignReport(reportId: string, moderatorId: string): Promise<SafetyReport> {
+    const report = await this.getExistingReport(reportId);
+    this.assertTransition(report.status, 'investigating');
+
+    const claimed = await this.dependencies.repository.claimReport(reportId, moderatorId);
+    if (!claimed) {
+      throw new ReportPermissionError('assign', reportId);
+    }
+    return claimed;
+  }
+
+  /**
+   * Hand an investigation back to the queue
+   */
+  async releaseReport(moderatorId: string, reportId: string): Promise<SafetyReport> {
+    const report = await this.getAssignedReport(moderatorId, reportId, 'release');
+    this.assertTransition(report.status, 'pending');
+
+    return this.dependencies.repository.updateReport(reportId, { status: 'pending', assignedTo: null });
+  }
+
+  /**
+   * Close a report. Upheld reports lower the reported user's trust score and can ban them.
+   */
+  async resolveReport(moderatorId: string, reportId: string, request: ResolveReportRequest): Promise<SafetyReport> {
+    if (!request.notes?.trim()) {
+      throw new SafetyValidationError('Resolution notes are required', 'notes');
+    }
+    if (request.ban && request.outcome !== 'resolved') {
+      throw new SafetyValidationError('Only upheld reports can result in a ban', 'ban');
+    }
+
+    const report = await this.getExistingReport(reportId);
+    this.assertTransition(report.status, request.outcome);
+
+    // Pending reports can be dismissed straight from the queue; investigations belong to their moderator
+    if (report.status === 'investigating' && report.assignedTo !== moderatorId) {
+      throw new ReportPermissionError(request.outcome === 'resolved' ? 'resolve' : 'dismiss', reportId);
+    }
+
+    const resolved = await this.dependencies.repository.updateReport(reportId, {
+      status: request.outcome,
+      assignedTo: moderatorId,
+      resolutionNotes: request.notes.trim(),
+      resolvedAt: this.now()
+    });
+
+    const profile = await this.dependencies.profiles.getProfile(report.reportedUserId);
+    if (profile) {
+      const stillOpen = await this.dependencies.repository.listReports({
+        reportedUserId: report.reportedUserId,
+        status: OPEN_STATUSES
+      });
+
+      const safety: Partial<UserProfile['safety']> = { isReported: stillOpen.length > 0 };
+      if (request.outcome === 'resolved') {
+        safety.trustScore = Math.max(0, profile.safety.trustScore - this.config.upheldReportTrustPenalty);
+        if (request.ban) {
+          Object.assign(safety, this.buildBan(request.ban));
+        }
+      }
+      await this.saveSafety(profile, safety);
+    }
+
+    return resolved;
+  }
+
+  // ===== BANS =====
+
+  /**
+   * Ban a user, permanently unless a duration is given
+   */
+  async banUser(userId: string, ban: BanRequest): Promise<UserProfile['safety']> {
+    if (!ban.reason?.trim()) {
+      throw new SafetyValidationError('A ban reason is required', 'reason');
+    }
+    if (ban.durationDays !== undefined && ban.durationDays <= 0) {
+      throw new SafetyValidationError('Ban duration must be positive', 'durationDays');
+    }
+
+    const profile = await this.getExistingProfile(userId);
+    return this.saveSafety(profile, this.buildBan(ban));
+  }
+
+  async liftBan(userId: string): Promise<UserProfile['safety']> {
+    const profile = await this.getExistingProfile(userId);
+    return this.saveSafety(profile, { isBanned: false, banReason: undefined, banExpiresAt: undefined });
+  }
+
+  /**
+   * Whether the user is banned right now; expired bans no longer count
+   */
+  async isUserBanned(userId: string): Promise<boolean> {
+    const profile = await this.dependencies.profiles.getProfile(userId);
+    return !!profile && isBanActive(profile.safety, this.now());
+  }
+
+  /**
+   * Update report configuration
+   */
+  updateConfig(newConfig: Partial<ReportServiceConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  // ===== HELPERS =====
+
+  private validateReport(reporterId: string, request: SubmitReportRequest): void {
+    if (request.reportedUserId === reporterId) {
+      throw new SafetyValidationError('You cannot report yourself', 'reportedUserId');
+    }
+    if (!REPORT_TYPES.includes(request.type)) {
+      throw new SafetyValidationError(`Unsupported report type: ${request.type}`, 'type');
+    }
+
+    const length = request.description?.trim().length || 0;
+    if (length < this.config.minDescriptionLength || length > this.config.maxDescriptionLength) {
+      throw new SafetyValidationError(
+        `Description must be between ${this.config.minDescriptionLength} and ${this.config.maxDescriptionLength} characters`,
+        'description'
+      );
+    }
+
+    this.validateEvidence(request.evidenceUrls || []);
+  }
+
+  private validateEvidence(evidenceUrls: string[]): void {
+    if (evidenceUrls.length > this.config.maxEvidenceItems) {
+      throw new SafetyValidationError(
+        `No more than ${this.config.maxEvidenceItems} evidence items can be attached`,
+        'evidenceUrls'
+      );
+    }
+
+    const invalid = evidenceUrls.find(url => !/^https:\/\/\S+$/i.test(url));
+    if (invalid !== undefined) {
+      throw new SafetyValidationError(`Evidence must be an https URL: ${invalid}`, 'evidenceUrls');
+    }
+  }
+
+  /**
+   * Start from the report type, then raise for critical wording, repeat
+   * reporters and previously upheld reports
+   */
+  private async calculatePriority(reporterId: string, request: SubmitReportRequest): Promise<ReportPriority> {
+    if (CRITICAL_TERMS.test(request.description)) {
+      return 'critical';
+    }
+
+    let priority = BASE_PRIORITY[request.type];
+
+    const windowStart = new Date(this.now().getTime() - this.config.repeatReportWindowDays * DAY_MS);
+    const history = await this.dependencies.repository.listReports({ reportedUserId: request.reportedUserId });
+
+    const recentReporters = new Set(
+      history
+        .filter(report => report.status !== 'dismissed' && report.createdAt >= windowStart)
+        .map(report => report.reporterId)
+    );
+    recentReporters.add(reporterId);
+
+    if (recentReporters.size >= this.config.criticalPriorityReporterCount) {
+      return 'critical';
+    }
+    if (recentReporters.size >= this.config.highPriorityReporterCount) {
+      priority = this.maxPriority(priority, 'high');
+    } else if (recentReporters.size > 1) {
+      priority = this.raisePriority(priority);
+    }
+
+    if (history.some(report => report.status === 'resolved')) {
+      priority = this.maxPriority(priority, 'high');
+    }
+
+    return priority;
+  }
+
+  /**
+   * Bring other open reports against the same user up to the new priority
+   */
+  private async escalateOpenReports(reportedUserId: string, priority: ReportPriority): Promise<void> {
+    const open = await this.dependencies.repository.listReports({ reportedUserId, status: OPEN_STATUSES });
+
+    await Promise.all(open
+      .filter(report => this.rank(report.priority) < this.rank(priority))
+      .map(report => this.dependencies.repository.updateReport(report.id, { priority })));
+  }
+
+  private sortByUrgency(reports: SafetyReport[]): SafetyReport[] {
+    return [...reports].sort((a, b) =>
+      this.rank(b.priority) - this.rank(a.priority) || a.createdAt.getTime() - b.createdAt.getTime()
+    );
+  }
+
+  private assertTransition(from: ReportStatus, to: ReportStatus): void {
+    if (!VALID_TRANSITIONS[from].includes(to)) {
+      throw new InvalidReportTransitionError(from, to);
+    }
+  }
+
+  private buildBan(ban: BanRequest): Partial<UserProfile['safety']> {
+    return {
+      isBanned: true,
+      banReason: ban.reason.trim(),
+      banExpiresAt: ban.durationDays !== undefined
+        ? new Date(this.now().getTime() + ban.durationDays * DAY_MS)
+        : undefined
+    };
+  }
+
+  private async saveSafety(
+    profile: UserProfile,
+    updates: Partial<UserProfile['safety']>
+  ): Promise<UserProfile['safety']> {
+    const safety = { ...profile.safety, ...updates };
+    await this.dependencies.profiles.saveProfile({ ...profile, safety, updatedAt: this.now() });
+    return safety;
+  }
+
+  private async getExistingReport(reportId: string): Promise<SafetyReport> {
+    const report = await this.dependencies.repository.getReport(reportId);
+    if (!report) {
+      throw new ReportNotFoundError(reportId);
+    }
+    return report;
+  }
+
+  private async getAssignedReport(moderatorId: string, reportId: string, action: string): Promise<SafetyReport> {
+    const report = await this.getExistingReport(reportId);
+    if (report.assignedTo !== moderatorId) {
+      throw new ReportPermissionError(action, reportId);
+    }
+    return report;
+  }
+
+  private async getExistingProfile(userId: string): Promise<UserProfile> {
+    const profile = await this.dependencies.profiles.getProfile(userId);
+    if (!profile) {
+      throw new ProfileNotFoundError(userId);
+    }
+    return profile;
+  }
+
+  private rank(priority: ReportPriority): number {
+    return PRIORITY_ORDER.indexOf(priority);
+  }
+
+  private raisePriority(priority: ReportPriority): ReportPriority {
+    return PRIORITY_ORDER[Math.min(this.rank(priority) + 1, PRIORITY_ORDER.length - 1)];
+  }
+
+  private maxPriority(a: ReportPriority, b: ReportPriority): ReportPriority {
+    return this.rank(a) >= this.rank(b) ? a : b;
+  }
+
+  private now(): Date {
+    return this.dependencies.clock.now();
+  }
+}
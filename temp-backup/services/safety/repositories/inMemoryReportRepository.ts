@@ -0,0 +1,71 @@
+/**
+ * In-Memory Report Repository
+ * Epic 005: Safety & Security Features
+ *
+ * Process-local safety reports used by tests and offline development
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { ReportFilter, ReportRepository, ReportUpdate, SafetyReport } from '../../../types/safety';
+
+export class InMemoryReportRepository implements ReportRepository {
+  private reports: Map<string, SafetyReport> = new Map();
+
+  async createReport(report: Omit<SafetyReport, 'id'>): Promise<SafetyReport> {
+    const stored: SafetyReport = { ...report, id: uuidv4(), evidenceUrls: [...report.evidenceUrls] };
+    this.reports.set(stored.id, stored);
+    return this.copy(stored);
+  }
+
+  async getReport(reportId: string): Promise<SafetyReport | null> {
+    const report = this.reports.get(reportId);
+    return report ? this.copy(report) : null;
+  }
+
+  async updateReport(reportId: string, updates: ReportUpdate): Promise<SafetyReport> {
+    const report = this.reports.get(reportId);
+    if (!report) {
+      throw new Error(`Safety report not found: ${reportId}`);
+    }
+
+    const { assignedTo, ...rest } = updates;
+    const updated: SafetyReport = { ...report, ...rest };
+    if (assignedTo !== undefined) {
+      updated.assignedTo = assignedTo ?? undefined;
+    }
+
+    this.reports.set(reportId, updated);
+    return this.copy(updated);
+  }
+
+  async listReports(filter: ReportFilter): Promise<SafetyReport[]> {
+    return Array.from(this.reports.values())
+      .filter(report => !filter.status || filter.status.includes(report.status))
+      .filter(report => !filter.assignedTo || report.assignedTo === filter.assignedTo)
+      .filter(report => !filter.reporterId || report.reporterId === filter.reporterId)
+      .filter(report => !filter.reportedUserId || report.reportedUserId === filter.reportedUserId)
+      .filter(report => !filter.createdAfter || report.createdAt >= filter.createdAfter)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(report => this.copy(report));
+  }
+
+  async claimReport(reportId: string, moderatorId: string): Promise<SafetyReport | null> {
+    const report = this.reports.get(reportId);
+    if (!report || report.status !== 'pending' || report.assignedTo) {
+      return null;
+    }
+
+    return this.updateReport(reportId, { status: 'investigating', assignedTo: moderatorId });
+  }
+
+  /**
+   * Remove all stored reports
+   */
+  clear(): void {
+    this.reports.clear();
+  }
+
+  private copy(report: SafetyReport): SafetyReport {
+    return { ...report, evidenceUrls: [...report.evidenceUrls] };
+  }
+}
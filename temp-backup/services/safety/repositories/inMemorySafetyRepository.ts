@@ -0,0 +1,82 @@
+/**
+ * In-Memory Safety Repository
+ * Epic 005: Safety & Security Features
+ *
+ * Process-local check-ins and emergency contacts used by tests and offline development
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { EmergencyContact, SafetyCheckin, SafetyRepository } from '../../../types/safety';
+
+export class InMemorySafetyRepository implements SafetyRepository {
+  private checkins: Map<string, SafetyCheckin> = new Map();
+  private contacts: Map<string, EmergencyContact> = new Map();
+
+  async createCheckin(checkin: Omit<SafetyCheckin, 'id' | 'createdAt'>): Promise<SafetyCheckin> {
+    const stored: SafetyCheckin = { ...checkin, id: uuidv4(), createdAt: new Date() };
+    this.checkins.set(stored.id, stored);
+    return { ...stored };
+  }
+
+  async getCheckin(checkinId: string): Promise<SafetyCheckin | null> {
+    const checkin = this.checkins.get(checkinId);
+    return checkin ? { ...checkin } : null;
+  }
+
+  async updateCheckin(
+    checkinId: string,
+    updates: Partial<Pick<SafetyCheckin, 'status' | 'location' | 'actualTime' | 'emergencyContactsNotified'>>
+  ): Promise<SafetyCheckin> {
+    const checkin = this.checkins.get(checkinId);
+    if (!checkin) {
+      throw new Error(`Safety check-in not found: ${checkinId}`);
+    }
+
+    const updated = { ...checkin, ...updates };
+    this.checkins.set(checkinId, updated);
+    return { ...updated };
+  }
+
+  async listPendingCheckins(dueBy: Date): Promise<SafetyCheckin[]> {
+    return Array.from(this.checkins.values())
+      .filter(checkin => checkin.status === 'scheduled' && checkin.scheduledTime <= dueBy)
+      .sort((a, b) => a.scheduledTime.getTime() - b.scheduledTime.getTime())
+      .map(checkin => ({ ...checkin }));
+  }
+
+  async listUserCheckins(userId: string): Promise<SafetyCheckin[]> {
+    return Array.from(this.checkins.values())
+      .filter(checkin => checkin.userId === userId)
+      .sort((a, b) => a.scheduledTime.getTime() - b.scheduledTime.getTime())
+      .map(checkin => ({ ...checkin }));
+  }
+
+  async getEmergencyContacts(userId: string): Promise<EmergencyContact[]> {
+    return Array.from(this.contacts.values())
+      .filter(contact => contact.userId === userId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(contact => ({ ...contact }));
+  }
+
+  async addEmergencyContact(contact: Omit<EmergencyContact, 'id' | 'createdAt'>): Promise<EmergencyContact> {
+    const stored: EmergencyContact = { ...contact, id: uuidv4(), createdAt: new Date() };
+    this.contacts.set(stored.id, stored);
+    return { ...stored };
+  }
+
+  async setPrimaryContact(userId: string, contactId: string): Promise<void> {
+    this.contacts.forEach(contact => {
+      if (contact.userId === userId) {
+        contact.isPrimary = contact.id === contactId;
+      }
+    });
+  }
+
+  /**
+   * Remove all stored data
+   */
+  clear(): void {
+    this.checkins.clear();
+    this.contacts.clear();
+  }
+}
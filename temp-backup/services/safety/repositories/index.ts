@@ -0,0 +1,10 @@
+/**
+ * Safety Repositories
+ * Persistence backends for check-ins, emergency contacts and reports
+ */
+
+export { InMemorySafetyRepository } from './inMemorySafetyRepository';
+export { SupabaseSafetyRepository } from './supabaseSafetyRepository';
+export { InMemoryReportRepository } from './inMemoryReportRepository';
+export { SupabaseReportRepository } from './supabaseReportRepository';
+export type { ReportRepository, SafetyRepository } from '../../../types/safety';
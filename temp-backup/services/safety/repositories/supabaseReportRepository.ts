@@ -0,0 +1,115 @@
+/**
+ * Supabase Report Repository
+ * Epic 005: Safety & Security Features
+ *
+ * Maps safety reports onto the safety_reports table defined in supabase/schema.sql
+ */
+
+import { supabase, type SupabaseClient } from '../../../lib/supabase';
+import { ReportFilter, ReportRepository, ReportUpdate, SafetyReport } from '../../../types/safety';
+
+export class SupabaseReportRepository implements ReportRepository {
+  constructor(private client: SupabaseClient = supabase) {}
+
+  async createReport(report: Omit<SafetyReport, 'id'>): Promise<SafetyReport> {
+    const { data, error } = await this.client
+      .from('safety_reports')
+      .insert({
+        reporter_id: report.reporterId,
+        reported_user_id: report.reportedUserId,
+        report_type: report.type,
+        description: report.description,
+        evidence_urls: report.evidenceUrls,
+        status: report.status,
+        priority: report.priority,
+        assigned_to: report.assignedTo,
+        resolution_notes: report.resolutionNotes,
+        created_at: report.createdAt.toISOString(),
+        resolved_at: report.resolvedAt?.toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.mapReportFromDatabase(data);
+  }
+
+  async getReport(reportId: string): Promise<SafetyReport | null> {
+    const { data, error } = await this.client
+      .from('safety_reports')
+      .select('*')
+      .eq('id', reportId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? this.mapReportFromDatabase(data) : null;
+  }
+
+  async updateReport(reportId: string, updates: ReportUpdate): Promise<SafetyReport> {
+    const row: Record<string, any> = {};
+    if (updates.status !== undefined) row.status = updates.status;
+    if (updates.priority !== undefined) row.priority = updates.priority;
+    if (updates.assignedTo !== undefined) row.assigned_to = updates.assignedTo;
+    if (updates.evidenceUrls !== undefined) row.evidence_urls = updates.evidenceUrls;
+    if (updates.resolutionNotes !== undefined) row.resolution_notes = updates.resolutionNotes;
+    if (updates.resolvedAt !== undefined) row.resolved_at = updates.resolvedAt.toISOString();
+
+    const { data, error } = await this.client
+      .from('safety_reports')
+      .update(row)
+      .eq('id', reportId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.mapReportFromDatabase(data);
+  }
+
+  async listReports(filter: ReportFilter): Promise<SafetyReport[]> {
+    let query = this.client
+      .from('safety_reports')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (filter.status) query = query.in('status', filter.status);
+    if (filter.assignedTo) query = query.eq('assigned_to', filter.assignedTo);
+    if (filter.reporterId) query = query.eq('reporter_id', filter.reporterId);
+    if (filter.reportedUserId) query = query.eq('reported_user_id', filter.reportedUserId);
+    if (filter.createdAfter) query = query.gte('created_at', filter.createdAfter.toISOString());
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(row => this.mapReportFromDatabase(row));
+  }
+
+  async claimReport(reportId: string, moderatorId: string): Promise<SafetyReport | null> {
+    // The status and assignee guards make the claim atomic across moderators
+    const { data, error } = await this.client
+      .from('safety_reports')
+      .update({ status: 'investigating', assigned_to: moderatorId })
+      .eq('id', reportId)
+      .eq('status', 'pending')
+      .is('assigned_to', null)
+      .select();
+
+    if (error) throw error;
+    return data && data.length > 0 ? this.mapReportFromDatabase(data[0]) : null;
+  }
+
+  private mapReportFromDatabase(row: any): SafetyReport {
+    return {
+      id: row.id,
+      reporterId: row.reporter_id,
+      reportedUserId: row.reported_user_id,
+      type: row.report_type,
+      description: row.description || '',
+      evidenceUrls: row.evidence_urls || [],
+      status: row.status || 'pending',
+      priority: row.priority || 'medium',
+      assignedTo: row.assigned_to ?? undefined,
+      resolutionNotes: row.resolution_notes ?? undefined,
+      createdAt: new Date(row.created_at),
+      resolvedAt: row.resolved_at ? new Date(row.resolved_at) : undefined
+    };
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Supabase Safety Repository
+ * Epic 005: Safety & Security Features
+ *
+ * Maps check-ins and emergency contacts onto the safety_checkins and
+ * emergency_contacts tables defined in supabase/schema.sql
+ */
+
+import { supabase, type SupabaseClient } from '../../../lib/supabase';
+import { GeoLocation } from '../../../types/matching';
+import { CheckinStatus, EmergencyContact, SafetyCheckin, SafetyRepository } from '../../../types/safety';
+
+export class SupabaseSafetyRepository implements SafetyRepository {
+  constructor(private client: SupabaseClient = supabase) {}
+
+  async createCheckin(checkin: Omit<SafetyCheckin, 'id' | 'createdAt'>): Promise<SafetyCheckin> {
+    const { data, error } = await this.client
+      .from('safety_checkins')
+      .insert({
+        user_id: checkin.userId,
+        match_id: checkin.matchId,
+        checkin_type: checkin.type,
+        status: this.toDatabaseStatus(checkin.status),
+        location: this.toPoint(checkin.location),
+        scheduled_time: checkin.scheduledTime.toISOString(),
+        actual_time: checkin.actualTime?.toISOString(),
+        emergency_contacts_notified: checkin.emergencyContactsNotified
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.mapCheckinFromDatabase(data);
+  }
+
+  async getCheckin(checkinId: string): Promise<SafetyCheckin | null> {
+    const { data, error } = await this.client
+      .from('safety_checkins')
+      .select('*')
+      .eq('id', checkinId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? this.mapCheckinFromDatabase(data) : null;
+  }
+
+  async updateCheckin(
+    checkinId: string,
+    updates: Partial<Pick<SafetyCheckin, 'status' | 'location' | 'actualTime' | 'emergencyContactsNotified'>>
+  ): Promise<SafetyCheckin> {
+    const row: Record<string, any> = {};
+    if (updates.status !== undefined) row.status = this.toDatabaseStatus(updates.status);
+    if (updates.location !== undefined) row.location = this.toPoint(updates.location);
+    if (updates.actualTime !== undefined) row.actual_time = updates.actualTime.toISOString();
+    if (updates.emergencyContactsNotified !== undefined) {
+      row.emergency_contacts_notified = updates.emergencyContactsNotified;
+    }
+
+    const { data, error } = await this.client
+      .from('safety_checkins')
+      .update(row)
+      .eq('id', checkinId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.mapCheckinFromDatabase(data);
+  }
+
+  async listPendingCheckins(dueBy: Date): Promise<SafetyCheckin[]> {
+    const { data, error } = await this.client
+      .from('safety_checkins')
+      .select('*')
+      .is('status', null)
+      .lte('scheduled_time', dueBy.toISOString())
+      .order('scheduled_time', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(row => this.mapCheckinFromDatabase(row));
+  }
+
+  async listUserCheckins(userId: string): Promise<SafetyCheckin[]> {
+    const { data, error } = await this.client
+      .from('safety_checkins')
+      .select('*')
+      .eq('user_id', userId)
+      .order('scheduled_time', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(row => this.mapCheckinFromDatabase(row));
+  }
+
+  async getEmergencyContacts(userId: string): Promise<EmergencyContact[]> {
+    const { data, error } = await this.client
+      .from('emergency_contacts')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(row => this.mapContactFromDatabase(row));
+  }
+
+  async addEmergencyContact(contact: Omit<EmergencyContact, 'id' | 'createdAt'>): Promise<EmergencyContact> {
+    const { data, error } = await this.client
+      .from('emergency_contacts')
+      .insert({
+        user_id: contact.userId,
+        contact_name: contact.name,
+        contact_phone: contact.phone,
+        contact_email: contact.email,
+        relationship: contact.relationship,
+        is_primary: contact.isPrimary
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.mapContactFromDatabase(data);
+  }
+
+  async setPrimaryContact(userId: string, contactId: string): Promise<void> {
+    const { error: clearError } = await this.client
+      .from('emergency_contacts')
+      .update({ is_primary: false })
+      .eq('user_id', userId)
+      .neq('id', contactId);
+
+    if (clearError) throw clearError;
+
+    const { error } = await this.client
+      .from('emergency_contacts')
+      .update({ is_primary: true })
+      .eq('user_id', userId)
+      .eq('id', contactId);
+
+    if (error) throw error;
+  }
+
+  // ===== MAPPING =====
+
+  private mapCheckinFromDatabase(row: any): SafetyCheckin {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      matchId: row.match_id ?? undefined,
+      type: row.checkin_type,
+      status: (row.status as CheckinStatus | null) || 'scheduled',
+      location: row.location ? this.fromPoint(row.location, row.actual_time || row.created_at) : undefined,
+      scheduledTime: new Date(row.scheduled_time),
+      actualTime: row.actual_time ? new Date(row.actual_time) : undefined,
+      emergencyContactsNotified: row.emergency_contacts_notified === true,
+      createdAt: new Date(row.created_at)
+    };
+  }
+
+  private mapContactFromDatabase(row: any): EmergencyContact {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      name: row.contact_name,
+      phone: row.contact_phone,
+      email: row.contact_email ?? undefined,
+      relationship: row.relationship ?? undefined,
+      isPrimary: row.is_primary === true,
+      createdAt: new Date(row.created_at)
+    };
+  }
+
+  private toDatabaseStatus(status: CheckinStatus): string | null {
+    return status === 'scheduled' ? null : status;
+  }
+
+  /**
+   * Encode a location as EWKT for the GEOGRAPHY(POINT, 4326) column
+   */
+  private toPoint(location?: GeoLocation): string | null {
+    if (!location) return null;
+    return `SRID=4326;POINT(${location.longitude} ${location.latitude})`;
+  }
+
+  /**
+   * Decode a point returned by PostgREST (hex EWKB or GeoJSON)
+   */
+  private fromPoint(value: any, recordedAt: string): GeoLocation | undefined {
+    const timestamp = new Date(recordedAt);
+
+    if (typeof value === 'object' && Array.isArray(value.coordinates)) {
+      return { longitude: value.coordinates[0], latitude: value.coordinates[1], timestamp };
+    }
+
+    if (typeof value !== 'string' || value.length < 42) {
+      return undefined;
+    }
+
+    const bytes = new Uint8Array(value.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(value.substr(i * 2, 2), 16);
+    }
+
+    const view = new DataView(bytes.buffer);
+    const littleEndian = view.getUint8(0) === 1;
+    const hasSrid = (view.getUint32(1, littleEndian) & 0x20000000) !== 0;
+    const offset = hasSrid ? 9 : 5;
+
+    return {
+      longitude: view.getFloat64(offset, littleEndian),
+      latitude: view.getFloat64(offset + 8, littleEndian),
+      timestamp
+    };
+  }
+}
@@ -0,0 +1,354 @@
+/**
+ * Safety Check-in Service
+ * Epic 005: Safety & Security Features
+ *
+ * Schedules check-ins around dates with a match, detects check-ins that go
+ * unanswered past a grace period and escalates to the user's primary
+ * emergency contact with their last known location
+ */
+
+import { Clock, systemClock } from '../../lib/clock';
+import { GeoLocation } from '../../types/matching';
+import {
+  CheckinNotFoundError,
+  CheckinResponseRequest,
+  EmergencyAlert,
+  EmergencyContact,
+  EmergencyDeliveryResult,
+  EmergencyNotifier,
+  EscalationReason,
+  EscalationResult,
+  SafetyCheckin,
+  SafetyRepository,
+  SafetyValidationError,
+  ScheduleDateCheckinsRequest
+} from '../../types/safety';
+import { LocationService } from '../matching/locationService';
+import { EmailEmergencyNotifier, SmsEmergencyNotifier } from './notifiers/emergencyNotifiers';
+import { InMemorySafetyRepository } from './repositories/inMemorySafetyRepository';
+
+export type LastKnownLocationProvider = Pick<LocationService, 'getLastKnownLocation'>;
+
+export interface SafetyCheckinDependencies {
+  repository: SafetyRepository;
+  notifiers: EmergencyNotifier[];
+  clock: Clock;
+  locationProvider: LastKnownLocationProvider;
+}
+
+export interface SafetyCheckinConfig {
+  startCheckinDelayMinutes: number; // First check-in this long after the date starts
+  gracePeriodMinutes: number; // How long a check-in can go unanswered before escalating
+  maxDateDurationHours: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+export class SafetyCheckinService {
+  private static instance: SafetyCheckinService;
+  private dependencies: SafetyCheckinDependencies;
+
+  private config: SafetyCheckinConfig = {
+    startCheckinDelayMinutes: 30,
+    gracePeriodMinutes: 15,
+    maxDateDurationHours: 12
+  };
+
+  private constructor(dependencies: Partial<SafetyCheckinDependencies> = {}) {
+    this.dependencies = {
+      repository: dependencies.repository || new InMemorySafetyRepository(),
+      notifiers: dependencies.notifiers || [new SmsEmergencyNotifier(), new EmailEmergencyNotifier()],
+      clock: dependencies.clock || systemClock,
+      locationProvider: dependencies.locationProvider || LocationService.getInstance()
+    };
+  }
+
+  public static getInstance(dependencies?: Partial<SafetyCheckinDependencies>): SafetyCheckinService {
+    if (!SafetyCheckinService.instance) {
+      SafetyCheckinService.instance = new SafetyCheckinService(dependencies);
+    } else if (dependencies) {
+      SafetyCheckinService.instance.setDependencies(dependencies);
+    }
+    return SafetyCheckinService.instance;
+  }
+
+  /**
+   * Replace some or all dependencies (e.g. a fake clock in tests)
+   */
+  setDependencies(dependencies: Partial<SafetyCheckinDependencies>): void {
+    this.dependencies = { ...this.dependencies, ...dependencies };
+  }
+
+  // ===== SCHEDULING =====
+
+  /**
+   * Schedule the check-ins for a date: one shortly after it starts and one when it should end
+   */
+  async scheduleDateCheckins(request: ScheduleDateCheckinsRequest): Promise<SafetyCheckin[]> {
+    const { meetingStart, meetingEnd } = request;
+    const now = this.now();
+
+    if (meetingStart.getTime() < now.getTime()) {
+      throw new SafetyValidationError('Date must start in the future', 'meetingStart');
+    }
+    if (meetingEnd.getTime() <= meetingStart.getTime()) {
+      throw new SafetyValidationError('Date must end after it starts', 'meetingEnd');
+    }
+    if (meetingEnd.getTime() - meetingStart.getTime() > this.config.maxDateDurationHours * 60 * MINUTE_MS) {
+      throw new SafetyValidationError(
+        `Dates can be at most ${this.config.maxDateDurationHours} hours long`,
+        'meetingEnd'
+      );
+    }
+
+    // Don't let the first check-in land after the date has already ended
+    const startCheckinTime = new Date(Math.min(
+      meetingStart.getTime() + this.config.startCheckinDelayMinutes * MINUTE_MS,
+      meetingEnd.getTime()
+    ));
+
+    const base = {
+      userId: request.userId,
+      matchId: request.matchId,
+      status: 'scheduled' as const,
+      emergencyContactsNotified: false
+    };
+
+    return Promise.all([
+      this.dependencies.repository.createCheckin({ ...base, type: 'meeting_start', scheduledTime: startCheckinTime }),
+      this.dependencies.repository.createCheckin({ ...base, type: 'meeting_end', scheduledTime: meetingEnd })
+    ]);
+  }
+
+  /**
+   * Check-ins the user still has to answer, soonest first
+   */
+  async getUpcomingCheckins(userId: string): Promise<SafetyCheckin[]> {
+    const checkins = await this.dependencies.repository.listUserCheckins(userId);
+    return checkins.filter(checkin => checkin.status === 'scheduled');
+  }
+
+  // ===== RESPONSES =====
+
+  /**
+   * Record the user's answer to a check-in. Answering 'unsafe' escalates immediately.
+   */
+  async respondToCheckin(
+    userId: string,
+    request: CheckinResponseRequest
+  ): Promise<{ checkin: SafetyCheckin; escalation?: EscalationResult }> {
+    const checkin = await this.dependencies.repository.getCheckin(request.checkinId);
+    if (!checkin || checkin.userId !== userId) {
+      throw new CheckinNotFoundError(request.checkinId);
+    }
+    if (checkin.status === 'safe' || checkin.status === 'unsafe') {
+      throw new SafetyValidationError('This check-in has already been answered', 'checkinId');
+    }
+
+    const updated = await this.dependencies.repository.updateCheckin(checkin.id, {
+      status: request.status,
+      location: request.location,
+      actualTime: this.now()
+    });
+
+    if (request.status !== 'unsafe') {
+      return { checkin: updated };
+    }
+
+    const escalation = await this.escalate(updated, 'unsafe_response');
+    return {
+      checkin: escalation.notified
+        ? await this.dependencies.repository.updateCheckin(checkin.id, { emergencyContactsNotified: true })
+        : updated,
+      escalation
+    };
+  }
+
+  /**
+   * Raise an emergency outside of a scheduled check-in
+   */
+  async triggerEmergency(userId: string, location?: GeoLocation, matchId?: string): Promise<EscalationResult> {
+    const now = this.now();
+    const checkin = await this.dependencies.repository.createCheckin({
+      userId,
+      matchId,
+      type: 'emergency',
+      status: 'unsafe',
+      location,
+      scheduledTime: now,
+      actualTime: now,
+      emergencyContactsNotified: false
+    });
+
+    const escalation = await this.escalate(checkin, 'emergency');
+    if (escalation.notified) {
+      await this.dependencies.repository.updateCheckin(checkin.id, { emergencyContactsNotified: true });
+    }
+    return escalation;
+  }
+
+  // ===== MISSED CHECK-INS =====
+
+  /**
+   * Escalate every check-in left unanswered past the grace period.
+   * Intended to run on a schedule; check-ins that could not be delivered to
+   * an existing contact stay pending so the next run retries them.
+   */
+  async processMissedCheckins(): Promise<EscalationResult[]> {
+    const dueBy = new Date(this.now().getTime() - this.config.gracePeriodMinutes * MINUTE_MS);
+    const missed = await this.dependencies.repository.listPendingCheckins(dueBy);
+    const results: EscalationResult[] = [];
+
+    for (const checkin of missed) {
+      try {
+        const escalation = await this.escalate(checkin, 'missed_checkin');
+        results.push(escalation);
+
+        if (escalation.notified || !escalation.contact) {
+          await this.dependencies.repository.updateCheckin(checkin.id, {
+            status: 'no_response',
+            emergencyContactsNotified: escalation.notified
+          });
+        }
+      } catch (error) {
+        console.error(`Failed to escalate missed check-in ${checkin.id}:`, error);
+      }
+    }
+
+    return results;
+  }
+
+  // ===== EMERGENCY CONTACTS =====
+
+  async addEmergencyContact(
+    userId: string,
+    contact: Omit<EmergencyContact, 'id' | 'userId' | 'createdAt' | 'isPrimary'> & { isPrimary?: boolean }
+  ): Promise<EmergencyContact> {
+    if (!contact.name?.trim()) {
+      throw new SafetyValidationError('Contact name is required', 'name');
+    }
+    if (!contact.phone?.trim()) {
+      throw new SafetyValidationError('Contact phone number is required', 'phone');
+    }
+
+    // The first contact becomes primary so escalation always has someone to reach
+    const existing = await this.dependencies.repository.getEmergencyContacts(userId);
+    const isPrimary = contact.isPrimary === true || existing.length === 0;
+
+    const stored = await this.dependencies.repository.addEmergencyContact({
+      ...contact,
+      userId,
+      name: contact.name.trim(),
+      phone: contact.phone.trim(),
+      isPrimary
+    });
+
+    if (isPrimary && existing.length > 0) {
+      await this.dependencies.repository.setPrimaryContact(userId, stored.id);
+    }
+    return stored;
+  }
+
+  async getEmergencyContacts(userId: string): Promise<EmergencyContact[]> {
+    return this.dependencies.repository.getEmergencyContacts(userId);
+  }
+
+  async setPrimaryContact(userId: string, contactId: string): Promise<void> {
+    const contacts = await this.dependencies.repository.getEmergencyContacts(userId);
+    if (!contacts.some(contact => contact.id === contactId)) {
+      throw new SafetyValidationError(`Emergency contact not found: ${contactId}`, 'contactId');
+    }
+    await this.dependencies.repository.setPrimaryContact(userId, contactId);
+  }
+
+  /**
+   * Update check-in configuration
+   */
+  updateConfig(newConfig: Partial<SafetyCheckinConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  // ===== ESCALATION =====
+
+  private async escalate(checkin: SafetyCheckin, reason: EscalationReason): Promise<EscalationResult> {
+    const contacts = await this.dependencies.repository.getEmergencyContacts(checkin.userId);
+    const contact = contacts.find(c => c.isPrimary) || contacts[0];
+    const location = await this.getLastKnownLocation(checkin);
+
+    if (!contact) {
+      console.error(`No emergency contact for user ${checkin.userId}; check-in ${checkin.id} cannot be escalated`);
+      return { checkinId: checkin.id, reason, location, deliveries: [], notified: false };
+    }
+
+    const alert: EmergencyAlert = {
+      checkinId: checkin.id,
+      userId: checkin.userId,
+      matchId: checkin.matchId,
+      reason,
+      contact,
+      location,
+      scheduledTime: checkin.scheduledTime,
+      message: this.buildAlertMessage(contact, reason, checkin.scheduledTime)
+    };
+
+    const deliveries: EmergencyDeliveryResult[] = [];
+    for (const notifier of this.dependencies.notifiers) {
+      if (!notifier.canReach(contact)) continue;
+
+      try {
+        deliveries.push(await notifier.send(alert));
+      } catch (error) {
+        deliveries.push({
+          channel: notifier.channel,
+          contactId: contact.id,
+          delivered: false,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    return {
+      checkinId: checkin.id,
+      reason,
+      contact,
+      location,
+      deliveries,
+      notified: deliveries.some(delivery => delivery.delivered)
+    };
+  }
+
+  /**
+   * Most recent location from the check-in itself, earlier check-ins or the location service
+   */
+  private async getLastKnownLocation(checkin: SafetyCheckin): Promise<GeoLocation | undefined> {
+    const history = await this.dependencies.repository.listUserCheckins(checkin.userId);
+    const candidates = [
+      checkin.location,
+      ...history.map(previous => previous.location),
+      this.dependencies.locationProvider.getLastKnownLocation(checkin.userId) || undefined
+    ].filter((location): location is GeoLocation => !!location);
+
+    if (candidates.length === 0) return undefined;
+    return candidates.reduce((latest, location) =>
+      location.timestamp.getTime() > latest.timestamp.getTime() ? location : latest
+    );
+  }
+
+  private buildAlertMessage(contact: EmergencyContact, reason: EscalationReason, scheduledTime: Date): string {
+    const greeting = `Hi ${contact.name}, you are listed as an emergency contact on ShagMe.`;
+
+    switch (reason) {
+      case 'missed_checkin':
+        return `${greeting} They missed a safety check-in during a date (due ${scheduledTime.toISOString()}). ` +
+          'Please try to reach them.';
+      case 'unsafe_response':
+        return `${greeting} They reported feeling unsafe during a date. Please contact them now.`;
+      case 'emergency':
+        return `${greeting} They triggered an emergency alert. Please contact them or the emergency services now.`;
+    }
+  }
+
+  private now(): Date {
+    return this.dependencies.clock.now();
+  }
+}
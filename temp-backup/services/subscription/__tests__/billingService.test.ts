@@ -0,0 +1,367 @@
+import { BillingService } from '../billingService';
+import { EntitlementService } from '../entitlementService';
+import { FakePaymentGateway } from '../gateways/fakePaymentGateway';
+import { InMemoryBillingRepository } from '../repositories/inMemoryBillingRepository';
+import { DEFAULT_SUBSCRIPTION_PLANS } from '../repositories/inMemoryEntitlementRepository';
+import { InMemoryProfileRepository } from '../../profile/repositories/inMemoryProfileRepository';
+import { Clock } from '../../../lib/clock';
+import { BillingError, WebhookResult, WebhookSignatureError } from '../../../types/billing';
+import { UserProfile } from '../../../types/profile';
+import { BillingCycle, SubscriptionPlan } from '../../../types/subscription';
+
+const buildProfile = (userId: string): UserProfile => ({
+  userId,
+  personalInfo: {
+    displayName: userId,
+    age: 30,
+    dateOfBirth: new Date('1995-01-01'),
+    location: { latitude: 51.5074, longitude: -0.1278, city: 'London', country: 'UK' },
+    sexualOrientation: 'straight',
+    sexualIntent: 'clear',
+    lookingFor: ['casual'],
+    bio: 'Enjoys running, live music and trying new restaurants around town.',
+    interests: ['music']
+  },
+  photos: [],
+  preferences: {
+    ageRange: { min: 18, max: 40 },
+    maxDistance: 50,
+    sexualOrientations: ['straight'],
+    relationshipTypes: ['casual']
+  },
+  visibility: {
+    isVisible: true,
+    hideAge: false,
+    hideLocation: false,
+    hideLastActive: false,
+    showOnlyToVerified: false,
+    incognito: false,
+    distanceVisibility: 'approximate',
+    onlineStatus: 'online'
+  },
+  completion: {
+    overallPercentage: 80,
+    personalInfo: 100,
+    photos: 0,
+    preferences: 100,
+    visibility: 100,
+    missingFields: [],
+    recommendedActions: []
+  },
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  lastActiveAt: new Date(),
+  profileViews: 0,
+  profileLikes: 0,
+  verification: {
+    isVerified: true,
+    verificationResults: [],
+    verificationScore: 1,
+    lastVerificationUpdate: new Date()
+  },
+  premium: { isActive: false, features: [] },
+  safety: { isReported: false, reportCount: 0, isBanned: false, trustScore: 80 }
+});
+
+describe('BillingService', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+  const CYCLES: BillingCycle[] = ['monthly', 'yearly'];
+
+  // The seeded plans with gateway prices configured
+  const plans: SubscriptionPlan[] = DEFAULT_SUBSCRIPTION_PLANS.map(plan => ({
+    ...plan,
+    stripePriceIds: plan.tier === 'free'
+      ? {}
+      : { monthly: `price_${plan.tier}_monthly`, yearly: `price_${plan.tier}_yearly` }
+  }));
+
+  let currentTime: Date;
+  let repository: InMemoryBillingRepository;
+  let gateway: FakePaymentGateway;
+  let profiles: InMemoryProfileRepository;
+  let entitlements: EntitlementService;
+  let billing: BillingService;
+
+  const clock: Clock = { now: () => currentTime };
+
+  const deliverWebhooks = async (): Promise<WebhookResult[]> => {
+    const results: WebhookResult[] = [];
+    for (const delivery of gateway.drainWebhooks()) {
+      results.push(await billing.handleWebhook(delivery.payload, delivery.signature));
+    }
+    return results;
+  };
+
+  const subscribe = async (userId: string, planId: string = 'plan_premium'): Promise<string> => {
+    const session = await billing.createCheckoutSession({
+      userId,
+      planId,
+      billingCycle: 'monthly',
+      successUrl: 'shagme://billing/success',
+      cancelUrl: 'shagme://billing/cancel'
+    });
+    const subscription = gateway.completeCheckout(session.id);
+    await deliverWebhooks();
+    return subscription.id;
+  };
+
+  const advance = (days: number): void => {
+    currentTime = new Date(currentTime.getTime() + days * DAY);
+  };
+
+  beforeEach(async () => {
+    currentTime = new Date('2025-06-01T00:00:00Z');
+    repository = new InMemoryBillingRepository(plans);
+    gateway = new FakePaymentGateway('whsec_test', clock);
+    profiles = new InMemoryProfileRepository();
+    entitlements = EntitlementService.getInstance({ repository, clock });
+    billing = BillingService.getInstance({ repository, gateway, entitlements, profiles, clock });
+    billing.updateConfig({ trialDays: 0, maxPaymentAttempts: 4, revokeAccessOnFullRefund: true });
+
+    plans.filter(plan => plan.tier !== 'free').forEach(plan => {
+      CYCLES.forEach(cycle => gateway.definePrice(plan.stripePriceIds[cycle]!, plan.prices[cycle], cycle));
+    });
+
+    await profiles.saveProfile(buildProfile('alice'));
+  });
+
+  describe('Checkout', () => {
+    it('should create the subscription from the checkout webhook and sync premium', async () => {
+      await subscribe('alice');
+
+      const [subscription] = await repository.getUserSubscriptions('alice');
+      expect(subscription.status).toBe('active');
+      expect(subscription.planId).toBe('plan_premium');
+      expect(subscription.currentPeriodEnd).toEqual(new Date('2025-07-01T00:00:00Z'));
+
+      const alice = await profiles.getProfile('alice');
+      expect(alice!.premium.isActive).toBe(true);
+      expect(alice!.premium.tier).toBe('premium');
+      expect(alice!.premium.features).toContain('see_who_likes');
+
+      const payments = repository.getPayments('alice');
+      expect(payments).toHaveLength(1);
+      expect(payments[0]).toMatchObject({ amount: 19.99, status: 'succeeded' });
+    });
+
+    it('should refuse the free plan and a second subscription', async () => {
+      const request = {
+        userId: 'alice',
+        billingCycle: 'monthly' as BillingCycle,
+        successUrl: 'shagme://billing/success',
+        cancelUrl: 'shagme://billing/cancel'
+      };
+
+      await expect(billing.createCheckoutSession({ ...request, planId: 'plan_free' }))
+        .rejects.toBeInstanceOf(BillingError);
+
+      await subscribe('alice');
+      await expect(billing.createCheckoutSession({ ...request, planId: 'plan_vip' }))
+        .rejects.toThrow('change plan instead');
+    });
+
+    it('should end trials that were never paid for', async () => {
+      billing.updateConfig({ trialDays: 7 });
+      await subscribe('alice');
+
+      const entitlement = await entitlements.getActiveEntitlement('alice');
+      expect(entitlement.isTrial).toBe(true);
+      expect(repository.getPayments('alice')).toHaveLength(0);
+
+      advance(8);
+      expect(await billing.processTrialExpirations()).toBe(1);
+
+      expect((await entitlements.getActiveEntitlement('alice')).tier).toBe('free');
+      expect((await profiles.getProfile('alice'))!.premium.isActive).toBe(false);
+    });
+  });
+
+  describe('Webhooks', () => {
+    it('should reject payloads without a valid signature', async () => {
+      const session = await billing.createCheckoutSession({
+        userId: 'alice',
+        planId: 'plan_premium',
+        billingCycle: 'monthly',
+        successUrl: 'shagme://billing/success',
+        cancelUrl: 'shagme://billing/cancel'
+      });
+      gateway.completeCheckout(session.id);
+      const [delivery] = gateway.drainWebhooks();
+
+      const tampered = delivery.payload.replace('alice', 'mallory');
+      await expect(billing.handleWebhook(tampered, delivery.signature)).rejects.toBeInstanceOf(WebhookSignatureError);
+
+      const stale = gateway.signPayload(delivery.payload, new Date(currentTime.getTime() - 10 * 60 * 1000));
+      await expect(billing.handleWebhook(delivery.payload, stale)).rejects.toThrow('expired');
+    });
+
+    it('should apply redelivered events only once', async () => {
+      await subscribe('alice');
+      const subscriptionId = (await repository.getUserSubscriptions('alice'))[0].stripeSubscriptionId!;
+
+      advance(30);
+      gateway.chargeRenewal(subscriptionId, true);
+      const deliveries = gateway.drainWebhooks();
+      for (const delivery of deliveries) {
+        await billing.handleWebhook(delivery.payload, delivery.signature);
+      }
+
+      const replay = await billing.handleWebhook(deliveries[0].payload, deliveries[0].signature);
+      expect(replay.status).toBe('duplicate');
+      expect(repository.getPayments('alice')).toHaveLength(2);
+    });
+
+    it('should let the gateway retry an event that failed', async () => {
+      const saveProfile = jest.spyOn(profiles, 'saveProfile').mockRejectedValueOnce(new Error('database unavailable'));
+      const session = await billing.createCheckoutSession({
+        userId: 'alice',
+        planId: 'plan_premium',
+        billingCycle: 'monthly',
+        successUrl: 'shagme://billing/success',
+        cancelUrl: 'shagme://billing/cancel'
+      });
+      gateway.completeCheckout(session.id);
+      const [checkout] = gateway.drainWebhooks();
+
+      await expect(billing.handleWebhook(checkout.payload, checkout.signature)).rejects.toThrow('database unavailable');
+
+      const retry = await billing.handleWebhook(checkout.payload, checkout.signature);
+      expect(retry.status).toBe('processed');
+      expect((await profiles.getProfile('alice'))!.premium.isActive).toBe(true);
+      saveProfile.mockRestore();
+    });
+
+    it('should take over an event whose handler never finished', async () => {
+      billing.updateConfig({ webhookClaimTimeoutMinutes: 10 });
+      const session = await billing.createCheckoutSession({
+        userId: 'alice',
+        planId: 'plan_premium',
+        billingCycle: 'monthly',
+        successUrl: 'shagme://billing/success',
+        cancelUrl: 'shagme://billing/cancel'
+      });
+      gateway.completeCheckout(session.id);
+      const [checkout] = gateway.drainWebhooks();
+
+      // A delivery that claimed the event and then crashed before finishing
+      const event = gateway.constructEvent(checkout.payload, checkout.signature);
+      await repository.claimWebhookEvent(event.id, event.type, currentTime, currentTime);
+
+      const early = await billing.handleWebhook(checkout.payload, checkout.signature);
+      expect(early.status).toBe('duplicate');
+
+      currentTime = new Date(currentTime.getTime() + 11 * 60 * 1000);
+      const retry = await billing.handleWebhook(checkout.payload, gateway.signPayload(checkout.payload));
+      expect(retry.status).toBe('processed');
+      expect((await profiles.getProfile('alice'))!.premium.isActive).toBe(true);
+    });
+  });
+
+  describe('Dunning', () => {
+    it('should keep access while renewal payments are retried', async () => {
+      const subscriptionId = await subscribe('alice');
+
+      advance(30);
+      gateway.chargeRenewal(subscriptionId, false);
+      await deliverWebhooks();
+
+      const [pastDue] = await repository.getUserSubscriptions('alice');
+      expect(pastDue.status).toBe('past_due');
+      expect((await profiles.getProfile('alice'))!.premium.isActive).toBe(true);
+
+      advance(2);
+      gateway.chargeRenewal(subscriptionId, true);
+      await deliverWebhooks();
+
+      const [recovered] = await repository.getUserSubscriptions('alice');
+      expect(recovered.status).toBe('active');
+      expect(recovered.currentPeriodEnd).toEqual(new Date('2025-08-01T00:00:00Z'));
+      expect(repository.getPayments('alice').map(payment => payment.status)).toEqual(['succeeded', 'failed', 'succeeded']);
+    });
+
+    it('should end the subscription once retries run out', async () => {
+      const subscriptionId = await subscribe('alice');
+
+      advance(30);
+      for (let attempt = 0; attempt < 4; attempt++) {
+        gateway.chargeRenewal(subscriptionId, false);
+        await deliverWebhooks();
+        advance(1);
+      }
+
+      const [ended] = await repository.getUserSubscriptions('alice');
+      expect(ended.status).not.toBe('active');
+      expect((await gateway.getSubscription(subscriptionId)).status).toBe('canceled');
+      expect((await entitlements.getActiveEntitlement('alice')).tier).toBe('free');
+      expect((await profiles.getProfile('alice'))!.premium.isActive).toBe(false);
+    });
+  });
+
+  describe('Plan Changes', () => {
+    it('should prorate an upgrade for the rest of the period', async () => {
+      await subscribe('alice');
+      advance(15);
+
+      const result = await billing.changePlan('alice', 'plan_vip');
+
+      // Half of June is left: (39.99 - 19.99) / 2
+      expect(result.prorationAmount).toBe(10);
+      expect(result.subscription.planId).toBe('plan_vip');
+      expect(result.subscription.currentPeriodEnd).toEqual(new Date('2025-07-01T00:00:00Z'));
+
+      await deliverWebhooks();
+      expect((await profiles.getProfile('alice'))!.premium.tier).toBe('vip');
+      expect(repository.getPayments('alice').map(payment => payment.amount)).toEqual([19.99, 10]);
+    });
+
+    it('should credit unused time when switching to yearly billing', async () => {
+      await subscribe('alice');
+      advance(15);
+
+      const result = await billing.changePlan('alice', 'plan_premium', 'yearly');
+
+      expect(result.prorationAmount).toBe(150);
+      expect(result.subscription.billingCycle).toBe('yearly');
+      expect(result.subscription.currentPeriodEnd).toEqual(new Date('2026-06-16T00:00:00Z'));
+    });
+
+    it('should keep access until the end of a cancelled period', async () => {
+      const subscriptionId = await subscribe('alice');
+      advance(10);
+
+      const cancelled = await billing.cancelSubscription('alice');
+      await deliverWebhooks();
+
+      expect(cancelled.status).toBe('canceled');
+      expect((await profiles.getProfile('alice'))!.premium.isActive).toBe(true);
+
+      advance(21);
+      gateway.chargeRenewal(subscriptionId, true);
+      await deliverWebhooks();
+
+      expect((await profiles.getProfile('alice'))!.premium.isActive).toBe(false);
+      expect(repository.getPayments('alice')).toHaveLength(1);
+    });
+  });
+
+  describe('Refunds', () => {
+    it('should mark refunded payments and revoke access after a full refund', async () => {
+      await subscribe('alice');
+      const [payment] = repository.getPayments('alice');
+
+      await billing.refundPayment(payment.paymentIntentId, 5);
+      await deliverWebhooks();
+      expect(repository.getPayments('alice')[0].status).toBe('succeeded');
+      expect((await profiles.getProfile('alice'))!.premium.isActive).toBe(true);
+
+      await billing.refundPayment(payment.paymentIntentId);
+      await deliverWebhooks();
+
+      expect(repository.getPayments('alice')[0]).toMatchObject({
+        status: 'refunded',
+        metadata: expect.objectContaining({ invoiceId: payment.metadata.invoiceId, amountRefunded: 19.99 })
+      });
+      expect((await profiles.getProfile('alice'))!.premium.isActive).toBe(false);
+    });
+  });
+});
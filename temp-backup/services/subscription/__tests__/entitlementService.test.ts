@@ -0,0 +1,193 @@
+import { EntitlementService } from '../entitlementService';
+import { InMemoryEntitlementRepository } from '../repositories/inMemoryEntitlementRepository';
+import { Clock } from '../../../lib/clock';
+import { MatchingLimitExceededError } from '../../../types/matching';
+import { UserSubscription } from '../../../types/subscription';
+
+describe('EntitlementService', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+
+  let currentTime: Date;
+  let repository: InMemoryEntitlementRepository;
+  let service: EntitlementService;
+
+  const clock: Clock = { now: () => currentTime };
+
+  const subscribe = (userId: string, planId: string, overrides: Partial<UserSubscription> = {}): void => {
+    repository.saveSubscription({
+      id: `sub_${userId}_${planId}`,
+      userId,
+      planId,
+      status: 'active',
+      billingCycle: 'monthly',
+      currentPeriodStart: new Date(currentTime.getTime() - 10 * DAY),
+      currentPeriodEnd: new Date(currentTime.getTime() + 20 * DAY),
+      createdAt: currentTime,
+      updatedAt: currentTime,
+      ...overrides
+    });
+  };
+
+  beforeEach(() => {
+    currentTime = new Date('2025-06-01T15:30:00Z');
+    repository = new InMemoryEntitlementRepository();
+    service = EntitlementService.getInstance({ repository, clock });
+  });
+
+  describe('Plan Resolution', () => {
+    it('should fall back to the free plan without a subscription', async () => {
+      const entitlement = await service.getActiveEntitlement('alice');
+
+      expect(entitlement.tier).toBe('free');
+      expect(entitlement.subscription).toBeUndefined();
+      expect(await service.hasFeature('alice', 'see_who_likes')).toBe(false);
+    });
+
+    it('should pick the highest tier among usable subscriptions', async () => {
+      subscribe('alice', 'plan_premium');
+      subscribe('alice', 'plan_vip', { status: 'unpaid' });
+
+      const entitlement = await service.getActiveEntitlement('alice');
+
+      expect(entitlement.tier).toBe('premium');
+      expect(entitlement.expiresAt).toEqual(new Date(currentTime.getTime() + 20 * DAY));
+      expect(await service.hasFeature('alice', 'see_who_likes')).toBe(true);
+    });
+
+    it('should honour trials, cancelled periods and the past-due grace period', async () => {
+      subscribe('trial', 'plan_vip', {
+        status: 'unpaid',
+        currentPeriodEnd: undefined,
+        trialStart: new Date(currentTime.getTime() - DAY),
+        trialEnd: new Date(currentTime.getTime() + 6 * DAY)
+      });
+      subscribe('cancelled', 'plan_premium', { status: 'canceled', canceledAt: currentTime });
+      subscribe('late', 'plan_premium', {
+        status: 'past_due',
+        currentPeriodEnd: new Date(currentTime.getTime() - DAY)
+      });
+
+      // An unpaid subscription gets nothing, even during a trial
+      expect((await service.getActiveEntitlement('trial')).tier).toBe('free');
+      expect((await service.getActiveEntitlement('cancelled')).tier).toBe('premium');
+      expect((await service.getActiveEntitlement('late')).tier).toBe('premium');
+
+      currentTime = new Date(currentTime.getTime() + 3 * DAY);
+      expect((await service.getActiveEntitlement('late')).tier).toBe('free');
+
+      currentTime = new Date(currentTime.getTime() + 20 * DAY);
+      expect((await service.getActiveEntitlement('cancelled')).tier).toBe('free');
+    });
+
+    it('should treat a trial as the plan being trialled', async () => {
+      subscribe('alice', 'plan_vip', {
+        currentPeriodEnd: undefined,
+        trialEnd: new Date(currentTime.getTime() + 7 * DAY)
+      });
+
+      const entitlement = await service.getActiveEntitlement('alice');
+
+      expect(entitlement.tier).toBe('vip');
+      expect(entitlement.isTrial).toBe(true);
+      expect(entitlement.expiresAt).toEqual(new Date(currentTime.getTime() + 7 * DAY));
+    });
+  });
+
+  describe('Quotas', () => {
+    it('should consume up to the daily limit and then throw', async () => {
+      for (let i = 0; i < 10; i++) {
+        await service.consume('alice', 'daily_likes');
+      }
+
+      const error = await service.consume('alice', 'daily_likes').catch(caught => caught);
+
+      expect(error).toBeInstanceOf(MatchingLimitExceededError);
+      expect(error.limitType).toBe('daily_likes');
+      expect(error.resetTime).toEqual(new Date('2025-06-02T00:00:00Z'));
+      expect((await service.getQuota('alice', 'daily_likes')).remaining).toBe(0);
+    });
+
+    it('should reset usage at midnight UTC', async () => {
+      await service.consume('alice', 'super_likes');
+      await expect(service.consume('alice', 'super_likes')).rejects.toBeInstanceOf(MatchingLimitExceededError);
+
+      currentTime = new Date('2025-06-02T00:00:01Z');
+
+      const quota = await service.consume('alice', 'super_likes');
+      expect(quota.used).toBe(1);
+      expect(quota.remaining).toBe(0);
+    });
+
+    it('should not overspend under concurrent requests', async () => {
+      const results = await Promise.allSettled(
+        Array.from({ length: 15 }, () => service.consume('alice', 'daily_likes'))
+      );
+
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(10);
+      expect(results.filter(result => result.status === 'rejected')).toHaveLength(5);
+    });
+
+    it('should explain features the plan does not include', async () => {
+      await expect(service.consume('alice', 'rewinds')).rejects.toThrow('Your Free plan does not include rewinds');
+    });
+
+    it('should treat -1 as unlimited and give back refunded usage', async () => {
+      subscribe('alice', 'plan_vip');
+
+      const quota = await service.consume('alice', 'daily_likes', 500);
+      expect(quota.remaining).toBe(-1);
+
+      await service.consume('bob', 'daily_likes', 10);
+      await service.refund('bob', 'daily_likes', 2);
+      expect((await service.getQuota('bob', 'daily_likes')).used).toBe(8);
+    });
+
+    it('should not cap likes on plans with unlimited likes', async () => {
+      subscribe('alice', 'plan_premium');
+
+      const quota = await service.consume('alice', 'daily_likes', 150);
+
+      expect(quota).toMatchObject({ limit: -1, used: 150, remaining: -1 });
+      expect((await service.getQuota('alice', 'super_likes')).limit).toBe(5);
+    });
+  });
+
+  describe('Matching Limits', () => {
+    it('should report usage, features and upgrade prompts', async () => {
+      await service.consume('alice', 'super_likes');
+      await service.consume('alice', 'daily_likes', 4);
+
+      const limits = await service.getMatchingLimits('alice');
+
+      expect(limits.userTier).toBe('free');
+      expect(limits.dailyLimits).toEqual({ maxMatches: -1, maxLikes: 10, maxSuperLikes: 1 });
+      expect(limits.currentUsage).toEqual({
+        matchesUsed: 0,
+        likesUsed: 4,
+        superLikesUsed: 1,
+        resetAt: new Date('2025-06-02T00:00:00Z')
+      });
+      expect(limits.premiumFeatures.boostAvailable).toBe(false);
+      expect(limits.restrictions.canLikeProfiles).toBe(true);
+      expect(limits.restrictions.canUseSuperLike).toBe(false);
+      expect(limits.restrictions.requiresUpgrade).toBe(true);
+      expect(limits.restrictions.upgradeReason).toContain('super likes');
+    });
+
+    it('should unlock premium features for paid plans', async () => {
+      subscribe('alice', 'plan_vip');
+
+      const limits = await service.getMatchingLimits('alice');
+
+      expect(limits.userTier).toBe('vip');
+      expect(limits.premiumFeatures).toEqual({
+        unlimitedMatches: true,
+        priorityMatching: true,
+        advancedFilters: true,
+        boostAvailable: true,
+        superLikesIncluded: 20
+      });
+      expect(limits.restrictions.requiresUpgrade).toBe(false);
+    });
+  });
+});
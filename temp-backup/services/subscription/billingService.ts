@@ -0,0 +1,578 @@
+/**
+ * Billing Service
+ * Epic 006: Premium Payment System
+ *
+ * Starts checkout for paid plans and keeps user_subscriptions, payments and
+ * UserProfile.premium in step with the payment gateway: signed webhooks
+ * (processed once each), dunning on failed renewals, prorated plan changes,
+ * cancellations, refunds and trial expiry
+ */
+
+import { Clock, systemClock } from '../../lib/clock';
+import {
+  BillingError,
+  BillingEvent,
+  BillingRepository,
+  CheckoutSession,
+  CreateCheckoutRequest,
+  GatewaySubscription,
+  GatewaySubscriptionStatus,
+  InvoiceEventData,
+  PaymentGateway,
+  PlanChangeResult,
+  WebhookResult
+} from '../../types/billing';
+import { ProfileRepository, UserProfile } from '../../types/profile';
+import {
+  BillingCycle,
+  PlanFeatures,
+  SubscriptionPlan,
+  SubscriptionPlanNotFoundError,
+  SubscriptionStatus,
+  UserSubscription
+} from '../../types/subscription';
+import { ProfileService } from '../profile/profileService';
+import { EntitlementService } from './entitlementService';
+
+export interface BillingServiceDependencies {
+  repository: BillingRepository;
+  gateway: PaymentGateway;
+  entitlements: Pick<EntitlementService, 'getActiveEntitlement'>; // Must read the same repository
+  profiles: Pick<ProfileRepository, 'getProfile' | 'saveProfile'>;
+  clock: Clock;
+}
+
+export interface BillingServiceConfig {
+  trialDays: number; // Offered on a user's first paid subscription; 0 disables trials
+  maxPaymentAttempts: number; // Failed renewal attempts before the subscription is ended
+  revokeAccessOnFullRefund: boolean;
+  trialExpiryLookbackDays: number; // How far back processTrialExpirations looks
+  webhookClaimTimeoutMinutes: number; // After this long an unfinished webhook claim is treated as abandoned
+}
+
+const STATUS_FROM_GATEWAY: Record<GatewaySubscriptionStatus, SubscriptionStatus> = {
+  trialing: 'active', // The trial window itself is kept in trialStart/trialEnd
+  active: 'active',
+  past_due: 'past_due',
+  unpaid: 'unpaid',
+  incomplete: 'unpaid',
+  canceled: 'canceled'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class BillingService {
+  private static instance: BillingService;
+  private dependencies: BillingServiceDependencies;
+
+  private config: BillingServiceConfig = {
+    trialDays: 7,
+    maxPaymentAttempts: 4,
+    revokeAccessOnFullRefund: true,
+    trialExpiryLookbackDays: 7,
+    webhookClaimTimeoutMinutes: 10
+  };
+
+  private constructor(dependencies: Partial<BillingServiceDependencies> = {}) {
+    if (!dependencies.repository || !dependencies.gateway || !dependencies.entitlements) {
+      // Entitlements are passed in rather than taken from the shared EntitlementService,
+      // whose repository would otherwise be swapped for everyone else
+      throw new BillingError('BillingService needs a billing repository, a payment gateway and an entitlement service');
+    }
+
+    this.dependencies = {
+      repository: dependencies.repository,
+      gateway: dependencies.gateway,
+      entitlements: dependencies.entitlements,
+      profiles: dependencies.profiles || ProfileService.getInstance().getRepository(),
+      clock: dependencies.clock || systemClock
+    };
+  }
+
+  public static getInstance(dependencies?: Partial<BillingServiceDependencies>): BillingService {
+    if (!BillingService.instance) {
+      BillingService.instance = new BillingService(dependencies);
+    } else if (dependencies) {
+      BillingService.instance.setDependencies(dependencies);
+    }
+    return BillingService.instance;
+  }
+
+  /**
+   * Replace some or all dependencies (e.g. a fake gateway in tests)
+   */
+  setDependencies(dependencies: Partial<BillingServiceDependencies>): void {
+    this.dependencies = { ...this.dependencies, ...dependencies };
+  }
+
+  updateConfig(config: Partial<BillingServiceConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  // ===== CHECKOUT AND PLAN CHANGES =====
+
+  /**
+   * Start a hosted checkout for a paid plan. The subscription is only created
+   * once the gateway confirms it through the checkout.session.completed webhook.
+   */
+  async createCheckoutSession(request: CreateCheckoutRequest): Promise<CheckoutSession> {
+    const plan = await this.getPlan(request.planId);
+    if (plan.tier === 'free' || !plan.isActive) {
+      throw new BillingError(`Plan ${plan.name} cannot be purchased`);
+    }
+    const priceId = this.getPriceId(plan, request.billingCycle);
+
+    const subscriptions = await this.dependencies.repository.getUserSubscriptions(request.userId);
+    if (this.findCurrentSubscription(subscriptions)) {
+      throw new BillingError('You already have a subscription; change plan instead');
+    }
+
+    const customerId = subscriptions.find(subscription => subscription.stripeCustomerId)?.stripeCustomerId
+      || await this.dependencies.gateway.createCustomer(request.userId);
+
+    return this.dependencies.gateway.createCheckoutSession({
+      customerId,
+      priceId,
+      clientReferenceId: request.userId,
+      successUrl: request.successUrl,
+      cancelUrl: request.cancelUrl,
+      // Trials are for first-time subscribers only
+      trialDays: subscriptions.length === 0 && this.config.trialDays > 0 ? this.config.trialDays : undefined
+    });
+  }
+
+  /**
+   * Move a subscriber to another paid plan and/or billing cycle straight away,
+   * charging or crediting the difference for the rest of the current period
+   */
+  async changePlan(userId: string, planId: string, billingCycle?: BillingCycle): Promise<PlanChangeResult> {
+    const current = await this.getCurrentSubscription(userId);
+    const [currentPlan, newPlan] = await Promise.all([this.getPlan(current.planId), this.getPlan(planId)]);
+    if (newPlan.tier === 'free') {
+      throw new BillingError('Cancel the subscription to move to the free plan');
+    }
+
+    const currentCycle = current.billingCycle || 'monthly';
+    const newCycle = billingCycle || currentCycle;
+    const priceId = this.getPriceId(newPlan, newCycle);
+    if (newPlan.id === currentPlan.id && newCycle === currentCycle) {
+      throw new BillingError(`You are already on ${newPlan.name} (${newCycle})`);
+    }
+
+    const resetBillingCycle = newCycle !== currentCycle;
+    const prorationAmount = this.calculateProration(current, currentPlan.prices[currentCycle], newPlan.prices[newCycle], resetBillingCycle);
+
+    const snapshot = await this.dependencies.gateway.changeSubscriptionPrice(current.stripeSubscriptionId!, {
+      priceId,
+      prorationAmount,
+      resetBillingCycle
+    });
+    const subscription = await this.applyGatewaySubscription(current, snapshot);
+    await this.syncPremium(userId);
+
+    return { subscription, prorationAmount };
+  }
+
+  /**
+   * Cancel the user's subscription, by default keeping access until the period ends
+   */
+  async cancelSubscription(userId: string, atPeriodEnd: boolean = true): Promise<UserSubscription> {
+    const current = await this.getCurrentSubscription(userId);
+    const snapshot = await this.dependencies.gateway.cancelSubscription(current.stripeSubscriptionId!, atPeriodEnd);
+    const subscription = await this.applyGatewaySubscription(current, snapshot);
+    await this.syncPremium(userId);
+    return subscription;
+  }
+
+  /**
+   * Refund a payment in full or in part. Local records update when the
+   * gateway's charge.refunded webhook arrives.
+   */
+  async refundPayment(paymentIntentId: string, amount?: number): Promise<void> {
+    const payment = await this.dependencies.repository.getPaymentByIntent(paymentIntentId);
+    if (!payment || payment.status !== 'succeeded') {
+      throw new BillingError(`Payment ${paymentIntentId} cannot be refunded`);
+    }
+    if (amount !== undefined && (amount <= 0 || amount > payment.amount)) {
+      throw new BillingError(`Refund must be between 0 and ${payment.amount}`);
+    }
+
+    await this.dependencies.gateway.refundPayment(paymentIntentId, amount);
+  }
+
+  // ===== WEBHOOKS =====
+
+  /**
+   * Verify and apply one gateway webhook delivery. Redelivered events are
+   * acknowledged without being applied twice; failures release the event so
+   * the gateway's retry can process it, and a claim left behind by a crashed
+   * process is taken over once webhookClaimTimeoutMinutes have passed.
+   */
+  async handleWebhook(payload: string, signature: string): Promise<WebhookResult> {
+    const event = this.dependencies.gateway.constructEvent(payload, signature);
+    const { repository } = this.dependencies;
+
+    const now = this.now();
+    const staleBefore = new Date(now.getTime() - this.config.webhookClaimTimeoutMinutes * 60 * 1000);
+    const claimed = await repository.claimWebhookEvent(event.id, event.type, now, staleBefore);
+    if (!claimed) {
+      return { eventId: event.id, type: event.type, status: 'duplicate' };
+    }
+
+    try {
+      const userId = await this.processEvent(event);
+      await repository.completeWebhookEvent(event.id);
+      return { eventId: event.id, type: event.type, status: userId ? 'processed' : 'ignored', userId };
+    } catch (error) {
+      await repository.releaseWebhookEvent(event.id);
+      throw error;
+    }
+  }
+
+  // ===== LIFECYCLE JOBS =====
+
+  /**
+   * End trials that finished without a paid period, in case the gateway's
+   * webhooks were missed. Returns how many subscriptions lost access.
+   */
+  async processTrialExpirations(): Promise<number> {
+    const now = this.now();
+    const endedAfter = new Date(now.getTime() - this.config.trialExpiryLookbackDays * DAY_MS);
+    const trials = await this.dependencies.repository.listEndedTrials(endedAfter, now);
+
+    let expired = 0;
+    for (const trial of trials) {
+      let subscription = trial;
+      if (subscription.stripeSubscriptionId) {
+        const snapshot = await this.dependencies.gateway.getSubscription(subscription.stripeSubscriptionId);
+        subscription = await this.applyGatewaySubscription(subscription, snapshot);
+      }
+
+      const converted = !!subscription.currentPeriodEnd && !!subscription.trialEnd
+        && subscription.currentPeriodEnd > subscription.trialEnd;
+      if (subscription.status === 'active' && !converted) {
+        await this.dependencies.repository.updateSubscription(subscription.id, { status: 'unpaid', updatedAt: now });
+        expired++;
+      }
+
+      await this.syncPremium(subscription.userId);
+    }
+
+    return expired;
+  }
+
+  /**
+   * Copy the user's current entitlement onto UserProfile.premium
+   */
+  async syncPremium(userId: string): Promise<UserProfile['premium'] | null> {
+    const profile = await this.dependencies.profiles.getProfile(userId);
+    if (!profile) {
+      return null;
+    }
+
+    const entitlement = await this.dependencies.entitlements.getActiveEntitlement(userId);
+    const isActive = entitlement.tier !== 'free';
+    const premium: UserProfile['premium'] = {
+      isActive,
+      tier: isActive ? entitlement.tier as 'premium' | 'vip' : 'basic',
+      expiresAt: isActive ? entitlement.expiresAt : undefined,
+      features: isActive ? this.listIncludedFeatures(entitlement.plan.features) : []
+    };
+
+    await this.dependencies.profiles.saveProfile({ ...profile, premium });
+    return premium;
+  }
+
+  // ===== EVENT HANDLERS =====
+
+  /**
+   * Apply an event and return the affected user, or undefined if it didn't apply
+   */
+  private async processEvent(event: BillingEvent): Promise<string | undefined> {
+    switch (event.type) {
+      case 'checkout.session.completed':
+        return this.handleCheckoutCompleted(event.data.clientReferenceId, event.data.subscriptionId);
+      case 'customer.subscription.updated':
+      case 'customer.subscription.deleted':
+        return this.handleSubscriptionChanged(event.data.subscription.id);
+      case 'invoice.paid':
+        return this.handleInvoicePaid(event.data);
+      case 'invoice.payment_failed':
+        return this.handleInvoiceFailed(event.data);
+      case 'charge.refunded':
+        return this.handleRefund(event.data.paymentIntentId, event.data.amountRefunded);
+      default:
+        return undefined;
+    }
+  }
+
+  private async handleCheckoutCompleted(userId: string, gatewaySubscriptionId: string): Promise<string> {
+    const { repository, gateway } = this.dependencies;
+    // Events can arrive out of order, so always work from the gateway's latest state
+    const snapshot = await gateway.getSubscription(gatewaySubscriptionId);
+    const existing = await repository.getSubscriptionByGatewayId(gatewaySubscriptionId);
+
+    if (existing) {
+      await this.applyGatewaySubscription(existing, snapshot);
+    } else {
+      const { plan, cycle } = await this.getPlanForPrice(snapshot.priceId);
+      const now = this.now();
+      await repository.createSubscription({
+        userId,
+        planId: plan.id,
+        stripeCustomerId: snapshot.customerId,
+        stripeSubscriptionId: snapshot.id,
+        billingCycle: cycle,
+        ...this.subscriptionStateFrom(snapshot),
+        createdAt: now,
+        updatedAt: now
+      });
+    }
+
+    await this.syncPremium(userId);
+    return userId;
+  }
+
+  private async handleSubscriptionChanged(gatewaySubscriptionId: string): Promise<string | undefined> {
+    // Unknown subscriptions are picked up by checkout completion
+    const existing = await this.dependencies.repository.getSubscriptionByGatewayId(gatewaySubscriptionId);
+    if (!existing) {
+      return undefined;
+    }
+
+    const snapshot = await this.dependencies.gateway.getSubscription(gatewaySubscriptionId);
+    await this.applyGatewaySubscription(existing, snapshot);
+    await this.syncPremium(existing.userId);
+    return existing.userId;
+  }
+
+  private async handleInvoicePaid(invoice: InvoiceEventData): Promise<string | undefined> {
+    const { repository } = this.dependencies;
+    const subscription = await repository.getSubscriptionByGatewayId(invoice.subscriptionId);
+    if (!subscription) {
+      return undefined;
+    }
+
+    await this.recordInvoicePayment(subscription, invoice, 'succeeded');
+
+    const updates: Partial<UserSubscription> = { updatedAt: this.now() };
+    if (subscription.status === 'past_due' || subscription.status === 'unpaid') {
+      updates.status = 'active';
+    }
+    if (!subscription.currentPeriodEnd || invoice.periodEnd > subscription.currentPeriodEnd) {
+      updates.currentPeriodStart = invoice.periodStart;
+      updates.currentPeriodEnd = invoice.periodEnd;
+    }
+    await repository.updateSubscription(subscription.id, updates);
+
+    await this.syncPremium(subscription.userId);
+    return subscription.userId;
+  }
+
+  private async handleInvoiceFailed(invoice: InvoiceEventData): Promise<string | undefined> {
+    const { repository, gateway } = this.dependencies;
+    const subscription = await repository.getSubscriptionByGatewayId(invoice.subscriptionId);
+    if (!subscription) {
+      return undefined;
+    }
+
+    await this.recordInvoicePayment(subscription, invoice, 'failed');
+
+    // Dunning: the plan stays in its grace period while the gateway retries,
+    // and the subscription ends once the retries run out
+    const retriesExhausted = !invoice.nextPaymentAttempt || invoice.attemptCount >= this.config.maxPaymentAttempts;
+    await repository.updateSubscription(subscription.id, {
+      status: retriesExhausted ? 'unpaid' : 'past_due',
+      updatedAt: this.now()
+    });
+
+    if (retriesExhausted && subscription.status !== 'canceled') {
+      const snapshot = await gateway.cancelSubscription(invoice.subscriptionId, false);
+      await this.applyGatewaySubscription(subscription, snapshot, 'unpaid');
+    }
+
+    await this.syncPremium(subscription.userId);
+    return subscription.userId;
+  }
+
+  private async handleRefund(paymentIntentId: string, amountRefunded: number): Promise<string | undefined> {
+    const { repository, gateway } = this.dependencies;
+    const payment = await repository.getPaymentByIntent(paymentIntentId);
+    if (!payment) {
+      return undefined;
+    }
+
+    const fullyRefunded = amountRefunded >= payment.amount;
+    await repository.savePayment({
+      ...payment,
+      status: fullyRefunded ? 'refunded' : payment.status,
+      metadata: { ...payment.metadata, amountRefunded }
+    }, this.now());
+
+    if (fullyRefunded && this.config.revokeAccessOnFullRefund && payment.subscriptionId) {
+      const subscriptions = await repository.getUserSubscriptions(payment.userId);
+      const subscription = subscriptions.find(candidate => candidate.id === payment.subscriptionId);
+
+      const stillRunning = subscription && subscription.status !== 'unpaid'
+        && (!subscription.currentPeriodEnd || subscription.currentPeriodEnd > this.now());
+      if (subscription?.stripeSubscriptionId && stillRunning) {
+        const snapshot = await gateway.cancelSubscription(subscription.stripeSubscriptionId, false);
+        await this.applyGatewaySubscription(subscription, snapshot);
+      }
+    }
+
+    await this.syncPremium(payment.userId);
+    return payment.userId;
+  }
+
+  // ===== HELPERS =====
+
+  private async recordInvoicePayment(
+    subscription: UserSubscription,
+    invoice: InvoiceEventData,
+    status: 'succeeded' | 'failed'
+  ): Promise<void> {
+    // Zero-amount invoices (trial starts) have no payment to record
+    if (!invoice.paymentIntentId) {
+      return;
+    }
+
+    await this.dependencies.repository.savePayment({
+      userId: subscription.userId,
+      subscriptionId: subscription.id,
+      paymentIntentId: invoice.paymentIntentId,
+      amount: invoice.amount,
+      currency: invoice.currency,
+      status,
+      metadata: {
+        invoiceId: invoice.invoiceId,
+        billingReason: invoice.billingReason,
+        attemptCount: invoice.attemptCount,
+        nextPaymentAttempt: invoice.nextPaymentAttempt?.toISOString()
+      }
+    }, this.now());
+  }
+
+  /**
+   * Overwrite the local subscription with the gateway's view of it
+   */
+  private async applyGatewaySubscription(
+    subscription: UserSubscription,
+    snapshot: GatewaySubscription,
+    statusOverride?: SubscriptionStatus
+  ): Promise<UserSubscription> {
+    const { plan, cycle } = await this.getPlanForPrice(snapshot.priceId);
+    const state = this.subscriptionStateFrom(snapshot);
+
+    return this.dependencies.repository.updateSubscription(subscription.id, {
+      ...state,
+      status: statusOverride || state.status,
+      planId: plan.id,
+      billingCycle: cycle,
+      updatedAt: this.now()
+    });
+  }
+
+  private subscriptionStateFrom(snapshot: GatewaySubscription): Pick<
+    UserSubscription,
+    'status' | 'currentPeriodStart' | 'currentPeriodEnd' | 'trialStart' | 'trialEnd' | 'canceledAt'
+  > {
+    // A subscription set to cancel at period end keeps access until then,
+    // which is how EntitlementService treats 'canceled'
+    const status = snapshot.cancelAtPeriodEnd && snapshot.status !== 'unpaid'
+      ? 'canceled'
+      : STATUS_FROM_GATEWAY[snapshot.status];
+
+    return {
+      status,
+      currentPeriodStart: snapshot.currentPeriodStart,
+      currentPeriodEnd: snapshot.currentPeriodEnd,
+      trialStart: snapshot.trialStart,
+      trialEnd: snapshot.trialEnd,
+      canceledAt: snapshot.canceledAt
+    };
+  }
+
+  /**
+   * Difference between the new and old price for the unused part of the period.
+   * When the billing cycle changes a new period starts now at the full new price.
+   */
+  private calculateProration(
+    subscription: UserSubscription,
+    currentPrice: number,
+    newPrice: number,
+    resetBillingCycle: boolean
+  ): number {
+    const now = this.now();
+    const { currentPeriodStart: start, currentPeriodEnd: end, trialEnd } = subscription;
+
+    // Nothing has been paid for a trial yet
+    if (trialEnd && now < trialEnd) {
+      return 0;
+    }
+
+    let remaining = 0;
+    if (start && end && end > start) {
+      remaining = Math.min(1, Math.max(0, (end.getTime() - now.getTime()) / (end.getTime() - start.getTime())));
+    }
+
+    const unusedCredit = currentPrice * remaining;
+    const amount = resetBillingCycle ? newPrice - unusedCredit : (newPrice - currentPrice) * remaining;
+    return Math.round(amount * 100) / 100;
+  }
+
+  private async getCurrentSubscription(userId: string): Promise<UserSubscription> {
+    const subscriptions = await this.dependencies.repository.getUserSubscriptions(userId);
+    const current = this.findCurrentSubscription(subscriptions);
+    if (!current) {
+      throw new BillingError('No active subscription');
+    }
+    return current;
+  }
+
+  private findCurrentSubscription(subscriptions: UserSubscription[]): UserSubscription | undefined {
+    return subscriptions
+      .filter(subscription => subscription.stripeSubscriptionId)
+      .filter(subscription => subscription.status === 'active' || subscription.status === 'past_due')
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+  }
+
+  private async getPlan(planId: string): Promise<SubscriptionPlan> {
+    const plans = await this.dependencies.repository.getPlans();
+    const plan = plans.find(candidate => candidate.id === planId);
+    if (!plan) {
+      throw new SubscriptionPlanNotFoundError(planId);
+    }
+    return plan;
+  }
+
+  private async getPlanForPrice(priceId: string): Promise<{ plan: SubscriptionPlan; cycle: BillingCycle }> {
+    const plans = await this.dependencies.repository.getPlans();
+    for (const plan of plans) {
+      const match = (Object.keys(plan.stripePriceIds) as BillingCycle[])
+        .find(cycle => plan.stripePriceIds[cycle] === priceId);
+      if (match) {
+        return { plan, cycle: match };
+      }
+    }
+    throw new BillingError(`No plan uses price ${priceId}`);
+  }
+
+  private getPriceId(plan: SubscriptionPlan, cycle: BillingCycle): string {
+    const priceId = plan.stripePriceIds[cycle];
+    if (!priceId) {
+      throw new BillingError(`${plan.name} is not available ${cycle}`);
+    }
+    return priceId;
+  }
+
+  private listIncludedFeatures(features: PlanFeatures): string[] {
+    return Object.entries(features)
+      .filter(([, value]) => value === true || (typeof value === 'number' && value !== 0))
+      .map(([feature]) => feature);
+  }
+
+  private now(): Date {
+    return this.dependencies.clock.now();
+  }
+}
@@ -0,0 +1,301 @@
+/**
+ * Entitlement Service
+ * Epic 006: Premium Payment System
+ *
+ * Resolves which plan a user is entitled to from their subscriptions and
+ * enforces the daily feature quotas defined in subscription_plans.features
+ */
+
+import { Clock, systemClock } from '../../lib/clock';
+import { MatchingLimitExceededError, MatchingLimits } from '../../types/matching';
+import {
+  ActiveEntitlement,
+  EntitlementRepository,
+  FeatureQuota,
+  PlanFlag,
+  PlanTier,
+  QuotaFeature,
+  SubscriptionPlan,
+  SubscriptionPlanNotFoundError,
+  UserSubscription
+} from '../../types/subscription';
+import { InMemoryEntitlementRepository } from './repositories/inMemoryEntitlementRepository';
+
+export interface EntitlementServiceDependencies {
+  repository: EntitlementRepository;
+  clock: Clock;
+}
+
+export interface EntitlementServiceConfig {
+  pastDueGraceDays: number; // How long a failed renewal keeps the paid plan
+}
+
+const TIER_RANK: Record<PlanTier, number> = { free: 0, premium: 1, vip: 2 };
+
+const QUOTA_LABELS: Record<QuotaFeature, string> = {
+  daily_likes: 'daily likes',
+  super_likes: 'super likes',
+  rewinds: 'rewinds',
+  boosts: 'boosts'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class EntitlementService {
+  private static instance: EntitlementService;
+  private dependencies: EntitlementServiceDependencies;
+
+  private config: EntitlementServiceConfig = {
+    pastDueGraceDays: 3
+  };
+
+  private constructor(dependencies: Partial<EntitlementServiceDependencies> = {}) {
+    this.dependencies = {
+      repository: dependencies.repository || new InMemoryEntitlementRepository(),
+      clock: dependencies.clock || systemClock
+    };
+  }
+
+  public static getInstance(dependencies?: Partial<EntitlementServiceDependencies>): EntitlementService {
+    if (!EntitlementService.instance) {
+      EntitlementService.instance = new EntitlementService(dependencies);
+    } else if (dependencies) {
+      EntitlementService.instance.setDependencies(dependencies);
+    }
+    return EntitlementService.instance;
+  }
+
+  /**
+   * Replace some or all dependencies (e.g. a fake clock in tests)
+   */
+  setDependencies(dependencies: Partial<EntitlementServiceDependencies>): void {
+    this.dependencies = { ...this.dependencies, ...dependencies };
+  }
+
+  updateConfig(config: Partial<EntitlementServiceConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  // ===== PLAN RESOLUTION =====
+
+  /**
+   * The plan the user is entitled to right now. Users without a usable
+   * subscription fall back to the free plan.
+   */
+  async getActiveEntitlement(userId: string): Promise<ActiveEntitlement> {
+    const { repository } = this.dependencies;
+    const [plans, subscriptions] = await Promise.all([
+      repository.getPlans(),
+      repository.getUserSubscriptions(userId)
+    ]);
+    const now = this.now();
+
+    let best: ActiveEntitlement | null = null;
+    for (const subscription of subscriptions) {
+      const plan = plans.find(candidate => candidate.id === subscription.planId);
+      if (!plan) continue;
+
+      const isTrial = this.isInTrial(subscription, now);
+      if (!isTrial && !this.isPaidUp(subscription, now)) continue;
+
+      if (!best || TIER_RANK[plan.tier] > TIER_RANK[best.tier]) {
+        best = {
+          userId,
+          plan,
+          tier: plan.tier,
+          subscription,
+          isTrial,
+          expiresAt: isTrial ? subscription.trialEnd : subscription.currentPeriodEnd
+        };
+      }
+    }
+
+    if (best) {
+      return best;
+    }
+
+    const freePlan = plans.find(plan => plan.tier === 'free' && plan.isActive);
+    if (!freePlan) {
+      throw new SubscriptionPlanNotFoundError('free');
+    }
+
+    return { userId, plan: freePlan, tier: 'free', isTrial: false };
+  }
+
+  /**
+   * Whether the user's plan includes an on/off feature such as see_who_likes
+   */
+  async hasFeature(userId: string, flag: PlanFlag): Promise<boolean> {
+    const { plan } = await this.getActiveEntitlement(userId);
+    return plan.features[flag] === true;
+  }
+
+  // ===== QUOTAS =====
+
+  /**
+   * Today's allowance and usage for one feature, without consuming anything
+   */
+  async getQuota(userId: string, feature: QuotaFeature): Promise<FeatureQuota> {
+    const { plan } = await this.getActiveEntitlement(userId);
+    const usage = await this.dependencies.repository.getFeatureUsage(userId, this.resetDate());
+    return this.buildQuota(feature, this.limitFor(plan, feature), usage[feature] || 0);
+  }
+
+  /**
+   * Atomically use `amount` of today's allowance for a feature.
+   * Throws MatchingLimitExceededError when the allowance would be exceeded.
+   */
+  async consume(userId: string, feature: QuotaFeature, amount: number = 1): Promise<FeatureQuota> {
+    this.validateAmount(amount);
+
+    const { plan } = await this.getActiveEntitlement(userId);
+    const limit = this.limitFor(plan, feature);
+    const result = await this.dependencies.repository.consumeFeature({
+      userId,
+      feature,
+      amount,
+      limit,
+      resetDate: this.resetDate()
+    });
+
+    if (!result.allowed) {
+      const resetAt = this.nextResetAt();
+      throw new MatchingLimitExceededError(
+        feature,
+        resetAt,
+        limit === 0
+          ? `Your ${plan.name} plan does not include ${QUOTA_LABELS[feature]}`
+          : `You have used all ${limit} of your ${QUOTA_LABELS[feature]} for today. Resets at ${resetAt.toISOString()}`
+      );
+    }
+
+    return this.buildQuota(feature, limit, result.usageCount);
+  }
+
+  /**
+   * Give back allowance consumed earlier today, e.g. when the action it paid for failed
+   */
+  async refund(userId: string, feature: QuotaFeature, amount: number = 1): Promise<void> {
+    this.validateAmount(amount);
+    await this.dependencies.repository.refundFeature(userId, feature, amount, this.resetDate());
+  }
+
+  /**
+   * Freemium limits in the shape GetMatchesResponse expects
+   */
+  async getMatchingLimits(userId: string): Promise<MatchingLimits> {
+    const { plan, tier } = await this.getActiveEntitlement(userId);
+    const usage = await this.dependencies.repository.getFeatureUsage(userId, this.resetDate());
+    const quota = (feature: QuotaFeature) =>
+      this.buildQuota(feature, this.limitFor(plan, feature), usage[feature] || 0);
+
+    const likes = quota('daily_likes');
+    const superLikes = quota('super_likes');
+    const boosts = quota('boosts');
+
+    const exhausted = [likes, superLikes].filter(item => item.remaining === 0);
+    const canLikeProfiles = likes.remaining !== 0;
+    const canUseSuperLike = superLikes.remaining !== 0;
+    const requiresUpgrade = exhausted.length > 0 && tier !== 'vip';
+
+    return {
+      userId,
+      userTier: tier,
+      dailyLimits: {
+        maxMatches: -1, // Browsing isn't metered; likes are
+        maxLikes: likes.limit,
+        maxSuperLikes: superLikes.limit
+      },
+      currentUsage: {
+        matchesUsed: 0,
+        likesUsed: likes.used,
+        superLikesUsed: superLikes.used,
+        resetAt: likes.resetAt
+      },
+      premiumFeatures: {
+        unlimitedMatches: plan.features.unlimited_likes === true || likes.limit === -1,
+        priorityMatching: plan.features.exclusive_matches === true,
+        advancedFilters: plan.features.premium_filters === true,
+        boostAvailable: boosts.remaining !== 0,
+        superLikesIncluded: superLikes.limit
+      },
+      restrictions: {
+        canViewMatches: true,
+        canLikeProfiles,
+        canUseSuperLike,
+        requiresUpgrade,
+        upgradeReason: requiresUpgrade
+          ? `You have used all your ${exhausted.map(item => QUOTA_LABELS[item.feature]).join(' and ')} for today`
+          : undefined
+      }
+    };
+  }
+
+  // ===== HELPERS =====
+
+  private isInTrial(subscription: UserSubscription, now: Date): boolean {
+    if (subscription.status === 'unpaid' || !subscription.trialEnd) {
+      return false;
+    }
+    const started = !subscription.trialStart || subscription.trialStart <= now;
+    return started && now < subscription.trialEnd;
+  }
+
+  private isPaidUp(subscription: UserSubscription, now: Date): boolean {
+    const periodEnd = subscription.currentPeriodEnd;
+    const graceEnd = periodEnd && new Date(periodEnd.getTime() + this.config.pastDueGraceDays * DAY_MS);
+
+    switch (subscription.status) {
+      case 'active':
+        // Renewals can land a little after the period ends
+        return !graceEnd || now < graceEnd;
+      case 'past_due':
+        return !!graceEnd && now < graceEnd;
+      case 'canceled':
+        // Cancelled plans run until the end of the period already paid for
+        return !!periodEnd && now < periodEnd;
+      default:
+        return false;
+    }
+  }
+
+  private limitFor(plan: SubscriptionPlan, feature: QuotaFeature): number {
+    // unlimited_likes overrides the daily_likes count (e.g. Premium lists 100)
+    if (feature === 'daily_likes' && plan.features.unlimited_likes) return -1;
+
+    const limit = plan.features[feature];
+    return typeof limit === 'number' ? limit : 0;
+  }
+
+  private buildQuota(feature: QuotaFeature, limit: number, used: number): FeatureQuota {
+    return {
+      feature,
+      limit,
+      used,
+      remaining: limit < 0 ? -1 : Math.max(0, limit - used),
+      resetAt: this.nextResetAt()
+    };
+  }
+
+  private validateAmount(amount: number): void {
+    if (!Number.isInteger(amount) || amount < 1) {
+      throw new Error(`Quota amount must be a positive integer, got ${amount}`);
+    }
+  }
+
+  /**
+   * Quotas reset at midnight UTC; feature_usage.reset_date is the UTC day they apply to
+   */
+  private resetDate(): string {
+    return this.now().toISOString().slice(0, 10);
+  }
+
+  private nextResetAt(): Date {
+    const now = this.now();
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+  }
+
+  private now(): Date {
+    return this.dependencies.clock.now();
+  }
+}
@@ -0,0 +1,362 @@
+/**
+ * Fake Payment Gateway
+ * Epic 006: Premium Payment System
+ *
+ * Local, Stripe-shaped stand-in for tests and offline development. It keeps
+ * customers, subscriptions and payments in memory and queues signed webhook
+ * deliveries that callers feed into BillingService.handleWebhook. Signing uses
+ * Node's crypto module, so this is server/test code only.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { Clock, systemClock } from '../../../lib/clock';
+import {
+  BillingEvent,
+  CheckoutSession,
+  GatewayCheckoutRequest,
+  GatewaySubscription,
+  InvoiceEventData,
+  PaymentGateway,
+  PriceChangeRequest,
+  WebhookSignatureError
+} from '../../../types/billing';
+import { BillingCycle } from '../../../types/subscription';
+
+export interface WebhookDelivery {
+  payload: string;
+  signature: string;
+}
+
+interface FakePrice {
+  amount: number;
+  cycle: BillingCycle;
+}
+
+// A billing event before the gateway assigns its ID and timestamp
+type UnsentEvent = {
+  [K in BillingEvent['type']]: Omit<Extract<BillingEvent, { type: K }>, 'id' | 'createdAt'>;
+}[BillingEvent['type']];
+
+interface OpenInvoice {
+  id: string;
+  attemptCount: number;
+}
+
+const CYCLE_MONTHS: Record<BillingCycle, number> = { monthly: 1, quarterly: 3, yearly: 12 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Signatures older than this are rejected to stop replays
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export class FakePaymentGateway implements PaymentGateway {
+  private prices: Map<string, FakePrice> = new Map();
+  private customers: Map<string, string> = new Map(); // customerId -> userId
+  private sessions: Map<string, GatewayCheckoutRequest & { id: string }> = new Map();
+  private subscriptions: Map<string, GatewaySubscription> = new Map();
+  private openInvoices: Map<string, OpenInvoice> = new Map(); // subscriptionId -> unpaid renewal
+  private charges: Map<string, { amount: number; refunded: number; currency: string }> = new Map();
+  private outbox: WebhookDelivery[] = [];
+  private sequence = 0;
+
+  constructor(
+    private webhookSecret: string = 'whsec_fake',
+    private clock: Clock = systemClock,
+    private maxPaymentAttempts: number = 4
+  ) {}
+
+  /**
+   * Register a price that checkout sessions and plan changes can use
+   */
+  definePrice(priceId: string, amount: number, cycle: BillingCycle): void {
+    this.prices.set(priceId, { amount, cycle });
+  }
+
+  // ===== GATEWAY API =====
+
+  async createCustomer(userId: string): Promise<string> {
+    const customerId = this.nextId('cus');
+    this.customers.set(customerId, userId);
+    return customerId;
+  }
+
+  async createCheckoutSession(request: GatewayCheckoutRequest): Promise<CheckoutSession> {
+    this.getPrice(request.priceId);
+    if (!this.customers.has(request.customerId)) {
+      throw new Error(`No such customer: ${request.customerId}`);
+    }
+
+    const id = this.nextId('cs');
+    this.sessions.set(id, { ...request, id });
+
+    return {
+      id,
+      url: `https://checkout.fake.local/${id}`,
+      customerId: request.customerId,
+      priceId: request.priceId,
+      expiresAt: new Date(this.clock.now().getTime() + DAY_MS)
+    };
+  }
+
+  async getSubscription(subscriptionId: string): Promise<GatewaySubscription> {
+    return { ...this.getStoredSubscription(subscriptionId) };
+  }
+
+  async changeSubscriptionPrice(subscriptionId: string, change: PriceChangeRequest): Promise<GatewaySubscription> {
+    const subscription = this.getStoredSubscription(subscriptionId);
+    const price = this.getPrice(change.priceId);
+    const now = this.clock.now();
+
+    subscription.priceId = change.priceId;
+    if (change.resetBillingCycle) {
+      subscription.currentPeriodStart = now;
+      subscription.currentPeriodEnd = this.addCycle(now, price.cycle);
+    }
+
+    if (change.prorationAmount > 0) {
+      this.emitInvoice('invoice.paid', subscription, change.prorationAmount, 'subscription_update', 1);
+    }
+    this.emit({ type: 'customer.subscription.updated', data: { subscription: { ...subscription } } });
+
+    return { ...subscription };
+  }
+
+  async cancelSubscription(subscriptionId: string, atPeriodEnd: boolean): Promise<GatewaySubscription> {
+    const subscription = this.getStoredSubscription(subscriptionId);
+    const now = this.clock.now();
+
+    subscription.canceledAt = now;
+    if (atPeriodEnd) {
+      subscription.cancelAtPeriodEnd = true;
+      this.emit({ type: 'customer.subscription.updated', data: { subscription: { ...subscription } } });
+    } else {
+      subscription.status = 'canceled';
+      subscription.currentPeriodEnd = now;
+      this.openInvoices.delete(subscriptionId);
+      this.emit({ type: 'customer.subscription.deleted', data: { subscription: { ...subscription } } });
+    }
+
+    return { ...subscription };
+  }
+
+  async refundPayment(paymentIntentId: string, amount?: number): Promise<void> {
+    const charge = this.charges.get(paymentIntentId);
+    if (!charge) {
+      throw new Error(`No such payment: ${paymentIntentId}`);
+    }
+
+    const refundable = charge.amount - charge.refunded;
+    const refund = amount === undefined ? refundable : Math.min(amount, refundable);
+    charge.refunded = this.round(charge.refunded + refund);
+
+    this.emit({
+      type: 'charge.refunded',
+      data: { paymentIntentId, amountRefunded: charge.refunded, currency: charge.currency }
+    });
+  }
+
+  constructEvent(payload: string, signature: string): BillingEvent {
+    const parts = new Map(signature.split(',').map(part => part.split('=') as [string, string]));
+    const timestamp = Number(parts.get('t'));
+    const provided = parts.get('v1');
+
+    if (!timestamp || !provided) {
+      throw new WebhookSignatureError('Malformed webhook signature header');
+    }
+
+    const expected = this.computeSignature(payload, timestamp);
+    const providedBuffer = Buffer.from(provided, 'hex');
+    const expectedBuffer = Buffer.from(expected, 'hex');
+    if (providedBuffer.length !== expectedBuffer.length || !timingSafeEqual(providedBuffer, expectedBuffer)) {
+      throw new WebhookSignatureError();
+    }
+
+    const ageSeconds = this.clock.now().getTime() / 1000 - timestamp;
+    if (Math.abs(ageSeconds) > SIGNATURE_TOLERANCE_SECONDS) {
+      throw new WebhookSignatureError('Webhook signature has expired');
+    }
+
+    return JSON.parse(payload, (_key, value) =>
+      typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/.test(value) ? new Date(value) : value
+    );
+  }
+
+  // ===== SIMULATION HELPERS =====
+
+  /**
+   * The customer pays (or starts a trial) on the hosted checkout page
+   */
+  completeCheckout(sessionId: string): GatewaySubscription {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`No such checkout session: ${sessionId}`);
+    }
+    this.sessions.delete(sessionId);
+
+    const price = this.getPrice(session.priceId);
+    const now = this.clock.now();
+    const trialEnd = session.trialDays ? new Date(now.getTime() + session.trialDays * DAY_MS) : undefined;
+
+    const subscription: GatewaySubscription = {
+      id: this.nextId('sub'),
+      customerId: session.customerId,
+      priceId: session.priceId,
+      status: trialEnd ? 'trialing' : 'active',
+      currentPeriodStart: now,
+      currentPeriodEnd: trialEnd || this.addCycle(now, price.cycle),
+      trialStart: trialEnd ? now : undefined,
+      trialEnd,
+      cancelAtPeriodEnd: false
+    };
+    this.subscriptions.set(subscription.id, subscription);
+
+    this.emit({
+      type: 'checkout.session.completed',
+      data: {
+        sessionId,
+        customerId: session.customerId,
+        subscriptionId: subscription.id,
+        clientReferenceId: session.clientReferenceId
+      }
+    });
+    this.emit({ type: 'customer.subscription.updated', data: { subscription: { ...subscription } } });
+    this.emitInvoice('invoice.paid', subscription, trialEnd ? 0 : price.amount, 'subscription_create', 1);
+
+    return { ...subscription };
+  }
+
+  /**
+   * Attempt the next renewal charge (or retry an unpaid one)
+   */
+  chargeRenewal(subscriptionId: string, succeeds: boolean): GatewaySubscription {
+    const subscription = this.getStoredSubscription(subscriptionId);
+    const price = this.getPrice(subscription.priceId);
+
+    if (subscription.cancelAtPeriodEnd) {
+      subscription.status = 'canceled';
+      this.emit({ type: 'customer.subscription.deleted', data: { subscription: { ...subscription } } });
+      return { ...subscription };
+    }
+
+    const invoice = this.openInvoices.get(subscriptionId) || { id: this.nextId('in'), attemptCount: 0 };
+    invoice.attemptCount++;
+
+    if (succeeds) {
+      this.openInvoices.delete(subscriptionId);
+      subscription.status = 'active';
+      subscription.currentPeriodStart = subscription.currentPeriodEnd;
+      subscription.currentPeriodEnd = this.addCycle(subscription.currentPeriodStart, price.cycle);
+      this.emitInvoice('invoice.paid', subscription, price.amount, 'subscription_cycle', invoice.attemptCount, invoice.id);
+    } else {
+      this.openInvoices.set(subscriptionId, invoice);
+      const exhausted = invoice.attemptCount >= this.maxPaymentAttempts;
+      subscription.status = exhausted ? 'unpaid' : 'past_due';
+      this.emitInvoice(
+        'invoice.payment_failed',
+        subscription,
+        price.amount,
+        'subscription_cycle',
+        invoice.attemptCount,
+        invoice.id,
+        exhausted ? undefined : new Date(this.clock.now().getTime() + 3 * DAY_MS)
+      );
+    }
+
+    this.emit({ type: 'customer.subscription.updated', data: { subscription: { ...subscription } } });
+    return { ...subscription };
+  }
+
+  /**
+   * Take and clear the queued webhook deliveries, oldest first
+   */
+  drainWebhooks(): WebhookDelivery[] {
+    const deliveries = this.outbox;
+    this.outbox = [];
+    return deliveries;
+  }
+
+  /**
+   * Build a signature header for a payload, as the gateway would
+   */
+  signPayload(payload: string, at: Date = this.clock.now()): string {
+    const timestamp = Math.floor(at.getTime() / 1000);
+    return `t=${timestamp},v1=${this.computeSignature(payload, timestamp)}`;
+  }
+
+  // ===== HELPERS =====
+
+  private emitInvoice(
+    type: 'invoice.paid' | 'invoice.payment_failed',
+    subscription: GatewaySubscription,
+    amount: number,
+    billingReason: InvoiceEventData['billingReason'],
+    attemptCount: number,
+    invoiceId: string = this.nextId('in'),
+    nextPaymentAttempt?: Date
+  ): void {
+    let paymentIntentId: string | undefined;
+    if (amount > 0) {
+      paymentIntentId = this.nextId('pi');
+      if (type === 'invoice.paid') {
+        this.charges.set(paymentIntentId, { amount, refunded: 0, currency: 'usd' });
+      }
+    }
+
+    this.emit({
+      type,
+      data: {
+        invoiceId,
+        customerId: subscription.customerId,
+        subscriptionId: subscription.id,
+        paymentIntentId,
+        amount,
+        currency: 'usd',
+        billingReason,
+        periodStart: subscription.currentPeriodStart,
+        periodEnd: subscription.currentPeriodEnd,
+        attemptCount,
+        nextPaymentAttempt
+      }
+    });
+  }
+
+  private emit(event: UnsentEvent): void {
+    const payload = JSON.stringify({ ...event, id: this.nextId('evt'), createdAt: this.clock.now() });
+    this.outbox.push({ payload, signature: this.signPayload(payload) });
+  }
+
+  private computeSignature(payload: string, timestamp: number): string {
+    return createHmac('sha256', this.webhookSecret).update(`${timestamp}.${payload}`).digest('hex');
+  }
+
+  private getStoredSubscription(subscriptionId: string): GatewaySubscription {
+    const subscription = this.subscriptions.get(subscriptionId);
+    if (!subscription) {
+      throw new Error(`No such subscription: ${subscriptionId}`);
+    }
+    return subscription;
+  }
+
+  private getPrice(priceId: string): FakePrice {
+    const price = this.prices.get(priceId);
+    if (!price) {
+      throw new Error(`No such price: ${priceId}`);
+    }
+    return price;
+  }
+
+  private addCycle(from: Date, cycle: BillingCycle): Date {
+    const next = new Date(from);
+    next.setUTCMonth(next.getUTCMonth() + CYCLE_MONTHS[cycle]);
+    return next;
+  }
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+
+  private nextId(prefix: string): string {
+    this.sequence++;
+    return `${prefix}_fake_${this.sequence}`;
+  }
+}
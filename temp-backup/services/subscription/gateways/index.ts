@@ -0,0 +1,8 @@
+/**
+ * Payment Gateways
+ * Adapters implementing PaymentGateway
+ */
+
+export { FakePaymentGateway } from './fakePaymentGateway';
+export type { WebhookDelivery } from './fakePaymentGateway';
+export type { PaymentGateway } from '../../../types/billing';
@@ -0,0 +1,17 @@
+/**
+ * Subscription Services Export
+ * Epic 006: Premium Payment System
+ */
+
+export { EntitlementService } from './entitlementService';
+export { BillingService } from './billingService';
+export {
+  DEFAULT_SUBSCRIPTION_PLANS,
+  InMemoryBillingRepository,
+  InMemoryEntitlementRepository,
+  SupabaseBillingRepository,
+  SupabaseEntitlementRepository
+} from './repositories';
+
+export type { EntitlementServiceConfig, EntitlementServiceDependencies } from './entitlementService';
+export type { BillingServiceConfig, BillingServiceDependencies } from './billingService';
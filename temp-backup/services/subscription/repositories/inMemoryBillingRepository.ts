@@ -0,0 +1,112 @@
+/**
+ * In-Memory Billing Repository
+ * Epic 006: Premium Payment System
+ *
+ * Adds subscription writes, payments and processed webhook events on top of
+ * the in-memory entitlement data, so one instance backs both services in tests
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  BillingEventType,
+  BillingRepository,
+  PaymentRecord,
+  SubscriptionUpdate
+} from '../../../types/billing';
+import { UserSubscription } from '../../../types/subscription';
+import { InMemoryEntitlementRepository } from './inMemoryEntitlementRepository';
+
+export class InMemoryBillingRepository extends InMemoryEntitlementRepository implements BillingRepository {
+  private payments: Map<string, PaymentRecord> = new Map(); // Keyed by payment intent
+  private webhookEvents: Map<string, { type: BillingEventType; completed: boolean; claimedAt: Date }> = new Map();
+
+  async createSubscription(subscription: Omit<UserSubscription, 'id'>): Promise<UserSubscription> {
+    const stored: UserSubscription = { ...subscription, id: uuidv4() };
+    this.subscriptions.set(stored.id, stored);
+    return { ...stored };
+  }
+
+  async updateSubscription(subscriptionId: string, updates: SubscriptionUpdate): Promise<UserSubscription> {
+    const subscription = this.subscriptions.get(subscriptionId);
+    if (!subscription) {
+      throw new Error(`Subscription not found: ${subscriptionId}`);
+    }
+
+    const updated = { ...subscription, ...updates };
+    this.subscriptions.set(subscriptionId, updated);
+    return { ...updated };
+  }
+
+  async getSubscriptionByGatewayId(gatewaySubscriptionId: string): Promise<UserSubscription | null> {
+    const subscription = Array.from(this.subscriptions.values())
+      .find(candidate => candidate.stripeSubscriptionId === gatewaySubscriptionId);
+    return subscription ? { ...subscription } : null;
+  }
+
+  async listEndedTrials(endedAfter: Date, endedBy: Date): Promise<UserSubscription[]> {
+    return Array.from(this.subscriptions.values())
+      .filter(subscription => subscription.status === 'active')
+      .filter(subscription => !!subscription.trialEnd
+        && subscription.trialEnd > endedAfter
+        && subscription.trialEnd <= endedBy)
+      .map(subscription => ({ ...subscription }));
+  }
+
+  async getPaymentByIntent(paymentIntentId: string): Promise<PaymentRecord | null> {
+    const payment = this.payments.get(paymentIntentId);
+    return payment ? this.copyPayment(payment) : null;
+  }
+
+  async savePayment(payment: Omit<PaymentRecord, 'id' | 'createdAt' | 'updatedAt'>, at: Date): Promise<PaymentRecord> {
+    const existing = this.payments.get(payment.paymentIntentId);
+    const stored: PaymentRecord = existing
+      ? { ...existing, ...payment, metadata: { ...existing.metadata, ...payment.metadata }, updatedAt: at }
+      : { ...payment, id: uuidv4(), createdAt: at, updatedAt: at };
+
+    this.payments.set(stored.paymentIntentId, stored);
+    return this.copyPayment(stored);
+  }
+
+  async claimWebhookEvent(eventId: string, type: BillingEventType, at: Date, staleBefore: Date): Promise<boolean> {
+    const existing = this.webhookEvents.get(eventId);
+    if (existing && (existing.completed || existing.claimedAt >= staleBefore)) {
+      return false;
+    }
+    this.webhookEvents.set(eventId, { type, completed: false, claimedAt: at });
+    return true;
+  }
+
+  async completeWebhookEvent(eventId: string): Promise<void> {
+    const event = this.webhookEvents.get(eventId);
+    if (event) {
+      event.completed = true;
+    }
+  }
+
+  async releaseWebhookEvent(eventId: string): Promise<void> {
+    this.webhookEvents.delete(eventId);
+  }
+
+  /**
+   * Payments recorded for a user, oldest first
+   */
+  getPayments(userId: string): PaymentRecord[] {
+    return Array.from(this.payments.values())
+      .filter(payment => payment.userId === userId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(payment => this.copyPayment(payment));
+  }
+
+  /**
+   * Remove all subscriptions, usage, payments and webhook events, keeping the plans
+   */
+  clear(): void {
+    super.clear();
+    this.payments.clear();
+    this.webhookEvents.clear();
+  }
+
+  private copyPayment(payment: PaymentRecord): PaymentRecord {
+    return { ...payment, metadata: { ...payment.metadata } };
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * In-Memory Entitlement Repository
+ * Epic 006: Premium Payment System
+ *
+ * Process-local plans, subscriptions and feature usage used by tests and offline development
+ */
+
+import {
+  ConsumeFeatureRequest,
+  ConsumeFeatureResult,
+  EntitlementRepository,
+  QuotaFeature,
+  SubscriptionPlan,
+  UserSubscription
+} from '../../../types/subscription';
+
+// Mirrors the plans seeded in supabase/schema.sql
+export const DEFAULT_SUBSCRIPTION_PLANS: SubscriptionPlan[] = [
+  {
+    id: 'plan_free',
+    name: 'Free',
+    description: 'Basic features with limited matches',
+    tier: 'free',
+    prices: { monthly: 0, quarterly: 0, yearly: 0 },
+    stripePriceIds: {},
+    features: { daily_likes: 10, super_likes: 1, rewinds: 0, boosts: 0, unlimited_likes: false },
+    isActive: true
+  },
+  {
+    id: 'plan_premium',
+    name: 'Premium',
+    description: 'Enhanced features for serious daters',
+    tier: 'premium',
+    prices: { monthly: 19.99, quarterly: 49.99, yearly: 159.99 },
+    stripePriceIds: {},
+    features: {
+      daily_likes: 100,
+      super_likes: 5,
+      rewinds: 3,
+      boosts: 1,
+      unlimited_likes: true,
+      see_who_likes: true,
+      premium_filters: true
+    },
+    isActive: true
+  },
+  {
+    id: 'plan_vip',
+    name: 'VIP',
+    description: 'All features for the ultimate dating experience',
+    tier: 'vip',
+    prices: { monthly: 39.99, quarterly: 99.99, yearly: 299.99 },
+    stripePriceIds: {},
+    features: {
+      daily_likes: -1,
+      super_likes: 20,
+      rewinds: 10,
+      boosts: 5,
+      unlimited_likes: true,
+      see_who_likes: true,
+      premium_filters: true,
+      priority_support: true,
+      exclusive_matches: true
+    },
+    isActive: true
+  }
+];
+
+export class InMemoryEntitlementRepository implements EntitlementRepository {
+  protected plans: Map<string, SubscriptionPlan> = new Map();
+  protected subscriptions: Map<string, UserSubscription> = new Map();
+  private usage: Map<string, number> = new Map(); // userId:feature:resetDate -> usage_count
+
+  constructor(plans: SubscriptionPlan[] = DEFAULT_SUBSCRIPTION_PLANS) {
+    plans.forEach(plan => this.plans.set(plan.id, plan));
+  }
+
+  async getPlans(): Promise<SubscriptionPlan[]> {
+    return Array.from(this.plans.values()).map(plan => ({ ...plan, features: { ...plan.features } }));
+  }
+
+  async getUserSubscriptions(userId: string): Promise<UserSubscription[]> {
+    return Array.from(this.subscriptions.values())
+      .filter(subscription => subscription.userId === userId)
+      .map(subscription => ({ ...subscription }));
+  }
+
+  async getFeatureUsage(userId: string, resetDate: string): Promise<Partial<Record<QuotaFeature, number>>> {
+    const usage: Partial<Record<QuotaFeature, number>> = {};
+    const prefix = `${userId}:`;
+    const suffix = `:${resetDate}`;
+
+    this.usage.forEach((count, key) => {
+      if (key.startsWith(prefix) && key.endsWith(suffix)) {
+        usage[key.slice(prefix.length, key.length - suffix.length) as QuotaFeature] = count;
+      }
+    });
+
+    return usage;
+  }
+
+  async consumeFeature(request: ConsumeFeatureRequest): Promise<ConsumeFeatureResult> {
+    // No awaits between the read and the write, so the check and increment are atomic
+    const key = this.usageKey(request.userId, request.feature, request.resetDate);
+    const current = this.usage.get(key) || 0;
+
+    if (request.limit >= 0 && current + request.amount > request.limit) {
+      return { allowed: false, usageCount: current };
+    }
+
+    this.usage.set(key, current + request.amount);
+    return { allowed: true, usageCount: current + request.amount };
+  }
+
+  async refundFeature(userId: string, feature: QuotaFeature, amount: number, resetDate: string): Promise<void> {
+    const key = this.usageKey(userId, feature, resetDate);
+    const current = this.usage.get(key);
+    if (current !== undefined) {
+      this.usage.set(key, Math.max(0, current - amount));
+    }
+  }
+
+  /**
+   * Insert or replace a subscription (stands in for the billing provider in tests)
+   */
+  saveSubscription(subscription: UserSubscription): void {
+    this.subscriptions.set(subscription.id, { ...subscription });
+  }
+
+  /**
+   * Remove all subscriptions and usage, keeping the plans
+   */
+  clear(): void {
+    this.subscriptions.clear();
+    this.usage.clear();
+  }
+
+  private usageKey(userId: string, feature: QuotaFeature, resetDate: string): string {
+    return `${userId}:${feature}:${resetDate}`;
+  }
+}
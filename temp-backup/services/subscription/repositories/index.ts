@@ -0,0 +1,11 @@
+/**
+ * Subscription Repositories
+ * Persistence backends for plans, subscriptions, feature usage and payments
+ */
+
+export { InMemoryEntitlementRepository, DEFAULT_SUBSCRIPTION_PLANS } from './inMemoryEntitlementRepository';
+export { SupabaseEntitlementRepository } from './supabaseEntitlementRepository';
+export { InMemoryBillingRepository } from './inMemoryBillingRepository';
+export { SupabaseBillingRepository } from './supabaseBillingRepository';
+export type { EntitlementRepository } from '../../../types/subscription';
+export type { BillingRepository } from '../../../types/billing';
@@ -0,0 +1,184 @@
+/**
+ * Supabase Billing Repository
+ * Epic 006: Premium Payment System
+ *
+ * Writes user_subscriptions and payments, and records processed gateway
+ * events in billing_webhook_events (supabase/schema.sql). Intended for the
+ * service role; users can only read their own subscriptions.
+ */
+
+import {
+  BillingEventType,
+  BillingRepository,
+  PaymentRecord,
+  SubscriptionUpdate
+} from '../../../types/billing';
+import { UserSubscription } from '../../../types/subscription';
+import { SupabaseEntitlementRepository } from './supabaseEntitlementRepository';
+
+const UNIQUE_VIOLATION = '23505';
+
+export class SupabaseBillingRepository extends SupabaseEntitlementRepository implements BillingRepository {
+  async createSubscription(subscription: Omit<UserSubscription, 'id'>): Promise<UserSubscription> {
+    const { data, error } = await this.client
+      .from('user_subscriptions')
+      .insert({
+        user_id: subscription.userId,
+        plan_id: subscription.planId,
+        ...this.toSubscriptionRow(subscription),
+        created_at: subscription.createdAt.toISOString()
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.mapSubscriptionFromDatabase(data);
+  }
+
+  async updateSubscription(subscriptionId: string, updates: SubscriptionUpdate): Promise<UserSubscription> {
+    const row = this.toSubscriptionRow(updates);
+    if (updates.planId !== undefined) row.plan_id = updates.planId;
+
+    const { data, error } = await this.client
+      .from('user_subscriptions')
+      .update(row)
+      .eq('id', subscriptionId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.mapSubscriptionFromDatabase(data);
+  }
+
+  async getSubscriptionByGatewayId(gatewaySubscriptionId: string): Promise<UserSubscription | null> {
+    const { data, error } = await this.client
+      .from('user_subscriptions')
+      .select('*')
+      .eq('stripe_subscription_id', gatewaySubscriptionId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? this.mapSubscriptionFromDatabase(data) : null;
+  }
+
+  async listEndedTrials(endedAfter: Date, endedBy: Date): Promise<UserSubscription[]> {
+    const { data, error } = await this.client
+      .from('user_subscriptions')
+      .select('*')
+      .eq('status', 'active')
+      .gt('trial_end', endedAfter.toISOString())
+      .lte('trial_end', endedBy.toISOString());
+
+    if (error) throw error;
+    return (data || []).map(row => this.mapSubscriptionFromDatabase(row));
+  }
+
+  async getPaymentByIntent(paymentIntentId: string): Promise<PaymentRecord | null> {
+    const { data, error } = await this.client
+      .from('payments')
+      .select('*')
+      .eq('stripe_payment_intent_id', paymentIntentId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? this.mapPaymentFromDatabase(data) : null;
+  }
+
+  async savePayment(payment: Omit<PaymentRecord, 'id' | 'createdAt' | 'updatedAt'>, at: Date): Promise<PaymentRecord> {
+    const existing = await this.getPaymentByIntent(payment.paymentIntentId);
+
+    const { data, error } = await this.client
+      .from('payments')
+      .upsert({
+        user_id: payment.userId,
+        subscription_id: payment.subscriptionId,
+        stripe_payment_intent_id: payment.paymentIntentId,
+        amount: payment.amount,
+        currency: payment.currency,
+        status: payment.status,
+        payment_method: payment.paymentMethod,
+        metadata: { ...(existing?.metadata || {}), ...payment.metadata },
+        updated_at: at.toISOString()
+      }, { onConflict: 'stripe_payment_intent_id' })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.mapPaymentFromDatabase(data);
+  }
+
+  async claimWebhookEvent(eventId: string, type: BillingEventType, at: Date, staleBefore: Date): Promise<boolean> {
+    // The primary key turns concurrent deliveries of the same event into one claim
+    const { error } = await this.client
+      .from('billing_webhook_events')
+      .insert({ id: eventId, event_type: type, status: 'processing', claimed_at: at.toISOString() });
+
+    if (!error) return true;
+    if (error.code !== UNIQUE_VIOLATION) throw error;
+
+    // Take over a claim whose handler died; the conditional update lets only one delivery win
+    const { data, error: takeoverError } = await this.client
+      .from('billing_webhook_events')
+      .update({ claimed_at: at.toISOString() })
+      .eq('id', eventId)
+      .eq('status', 'processing')
+      .lt('claimed_at', staleBefore.toISOString())
+      .select('id');
+
+    if (takeoverError) throw takeoverError;
+    return (data || []).length > 0;
+  }
+
+  async completeWebhookEvent(eventId: string): Promise<void> {
+    const { error } = await this.client
+      .from('billing_webhook_events')
+      .update({ status: 'processed', processed_at: new Date().toISOString() })
+      .eq('id', eventId);
+
+    if (error) throw error;
+  }
+
+  async releaseWebhookEvent(eventId: string): Promise<void> {
+    const { error } = await this.client
+      .from('billing_webhook_events')
+      .delete()
+      .eq('id', eventId)
+      .eq('status', 'processing');
+
+    if (error) throw error;
+  }
+
+  private toSubscriptionRow(subscription: SubscriptionUpdate): Record<string, any> {
+    const row: Record<string, any> = {};
+    const toTimestamp = (date: Date | undefined) => (date ? date.toISOString() : null);
+
+    if ('stripeCustomerId' in subscription) row.stripe_customer_id = subscription.stripeCustomerId ?? null;
+    if ('stripeSubscriptionId' in subscription) row.stripe_subscription_id = subscription.stripeSubscriptionId ?? null;
+    if (subscription.status !== undefined) row.status = subscription.status;
+    if ('billingCycle' in subscription) row.billing_cycle = subscription.billingCycle ?? null;
+    if ('currentPeriodStart' in subscription) row.current_period_start = toTimestamp(subscription.currentPeriodStart);
+    if ('currentPeriodEnd' in subscription) row.current_period_end = toTimestamp(subscription.currentPeriodEnd);
+    if ('trialStart' in subscription) row.trial_start = toTimestamp(subscription.trialStart);
+    if ('trialEnd' in subscription) row.trial_end = toTimestamp(subscription.trialEnd);
+    if ('canceledAt' in subscription) row.canceled_at = toTimestamp(subscription.canceledAt);
+    if (subscription.updatedAt !== undefined) row.updated_at = subscription.updatedAt.toISOString();
+
+    return row;
+  }
+
+  private mapPaymentFromDatabase(row: any): PaymentRecord {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      subscriptionId: row.subscription_id ?? undefined,
+      paymentIntentId: row.stripe_payment_intent_id,
+      amount: Number(row.amount) || 0,
+      currency: row.currency || 'usd',
+      status: row.status || 'pending',
+      paymentMethod: row.payment_method ?? undefined,
+      metadata: row.metadata || {},
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Supabase Entitlement Repository
+ * Epic 006: Premium Payment System
+ *
+ * Reads subscription_plans and user_subscriptions, and tracks quotas in
+ * feature_usage through the consume_feature_usage/refund_feature_usage functions
+ * defined in supabase/schema.sql
+ */
+
+import { supabase, type SupabaseClient } from '../../../lib/supabase';
+import {
+  ConsumeFeatureRequest,
+  ConsumeFeatureResult,
+  EntitlementRepository,
+  PlanTier,
+  QuotaFeature,
+  SubscriptionPlan,
+  UserSubscription
+} from '../../../types/subscription';
+
+const PLAN_TIERS: PlanTier[] = ['free', 'premium', 'vip'];
+
+export class SupabaseEntitlementRepository implements EntitlementRepository {
+  constructor(protected client: SupabaseClient = supabase) {}
+
+  async getPlans(): Promise<SubscriptionPlan[]> {
+    const { data, error } = await this.client
+      .from('subscription_plans')
+      .select('*')
+      .order('price_monthly', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(row => this.mapPlanFromDatabase(row));
+  }
+
+  async getUserSubscriptions(userId: string): Promise<UserSubscription[]> {
+    const { data, error } = await this.client
+      .from('user_subscriptions')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(row => this.mapSubscriptionFromDatabase(row));
+  }
+
+  async getFeatureUsage(userId: string, resetDate: string): Promise<Partial<Record<QuotaFeature, number>>> {
+    const { data, error } = await this.client
+      .from('feature_usage')
+      .select('feature_name, usage_count')
+      .eq('user_id', userId)
+      .eq('reset_date', resetDate);
+
+    if (error) throw error;
+
+    const usage: Partial<Record<QuotaFeature, number>> = {};
+    (data || []).forEach((row: any) => {
+      usage[row.feature_name as QuotaFeature] = row.usage_count || 0;
+    });
+    return usage;
+  }
+
+  async consumeFeature(request: ConsumeFeatureRequest): Promise<ConsumeFeatureResult> {
+    // The check and increment run as a single upsert inside the database
+    const { data, error } = await this.client.rpc('consume_feature_usage', {
+      p_user_id: request.userId,
+      p_feature: request.feature,
+      p_amount: request.amount,
+      p_limit: request.limit,
+      p_reset_date: request.resetDate
+    });
+
+    if (error) throw error;
+
+    const row = Array.isArray(data) ? data[0] : data;
+    return {
+      allowed: Boolean(row?.allowed),
+      usageCount: row?.new_usage_count ?? 0
+    };
+  }
+
+  async refundFeature(userId: string, feature: QuotaFeature, amount: number, resetDate: string): Promise<void> {
+    const { error } = await this.client.rpc('refund_feature_usage', {
+      p_user_id: userId,
+      p_feature: feature,
+      p_amount: amount,
+      p_reset_date: resetDate
+    });
+
+    if (error) throw error;
+  }
+
+  private mapPlanFromDatabase(row: any): SubscriptionPlan {
+    const name: string = row.name || '';
+    const tier = PLAN_TIERS.find(candidate => candidate === name.toLowerCase())
+      || (Number(row.price_monthly) > 0 ? 'premium' : 'free');
+
+    return {
+      id: row.id,
+      name,
+      description: row.description ?? undefined,
+      tier,
+      prices: {
+        monthly: Number(row.price_monthly) || 0,
+        quarterly: Number(row.price_quarterly) || 0,
+        yearly: Number(row.price_yearly) || 0
+      },
+      stripePriceIds: {
+        monthly: row.stripe_price_id_monthly ?? undefined,
+        quarterly: row.stripe_price_id_quarterly ?? undefined,
+        yearly: row.stripe_price_id_yearly ?? undefined
+      },
+      features: row.features || {},
+      isActive: row.is_active !== false
+    };
+  }
+
+  protected mapSubscriptionFromDatabase(row: any): UserSubscription {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      planId: row.plan_id,
+      stripeCustomerId: row.stripe_customer_id ?? undefined,
+      stripeSubscriptionId: row.stripe_subscription_id ?? undefined,
+      status: row.status,
+      billingCycle: row.billing_cycle ?? undefined,
+      currentPeriodStart: row.current_period_start ? new Date(row.current_period_start) : undefined,
+      currentPeriodEnd: row.current_period_end ? new Date(row.current_period_end) : undefined,
+      trialStart: row.trial_start ? new Date(row.trial_start) : undefined,
+      trialEnd: row.trial_end ? new Date(row.trial_end) : undefined,
+      canceledAt: row.canceled_at ? new Date(row.canceled_at) : undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+}
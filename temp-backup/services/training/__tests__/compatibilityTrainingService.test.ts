@@ -0,0 +1,227 @@
+import { CompatibilityTrainingService } from '../compatibilityTrainingService';
+import { calibrationBins, fitLogisticRegression, rocAuc, sigmoid } from '../logisticRegression';
+import { InMemoryTrainingOutcomeSource } from '../repositories/inMemoryTrainingOutcomeSource';
+import { bucketUser } from '../../experiments/experimentService';
+import { MatchingService } from '../../matching/matchingService';
+import { PreferenceFilteringService } from '../../matching/preferenceFilteringService';
+import { InMemoryMatchingAlgorithmRepository } from '../../matching/repositories/inMemoryMatchingAlgorithmRepository';
+import { InMemoryMatchingStateStore } from '../../matching/repositories/inMemoryMatchingStateStore';
+import { Clock } from '../../../lib/clock';
+import { CategoryScores } from '../../../types/matching';
+import { UserProfile } from '../../../types/profile';
+import { TrainingDataError } from '../../../types/training';
+
+// Deterministic stand-in for Math.random (Park-Miller)
+const seededRandom = (seed: number) => () => {
+  seed = (seed * 16807) % 2147483647;
+  return seed / 2147483647;
+};
+
+const buildCategoryScores = (physical: number, lifestyle: number, social: number, relationship: number) => {
+  const category = (score: number) => ({ score, breakdown: {} });
+  return {
+    physical: category(physical),
+    lifestyle: category(lifestyle),
+    social: category(social),
+    relationship: category(relationship)
+  } as unknown as CategoryScores;
+};
+
+describe('CompatibilityTrainingService', () => {
+  let trainer: CompatibilityTrainingService;
+  let outcomes: InMemoryTrainingOutcomeSource;
+  let algorithms: InMemoryMatchingAlgorithmRepository;
+  let preferences: PreferenceFilteringService;
+  let scoresByTarget: Map<string, CategoryScores>;
+  let missingProfiles: Set<string>;
+  let currentTime: Date;
+
+  const clock: Clock = { now: () => currentTime };
+
+  /**
+   * Swipers like targets with a good lifestyle fit and mostly ignore the rest
+   */
+  const addSwipes = (count: number) => {
+    const random = seededRandom(42);
+    for (let i = 0; i < count; i++) {
+      const targetUserId = `target_${i}`;
+      const scores = [random(), random(), random(), random()];
+      scoresByTarget.set(targetUserId, buildCategoryScores(scores[0], scores[1], scores[2], scores[3]));
+
+      const liked = random() < sigmoid(-3 + 6 * scores[1] + 0.5 * scores[0]);
+      const mutual = liked && random() < 0.5;
+      outcomes.addOutcome({
+        userId: `swiper_${i % 50}`,
+        targetUserId,
+        liked,
+        mutual,
+        messaged: mutual && random() < 0.5,
+        swipedAt: new Date(currentTime.getTime() - (count - i) * 60 * 1000)
+      });
+    }
+  };
+
+  beforeEach(() => {
+    currentTime = new Date('2025-06-01T12:00:00Z');
+    outcomes = new InMemoryTrainingOutcomeSource();
+    algorithms = new InMemoryMatchingAlgorithmRepository();
+    preferences = new PreferenceFilteringService();
+    scoresByTarget = new Map();
+    missingProfiles = new Set();
+
+    // Category scores come straight from the fixture, keyed by target
+    jest.spyOn(preferences, 'calculateCategoryScores').mockImplementation(
+      (_user: UserProfile, candidate: UserProfile) => scoresByTarget.get(candidate.userId)!
+    );
+
+    trainer = CompatibilityTrainingService.getInstance({
+      outcomes,
+      profiles: {
+        getProfile: async (userId: string) =>
+          missingProfiles.has(userId) ? null : ({ userId } as UserProfile)
+      },
+      algorithms: MatchingService.getInstance(undefined, new InMemoryMatchingStateStore(), algorithms),
+      preferences,
+      clock
+    });
+    trainer.updateConfig({ holdoutFraction: 0.2, minimumExamples: 100 });
+
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Logistic Regression', () => {
+    it('should recover the coefficients that generated the labels', () => {
+      const random = seededRandom(7);
+      const features: number[][] = [];
+      const labels: number[] = [];
+      for (let i = 0; i < 5000; i++) {
+        const row = [random(), random()];
+        features.push(row);
+        labels.push(random() < sigmoid(-1 + 3 * row[0] - 2 * row[1]) ? 1 : 0);
+      }
+
+      const fit = fitLogisticRegression(features, labels, { regularization: 0, maxIterations: 50, tolerance: 1e-8 });
+
+      expect(fit.converged).toBe(true);
+      expect(fit.intercept).toBeCloseTo(-1, 0);
+      expect(fit.coefficients[0]).toBeCloseTo(3, 0);
+      expect(fit.coefficients[1]).toBeCloseTo(-2, 0);
+    });
+
+    it('should stay finite on perfectly separable data when regularized', () => {
+      const features = [[0.1], [0.2], [0.8], [0.9]];
+      const fit = fitLogisticRegression(features, [0, 0, 1, 1], { regularization: 1, maxIterations: 50, tolerance: 1e-8 });
+
+      expect(fit.converged).toBe(true);
+      expect(Number.isFinite(fit.coefficients[0])).toBe(true);
+      expect(fit.coefficients[0]).toBeGreaterThan(0);
+    });
+
+    it('should measure ranking with AUC and bin predictions for calibration', () => {
+      expect(rocAuc([0.1, 0.4, 0.6, 0.9], [0, 0, 1, 1])).toBe(1);
+      expect(rocAuc([0.9, 0.6, 0.4, 0.1], [0, 0, 1, 1])).toBe(0);
+      expect(rocAuc([0.5, 0.5, 0.5, 0.5], [0, 1, 0, 1])).toBe(0.5);
+      expect(() => rocAuc([0.1, 0.2], [1, 1])).toThrow(RangeError);
+
+      const bins = calibrationBins([0.05, 0.15, 0.95, 1], [0, 0, 1, 0], 2);
+      expect(bins).toEqual([
+        { lower: 0, upper: 0.5, count: 2, meanPredicted: 0.1, observedRate: 0 },
+        { lower: 0.5, upper: 1, count: 2, meanPredicted: 0.975, observedRate: 0.5 }
+      ]);
+    });
+  });
+
+  describe('Training', () => {
+    it('should learn which categories drive likes and export a new algorithm version', async () => {
+      addSwipes(2000);
+
+      const result = await trainer.trainModel({ version: 'learned-1' });
+      const { weights } = result.algorithm.compatibilityModel!;
+
+      expect(result.registered).toBe(true);
+      expect(result.trainedAt).toEqual(currentTime);
+      expect(result.training.converged).toBe(true);
+      expect(result.training.examples + result.holdout.examples).toBe(2000);
+      expect(weights.lifestyle).toBeGreaterThan(4);
+      expect(Math.abs(weights.social)).toBeLessThan(1);
+      expect(Math.abs(weights.relationship)).toBeLessThan(1);
+
+      // Held-out users, ranked better than by the hand-tuned weights
+      expect(result.holdout.auc).toBeGreaterThan(0.75);
+      expect(result.holdout.auc).toBeGreaterThan(result.holdout.baselineAuc);
+      expect(result.holdout.calibrationError).toBeLessThan(0.1);
+      expect(result.holdout.calibration).toHaveLength(10);
+      expect(result.holdout.calibration.reduce((sum, bin) => sum + bin.count, 0)).toBe(result.holdout.examples);
+
+      const stored = await algorithms.getAlgorithm('learned-1');
+      expect(stored).toEqual(result.algorithm);
+      expect(stored!.features.enableMachineLearning).toBe(true);
+      expect(stored!.weights).toEqual((await algorithms.getAlgorithm('v1'))!.weights);
+    });
+
+    it('should hold out whole users rather than single swipes', async () => {
+      addSwipes(500);
+
+      const result = await trainer.trainModel({ version: 'learned-split', register: false });
+
+      const swipers = Array.from({ length: 50 }, (_, i) => `swiper_${i}`);
+      const heldOut = swipers.filter(userId => bucketUser('learned-split', userId) < 0.2);
+      expect(heldOut.length).toBeGreaterThan(0);
+      expect(result.holdout.examples).toBe(heldOut.length * 10);
+    });
+
+    it('should predict the requested outcome', async () => {
+      addSwipes(2000);
+      const all = await outcomes.listOutcomes();
+
+      const result = await trainer.trainModel({ version: 'learned-conversation', label: 'conversation', register: false });
+
+      expect(result.algorithm.compatibilityModel!.label).toBe('conversation');
+      expect(result.training.positives + result.holdout.positives)
+        .toBe(all.filter(outcome => outcome.messaged).length);
+    });
+
+    it('should only report when not registering', async () => {
+      addSwipes(500);
+
+      const result = await trainer.trainModel({ version: 'learned-dry', register: false });
+
+      expect(result.registered).toBe(false);
+      expect(result.algorithm.version).toBe('learned-dry');
+      expect(await algorithms.getAlgorithm('learned-dry')).toBeNull();
+    });
+
+    it('should skip swipes whose profiles are gone and only learn from recent ones', async () => {
+      addSwipes(500);
+      missingProfiles.add('target_0');
+      missingProfiles.add('swiper_1');
+
+      const result = await trainer.trainModel({ version: 'learned-skip', register: false });
+      expect(result.skippedOutcomes).toBe(11); // target_0 and swiper_1's 10 swipes
+      expect(result.training.examples + result.holdout.examples).toBe(489);
+
+      const since = new Date(currentTime.getTime() - 300 * 60 * 1000);
+      const recent = await trainer.trainModel({ version: 'learned-recent', since, register: false });
+      expect(recent.training.examples + recent.holdout.examples + recent.skippedOutcomes).toBe(300);
+    });
+
+    it('should refuse to train without enough examples of both outcomes', async () => {
+      addSwipes(50);
+      await expect(trainer.trainModel({ version: 'too-few' })).rejects.toBeInstanceOf(TrainingDataError);
+
+      outcomes.clear();
+      addSwipes(500);
+      const noLikes = new InMemoryTrainingOutcomeSource();
+      (await outcomes.listOutcomes()).forEach(outcome => noLikes.addOutcome({ ...outcome, liked: false }));
+      trainer.setDependencies({ outcomes: noLikes });
+
+      await expect(trainer.trainModel({ version: 'no-likes' })).rejects.toThrow('both positive and negative');
+      expect(await algorithms.getAlgorithm('no-likes')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Compatibility Training Service
+ * Epic 003: Matching System
+ *
+ * Fits the preference category weights to what users actually did. Each swipe
+ * becomes an example whose features are PreferenceFilteringService's
+ * physical, lifestyle, social and relationship scores for the pair and whose
+ * label is whether it led to a like, a mutual match or a conversation. A
+ * logistic regression is fitted on most users and evaluated on the rest, and
+ * the result is exported as a new MatchingAlgorithmConfig version that scores
+ * preference alignment with the learned model.
+ *
+ * Runs offline; see runCompatibilityTraining.ts.
+ */
+
+import { Clock, systemClock } from '../../lib/clock';
+import { MatchingAlgorithmConfig } from '../../types/matching';
+import { ProfileRepository, UserProfile } from '../../types/profile';
+import {
+  CompatibilityTrainingResult,
+  TrainCompatibilityModelRequest,
+  TrainingDataError,
+  TrainingLabel,
+  TrainingOutcome,
+  TrainingOutcomeSource
+} from '../../types/training';
+import { bucketUser } from '../experiments/experimentService';
+import { COMPATIBILITY_CATEGORIES } from '../matching/matchingAlgorithms';
+import { MatchingService } from '../matching/matchingService';
+import { PreferenceFilteringService } from '../matching/preferenceFilteringService';
+import { ProfileService } from '../profile/profileService';
+import { evaluatePredictions, fitLogisticRegression, predictProbability } from './logisticRegression';
+import { InMemoryTrainingOutcomeSource } from './repositories/inMemoryTrainingOutcomeSource';
+
+export interface CompatibilityTrainingDependencies {
+  outcomes: TrainingOutcomeSource;
+  profiles: Pick<ProfileRepository, 'getProfile'>;
+  algorithms: Pick<MatchingService, 'loadAlgorithm' | 'registerAlgorithm'>;
+  preferences: PreferenceFilteringService;
+  clock: Clock;
+}
+
+export interface CompatibilityTrainingConfig {
+  holdoutFraction: number; // Share of users whose swipes are kept out of fitting
+  regularization: number; // L2 penalty on the category weights
+  maxIterations: number;
+  tolerance: number;
+  calibrationBins: number;
+  minimumExamples: number; // Fewer training swipes than this is an error
+}
+
+interface TrainingExample {
+  userId: string;
+  features: number[]; // Category scores in COMPATIBILITY_CATEGORIES order
+  baselineScore: number; // Hand-tuned weighted compatibility
+  label: number;
+}
+
+export class CompatibilityTrainingService {
+  private static instance: CompatibilityTrainingService;
+  private dependencies: CompatibilityTrainingDependencies;
+
+  private config: CompatibilityTrainingConfig = {
+    holdoutFraction: 0.2,
+    regularization: 1,
+    maxIterations: 50,
+    tolerance: 1e-6,
+    calibrationBins: 10,
+    minimumExamples: 100
+  };
+
+  private constructor(dependencies: Partial<CompatibilityTrainingDependencies> = {}) {
+    this.dependencies = {
+      outcomes: dependencies.outcomes || new InMemoryTrainingOutcomeSource(),
+      profiles: dependencies.profiles || ProfileService.getInstance(),
+      algorithms: dependencies.algorithms || MatchingService.getInstance(),
+      preferences: dependencies.preferences || new PreferenceFilteringService(),
+      clock: dependencies.clock || systemClock
+    };
+  }
+
+  public static getInstance(dependencies?: Partial<CompatibilityTrainingDependencies>): CompatibilityTrainingService {
+    if (!CompatibilityTrainingService.instance) {
+      CompatibilityTrainingService.instance = new CompatibilityTrainingService(dependencies);
+    } else if (dependencies) {
+      CompatibilityTrainingService.instance.setDependencies(dependencies);
+    }
+    return CompatibilityTrainingService.instance;
+  }
+
+  /**
+   * Replace some or all dependencies (e.g. a fake clock in tests)
+   */
+  setDependencies(dependencies: Partial<CompatibilityTrainingDependencies>): void {
+    this.dependencies = { ...this.dependencies, ...dependencies };
+  }
+
+  /**
+   * Update training configuration
+   */
+  updateConfig(newConfig: Partial<CompatibilityTrainingConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+  }
+
+  // ===== TRAINING =====
+
+  /**
+   * Fit a model, evaluate it on the held-out users and (unless register is
+   * false) store it as request.version. Throws TrainingDataError when there
+   * aren't enough swipes of both outcomes on either side of the split.
+   */
+  async trainModel(request: TrainCompatibilityModelRequest): Promise<CompatibilityTrainingResult> {
+    const label = request.label || 'like';
+    const base = await this.dependencies.algorithms.loadAlgorithm(request.baseVersion);
+    const outcomes = await this.dependencies.outcomes.listOutcomes(request.since);
+    const examples = await this.buildExamples(outcomes, label);
+
+    // Split by user so nobody's taste is both learned and tested
+    const isHeldOut = (example: TrainingExample) =>
+      bucketUser(request.version, example.userId) < this.config.holdoutFraction;
+    const training = examples.filter(example => !isHeldOut(example));
+    const holdout = examples.filter(isHeldOut);
+
+    this.checkExamples(training, 'training', this.config.minimumExamples);
+    this.checkExamples(holdout, 'held-out', 1);
+
+    const fit = fitLogisticRegression(
+      training.map(example => example.features),
+      training.map(example => example.label),
+      {
+        regularization: this.config.regularization,
+        maxIterations: this.config.maxIterations,
+        tolerance: this.config.tolerance
+      }
+    );
+
+    const algorithm: MatchingAlgorithmConfig = {
+      ...base,
+      version: request.version,
+      features: { ...base.features, enableMachineLearning: true },
+      compatibilityModel: {
+        label,
+        intercept: fit.intercept,
+        weights: {
+          physical: fit.coefficients[0],
+          lifestyle: fit.coefficients[1],
+          social: fit.coefficients[2],
+          relationship: fit.coefficients[3]
+        }
+      }
+    };
+
+    const registered = request.register !== false;
+    if (registered) {
+      await this.dependencies.algorithms.registerAlgorithm(algorithm);
+    }
+
+    return {
+      algorithm,
+      registered,
+      trainedAt: this.dependencies.clock.now(),
+      training: {
+        examples: training.length,
+        positives: training.filter(example => example.label === 1).length,
+        iterations: fit.iterations,
+        converged: fit.converged
+      },
+      holdout: evaluatePredictions(
+        holdout.map(example => predictProbability(fit, example.features)),
+        holdout.map(example => example.label),
+        holdout.map(example => example.baselineScore),
+        this.config.calibrationBins
+      ),
+      skippedOutcomes: outcomes.length - examples.length
+    };
+  }
+
+  // ===== HELPERS =====
+
+  /**
+   * Score each swipe from the swiping user's side. Swipes involving a profile
+   * that no longer loads are dropped.
+   */
+  private async buildExamples(outcomes: TrainingOutcome[], label: TrainingLabel): Promise<TrainingExample[]> {
+    const profiles = new Map<string, Promise<UserProfile | null>>();
+    const loadProfile = (userId: string) => {
+      if (!profiles.has(userId)) {
+        profiles.set(userId, this.dependencies.profiles.getProfile(userId));
+      }
+      return profiles.get(userId)!;
+    };
+
+    const examples: TrainingExample[] = [];
+    for (const outcome of outcomes) {
+      const user = await loadProfile(outcome.userId);
+      const target = await loadProfile(outcome.targetUserId);
+      if (!user || !target) continue;
+
+      const categoryScores = this.dependencies.preferences.calculateCategoryScores(user, target);
+      examples.push({
+        userId: outcome.userId,
+        features: COMPATIBILITY_CATEGORIES.map(category => categoryScores[category].score),
+        baselineScore: this.dependencies.preferences.calculateCompatibility(user, target),
+        label: this.isPositive(outcome, label) ? 1 : 0
+      });
+    }
+    return examples;
+  }
+
+  private isPositive(outcome: TrainingOutcome, label: TrainingLabel): boolean {
+    switch (label) {
+      case 'like':
+        return outcome.liked;
+      case 'mutual':
+        return outcome.mutual;
+      case 'conversation':
+        return outcome.messaged;
+    }
+  }
+
+  private checkExamples(examples: TrainingExample[], split: string, minimum: number): void {
+    if (examples.length < minimum) {
+      throw new TrainingDataError(`Only ${examples.length} ${split} examples; need at least ${minimum}`);
+    }
+    const positives = examples.filter(example => example.label === 1).length;
+    if (positives === 0 || positives === examples.length) {
+      throw new TrainingDataError(`The ${split} examples need both positive and negative outcomes`);
+    }
+  }
+}
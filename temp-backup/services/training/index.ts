@@ -0,0 +1,29 @@
+/**
+ * Training Services Export
+ * Epic 003: Matching System
+ */
+
+export { CompatibilityTrainingService } from './compatibilityTrainingService';
+export {
+  calibrationBins,
+  evaluatePredictions,
+  fitLogisticRegression,
+  predictProbability,
+  rocAuc,
+  sigmoid
+} from './logisticRegression';
+export { InMemoryTrainingOutcomeSource, SupabaseTrainingOutcomeSource } from './repositories';
+
+export type {
+  CompatibilityTrainingConfig,
+  CompatibilityTrainingDependencies
+} from './compatibilityTrainingService';
+export type { LogisticRegressionFit, LogisticRegressionOptions } from './logisticRegression';
+export type {
+  CalibrationBin,
+  CompatibilityTrainingResult,
+  ModelEvaluation,
+  TrainCompatibilityModelRequest,
+  TrainingLabel,
+  TrainingOutcome
+} from '../../types/training';
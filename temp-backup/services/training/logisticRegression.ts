@@ -0,0 +1,199 @@
+/**
+ * Logistic Regression
+ * Epic 003: Matching System
+ *
+ * L2-regularised logistic regression fitted by Newton's method, and the
+ * metrics used to evaluate it. Models here have a handful of features, so the
+ * Hessian is solved directly on the CPU.
+ */
+
+import { CalibrationBin, ModelEvaluation } from '../../types/training';
+
+export interface LogisticRegressionOptions {
+  regularization: number; // L2 penalty on the coefficients; the intercept is not penalised
+  maxIterations: number;
+  tolerance: number; // Stop once no parameter moves more than this
+}
+
+export interface LogisticRegressionFit {
+  intercept: number;
+  coefficients: number[];
+  iterations: number;
+  converged: boolean;
+}
+
+export function sigmoid(z: number): number {
+  // Split by sign so Math.exp never overflows
+  if (z >= 0) return 1 / (1 + Math.exp(-z));
+  const e = Math.exp(z);
+  return e / (1 + e);
+}
+
+export function predictProbability(fit: Pick<LogisticRegressionFit, 'intercept' | 'coefficients'>, features: number[]): number {
+  return sigmoid(features.reduce((sum, value, index) => sum + value * fit.coefficients[index], fit.intercept));
+}
+
+/**
+ * Fit P(label = 1) = sigmoid(intercept + coefficients · features)
+ */
+export function fitLogisticRegression(
+  features: number[][],
+  labels: number[],
+  options: LogisticRegressionOptions
+): LogisticRegressionFit {
+  if (features.length === 0 || features.length !== labels.length) {
+    throw new RangeError('Need one label per example and at least one example');
+  }
+
+  // Parameter 0 is the intercept, so each row gets a leading 1
+  const rows = features.map(row => [1, ...row]);
+  const size = rows[0].length;
+  const beta = new Array<number>(size).fill(0);
+
+  for (let iteration = 1; iteration <= options.maxIterations; iteration++) {
+    const gradient = new Array<number>(size).fill(0);
+    const hessian = Array.from({ length: size }, () => new Array<number>(size).fill(0));
+
+    rows.forEach((row, index) => {
+      const p = sigmoid(row.reduce((sum, value, j) => sum + value * beta[j], 0));
+      const weight = p * (1 - p);
+      for (let j = 0; j < size; j++) {
+        gradient[j] += (labels[index] - p) * row[j];
+        for (let k = 0; k < size; k++) {
+          hessian[j][k] += weight * row[j] * row[k];
+        }
+      }
+    });
+
+    for (let j = 1; j < size; j++) {
+      gradient[j] -= options.regularization * beta[j];
+      hessian[j][j] += options.regularization;
+    }
+
+    const step = solveLinearSystem(hessian, gradient);
+    step.forEach((delta, j) => { beta[j] += delta; });
+
+    if (Math.max(...step.map(Math.abs)) < options.tolerance) {
+      return { intercept: beta[0], coefficients: beta.slice(1), iterations: iteration, converged: true };
+    }
+  }
+
+  return { intercept: beta[0], coefficients: beta.slice(1), iterations: options.maxIterations, converged: false };
+}
+
+/**
+ * Gaussian elimination with partial pivoting
+ */
+function solveLinearSystem(matrix: number[][], vector: number[]): number[] {
+  const n = vector.length;
+  const a = matrix.map((row, i) => [...row, vector[i]]);
+
+  for (let column = 0; column < n; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < n; row++) {
+      if (Math.abs(a[row][column]) > Math.abs(a[pivot][column])) pivot = row;
+    }
+    if (Math.abs(a[pivot][column]) < 1e-12) {
+      throw new RangeError('Training examples do not determine the model; add regularization');
+    }
+    [a[column], a[pivot]] = [a[pivot], a[column]];
+
+    for (let row = column + 1; row < n; row++) {
+      const factor = a[row][column] / a[column][column];
+      for (let k = column; k <= n; k++) a[row][k] -= factor * a[column][k];
+    }
+  }
+
+  const solution = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * solution[k];
+    solution[row] = sum / a[row][row];
+  }
+  return solution;
+}
+
+/**
+ * Chance that a random positive scores above a random negative; ties count half
+ */
+export function rocAuc(scores: number[], labels: number[]): number {
+  const positives = labels.filter(label => label === 1).length;
+  const negatives = labels.length - positives;
+  if (positives === 0 || negatives === 0) {
+    throw new RangeError('AUC needs both positive and negative examples');
+  }
+
+  // Mann-Whitney U from average ranks
+  const order = scores.map((score, index) => ({ score, label: labels[index] })).sort((a, b) => a.score - b.score);
+  let positiveRankSum = 0;
+  for (let start = 0; start < order.length;) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].score === order[start].score) end++;
+    const averageRank = (start + end) / 2 + 1;
+    for (let i = start; i <= end; i++) {
+      if (order[i].label === 1) positiveRankSum += averageRank;
+    }
+    start = end + 1;
+  }
+
+  return (positiveRankSum - positives * (positives + 1) / 2) / (positives * negatives);
+}
+
+/**
+ * Equal-width bins over [0, 1]
+ */
+export function calibrationBins(predictions: number[], labels: number[], binCount: number): CalibrationBin[] {
+  const bins = Array.from({ length: binCount }, (_, index) => ({
+    lower: index / binCount,
+    upper: (index + 1) / binCount,
+    count: 0,
+    predicted: 0,
+    observed: 0
+  }));
+
+  predictions.forEach((prediction, index) => {
+    const bin = bins[Math.min(Math.floor(prediction * binCount), binCount - 1)];
+    bin.count++;
+    bin.predicted += prediction;
+    bin.observed += labels[index];
+  });
+
+  return bins.map(bin => ({
+    lower: bin.lower,
+    upper: bin.upper,
+    count: bin.count,
+    meanPredicted: bin.count > 0 ? bin.predicted / bin.count : 0,
+    observedRate: bin.count > 0 ? bin.observed / bin.count : 0
+  }));
+}
+
+/**
+ * Held-out metrics for predicted probabilities. baselineScores only need to rank.
+ */
+export function evaluatePredictions(
+  predictions: number[],
+  labels: number[],
+  baselineScores: number[],
+  binCount: number
+): ModelEvaluation {
+  const epsilon = 1e-12;
+  const n = predictions.length;
+  const calibration = calibrationBins(predictions, labels, binCount);
+
+  return {
+    examples: n,
+    positives: labels.filter(label => label === 1).length,
+    auc: rocAuc(predictions, labels),
+    baselineAuc: rocAuc(baselineScores, labels),
+    logLoss: -predictions.reduce((sum, p, index) => {
+      const clamped = Math.min(Math.max(p, epsilon), 1 - epsilon);
+      return sum + (labels[index] === 1 ? Math.log(clamped) : Math.log(1 - clamped));
+    }, 0) / n,
+    brierScore: predictions.reduce((sum, p, index) => sum + (p - labels[index]) ** 2, 0) / n,
+    calibrationError: calibration.reduce(
+      (sum, bin) => sum + bin.count / n * Math.abs(bin.meanPredicted - bin.observedRate),
+      0
+    ),
+    calibration
+  };
+}
@@ -0,0 +1,29 @@
+/**
+ * In-Memory Training Outcome Source
+ * Epic 003: Matching System
+ *
+ * Swipe outcomes added directly, for tests and offline development
+ */
+
+import { TrainingOutcome, TrainingOutcomeSource } from '../../../types/training';
+
+export class InMemoryTrainingOutcomeSource implements TrainingOutcomeSource {
+  private outcomes: TrainingOutcome[] = [];
+
+  async listOutcomes(since?: Date): Promise<TrainingOutcome[]> {
+    return this.outcomes
+      .filter(outcome => !since || outcome.swipedAt >= since)
+      .map(outcome => ({ ...outcome }));
+  }
+
+  addOutcome(outcome: TrainingOutcome): void {
+    this.outcomes.push({ ...outcome });
+  }
+
+  /**
+   * Remove all outcomes
+   */
+  clear(): void {
+    this.outcomes = [];
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Training Repositories
+ * Sources of swipe outcomes to fit compatibility models to
+ */
+
+export { InMemoryTrainingOutcomeSource } from './inMemoryTrainingOutcomeSource';
+export { SupabaseTrainingOutcomeSource } from './supabaseTrainingOutcomeSource';
+export type { TrainingOutcomeSource } from '../../../types/training';
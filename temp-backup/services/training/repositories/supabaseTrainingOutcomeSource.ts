@@ -0,0 +1,102 @@
+/**
+ * Supabase Training Outcome Source
+ * Epic 003: Matching System
+ *
+ * Reads every swipe from user_interactions and marks the ones whose pair went
+ * on to match (matches) and to message (messages). Reads other users' rows, so
+ * this runs with the service role.
+ */
+
+import { supabase, type SupabaseClient } from '../../../lib/supabase';
+import { TrainingOutcome, TrainingOutcomeSource } from '../../../types/training';
+
+const ROWS_PER_PAGE = 1000; // PostgREST's default row cap
+const IDS_PER_QUERY = 100; // Keeps the IN lists well inside URL limits
+
+export class SupabaseTrainingOutcomeSource implements TrainingOutcomeSource {
+  constructor(private client: SupabaseClient = supabase) {}
+
+  async listOutcomes(since?: Date): Promise<TrainingOutcome[]> {
+    const swipes = await this.listPages(from => {
+      let query = this.client
+        .from('user_interactions')
+        .select('id, user_id, target_user_id, interaction_type, created_at')
+        .in('interaction_type', ['like', 'super_like', 'pass'])
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + ROWS_PER_PAGE - 1);
+      if (since) query = query.gte('created_at', since.toISOString());
+      return query;
+    });
+
+    // A pair can only match after both swiped, so older matches don't matter
+    const matches = await this.listPages(from => {
+      let query = this.client
+        .from('matches')
+        .select('id, user1_id, user2_id, conversations(id)')
+        .order('id', { ascending: true })
+        .range(from, from + ROWS_PER_PAGE - 1);
+      if (since) query = query.gte('matched_at', since.toISOString());
+      return query;
+    });
+
+    const messaged = await this.listMessagedConversations(
+      matches.map(row => this.conversationIdOf(row)).filter(Boolean)
+    );
+    const mutualPairs = new Set<string>();
+    const messagedPairs = new Set<string>();
+    matches.forEach(row => {
+      const pair = this.pairKey(row.user1_id, row.user2_id);
+      mutualPairs.add(pair);
+      if (messaged.has(this.conversationIdOf(row))) messagedPairs.add(pair);
+    });
+
+    return swipes.map(row => {
+      const pair = this.pairKey(row.user_id, row.target_user_id);
+      return {
+        userId: row.user_id,
+        targetUserId: row.target_user_id,
+        liked: row.interaction_type !== 'pass',
+        mutual: mutualPairs.has(pair),
+        messaged: messagedPairs.has(pair),
+        swipedAt: new Date(row.created_at)
+      };
+    });
+  }
+
+  private async listPages(query: (from: number) => PromiseLike<{ data: any[] | null; error: any }>): Promise<any[]> {
+    const rows: any[] = [];
+    for (let from = 0; ; from += ROWS_PER_PAGE) {
+      const { data, error } = await query(from);
+      if (error) throw error;
+      rows.push(...(data || []));
+      if (!data || data.length < ROWS_PER_PAGE) return rows;
+    }
+  }
+
+  /**
+   * The conversations that have any messages, one row each however many they hold
+   */
+  private async listMessagedConversations(conversationIds: string[]): Promise<Set<string>> {
+    const messaged = new Set<string>();
+    for (let start = 0; start < conversationIds.length; start += IDS_PER_QUERY) {
+      const { data, error } = await this.client.rpc('list_messaged_conversations', {
+        p_conversation_ids: conversationIds.slice(start, start + IDS_PER_QUERY)
+      });
+
+      if (error) throw error;
+      (data || []).forEach((row: { conversation_id: string }) => messaged.add(row.conversation_id));
+    }
+    return messaged;
+  }
+
+  private pairKey(userId: string, otherUserId: string): string {
+    return [userId, otherUserId].sort().join(':');
+  }
+
+  private conversationIdOf(row: any): string {
+    // conversations.match_id is unique, but the embed may still come back as a list
+    const conversation = Array.isArray(row.conversations) ? row.conversations[0] : row.conversations;
+    return conversation?.id || '';
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Run Compatibility Training
+ * Epic 003: Matching System
+ *
+ * Fits a compatibility model against Supabase and prints the evaluation:
+ *
+ *   runCompatibilityTraining --version=<new version> [--base=<version>]
+ *     [--label=like|mutual|conversation] [--since=<ISO date>] [--dry-run]
+ *
+ * --dry-run reports without storing the new version.
+ */
+
+import { getServiceRoleClient } from '../../lib/supabaseAdmin';
+import { TrainCompatibilityModelRequest, TrainingLabel } from '../../types/training';
+import { MatchingService } from '../matching/matchingService';
+import { SupabaseMatchingAlgorithmRepository } from '../matching/repositories/supabaseMatchingAlgorithmRepository';
+import { ProfileService } from '../profile/profileService';
+import { SupabaseProfileRepository } from '../profile/repositories/supabaseProfileRepository';
+import { CompatibilityTrainingService } from './compatibilityTrainingService';
+import { SupabaseTrainingOutcomeSource } from './repositories/supabaseTrainingOutcomeSource';
+
+const LABELS: TrainingLabel[] = ['like', 'mutual', 'conversation'];
+
+function parseArgs(args: string[]): TrainCompatibilityModelRequest {
+  const request: Partial<TrainCompatibilityModelRequest> = {};
+
+  for (const arg of args) {
+    const [flag, value] = arg.split('=', 2);
+    if (flag === '--version') {
+      request.version = value;
+    } else if (flag === '--base') {
+      request.baseVersion = value;
+    } else if (flag === '--label' && LABELS.includes(value as TrainingLabel)) {
+      request.label = value as TrainingLabel;
+    } else if (flag === '--since' && !isNaN(new Date(value).getTime())) {
+      request.since = new Date(value);
+    } else if (arg === '--dry-run') {
+      request.register = false;
+    } else {
+      throw new Error(`Invalid argument: ${arg}`);
+    }
+  }
+
+  if (!request.version) {
+    throw new Error('--version is required');
+  }
+  return request as TrainCompatibilityModelRequest;
+}
+
+if (require.main === module) {
+  // Training reads every user's swipes, matches and messages
+  const client = getServiceRoleClient();
+  ProfileService.getInstance(new SupabaseProfileRepository(client));
+  MatchingService.getInstance(undefined, undefined, new SupabaseMatchingAlgorithmRepository(client));
+  const trainer = CompatibilityTrainingService.getInstance({ outcomes: new SupabaseTrainingOutcomeSource(client) });
+
+  Promise.resolve()
+    .then(() => trainer.trainModel(parseArgs(process.argv.slice(2))))
+    .then(result => {
+      console.log(JSON.stringify(result, null, 2));
+      process.exit(0);
+    })
+    .catch(error => {
+      console.error(error);
+      process.exit(1);
+    });
+}
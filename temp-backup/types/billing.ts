@@ -0,0 +1,195 @@
+/**
+ * Billing Types
+ * Epic 006: Premium Payment System
+ *
+ * Checkout, payment gateway webhooks, payments and the subscription lifecycle
+ * (trials, renewals, dunning, plan changes, cancellations and refunds)
+ */
+
+import { BillingCycle, EntitlementRepository, UserSubscription } from './subscription';
+
+// Subscription state as the payment gateway reports it
+export type GatewaySubscriptionStatus = 'trialing' | 'active' | 'past_due' | 'unpaid' | 'canceled' | 'incomplete';
+
+export interface GatewaySubscription {
+  id: string;
+  customerId: string;
+  priceId: string;
+  status: GatewaySubscriptionStatus;
+  currentPeriodStart: Date;
+  currentPeriodEnd: Date;
+  trialStart?: Date;
+  trialEnd?: Date;
+  cancelAtPeriodEnd: boolean;
+  canceledAt?: Date;
+}
+
+// Checkout
+export interface CreateCheckoutRequest {
+  userId: string;
+  planId: string;
+  billingCycle: BillingCycle;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface GatewayCheckoutRequest {
+  customerId: string;
+  priceId: string;
+  clientReferenceId: string; // Our user ID, echoed back on checkout.session.completed
+  successUrl: string;
+  cancelUrl: string;
+  trialDays?: number;
+}
+
+export interface CheckoutSession {
+  id: string;
+  url: string;
+  customerId: string;
+  priceId: string;
+  expiresAt: Date;
+}
+
+export interface PriceChangeRequest {
+  priceId: string;
+  prorationAmount: number; // Charged now when positive, credited when negative
+  resetBillingCycle: boolean; // Start a new period now (billing cycle changes)
+}
+
+export interface PlanChangeResult {
+  subscription: UserSubscription;
+  prorationAmount: number;
+}
+
+// payments
+export type PaymentStatus = 'pending' | 'succeeded' | 'failed' | 'refunded';
+
+export interface PaymentRecord {
+  id: string;
+  userId: string;
+  subscriptionId?: string;
+  paymentIntentId: string;
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+  paymentMethod?: string;
+  metadata: Record<string, any>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Webhook events
+export interface InvoiceEventData {
+  invoiceId: string;
+  customerId: string;
+  subscriptionId: string;
+  paymentIntentId?: string; // Absent for zero-amount invoices such as trial starts
+  amount: number;
+  currency: string;
+  billingReason: 'subscription_create' | 'subscription_cycle' | 'subscription_update';
+  periodStart: Date;
+  periodEnd: Date;
+  attemptCount: number;
+  nextPaymentAttempt?: Date; // Absent once the gateway has stopped retrying
+}
+
+interface BillingEventBase<T extends string, D> {
+  id: string;
+  type: T;
+  createdAt: Date;
+  data: D;
+}
+
+export type BillingEvent =
+  | BillingEventBase<'checkout.session.completed', {
+      sessionId: string;
+      customerId: string;
+      subscriptionId: string;
+      clientReferenceId: string;
+    }>
+  | BillingEventBase<'customer.subscription.updated', { subscription: GatewaySubscription }>
+  | BillingEventBase<'customer.subscription.deleted', { subscription: GatewaySubscription }>
+  | BillingEventBase<'invoice.paid', InvoiceEventData>
+  | BillingEventBase<'invoice.payment_failed', InvoiceEventData>
+  | BillingEventBase<'charge.refunded', {
+      paymentIntentId: string;
+      amountRefunded: number; // Total refunded so far
+      currency: string;
+    }>;
+
+export type BillingEventType = BillingEvent['type'];
+
+export interface WebhookResult {
+  eventId: string;
+  type: BillingEventType;
+  status: 'processed' | 'duplicate' | 'ignored';
+  userId?: string;
+}
+
+/**
+ * Payment provider (Stripe or compatible). Amounts are in major currency units.
+ */
+export interface PaymentGateway {
+  createCustomer(userId: string): Promise<string>;
+  createCheckoutSession(request: GatewayCheckoutRequest): Promise<CheckoutSession>;
+  getSubscription(subscriptionId: string): Promise<GatewaySubscription>;
+  changeSubscriptionPrice(subscriptionId: string, change: PriceChangeRequest): Promise<GatewaySubscription>;
+  cancelSubscription(subscriptionId: string, atPeriodEnd: boolean): Promise<GatewaySubscription>;
+  refundPayment(paymentIntentId: string, amount?: number): Promise<void>;
+
+  /**
+   * Verify a webhook signature and parse the event.
+   * Throws WebhookSignatureError if the payload was not signed by the gateway.
+   */
+  constructEvent(payload: string, signature: string): BillingEvent;
+}
+
+// Persistence
+export type SubscriptionUpdate = Partial<Omit<UserSubscription, 'id' | 'userId' | 'createdAt'>>;
+
+export interface BillingRepository extends EntitlementRepository {
+  createSubscription(subscription: Omit<UserSubscription, 'id'>): Promise<UserSubscription>;
+  updateSubscription(subscriptionId: string, updates: SubscriptionUpdate): Promise<UserSubscription>;
+  getSubscriptionByGatewayId(gatewaySubscriptionId: string): Promise<UserSubscription | null>;
+
+  /**
+   * Subscriptions still marked active whose trial ended after `endedAfter`
+   * and at or before `endedBy`
+   */
+  listEndedTrials(endedAfter: Date, endedBy: Date): Promise<UserSubscription[]>;
+
+  getPaymentByIntent(paymentIntentId: string): Promise<PaymentRecord | null>;
+
+  /**
+   * Insert or update the payment for a payment intent
+   */
+  savePayment(payment: Omit<PaymentRecord, 'id' | 'createdAt' | 'updatedAt'>, at: Date): Promise<PaymentRecord>;
+
+  /**
+   * Record that a webhook event is being processed from `at`. Returns false if
+   * it was already processed or another delivery claimed it after staleBefore;
+   * older claims were abandoned mid-processing and are taken over.
+   */
+  claimWebhookEvent(eventId: string, type: BillingEventType, at: Date, staleBefore: Date): Promise<boolean>;
+  completeWebhookEvent(eventId: string): Promise<void>;
+
+  /**
+   * Forget a claimed event that failed so the gateway's retry can process it
+   */
+  releaseWebhookEvent(eventId: string): Promise<void>;
+}
+
+// Error types
+export class BillingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BillingError';
+  }
+}
+
+export class WebhookSignatureError extends Error {
+  constructor(message: string = 'Invalid webhook signature') {
+    super(message);
+    this.name = 'WebhookSignatureError';
+  }
+}
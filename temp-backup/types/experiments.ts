@@ -0,0 +1,151 @@
+/**
+ * Experiment Types
+ * Epic 003: Matching System
+ *
+ * A/B tests that compare matching algorithm versions on split traffic
+ */
+
+export type ExperimentStatus = 'draft' | 'running' | 'stopped';
+
+export interface ExperimentVariant {
+  name: string; // e.g. 'control', 'treatment'
+  algorithmVersion: string; // MatchingAlgorithmConfig this arm scores with
+  allocation: number; // Relative share of traffic; arms are normalised against each other
+}
+
+export interface Experiment {
+  experimentId: string;
+  name: string;
+  description?: string;
+  status: ExperimentStatus;
+  variants: ExperimentVariant[]; // The first variant is the control
+  createdAt: Date;
+  startedAt?: Date;
+  stoppedAt?: Date;
+}
+
+export interface CreateExperimentRequest {
+  experimentId: string; // Also salts the bucketing hash, so reusing one repeats its split
+  name: string;
+  description?: string;
+  variants: ExperimentVariant[];
+}
+
+// The arm a user falls into while an experiment runs
+export interface ExperimentAssignment {
+  experimentId: string;
+  userId: string;
+  variant: string;
+  algorithmVersion: string;
+}
+
+// Logged each time a user is shown matches scored by an experiment arm
+export interface ExperimentExposure extends ExperimentAssignment {
+  exposureId: string;
+  matchCount: number;
+  exposedAt: Date;
+}
+
+export interface ExposedUser {
+  userId: string;
+  variant: string;
+  firstExposedAt: Date; // Outcomes are counted from here
+  exposures: number;
+}
+
+export interface ExperimentRepository {
+  saveExperiment(experiment: Experiment): Promise<void>; // Inserts or replaces
+  getExperiment(experimentId: string): Promise<Experiment | null>;
+  listExperiments(status?: ExperimentStatus): Promise<Experiment[]>;
+  logExposure(exposure: Omit<ExperimentExposure, 'exposureId'>): Promise<ExperimentExposure>;
+
+  /**
+   * One entry per exposed user with their first exposure
+   */
+  listExposedUsers(experimentId: string): Promise<ExposedUser[]>;
+}
+
+// What an exposed user did from their first exposure on
+export interface ExperimentUserOutcome {
+  userId: string;
+  swipes: number; // All likes, super likes and passes
+  likes: number; // Likes and super likes
+  mutualMatches: number;
+  messagedMatches: number; // Mutual matches with at least one message
+}
+
+/**
+ * Reads outcomes from swipes (user_interactions), matches and messages
+ */
+export interface ExperimentOutcomeSource {
+  getOutcomes(users: Array<{ userId: string; since: Date }>): Promise<ExperimentUserOutcome[]>;
+}
+
+// One user's successes out of their trials (e.g. likes out of swipes)
+export interface ConversionCounts {
+  successes: number;
+  trials: number;
+}
+
+// A conversion rate with its confidence interval
+export interface ExperimentMetric {
+  successes: number;
+  trials: number;
+  rate: number; // successes / trials, 0 when there were no trials
+  lower: number;
+  upper: number;
+}
+
+export type ExperimentMetricName = 'likeRate' | 'mutualRate' | 'firstMessageRate';
+
+export interface ExperimentArmSummary {
+  variant: string;
+  algorithmVersion: string;
+  users: number; // Exposed users in this arm
+  exposures: number;
+  metrics: Record<ExperimentMetricName, ExperimentMetric>;
+}
+
+// One arm's rate against the control's
+export interface ExperimentComparison {
+  variant: string;
+  metric: ExperimentMetricName;
+  difference: number; // Arm rate minus control rate
+  lower: number;
+  upper: number;
+  pValue: number; // Two-sided, from a two-proportion z-test allowing for each user's correlated swipes
+  significant: boolean;
+}
+
+export interface ExperimentReport {
+  experimentId: string;
+  name: string;
+  status: ExperimentStatus;
+  confidenceLevel: number;
+  generatedAt: Date;
+  control: string;
+  arms: ExperimentArmSummary[];
+  comparisons: ExperimentComparison[];
+}
+
+// Error types
+export class ExperimentNotFoundError extends Error {
+  constructor(experimentId: string) {
+    super(`Experiment not found: ${experimentId}`);
+    this.name = 'ExperimentNotFoundError';
+  }
+}
+
+export class ExperimentValidationError extends Error {
+  constructor(message: string, public field?: string) {
+    super(message);
+    this.name = 'ExperimentValidationError';
+  }
+}
+
+export class ExperimentStateError extends Error {
+  constructor(experimentId: string, status: ExperimentStatus, action: string) {
+    super(`Cannot ${action} experiment ${experimentId} while it is ${status}`);
+    this.name = 'ExperimentStateError';
+  }
+}
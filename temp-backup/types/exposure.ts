@@ -0,0 +1,126 @@
+/**
+ * Exposure Types
+ * Epic 003: Matching System
+ *
+ * Impression tracking and exposure balancing for the discovery feed
+ */
+
+import { MatchResult } from './matching';
+import { UserProfile } from './profile';
+
+export type ExposureSlot = NonNullable<MatchResult['exposureSlot']>;
+
+// One profile shown to one viewer
+export interface ProfileImpression {
+  viewerId: string;
+  profileId: string;
+  slot?: ExposureSlot; // Reserved slot it was shown in, if any
+  shownAt: Date;
+}
+
+export interface ImpressionRepository {
+  recordImpressions(impressions: ProfileImpression[]): Promise<void>;
+
+  /**
+   * Impressions per profile since the given time (and before `until`, when
+   * given). Profiles that weren't shown are left out. Counts every profile
+   * when profileIds is omitted.
+   */
+  countImpressions(since: Date, profileIds?: string[], until?: Date): Promise<Map<string, number>>;
+}
+
+/**
+ * Says which profiles have a premium boost running and how much it lifts their
+ * ranking. Profiles without a boost are left out.
+ */
+export interface BoostedProfileSource {
+  getBoostMultipliers(profileIds: string[], at: Date): Promise<Map<string, number>>;
+}
+
+// A time-boxed premium boost
+export interface ProfileBoost {
+  boostId: string;
+  userId: string;
+  startedAt: Date;
+  endsAt: Date;
+  multiplier: number; // Ranking lift while the boost runs
+}
+
+export interface BoostRepository {
+  /**
+   * Store a new boost. Throws BoostAlreadyActiveError if it overlaps another
+   * of the user's boosts.
+   */
+  saveBoost(boost: ProfileBoost): Promise<void>;
+  getBoost(boostId: string): Promise<ProfileBoost | null>;
+
+  /**
+   * The user's most recently started boost
+   */
+  getLatestBoost(userId: string): Promise<ProfileBoost | null>;
+
+  /**
+   * Boosts running at the given time for any of the users
+   */
+  listActiveBoosts(userIds: string[], at: Date): Promise<ProfileBoost[]>;
+}
+
+// What a boost brought in
+export interface BoostSummary {
+  boost: ProfileBoost;
+  isActive: boolean;
+  impressions: number; // Times the profile was shown during the boost
+  impressionsBefore: number; // Times it was shown in the same length of time before the boost
+  likes: number; // Likes received during the boost, super likes included
+  superLikes: number;
+}
+
+// A ranked match and the profile behind it
+export interface ExposureCandidate {
+  match: MatchResult;
+  profile: UserProfile;
+}
+
+export interface ExposurePage<T extends ExposureCandidate> {
+  page: T[]; // In display order
+  continueAfter?: T; // Last entry taken in rank order; the next page starts below it
+}
+
+/**
+ * Balances who gets shown in discovery. MatchingService discounts rankings
+ * with the multipliers, lays out each page with arrangePage and reports what
+ * it showed with recordImpressions.
+ */
+export interface ExposureController {
+  getExposureMultipliers(profileIds: string[]): Promise<Map<string, number>>;
+  arrangePage<T extends ExposureCandidate>(ranked: T[], pageSize: number): Promise<ExposurePage<T>>;
+  recordImpressions(viewerId: string, matches: MatchResult[]): Promise<void>;
+}
+
+// How evenly impressions were spread across visible profiles
+export interface ExposureReport {
+  since: Date;
+  generatedAt: Date;
+  profiles: number; // Visible profiles, shown or not
+  totalImpressions: number;
+  gini: number; // 0 when everyone was shown equally, towards 1 when a few profiles got everything
+  topDecileShare: number; // 0-1 share of impressions that went to the most shown 10% of profiles
+  unexposedProfiles: number; // Profiles not shown at all
+  newProfiles: number;
+  newProfileImpressionShare: number; // 0-1 share of impressions that went to new profiles
+}
+
+// Error types
+export class BoostAlreadyActiveError extends Error {
+  constructor(public userId: string, public endsAt: Date) {
+    super(`User ${userId} already has a boost running until ${endsAt.toISOString()}`);
+    this.name = 'BoostAlreadyActiveError';
+  }
+}
+
+export class BoostNotFoundError extends Error {
+  constructor(public boostId: string) {
+    super(`Boost ${boostId} not found`);
+    this.name = 'BoostNotFoundError';
+  }
+}
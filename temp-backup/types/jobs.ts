@@ -0,0 +1,29 @@
+/**
+ * Background Job Types
+ * Epic 003: Matching System
+ *
+ * Scheduled maintenance of match queues and matches
+ */
+
+export type MatchJobName =
+  | 'expire_matches' // Drop queued matches past their expiry
+  | 'warn_expiring_matches' // Send match_expiring notifications ahead of expiry
+  | 'deactivate_silent_matches' // Deactivate matches nobody has messaged in
+  | 'refresh_queues'; // Regenerate queues that are due for active users
+
+export interface MatchJobResult {
+  job: MatchJobName;
+  startedAt: Date;
+  finishedAt: Date;
+  processed: number; // Items the job looked at
+  affected: number; // Items expired, notified, deactivated or refreshed
+  errors: string[];
+}
+
+// Error types
+export class UnknownJobError extends Error {
+  constructor(jobName: string) {
+    super(`Unknown job: ${jobName}`);
+    this.name = 'UnknownJobError';
+  }
+}
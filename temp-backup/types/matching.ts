@@ -54,7 +54,9 @@ export interface MatchingCriteria {
   sort: {
     by: 'distance' | 'activity' | 'compatibility' | 'verification' | 'random';
     direction: 'asc' | 'desc';
+    seed?: string; // Fixes the 'random' order; defaults to the discovery session
   };
+  algorithmVersion?: string; // MatchingAlgorithmConfig to score with; defaults to the active one
 }
 
 // Enhanced preference-based matching criteria (Story 002)
@@ -90,6 +92,9 @@ export interface MatchResult {
   expiresAt: Date;
   status: 'pending' | 'liked' | 'passed' | 'mutual' | 'expired';
   isNewMatch: boolean;
+  algorithmVersion: string; // MatchingAlgorithmConfig version that produced the score
+  exposureSlot?: 'new_profile' | 'premium_boost'; // Set when shown in a slot reserved by exposure control
+  expiryWarnedAt?: Date; // When the user was sent the match_expiring notice for this queued match
   matchFactors: {
     locationScore: number;
     ageCompatibility: number;
@@ -97,12 +102,20 @@ export interface MatchResult {
     activityScore: number;
     verificationBonus: number;
     premiumBonus?: number;
+    photoScore?: number;
+    penalty?: number; // Total taken off by the algorithm's penalties
+    collaborativeScore?: number; // 0-1, how much users with the same likes liked this profile
+    exposureMultiplier?: number; // Ranking discount for profiles shown a lot lately, above 1 during a boost
   };
 }
 
 // Enhanced preference-based match result (Story 002)
 export interface PreferenceMatchResult extends MatchResult {
-  compatibilityScore: number;           // 0-1 overall compatibility
+  compatibilityScore: number;           // 0-1 reciprocal compatibility, used for ranking
+  directionalScores: {
+    forward: number;                    // 0-1 how well the candidate fits the user
+    backward: number;                   // 0-1 how well the user fits the candidate
+  };
   categoryScores: {
     physical: number;                   // 0-1 physical compatibility
     lifestyle: number;                  // 0-1 lifestyle compatibility
@@ -112,7 +125,7 @@ export interface PreferenceMatchResult extends MatchResult {
   preferenceAlignment: {
     matches: string[];                  // Preferences that matched
     mismatches: string[];               // Preferences that didn't match
-    dealBreakersPassed: boolean;        // No deal breakers triggered
+    dealBreakersPassed: boolean;        // No deal breakers triggered on either side
     mustHavesSatisfied: number;         // Count of must-haves satisfied
     niceToHavesMatched: number;         // Count of nice-to-haves matched
   };
@@ -165,8 +178,11 @@ export interface CategoryScores {
 
 // Preference alignment analysis
 export interface PreferenceAlignment {
-  totalScore: number;
-  categoryAlignments: CategoryScores;
+  totalScore: number; // Harmonic mean of forwardScore and backwardScore
+  forwardScore: number; // How well the candidate fits the user's preferences
+  backwardScore: number; // How well the user fits the candidate's preferences
+  categoryAlignments: CategoryScores; // From the user's side
+  reverseCategoryAlignments: CategoryScores; // From the candidate's side
   matchedPreferences: {
     physical: string[];
     lifestyle: string[];
@@ -179,11 +195,8 @@ export interface PreferenceAlignment {
     social: string[];
     relationship: string[];
   };
-  dealBreakerAnalysis: {
-    passed: boolean;
-    triggeredDealBreakers: string[];
-    passedDealBreakers: string[];
-  };
+  dealBreakerAnalysis: DealBreakerAnalysis; // The user's deal breakers against the candidate
+  reverseDealBreakerAnalysis: DealBreakerAnalysis; // The candidate's deal breakers against the user
   mustHaveAnalysis: {
     totalMustHaves: number;
     satisfiedMustHaves: number;
@@ -198,6 +211,12 @@ export interface PreferenceAlignment {
   };
 }
 
+export interface DealBreakerAnalysis {
+  passed: boolean;
+  triggeredDealBreakers: string[];
+  passedDealBreakers: string[];
+}
+
 // Match discovery and queue
 export interface MatchDiscovery {
   discoveryId: string;
@@ -206,7 +225,7 @@ export interface MatchDiscovery {
   matchesReturned: number;
   matches: MatchResult[];
   hasMoreMatches: boolean;
-  nextPageToken?: string;
+  nextPageToken?: string; // Signed cursor for the next page; rejected once the criteria change
   refreshedAt: Date;
   locationUsed: GeoLocation;
   criteriaUsed: MatchingCriteria;
@@ -219,6 +238,7 @@ export interface MatchQueue {
   processedCount: number;
   totalCount: number;
   lastProcessedAt: Date;
+  generatedAt: Date;
   queueStatus: 'active' | 'paused' | 'exhausted' | 'error';
   refreshInterval: number; // minutes
 }
@@ -235,10 +255,46 @@ export interface MatchInteraction {
     viewDuration?: number; // seconds
     swipeDirection?: 'left' | 'right' | 'up';
     deviceInfo?: string;
+    exposureSlot?: MatchResult['exposureSlot']; // Reserved slot the profile was shown in
   };
+  passedMatch?: MatchResult; // The queued match behind a pass, put back in the queue if it is rewound
   metadata?: Record<string, any>;
 }
 
+// Swipes persisted in user_interactions (one per user and target)
+export type SwipeAction = Extract<MatchInteraction['action'], 'like' | 'pass' | 'super_like'>;
+
+export type SwipeInteraction = MatchInteraction & { action: SwipeAction };
+
+export interface InteractionRepository {
+  /**
+   * Store a swipe. Throws DuplicateInteractionError if the user already swiped on the target.
+   */
+  recordInteraction(interaction: Omit<SwipeInteraction, 'interactionId'>): Promise<SwipeInteraction>;
+  getInteraction(userId: string, targetUserId: string): Promise<SwipeInteraction | null>;
+
+  /**
+   * The user's most recent swipe
+   */
+  getLatestInteraction(userId: string): Promise<SwipeInteraction | null>;
+
+  /**
+   * Every user the user has swiped on
+   */
+  listInteractedUserIds(userId: string): Promise<string[]>;
+
+  /**
+   * Everyone's likes and super likes, oldest first, starting after the given one
+   */
+  listLikes(after: SwipeInteraction | undefined, limit: number): Promise<SwipeInteraction[]>;
+
+  /**
+   * Likes and super likes the user received from `since` up to `until`
+   */
+  listLikesReceived(targetUserId: string, since: Date, until: Date): Promise<SwipeInteraction[]>;
+  deleteInteraction(interactionId: string): Promise<void>;
+}
+
 // Mutual matches (when both users like each other)
 export interface MutualMatch {
   mutualMatchId: string;
@@ -246,6 +302,8 @@ export interface MutualMatch {
   matchIds: [string, string]; // Individual match IDs
   matchedAt: Date;
   isActive: boolean;
+  compatibilityScore: number; // 0-1, averaged over both users' perspectives
+  conversationId: string; // Opened together with the match
   conversationStarted: boolean;
   firstMessageSent?: boolean;
   firstMessageAt?: Date;
@@ -253,6 +311,35 @@ export interface MutualMatch {
   matchSource: 'discovery' | 'premium_boost' | 'super_like';
 }
 
+export interface CreateMutualMatchRequest {
+  userIds: [string, string];
+  matchIds: [string, string]; // Aligned with userIds
+  compatibilityScore: number;
+  matchSource: MutualMatch['matchSource'];
+  matchedAt: Date;
+}
+
+export interface CreateMutualMatchResult {
+  mutualMatch: MutualMatch;
+  created: boolean; // false when the pair was already matched
+}
+
+export interface MutualMatchRepository {
+  /**
+   * Create the match, flag both swipes as mutual and open the conversation in one
+   * transaction. Idempotent per pair: an existing match is returned unchanged.
+   */
+  createMutualMatch(request: CreateMutualMatchRequest): Promise<CreateMutualMatchResult>;
+  getMutualMatch(userId: string, otherUserId: string): Promise<MutualMatch | null>;
+  getMutualMatches(userId: string): Promise<MutualMatch[]>;
+
+  /**
+   * Deactivate active matches made before `matchedBefore` in which nobody has
+   * sent a message, together with their conversations. Returns the deactivated matches.
+   */
+  deactivateSilentMatches(matchedBefore: Date): Promise<MutualMatch[]>;
+}
+
 // Freemium matching controls
 export interface MatchingLimits {
   userId: string;
@@ -301,6 +388,13 @@ export interface MatchNotification {
   channels: ('push' | 'email' | 'in_app')[];
 }
 
+/**
+ * Delivers match notifications to their recipient
+ */
+export interface MatchNotifier {
+  notify(notification: MatchNotification): Promise<void>;
+}
+
 // Matching preferences and settings
 export interface MatchingSettings {
   userId: string;
@@ -384,11 +478,64 @@ export interface MatchingAlgorithmConfig {
     maxInactivity: number; // Maximum days inactive to consider
   };
   features: {
-    enableMachineLearning: boolean;
+    enableMachineLearning: boolean; // Score preference alignment with compatibilityModel
     enableCollaborativeFiltering: boolean;
     enableSeasonalAdjustments: boolean;
     enableLocationHistory: boolean;
   };
+  compatibilityModel?: CompatibilityModel; // Required when enableMachineLearning is on
+}
+
+// Logistic model over the preference category scores, fitted offline to swipe
+// and message outcomes. Predicts the chance of the outcome named by label.
+export interface CompatibilityModel {
+  label: 'like' | 'mutual' | 'conversation';
+  intercept: number;
+  weights: {
+    physical: number;
+    lifestyle: number;
+    social: number;
+    relationship: number;
+  };
+}
+
+// Stored algorithm versions. A version is never changed once saved, so
+// results scored by it stay comparable while newer versions roll out.
+export interface MatchingAlgorithmRepository {
+  getAlgorithm(version: string): Promise<MatchingAlgorithmConfig | null>;
+  listAlgorithms(): Promise<MatchingAlgorithmConfig[]>;
+  // Throws AlgorithmVersionExistsError if the version is already stored
+  saveAlgorithm(config: MatchingAlgorithmConfig): Promise<void>;
+}
+
+// Suggests candidates from other users' likes ("people who liked X also
+// liked Y") rather than from the searcher's own attributes
+export interface CollaborativeCandidateSource {
+  /**
+   * Best suggestions first, leaving out users the user already liked
+   */
+  recommend(userId: string, limit: number): Promise<CollaborativeCandidate[]>;
+
+  /**
+   * Scores for specific candidates; candidates with no signal score 0
+   */
+  scoreCandidates(userId: string, candidateIds: string[]): Promise<Map<string, number>>;
+}
+
+export interface CollaborativeCandidate {
+  userId: string;
+  score: number; // 0-1
+}
+
+// Chooses the algorithm version for a user's searches when the criteria don't
+// name one, e.g. to split traffic between experiment arms
+export interface AlgorithmAssigner {
+  assignAlgorithm(userId: string): Promise<string | null>; // null leaves the active version
+
+  /**
+   * Called with the matches a search returned to the user
+   */
+  recordExposure(userId: string, algorithmVersion: string, matches: MatchResult[]): Promise<void>;
 }
 
 // Location services configuration
@@ -404,6 +551,58 @@ export interface LocationConfig {
   interval: number; // location update interval in milliseconds
 }
 
+// Candidate sources
+export interface CandidatePageRequest {
+  userId: string; // The searching user, never returned as a candidate
+  limit: number;
+  cursor?: string;
+  criteria?: MatchingCriteria;
+}
+
+export interface CandidatePage {
+  candidates: UserProfile[];
+  nextCursor?: string; // Undefined once the source is exhausted
+}
+
+export interface CandidateSource {
+  /**
+   * Load a single profile (the searching user or a known candidate)
+   */
+  getProfile(userId: string): Promise<UserProfile | null>;
+
+  /**
+   * Load the next page of candidate profiles
+   */
+  getCandidates(request: CandidatePageRequest): Promise<CandidatePage>;
+}
+
+/**
+ * Where MatchingService keeps match queues and search cooldowns so they
+ * survive restarts and are shared between instances. Entries past their
+ * expiry are treated as missing.
+ */
+export interface MatchingStateStore {
+  getQueue(userId: string): Promise<MatchQueue | null>;
+  saveQueue(queue: MatchQueue, expiresAt: Date): Promise<void>;
+
+  /**
+   * Every unexpired queue
+   */
+  listQueues(): Promise<MatchQueue[]>;
+
+  /**
+   * When the user's cooldown ends, or null if they are not on one
+   */
+  getCooldown(userId: string): Promise<Date | null>;
+  setCooldown(userId: string, endsAt: Date): Promise<void>;
+  clearCooldown(userId: string): Promise<void>;
+
+  /**
+   * Every cooldown still running, keyed by user ID
+   */
+  listCooldowns(): Promise<Map<string, Date>>;
+}
+
 // API request/response types
 export interface GetMatchesRequest {
   criteria: MatchingCriteria;
@@ -432,10 +631,30 @@ export interface LikeProfileResponse {
   isMutualMatch: boolean;
   mutualMatch?: MutualMatch;
   limitsExceeded: boolean;
-  remainingLikes?: number;
+  remainingLikes?: number; // Super likes left for a super like; -1 for unlimited
+  queueExhausted?: boolean;
+  remainingInQueue?: number;
   message?: string;
 }
 
+export interface PassProfileRequest {
+  matchId: string;
+  targetUserId: string;
+}
+
+export interface PassProfileResponse {
+  success: boolean;
+  queueExhausted: boolean;
+  remainingInQueue: number;
+}
+
+export interface RewindResponse {
+  success: boolean;
+  targetUserId: string;
+  restoredMatch?: MatchResult; // Back at the front of the queue when it was still loaded
+  remainingRewinds: number; // -1 for unlimited
+}
+
 // Error types
 export interface MatchingError {
   code: string;
@@ -472,6 +691,34 @@ export class MatchingLimitExceededError extends Error {
   }
 }
 
+export class DuplicateInteractionError extends Error {
+  constructor(public userId: string, public targetUserId: string) {
+    super(`User ${userId} has already swiped on ${targetUserId}`);
+    this.name = 'DuplicateInteractionError';
+  }
+}
+
+export class InvalidPageTokenError extends Error {
+  constructor(public reason: 'malformed' | 'bad_signature' | 'expired' | 'criteria_changed' | 'wrong_user') {
+    super(`Invalid page token (${reason}). Start a new discovery session.`);
+    this.name = 'InvalidPageTokenError';
+  }
+}
+
+export class UnknownAlgorithmVersionError extends Error {
+  constructor(public version: string) {
+    super(`Unknown matching algorithm version: ${version}`);
+    this.name = 'UnknownAlgorithmVersionError';
+  }
+}
+
+export class AlgorithmVersionExistsError extends Error {
+  constructor(public version: string) {
+    super(`Matching algorithm version ${version} already exists`);
+    this.name = 'AlgorithmVersionExistsError';
+  }
+}
+
 export class NoMatchesFoundError extends Error {
   constructor(message: string = 'No matches found with current criteria') {
     super(message);
@@ -548,7 +795,14 @@ export interface MatchExplanation {
   compatibilityHighlights: string[];
   potentialConcerns: string[];
   overallAssessment: 'excellent' | 'very_good' | 'good' | 'fair';
-  recommendationStrength: number; // 0-1
+  recommendationStrength: number; // 0-1, reciprocal score
+  forward: MatchDirectionExplanation; // How well they fit the user
+  backward: MatchDirectionExplanation; // How well the user fits them
+}
+
+export interface MatchDirectionExplanation {
+  score: number; // 0-1
+  triggeredDealBreakers: string[];
 }
 
 export interface PreferenceMatchAnalytics {
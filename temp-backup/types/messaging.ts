@@ -0,0 +1,162 @@
+/**
+ * Messaging Types
+ * Epic 004: Communication Features
+ *
+ * Conversations between matched users and the messages sent within them
+ */
+
+// Message content types (messages.message_type)
+export type MessageType = 'text' | 'image' | 'video' | 'audio' | 'gif';
+
+export interface MessageMetadata {
+  url?: string;
+  thumbnailUrl?: string;
+  mimeType?: string;
+  width?: number;
+  height?: number;
+  durationSeconds?: number;
+  fileSize?: number;
+  editedAt?: Date;
+  [key: string]: any;
+}
+
+export interface Message {
+  id: string;
+  conversationId: string;
+  senderId: string;
+  content: string | null; // Cleared once the message is deleted
+  type: MessageType;
+  metadata?: MessageMetadata;
+  isRead: boolean;
+  isDeleted: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface Conversation {
+  id: string;
+  matchId: string;
+  isActive: boolean;
+  lastMessageAt?: Date;
+  createdAt: Date;
+}
+
+// Subset of the matches row that messaging depends on
+export interface MatchRecord {
+  id: string;
+  user1Id: string;
+  user2Id: string;
+  matchedAt: Date;
+  isActive: boolean;
+  lastMessageAt?: Date;
+}
+
+// API interfaces
+export interface SendMessageRequest {
+  conversationId: string;
+  type?: MessageType; // Defaults to 'text'
+  content?: string;
+  metadata?: MessageMetadata;
+}
+
+export interface MessagePageRequest {
+  cursor?: string; // Opaque cursor from a previous page
+  limit?: number;
+}
+
+export interface MessagePage {
+  messages: Message[]; // Newest first
+  nextCursor?: string; // Undefined once the start of the conversation is reached
+}
+
+export interface ReadReceipt {
+  conversationId: string;
+  readerId: string;
+  messageIds: string[];
+  readAt: Date;
+}
+
+// Transport (storage + change feed) used by MessagingService
+// Position of a message in (createdAt, id) order
+export interface MessageKey {
+  createdAt: Date;
+  id: string;
+}
+
+export interface MessageListOptions {
+  limit: number;
+  before?: MessageKey;
+}
+
+export interface MessagingTransport {
+  getMatch(matchId: string): Promise<MatchRecord | null>;
+  updateMatchLastMessageAt(matchId: string, lastMessageAt: Date): Promise<void>;
+
+  getConversation(conversationId: string): Promise<Conversation | null>;
+  getConversationByMatchId(matchId: string): Promise<Conversation | null>;
+
+  /**
+   * Create a conversation for a match, or return the existing one
+   */
+  createConversation(matchId: string): Promise<Conversation>;
+  updateConversationLastMessageAt(conversationId: string, lastMessageAt: Date): Promise<void>;
+
+  insertMessage(message: Omit<Message, 'id' | 'createdAt' | 'updatedAt'>): Promise<Message>;
+  getMessage(messageId: string): Promise<Message | null>;
+  updateMessage(messageId: string, updates: Partial<Pick<Message, 'content' | 'metadata' | 'isDeleted'>>): Promise<Message>;
+
+  /**
+   * List messages newest first, strictly older than `before` when given
+   */
+  listMessages(conversationId: string, options: MessageListOptions): Promise<Message[]>;
+
+  /**
+   * Mark unread messages not sent by the reader as read, up to and including
+   * `upTo` when given; returns the IDs marked
+   */
+  markMessagesRead(conversationId: string, readerId: string, upTo?: MessageKey): Promise<string[]>;
+  countUnreadMessages(conversationId: string, readerId: string): Promise<number>;
+
+  /**
+   * Subscribe to newly created matches rows; returns an unsubscribe function
+   */
+  onMatchCreated(handler: (match: MatchRecord) => void): () => void;
+}
+
+// Error types
+export interface MessagingErrorDetail {
+  code: string;
+  message: string;
+  field?: string;
+}
+
+export class MessageValidationError extends Error {
+  constructor(
+    public errors: MessagingErrorDetail[],
+    message: string = 'Message validation failed'
+  ) {
+    super(message);
+    this.name = 'MessageValidationError';
+  }
+}
+
+export class ConversationNotFoundError extends Error {
+  constructor(conversationId: string) {
+    super(`Conversation not found: ${conversationId}`);
+    this.name = 'ConversationNotFoundError';
+  }
+}
+
+export class MessageNotFoundError extends Error {
+  constructor(messageId: string) {
+    super(`Message not found: ${messageId}`);
+    this.name = 'MessageNotFoundError';
+  }
+}
+
+export class MessagingPermissionError extends Error {
+  constructor(action: string, resourceId: string) {
+    super(`Permission denied for action '${action}' on ${resourceId}`);
+    this.name = 'MessagingPermissionError';
+  }
+}
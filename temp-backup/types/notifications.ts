@@ -0,0 +1,121 @@
+/**
+ * Notification Types
+ * Epic 003: Matching System
+ *
+ * Scheduling, batching and multi-channel delivery of match notifications
+ */
+
+import { MatchingSettings, MatchNotification } from './matching';
+
+export type NotificationType = MatchNotification['type'];
+
+export type NotificationChannel = MatchNotification['channels'][number];
+
+export type NotificationSettings = MatchingSettings['notificationSettings'];
+
+// Hours in the user's local time. The window may wrap past midnight (e.g. 22 -> 7).
+export interface QuietHours {
+  startHour: number; // 0-23
+  endHour: number; // 0-23, exclusive
+  utcOffsetMinutes: number;
+}
+
+export interface NotificationPreferences {
+  userId: string;
+  settings: NotificationSettings;
+  quietHours?: QuietHours;
+}
+
+export interface NotificationDeliveryResult {
+  channel: NotificationChannel;
+  delivered: boolean;
+  error?: string;
+}
+
+export interface NotificationDelivery extends NotificationDeliveryResult {
+  attemptedAt: Date;
+}
+
+// A MatchNotification as it moves through the dispatch queue
+export interface QueuedNotification extends MatchNotification {
+  attempts: number; // Failed delivery rounds so far
+  nextAttemptAt: Date;
+  deliveries: NotificationDelivery[]; // Latest result per channel
+  batchKey?: string; // Pending notifications with the same key are merged
+  batchCount: number;
+  deliveredAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type NotificationUpdate = Partial<Pick<QueuedNotification,
+  | 'title'
+  | 'body'
+  | 'data'
+  | 'priority'
+  | 'channels'
+  | 'status'
+  | 'attempts'
+  | 'nextAttemptAt'
+  | 'deliveries'
+  | 'batchCount'
+  | 'sentAt'
+  | 'deliveredAt'
+>> & { updatedAt: Date };
+
+export interface DispatchSummary {
+  processed: number;
+  sent: number;
+  retrying: number;
+  failed: number;
+  deferred: number; // Held back by quiet hours or rate limits
+  cancelled: number;
+}
+
+/**
+ * Delivers notifications over one channel (push, email, in-app)
+ */
+export interface NotificationChannelAdapter {
+  readonly channel: NotificationChannel;
+  send(notification: QueuedNotification): Promise<NotificationDeliveryResult>;
+}
+
+// Persistence
+export interface NotificationRepository {
+  createNotification(notification: QueuedNotification): Promise<QueuedNotification>;
+  getNotification(notificationId: string): Promise<QueuedNotification | null>;
+  updateNotification(notificationId: string, updates: NotificationUpdate): Promise<QueuedNotification>;
+
+  /**
+   * Pending notifications whose next attempt is due at or before `dueBy`, oldest first
+   */
+  listDueNotifications(dueBy: Date, limit: number): Promise<QueuedNotification[]>;
+
+  /**
+   * The pending notification collecting a batch for the user, if any
+   */
+  findPendingBatch(userId: string, batchKey: string): Promise<QueuedNotification | null>;
+
+  /**
+   * Notifications sent to the user at or after `since`
+   */
+  countSentSince(userId: string, since: Date): Promise<number>;
+
+  getPreferences(userId: string): Promise<NotificationPreferences | null>;
+  savePreferences(preferences: NotificationPreferences): Promise<void>;
+}
+
+// Error types
+export class NotificationValidationError extends Error {
+  constructor(message: string, public field?: string) {
+    super(message);
+    this.name = 'NotificationValidationError';
+  }
+}
+
+export class NotificationNotFoundError extends Error {
+  constructor(notificationId: string) {
+    super(`Notification not found: ${notificationId}`);
+    this.name = 'NotificationNotFoundError';
+  }
+}
@@ -164,7 +164,7 @@ export interface UserProfile {
     isBanned: boolean;
     banReason?: string;
     banExpiresAt?: Date;
-    trustScore: number;
+    trustScore: number; // 0-100, like profiles.trust_score
   };
 }
 
@@ -266,6 +266,50 @@ export interface ProfileValidationRules {
   };
 }
 
+// Persistence
+export interface ProfileListOptions {
+  limit: number;
+  afterUserId?: string; // Keyset cursor: return profiles ordered after this user ID
+  excludeUserIds?: string[];
+  ageRange?: {
+    min: number;
+    max: number;
+  };
+}
+
+export interface ProfileRepository {
+  /**
+   * Load a profile with its photos. Profiles are keyed by user ID.
+   */
+  getProfile(userId: string): Promise<UserProfile | null>;
+
+  /**
+   * Insert or update a profile with its preferences and visibility.
+   * Photos are managed separately and are not written by this call.
+   */
+  saveProfile(profile: UserProfile): Promise<void>;
+
+  /**
+   * List profiles ordered by user ID, one page at a time
+   */
+  listProfiles(options: ProfileListOptions): Promise<UserProfile[]>;
+
+  /**
+   * Photo records
+   */
+  getPhoto(photoId: string): Promise<ProfilePhoto | null>;
+  getUserPhotos(userId: string): Promise<ProfilePhoto[]>;
+  addPhoto(userId: string, photo: ProfilePhoto): Promise<void>;
+  updatePhoto(photo: ProfilePhoto): Promise<void>;
+  deletePhoto(photoId: string): Promise<void>;
+
+  /**
+   * Users a profile is explicitly hidden from
+   */
+  getHiddenFromUsers(userId: string): Promise<string[]>;
+  setHiddenFromUsers(userId: string, hiddenFromUserIds: string[]): Promise<void>;
+}
+
 // Error types
 export interface ProfileError {
   code: string;
@@ -0,0 +1,91 @@
+/**
+ * Realtime Types
+ * Epic 004: Communication Features
+ *
+ * Typed events delivered to a user over their realtime channel
+ */
+
+import { Message } from './messaging';
+
+// Event payloads
+export interface MatchEventPayload {
+  matchId: string;
+  otherUserId: string;
+  matchedAt: Date;
+  matchScore?: number;
+}
+
+export interface MessageEventPayload {
+  message: Message;
+}
+
+export interface TypingEventPayload {
+  conversationId: string;
+  userId: string; // Who is typing
+  isTyping: boolean;
+  sentAt: Date;
+}
+
+export interface NotificationEventPayload {
+  notificationId: string;
+  notificationType: string; // match_notifications.notification_type
+  matchId?: string;
+  data?: Record<string, any>;
+  isRead: boolean;
+  createdAt: Date;
+}
+
+export interface ProfileViewEventPayload {
+  notificationId: string;
+  viewerId: string;
+  viewedAt: Date;
+}
+
+export interface RealtimeEventMap {
+  match: MatchEventPayload;
+  message: MessageEventPayload;
+  typing: TypingEventPayload;
+  notification: NotificationEventPayload;
+  profile_view: ProfileViewEventPayload;
+}
+
+export type RealtimeEventType = keyof RealtimeEventMap;
+
+export interface RealtimeEvent<K extends RealtimeEventType = RealtimeEventType> {
+  id: string; // Stable per event; used to drop duplicate deliveries
+  type: K;
+  userId: string; // Recipient
+  payload: RealtimeEventMap[K];
+}
+
+// Union of every concrete event, so `event.type` narrows `event.payload`
+export type AnyRealtimeEvent = { [K in RealtimeEventType]: RealtimeEvent<K> }[RealtimeEventType];
+
+export type RealtimeEventListener<K extends RealtimeEventType> = (event: RealtimeEvent<K>) => void;
+
+// Connection state
+export type RealtimeTransportStatus = 'connected' | 'disconnected' | 'error';
+
+export type RealtimeConnectionStatus = 'connecting' | 'connected' | 'reconnecting' | 'closed';
+
+export interface RealtimeTransportHandlers {
+  onEvent(event: AnyRealtimeEvent): void;
+  onStatusChange(status: RealtimeTransportStatus, error?: Error): void;
+}
+
+export interface RealtimeConnection {
+  close(): void;
+}
+
+// Transport (change feed + broadcast) used by RealtimeHub
+export interface RealtimeTransport {
+  /**
+   * Open the single channel carrying every event for a user
+   */
+  connect(userId: string, handlers: RealtimeTransportHandlers): RealtimeConnection;
+
+  /**
+   * Deliver a typing indicator to another user's channel
+   */
+  sendTyping(recipientId: string, payload: TypingEventPayload): Promise<void>;
+}
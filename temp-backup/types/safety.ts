@@ -0,0 +1,230 @@
+/**
+ * Safety Types
+ * Epic 005: Safety & Security Features
+ *
+ * Date check-ins, emergency contacts, escalation when a user stops responding,
+ * and user reports with their moderation workflow
+ */
+
+import { GeoLocation } from './matching';
+
+// safety_checkins.checkin_type
+export type CheckinType = 'meeting_start' | 'meeting_end' | 'emergency';
+
+// 'scheduled' is stored as a NULL status until the user responds or misses the check-in
+export type CheckinStatus = 'scheduled' | 'safe' | 'unsafe' | 'no_response';
+
+export type CheckinResponse = Extract<CheckinStatus, 'safe' | 'unsafe'>;
+
+export interface SafetyCheckin {
+  id: string;
+  userId: string;
+  matchId?: string;
+  type: CheckinType;
+  status: CheckinStatus;
+  location?: GeoLocation; // Where the user was when they responded
+  scheduledTime: Date;
+  actualTime?: Date; // When the user responded
+  emergencyContactsNotified: boolean;
+  createdAt: Date;
+}
+
+export interface EmergencyContact {
+  id: string;
+  userId: string;
+  name: string;
+  phone: string;
+  email?: string;
+  relationship?: 'family' | 'friend' | 'partner';
+  isPrimary: boolean;
+  createdAt: Date;
+}
+
+// API interfaces
+export interface ScheduleDateCheckinsRequest {
+  userId: string;
+  matchId: string;
+  meetingStart: Date;
+  meetingEnd: Date;
+}
+
+export interface CheckinResponseRequest {
+  checkinId: string;
+  status: CheckinResponse;
+  location?: GeoLocation;
+}
+
+// Escalation
+export type EscalationReason = 'missed_checkin' | 'unsafe_response' | 'emergency';
+
+export type EmergencyChannel = 'sms' | 'email';
+
+export interface EmergencyAlert {
+  checkinId: string;
+  userId: string;
+  matchId?: string;
+  reason: EscalationReason;
+  contact: EmergencyContact;
+  location?: GeoLocation; // Last known location of the user
+  scheduledTime: Date;
+  message: string;
+}
+
+export interface EmergencyDeliveryResult {
+  channel: EmergencyChannel;
+  contactId: string;
+  delivered: boolean;
+  error?: string;
+}
+
+export interface EscalationResult {
+  checkinId: string;
+  reason: EscalationReason;
+  contact?: EmergencyContact;
+  location?: GeoLocation;
+  deliveries: EmergencyDeliveryResult[];
+  notified: boolean;
+}
+
+/**
+ * Delivers emergency alerts over one channel (SMS, email, ...)
+ */
+export interface EmergencyNotifier {
+  readonly channel: EmergencyChannel;
+
+  /**
+   * Whether this channel has a way to reach the contact
+   */
+  canReach(contact: EmergencyContact): boolean;
+  send(alert: EmergencyAlert): Promise<EmergencyDeliveryResult>;
+}
+
+// Persistence
+export interface SafetyRepository {
+  createCheckin(checkin: Omit<SafetyCheckin, 'id' | 'createdAt'>): Promise<SafetyCheckin>;
+  getCheckin(checkinId: string): Promise<SafetyCheckin | null>;
+  updateCheckin(
+    checkinId: string,
+    updates: Partial<Pick<SafetyCheckin, 'status' | 'location' | 'actualTime' | 'emergencyContactsNotified'>>
+  ): Promise<SafetyCheckin>;
+
+  /**
+   * Check-ins still awaiting a response that were scheduled at or before `dueBy`
+   */
+  listPendingCheckins(dueBy: Date): Promise<SafetyCheckin[]>;
+  listUserCheckins(userId: string): Promise<SafetyCheckin[]>;
+
+  getEmergencyContacts(userId: string): Promise<EmergencyContact[]>;
+  addEmergencyContact(contact: Omit<EmergencyContact, 'id' | 'createdAt'>): Promise<EmergencyContact>;
+
+  /**
+   * Make one contact the user's only primary contact
+   */
+  setPrimaryContact(userId: string, contactId: string): Promise<void>;
+}
+
+// Reporting and moderation (safety_reports)
+export type ReportType = 'harassment' | 'inappropriate_content' | 'fake_profile' | 'safety_concern';
+
+export type ReportStatus = 'pending' | 'investigating' | 'resolved' | 'dismissed';
+
+export type ReportPriority = 'low' | 'medium' | 'high' | 'critical';
+
+export interface SafetyReport {
+  id: string;
+  reporterId: string;
+  reportedUserId: string;
+  type: ReportType;
+  description: string;
+  evidenceUrls: string[];
+  status: ReportStatus;
+  priority: ReportPriority;
+  assignedTo?: string; // Moderator ID
+  resolutionNotes?: string;
+  createdAt: Date;
+  resolvedAt?: Date;
+}
+
+export interface SubmitReportRequest {
+  reportedUserId: string;
+  type: ReportType;
+  description: string;
+  evidenceUrls?: string[];
+}
+
+export interface BanRequest {
+  reason: string;
+  durationDays?: number; // Omit for a permanent ban
+}
+
+export interface ResolveReportRequest {
+  outcome: Extract<ReportStatus, 'resolved' | 'dismissed'>;
+  notes: string;
+  ban?: BanRequest; // Only applied when the report is upheld
+}
+
+export interface ReportFilter {
+  status?: ReportStatus[];
+  assignedTo?: string;
+  reporterId?: string;
+  reportedUserId?: string;
+  createdAfter?: Date;
+}
+
+export interface ReportUpdate {
+  status?: ReportStatus;
+  priority?: ReportPriority;
+  assignedTo?: string | null; // null unassigns
+  evidenceUrls?: string[];
+  resolutionNotes?: string;
+  resolvedAt?: Date;
+}
+
+export interface ReportRepository {
+  createReport(report: Omit<SafetyReport, 'id'>): Promise<SafetyReport>;
+  getReport(reportId: string): Promise<SafetyReport | null>;
+  updateReport(reportId: string, updates: ReportUpdate): Promise<SafetyReport>;
+  listReports(filter: ReportFilter): Promise<SafetyReport[]>;
+
+  /**
+   * Assign a pending, unassigned report to a moderator and move it to
+   * investigating. Returns null if someone else claimed it first.
+   */
+  claimReport(reportId: string, moderatorId: string): Promise<SafetyReport | null>;
+}
+
+// Error types
+export class SafetyValidationError extends Error {
+  constructor(message: string, public field?: string) {
+    super(message);
+    this.name = 'SafetyValidationError';
+  }
+}
+
+export class CheckinNotFoundError extends Error {
+  constructor(checkinId: string) {
+    super(`Safety check-in not found: ${checkinId}`);
+    this.name = 'CheckinNotFoundError';
+  }
+}
+
+export class ReportNotFoundError extends Error {
+  constructor(reportId: string) {
+    super(`Safety report not found: ${reportId}`);
+    this.name = 'ReportNotFoundError';
+  }
+}
+
+export class InvalidReportTransitionError extends Error {
+  constructor(public from: ReportStatus, public to: ReportStatus) {
+    super(`Cannot move report from '${from}' to '${to}'`);
+    this.name = 'InvalidReportTransitionError';
+  }
+}
+
+export class ReportPermissionError extends Error {
+  constructor(action: string, reportId: string) {
+    super(`Permission denied for action '${action}' on report ${reportId}`);
+    this.name = 'ReportPermissionError';
+  }
+}
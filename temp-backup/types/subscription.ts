@@ -0,0 +1,119 @@
+/**
+ * Subscription Types
+ * Epic 006: Premium Payment System
+ *
+ * Subscription plans, user subscriptions and the per-feature daily quotas
+ * that entitle users to likes, super likes, rewinds and boosts
+ */
+
+export type PlanTier = 'free' | 'premium' | 'vip';
+
+// Features with a daily allowance (-1 means unlimited). Stored as feature_usage.feature_name.
+export type QuotaFeature = 'daily_likes' | 'super_likes' | 'rewinds' | 'boosts';
+
+// Features that are either included in a plan or not
+export type PlanFlag =
+  | 'unlimited_likes'
+  | 'see_who_likes'
+  | 'premium_filters'
+  | 'priority_support'
+  | 'exclusive_matches';
+
+// subscription_plans.features
+export type PlanFeatures = Partial<Record<QuotaFeature, number>> & Partial<Record<PlanFlag, boolean>>;
+
+export type BillingCycle = 'monthly' | 'quarterly' | 'yearly';
+
+export interface SubscriptionPlan {
+  id: string;
+  name: string;
+  description?: string;
+  tier: PlanTier;
+  prices: Record<BillingCycle, number>;
+  stripePriceIds: Partial<Record<BillingCycle, string>>;
+  features: PlanFeatures;
+  isActive: boolean;
+}
+
+// user_subscriptions.status
+export type SubscriptionStatus = 'active' | 'canceled' | 'past_due' | 'unpaid';
+
+export interface UserSubscription {
+  id: string;
+  userId: string;
+  planId: string;
+  stripeCustomerId?: string;
+  stripeSubscriptionId?: string;
+  status: SubscriptionStatus;
+  billingCycle?: BillingCycle;
+  currentPeriodStart?: Date;
+  currentPeriodEnd?: Date;
+  trialStart?: Date;
+  trialEnd?: Date;
+  canceledAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * The plan a user is entitled to right now and why
+ */
+export interface ActiveEntitlement {
+  userId: string;
+  plan: SubscriptionPlan;
+  tier: PlanTier;
+  subscription?: UserSubscription; // Undefined when the user falls back to the free plan
+  isTrial: boolean;
+  expiresAt?: Date;
+}
+
+export interface FeatureQuota {
+  feature: QuotaFeature;
+  limit: number; // -1 for unlimited
+  used: number;
+  remaining: number; // -1 for unlimited
+  resetAt: Date;
+}
+
+// Persistence
+export interface ConsumeFeatureRequest {
+  userId: string;
+  feature: QuotaFeature;
+  amount: number;
+  limit: number; // -1 for unlimited
+  resetDate: string; // feature_usage.reset_date (YYYY-MM-DD, UTC)
+}
+
+export interface ConsumeFeatureResult {
+  allowed: boolean;
+  usageCount: number; // Usage for the day after the call, unchanged when not allowed
+}
+
+export interface EntitlementRepository {
+  getPlans(): Promise<SubscriptionPlan[]>;
+  getUserSubscriptions(userId: string): Promise<UserSubscription[]>;
+
+  /**
+   * Usage per feature for one reset period. Features without a row are omitted.
+   */
+  getFeatureUsage(userId: string, resetDate: string): Promise<Partial<Record<QuotaFeature, number>>>;
+
+  /**
+   * Add `amount` to the day's usage only if it stays within `limit`. The check
+   * and the increment must happen atomically so concurrent calls cannot overspend.
+   */
+  consumeFeature(request: ConsumeFeatureRequest): Promise<ConsumeFeatureResult>;
+
+  /**
+   * Give back usage consumed earlier in the same period (never below zero)
+   */
+  refundFeature(userId: string, feature: QuotaFeature, amount: number, resetDate: string): Promise<void>;
+}
+
+// Error types
+export class SubscriptionPlanNotFoundError extends Error {
+  constructor(planId: string) {
+    super(`Subscription plan not found: ${planId}`);
+    this.name = 'SubscriptionPlanNotFoundError';
+  }
+}
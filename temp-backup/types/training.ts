@@ -0,0 +1,77 @@
+/**
+ * Training Types
+ * Epic 003: Matching System
+ *
+ * Offline fitting of compatibility models to observed swipe and message outcomes
+ */
+
+import { CompatibilityModel, MatchingAlgorithmConfig } from './matching';
+
+export type TrainingLabel = CompatibilityModel['label'];
+
+// One swipe and how far it went
+export interface TrainingOutcome {
+  userId: string; // Who swiped
+  targetUserId: string;
+  liked: boolean; // Like or super like rather than pass
+  mutual: boolean; // The pair matched
+  messaged: boolean; // The match's conversation has at least one message
+  swipedAt: Date;
+}
+
+/**
+ * Reads swipes from user_interactions joined to matches and messages
+ */
+export interface TrainingOutcomeSource {
+  listOutcomes(since?: Date): Promise<TrainingOutcome[]>;
+}
+
+export interface TrainCompatibilityModelRequest {
+  version: string; // New MatchingAlgorithmConfig version to export the model as
+  baseVersion?: string; // Version the rest of the config is copied from; defaults to the active one
+  label?: TrainingLabel; // Outcome to predict (default: 'like')
+  since?: Date; // Only learn from swipes after this
+  register?: boolean; // Store the new version (default: true)
+}
+
+// Predictions in [lower, upper) against how often the outcome happened
+export interface CalibrationBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanPredicted: number;
+  observedRate: number;
+}
+
+export interface ModelEvaluation {
+  examples: number;
+  positives: number;
+  auc: number; // Area under the ROC curve
+  baselineAuc: number; // Same, ranking by the hand-tuned category weights
+  logLoss: number;
+  brierScore: number;
+  calibrationError: number; // Expected calibration error over the bins
+  calibration: CalibrationBin[];
+}
+
+export interface CompatibilityTrainingResult {
+  algorithm: MatchingAlgorithmConfig;
+  registered: boolean;
+  trainedAt: Date;
+  training: {
+    examples: number;
+    positives: number;
+    iterations: number;
+    converged: boolean;
+  };
+  holdout: ModelEvaluation; // Users held out of fitting
+  skippedOutcomes: number; // Swipes whose profiles could not be loaded
+}
+
+// Error types
+export class TrainingDataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TrainingDataError';
+  }
+}